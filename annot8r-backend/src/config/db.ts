@@ -5,6 +5,8 @@ import type { Env } from "../types/index.js";
 let client: MongoClient | null = null;
 let database: Db | null = null;
 let connected = false;
+// Connection in progress, shared by concurrent callers
+let connecting: Promise<Db> | null = null;
 
 // Initialize MongoDB connection
 export const db = {
@@ -13,24 +15,31 @@ export const db = {
    */
   connect: async (env: Env): Promise<Db> => {
     if (database) return database;
+    if (connecting) return connecting;
 
-    try {
-      console.log("🔄 Connecting to MongoDB...");
-      client = new MongoClient(env.MONGODB_URI);
-      await client.connect();
-      database = client.db();
+    connecting = (async () => {
+      try {
+        console.log("🔄 Connecting to MongoDB...");
+        client = new MongoClient(env.MONGODB_URI);
+        await client.connect();
+        database = client.db();
 
-      // Test connection with a simple command
-      await database.command({ ping: 1 });
-      connected = true;
-      console.log("✅ MongoDB connection established successfully");
+        // Test connection with a simple command
+        await database.command({ ping: 1 });
+        connected = true;
+        console.log("✅ MongoDB connection established successfully");
 
-      return database;
-    } catch (error) {
-      console.error("❌ MongoDB connection error:", error);
-      connected = false;
-      throw error;
-    }
+        return database;
+      } catch (error) {
+        console.error("❌ MongoDB connection error:", error);
+        connected = false;
+        throw error;
+      } finally {
+        connecting = null;
+      }
+    })();
+
+    return connecting;
   },
 
   /**
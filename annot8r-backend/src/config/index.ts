@@ -9,6 +9,9 @@ export { db, s3 };
 // Constants
 export const JWT_EXPIRY = 30 * 60 * 1000; // 30 minutes in milliseconds
 export const IMAGE_TOKEN_EXPIRY = 30 * 60 * 1000; // 15 minutes in milliseconds
+export const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg"; // Used for video frame extraction
+export const MAX_VIDEO_FRAMES = 2000; // Frames extracted from one video at most
+export const EXPORT_SCHEDULER_INTERVAL = 60 * 1000; // How often due export schedules are checked
 
 // Helper function to validate environment variables
 export function validateEnv(env: Partial<Env>): env is Env {
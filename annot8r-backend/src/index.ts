@@ -4,6 +4,7 @@ import { cors } from 'hono/cors';
 import dotenv from "dotenv";
 import { db, s3, validateEnv } from "./config/index.js";
 import { apiRouter } from "./routes/index.js";
+import { services } from "./services/index.js";
 import type { HonoContext, Env } from "./types/index.js";
 
 // Load environment variables
@@ -146,9 +147,27 @@ serve(
   }
 );
 
+// Start the export scheduler. It connects on its own, since requests only
+// connect when the first one arrives.
+const startExportScheduler = async () => {
+  try {
+    if (validateEnv(environment)) {
+      await db.connect(environment);
+      await s3.initialize(environment);
+      services.exportSchedules().start(environment.S3_BUCKET);
+      console.log("⏰ Export scheduler started");
+    }
+  } catch (error) {
+    console.error("❌ Export scheduler could not start:", error);
+  }
+};
+
+startExportScheduler();
+
 // Handle shutdown
 process.on("SIGINT", async () => {
   console.log("\n🛑 Shutting down server...");
+  services.exportSchedules().stop();
   await db.close();
   console.log("👋 Server stopped gracefully");
   process.exit(0);
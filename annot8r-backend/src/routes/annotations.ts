@@ -6,17 +6,187 @@ import type {
   HonoContext,
   SaveAnnotationRequest,
   AutosaveAnnotationRequest,
+  ImageLabelSet,
+  ImageLabelValue,
+  Project,
 } from "../types/index.js";
 import { services } from "../services/index.js";
 import { response } from "../utils/response.js";
 import { authenticate, requireOfficeUser } from "../middleware/index.js";
 import { validation } from "../utils/validation.js";
+import { classAttributes } from "../utils/class-attributes.js";
+import { maskFormat } from "../utils/mask-format.js";
 import { z } from "zod";
-import { UserRole } from "../types/index.js";
+import {
+  AnnotationObjectType,
+  ImageLabelSetType,
+  KeypointVisibility,
+  UserRole,
+} from "../types/index.js";
 import { db } from "../config/db.js";
 
 const annotationRouter = new Hono<HonoContext>();
 
+// Schema for a single annotated object (box, rotated box, polygon or polyline, optionally with keypoints and a track)
+const annotationObjectSchema = z
+  .object({
+    type: z.nativeEnum(AnnotationObjectType).optional(),
+    x: z.number().min(0).max(1),
+    y: z.number().min(0).max(1),
+    width: z.number().min(0).max(1),
+    height: z.number().min(0).max(1),
+    angle: z.number().min(-180).max(180).optional(),
+    points: z
+      .array(
+        z.object({
+          x: z.number().min(0).max(1),
+          y: z.number().min(0).max(1),
+        })
+      )
+      .optional(),
+    keypoints: z
+      .array(
+        z.object({
+          x: z.number().min(0).max(1),
+          y: z.number().min(0).max(1),
+          visibility: z.nativeEnum(KeypointVisibility),
+        })
+      )
+      .optional(),
+    attributes: z
+      .record(z.union([z.string(), z.number(), z.boolean()]))
+      .optional(),
+    trackId: z.number().int().min(1).optional(),
+    keyframe: z.boolean().optional(),
+  })
+  .refine(
+    (obj) =>
+      obj.type !== AnnotationObjectType.POLYGON ||
+      (obj.points !== undefined && obj.points.length >= 3),
+    { message: "Polygons must have at least 3 points", path: ["points"] }
+  )
+  .refine(
+    (obj) =>
+      obj.type !== AnnotationObjectType.POLYLINE ||
+      (obj.points !== undefined && obj.points.length >= 2),
+    { message: "Polylines must have at least 2 points", path: ["points"] }
+  )
+  .refine(
+    (obj) =>
+      obj.type === AnnotationObjectType.POLYGON ||
+      obj.type === AnnotationObjectType.POLYLINE ||
+      !obj.angle ||
+      (obj.points !== undefined && obj.points.length === 4),
+    {
+      message: "Rotated boxes must include their 4 corner points",
+      path: ["points"],
+    }
+  );
+
+// Schema for the image-level labels picked for an image
+const imageLabelsSchema = z.array(
+  z.object({
+    setId: z.string(),
+    values: z.array(z.string()),
+  })
+);
+
+// Schema for the run-length encoded segmentation mask of an image
+const maskSchema = z
+  .object({
+    width: z.number().int().positive(),
+    height: z.number().int().positive(),
+    classes: z.array(
+      z.object({
+        classId: z.string(),
+        counts: z.array(z.number().int().min(0)),
+      })
+    ),
+  })
+  .refine((mask) => maskFormat.validate(mask) === null, {
+    message: "Mask runs must cover every pixel once, with one entry per class",
+    path: ["classes"],
+  });
+
+/**
+ * Check picked image labels against the image label sets of the project
+ */
+const validateImageLabels = (
+  labelSets: ImageLabelSet[],
+  imageLabels: ImageLabelValue[]
+): void => {
+  for (const label of imageLabels) {
+    const labelSet = labelSets.find((set) => set.id === label.setId);
+    if (!labelSet) {
+      throw new HTTPException(400, {
+        message: `Unknown image label set: ${label.setId}`,
+      });
+    }
+
+    if (labelSet.type === ImageLabelSetType.SINGLE && label.values.length > 1) {
+      throw new HTTPException(400, {
+        message: `Only one label can be picked for "${labelSet.name}"`,
+      });
+    }
+
+    const unknownValue = label.values.find(
+      (value) => !labelSet.options.includes(value)
+    );
+    if (unknownValue !== undefined) {
+      throw new HTTPException(400, {
+        message: `"${unknownValue}" is not an option of "${labelSet.name}"`,
+      });
+    }
+  }
+};
+
+/**
+ * Check image labels, object attributes and mask classes of a save request
+ * against the project configuration. Required attributes are only enforced
+ * on final saves.
+ */
+const validateAgainstProject = async (
+  projectId: string,
+  body: SaveAnnotationRequest | AutosaveAnnotationRequest,
+  requireAll: boolean
+): Promise<void> => {
+  const project = await db
+    .getDb()
+    .collection<Project>("projects")
+    .findOne({ _id: new ObjectId(projectId) });
+
+  if (body.imageLabels) {
+    validateImageLabels(project?.imageLabelSets || [], body.imageLabels);
+  }
+
+  const unknownMaskClass = body.mask?.classes.find(
+    (maskClass) =>
+      !project?.classes.some((cls) => cls.id === maskClass.classId)
+  );
+  if (unknownMaskClass) {
+    throw new HTTPException(400, {
+      message: `Unknown mask class: ${unknownMaskClass.classId}`,
+    });
+  }
+
+  body.objects.forEach((obj, index) => {
+    const projectClass = project?.classes.find(
+      (cls) => cls.id === body.classIds[index]
+    );
+    const error = classAttributes.validate(
+      obj.attributes || {},
+      projectClass?.attributes || [],
+      requireAll
+    );
+
+    if (error) {
+      throw new HTTPException(400, {
+        message: `Object ${index + 1} (${body.classNames[index]}): ${error}`,
+      });
+    }
+  });
+};
+
 // Apply authentication to all routes
 annotationRouter.use("*", authenticate);
 
@@ -67,18 +237,13 @@ annotationRouter.post("/", async (c) => {
   }
 
   const schema = z.object({
-    objects: z.array(
-      z.object({
-        x: z.number().min(0).max(1),
-        y: z.number().min(0).max(1),
-        width: z.number().min(0).max(1),
-        height: z.number().min(0).max(1),
-      })
-    ),
+    objects: z.array(annotationObjectSchema),
     classIds: z.array(z.string()),
     classNames: z.array(z.string()),
     timeSpent: z.number().int().min(0),
     autoAnnotated: z.boolean(),
+    imageLabels: imageLabelsSchema.optional(),
+    mask: maskSchema.optional(),
   });
 
   const body = await c.req.json<SaveAnnotationRequest>();
@@ -94,6 +259,8 @@ annotationRouter.post("/", async (c) => {
     });
   }
 
+  await validateAgainstProject(projectId, body, true);
+
   // Save the annotation
   const annotation = await services
     .annotations()
@@ -111,6 +278,8 @@ annotationRouter.post("/", async (c) => {
         id: annotation._id.toString(),
         version: annotation.version,
         objects: annotation.objects,
+        imageLabels: annotation.imageLabels || [],
+        mask: annotation.mask || null,
         timeSpent: annotation.timeSpent,
         autoAnnotated: annotation.autoAnnotated,
         updatedAt: annotation.updatedAt,
@@ -167,17 +336,12 @@ annotationRouter.patch("/autosave", async (c) => {
   }
 
   const schema = z.object({
-    objects: z.array(
-      z.object({
-        x: z.number().min(0).max(1),
-        y: z.number().min(0).max(1),
-        width: z.number().min(0).max(1),
-        height: z.number().min(0).max(1),
-      })
-    ),
+    objects: z.array(annotationObjectSchema),
     classIds: z.array(z.string()),
     classNames: z.array(z.string()),
     timeSpent: z.number().int().min(0),
+    imageLabels: imageLabelsSchema.optional(),
+    mask: maskSchema.optional(),
   });
 
   const body = await c.req.json<AutosaveAnnotationRequest>();
@@ -193,6 +357,8 @@ annotationRouter.patch("/autosave", async (c) => {
     });
   }
 
+  await validateAgainstProject(projectId, body, false);
+
   // Auto-save the annotation
   await services
     .annotations()
@@ -272,10 +438,18 @@ annotationRouter.get("/", async (c) => {
     .annotations()
     .getAnnotation(projectId, imageId, currentUser._id.toString(), isAdmin);
 
+  // Frames of a sequence tell the editor where they are, for tracking
+  const sequence = image.sequenceId
+    ? { id: image.sequenceId.toString(), frameIndex: image.frameIndex }
+    : null;
+
   if (!annotation) {
     return c.json(
       response.success({
         objects: [],
+        imageLabels: [],
+        mask: null,
+        sequence,
         timeSpent: 0,
         autoAnnotated: false,
       })
@@ -287,6 +461,9 @@ annotationRouter.get("/", async (c) => {
       id: annotation._id.toString(),
       version: annotation.version,
       objects: annotation.objects,
+      imageLabels: annotation.imageLabels || [],
+      mask: annotation.mask || null,
+      sequence,
       timeSpent: annotation.timeSpent,
       autoAnnotated: annotation.autoAnnotated,
       updatedAt: annotation.updatedAt,
@@ -0,0 +1,168 @@
+// src/routes/dataset-versions.ts
+import { Hono } from "hono";
+import { HTTPException } from "hono/http-exception";
+import { ObjectId } from "mongodb";
+import type {
+  HonoContext,
+  CreateDatasetVersionRequest,
+  DatasetVersion,
+} from "../types/index.js";
+import { services } from "../services/index.js";
+import { response } from "../utils/response.js";
+import { authenticate, requireRoles } from "../middleware/index.js";
+import { validation } from "../utils/validation.js";
+import { z } from "zod";
+import { UserRole } from "../types/index.js";
+
+const datasetVersionRouter = new Hono<HonoContext>();
+
+// Apply authentication and admin access to all routes
+datasetVersionRouter.use("*", authenticate);
+datasetVersionRouter.use(
+  "*",
+  requireRoles([UserRole.ADMIN, UserRole.SUPER_ADMIN])
+);
+
+/**
+ * Format a version for responses
+ */
+const formatVersion = (version: DatasetVersion) => ({
+  id: version._id.toString(),
+  name: version.name,
+  description: version.description,
+  totalImages: version.totalImages,
+  totalObjects: version.totalObjects,
+  createdAt: version.createdAt,
+});
+
+/**
+ * @route POST /api/v1/projects/:projectId/versions
+ * @desc Freeze the approved images of a project into a named version
+ * @access Admin, Super Admin
+ */
+datasetVersionRouter.post("/", async (c) => {
+  const project = c.get("project");
+  if (!project) {
+    throw new HTTPException(404, { message: "Project not found" });
+  }
+
+  const currentUser = c.get("user");
+  if (!currentUser) {
+    throw new HTTPException(401, { message: "User not authenticated" });
+  }
+
+  const schema = z.object({
+    name: z.string().trim().min(1).max(100),
+    description: z.string().max(500).optional(),
+  });
+
+  const body = await c.req.json<CreateDatasetVersionRequest>();
+  validation.schema(schema, body);
+
+  try {
+    const version = await services
+      .datasetVersions()
+      .createVersion(
+        project._id.toString(),
+        { name: body.name.trim(), description: body.description },
+        currentUser._id
+      );
+
+    return c.json(
+      response.success(formatVersion(version), "Version created successfully"),
+      201
+    );
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new HTTPException(400, { message: error.message });
+    }
+    throw error;
+  }
+});
+
+/**
+ * @route GET /api/v1/projects/:projectId/versions
+ * @desc List the versions of a project
+ * @access Admin, Super Admin
+ */
+datasetVersionRouter.get("/", async (c) => {
+  const project = c.get("project");
+  if (!project) {
+    throw new HTTPException(404, { message: "Project not found" });
+  }
+
+  const versions = await services
+    .datasetVersions()
+    .getProjectVersions(project._id.toString());
+
+  return c.json(response.success({ versions: versions.map(formatVersion) }));
+});
+
+/**
+ * @route GET /api/v1/projects/:projectId/versions/diff?from=&to=
+ * @desc Compare two versions, listing the images and objects added,
+ * removed or changed from one to the other
+ * @access Admin, Super Admin
+ */
+datasetVersionRouter.get("/diff", async (c) => {
+  const project = c.get("project");
+  if (!project) {
+    throw new HTTPException(404, { message: "Project not found" });
+  }
+
+  const from = c.req.query("from") || "";
+  const to = c.req.query("to") || "";
+  validation.objectId(from, "from");
+  validation.objectId(to, "to");
+
+  try {
+    const diff = await services
+      .datasetVersions()
+      .diffVersions(project._id.toString(), from, to);
+
+    return c.json(response.success(diff));
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new HTTPException(404, { message: error.message });
+    }
+    throw error;
+  }
+});
+
+/**
+ * @route GET /api/v1/projects/:projectId/versions/:versionId
+ * @desc Get a version with the images it contains
+ * @access Admin, Super Admin
+ */
+datasetVersionRouter.get("/:versionId", async (c) => {
+  const project = c.get("project");
+  if (!project) {
+    throw new HTTPException(404, { message: "Project not found" });
+  }
+
+  const versionId = c.req.param("versionId");
+  validation.objectId(versionId, "versionId");
+
+  const version = await services.datasetVersions().findOne({
+    _id: new ObjectId(versionId),
+    projectId: project._id,
+  });
+  if (!version) {
+    throw new HTTPException(404, { message: "Version not found" });
+  }
+
+  const images = await services.datasetVersions().getVersionImages(versionId);
+
+  return c.json(
+    response.success({
+      ...formatVersion(version),
+      images: images.map((image) => ({
+        imageId: image.imageId.toString(),
+        filename: image.filename,
+        objectCount: image.annotation.objects.length,
+      })),
+    })
+  );
+});
+
+export { datasetVersionRouter };
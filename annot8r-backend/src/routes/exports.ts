@@ -1,17 +1,32 @@
 // src/routes/exports.ts
 import { Hono } from "hono";
 import { HTTPException } from "hono/http-exception";
+import { ObjectId } from "mongodb";
 import type {
   HonoContext,
   CreateExportRequest,
+  CreateExportScheduleRequest,
+  ExportFilters,
+  ExportSchedule,
+  ExportSplit,
+  ExportTiling,
+  ExportAugmentation,
+  Project,
   ProjectExport,
+  UpdateExportScheduleRequest,
 } from "../types/index.js";
 import { services } from "../services/index.js";
 import { response } from "../utils/response.js";
 import { authenticate, requireRoles } from "../middleware/index.js";
 import { validation } from "../utils/validation.js";
+import { cronSchedule } from "../utils/cron-schedule.js";
 import { z } from "zod";
-import { UserRole } from "../types/index.js";
+import {
+  AnnotationSource,
+  ExportFormat,
+  ReviewStatus,
+  UserRole,
+} from "../types/index.js";
 import { db } from "../config/db.js";
 
 const exportRouter = new Hono<HonoContext>();
@@ -20,6 +35,158 @@ const exportRouter = new Hono<HonoContext>();
 exportRouter.use("*", authenticate);
 exportRouter.use("*", requireRoles([UserRole.ADMIN, UserRole.SUPER_ADMIN]));
 
+// Schema for the options shared by exports and export schedules
+const exportOptionsSchema = z.object({
+  format: z.nativeEnum(ExportFormat),
+  includesImages: z.boolean(),
+  onlyReviewedAnnotations: z.boolean(),
+  taxonomyLevel: z.number().int().min(0).optional(),
+  split: z
+    .object({
+      train: z.number().min(0).max(1),
+      val: z.number().min(0).max(1),
+      test: z.number().min(0).max(1),
+      seed: z.number().int().min(0),
+    })
+    .refine((split) => split.train > 0 && split.val > 0, {
+      message: "Train and validation splits must not be empty",
+    })
+    .refine(
+      (split) => Math.abs(split.train + split.val + split.test - 1) < 0.001,
+      { message: "Split ratios must add up to 1" }
+    )
+    .optional(),
+  tiling: z
+    .object({
+      size: z.number().int().min(64).max(8192),
+      overlap: z.number().min(0).max(0.9),
+      minVisibility: z.number().min(0).max(1),
+    })
+    .optional(),
+  augmentation: z
+    .object({
+      copies: z.number().int().min(1).max(10),
+      flipHorizontal: z.boolean(),
+      flipVertical: z.boolean(),
+      rotate90: z.boolean(),
+      brightness: z.number().min(0).max(0.9),
+      contrast: z.number().min(0).max(0.9),
+      resize: z
+        .object({
+          width: z.number().int().min(32).max(8192),
+          height: z.number().int().min(32).max(8192),
+          letterbox: z.boolean(),
+        })
+        .optional(),
+      seed: z.number().int().min(0),
+    })
+    .optional(),
+  filters: z
+    .object({
+      classIds: z.array(z.string()).optional(),
+      annotatorIds: z.array(z.string().regex(/^[0-9a-fA-F]{24}$/)).optional(),
+      annotatedFrom: z.string().datetime({ offset: true }).optional(),
+      annotatedTo: z.string().datetime({ offset: true }).optional(),
+      source: z.nativeEnum(AnnotationSource).optional(),
+      reviewStatuses: z.array(z.nativeEnum(ReviewStatus)).optional(),
+    })
+    .refine(
+      (filters) =>
+        !filters.annotatedFrom ||
+        !filters.annotatedTo ||
+        new Date(filters.annotatedFrom) <= new Date(filters.annotatedTo),
+      { message: "Date range must not end before it starts" }
+    )
+    .optional(),
+});
+
+// Schema for an export schedule
+const exportScheduleSchema = exportOptionsSchema.extend({
+  name: z.string().trim().min(1).max(100),
+  cron: z.string().refine((cron) => cronSchedule.isValid(cron), {
+    message: "Invalid schedule, expected 5 cron fields",
+  }),
+  retention: z.number().int().min(1).max(100),
+  enabled: z.boolean().optional(),
+});
+
+/**
+ * Check the export options that depend on each other or on the project
+ */
+const checkExportOptions = (
+  project: Project,
+  options: {
+    format?: ExportFormat;
+    onlyReviewedAnnotations?: boolean;
+    includesImages?: boolean;
+    split?: ExportSplit;
+    tiling?: ExportTiling;
+    augmentation?: ExportAugmentation;
+    filters?: Pick<ExportFilters, "classIds" | "reviewStatuses">;
+  }
+) => {
+  const unknownClassId = options.filters?.classIds?.find(
+    (classId) => !project.classes.some((cls) => cls.id === classId)
+  );
+  if (unknownClassId) {
+    throw new HTTPException(400, {
+      message: `Unknown class: ${unknownClassId}`,
+    });
+  }
+
+  if (
+    options.onlyReviewedAnnotations &&
+    options.filters?.reviewStatuses?.length
+  ) {
+    throw new HTTPException(400, {
+      message:
+        "Review states can't be filtered when only exporting reviewed annotations",
+    });
+  }
+
+  if (
+    options.split &&
+    options.format !== ExportFormat.YOLO &&
+    options.format !== ExportFormat.YOLO_OBB
+  ) {
+    throw new HTTPException(400, {
+      message: "Train/val/test splits are only available for YOLO exports",
+    });
+  }
+
+  if (options.tiling) {
+    if (
+      options.format !== ExportFormat.YOLO &&
+      options.format !== ExportFormat.YOLO_OBB
+    ) {
+      throw new HTTPException(400, {
+        message: "Tiling is only available for YOLO exports",
+      });
+    }
+    if (options.includesImages === false) {
+      throw new HTTPException(400, {
+        message: "Tiled exports must include images",
+      });
+    }
+  }
+
+  if (options.augmentation) {
+    if (
+      options.format !== ExportFormat.YOLO &&
+      options.format !== ExportFormat.YOLO_OBB
+    ) {
+      throw new HTTPException(400, {
+        message: "Augmentation is only available for YOLO exports",
+      });
+    }
+    if (options.includesImages === false) {
+      throw new HTTPException(400, {
+        message: "Augmented exports must include images",
+      });
+    }
+  }
+};
+
 /**
  * @route POST /api/v1/projects/:projectId/exports
  * @desc Create export
@@ -38,17 +205,24 @@ exportRouter.post("/", async (c) => {
     throw new HTTPException(401, { message: "User not authenticated" });
   }
 
-  const schema = z.object({
-    format: z.string().refine((val) => val === "YOLO", {
-      message: "Only YOLO format is currently supported",
-    }),
-    includesImages: z.boolean(),
-    onlyReviewedAnnotations: z.boolean(),
+  const schema = exportOptionsSchema.extend({
+    baseExportId: z.string().optional(),
+    versionId: z.string().optional(),
   });
 
   const body = await c.req.json<CreateExportRequest>();
   validation.schema(schema, body);
 
+  if (body.baseExportId) {
+    validation.objectId(body.baseExportId, "baseExportId");
+  }
+
+  if (body.versionId) {
+    validation.objectId(body.versionId, "versionId");
+  }
+
+  checkExportOptions(project, body);
+
   try {
     const exportRecord = await services
       .exports()
@@ -61,6 +235,13 @@ exportRouter.post("/", async (c) => {
           format: exportRecord.format,
           includesImages: exportRecord.includesImages,
           onlyReviewedAnnotations: exportRecord.onlyReviewedAnnotations,
+          taxonomyLevel: exportRecord.taxonomyLevel,
+          split: exportRecord.split,
+          tiling: exportRecord.tiling,
+          augmentation: exportRecord.augmentation,
+          baseExportId: exportRecord.baseExportId?.toString(),
+          versionId: exportRecord.versionId?.toString(),
+          filters: exportRecord.filters,
           status: exportRecord.status,
           exportedAt: exportRecord.exportedAt,
         },
@@ -105,6 +286,18 @@ exportRouter.get("/", async (c) => {
     .project({ _id: 1, username: 1, firstName: 1, lastName: 1 })
     .toArray();
 
+  // Names of the versions exports were generated from
+  const versions = await database
+    .collection("dataset_versions")
+    .find({
+      _id: { $in: exports.flatMap((exp) => exp.versionId || []) },
+    })
+    .project({ _id: 1, name: 1 })
+    .toArray();
+  const versionNames = new Map(
+    versions.map((version: any) => [version._id.toString(), version.name])
+  );
+
   // Create user lookup map
   const userMap = new Map();
   users.forEach((user: any) => {
@@ -125,6 +318,19 @@ exportRouter.get("/", async (c) => {
       status: exp.status,
       includesImages: exp.includesImages,
       onlyReviewedAnnotations: exp.onlyReviewedAnnotations,
+      taxonomyLevel: exp.taxonomyLevel,
+      split: exp.split,
+      tiling: exp.tiling,
+      augmentation: exp.augmentation,
+      baseExportId: exp.baseExportId?.toString(),
+      changes: exp.changes,
+      validation: exp.validation,
+      versionId: exp.versionId?.toString(),
+      filters: exp.filters,
+      scheduleId: exp.scheduleId?.toString(),
+      versionName: exp.versionId
+        ? versionNames.get(exp.versionId.toString())
+        : undefined,
       totalImages: exp.totalImages,
       totalAnnotations: exp.totalAnnotations,
       exportedAt: exp.exportedAt,
@@ -149,6 +355,186 @@ exportRouter.get("/", async (c) => {
   );
 });
 
+/**
+ * Format an export schedule for responses
+ */
+const formatSchedule = (schedule: ExportSchedule) => ({
+  id: schedule._id.toString(),
+  name: schedule.name,
+  cron: schedule.cron,
+  format: schedule.format,
+  includesImages: schedule.includesImages,
+  onlyReviewedAnnotations: schedule.onlyReviewedAnnotations,
+  taxonomyLevel: schedule.taxonomyLevel,
+  split: schedule.split,
+  tiling: schedule.tiling,
+  augmentation: schedule.augmentation,
+  filters: schedule.filters,
+  retention: schedule.retention,
+  enabled: schedule.enabled,
+  nextRunAt: schedule.nextRunAt,
+  lastRunAt: schedule.lastRunAt,
+  lastExportId: schedule.lastExportId?.toString(),
+  lastError: schedule.lastError,
+  createdAt: schedule.createdAt,
+});
+
+/**
+ * @route GET /api/v1/projects/:projectId/exports/schedules
+ * @desc Get the export schedules of a project
+ * @access Admin, Super Admin
+ */
+exportRouter.get("/schedules", async (c) => {
+  const project = c.get("project");
+  if (!project) {
+    throw new HTTPException(404, { message: "Project not found" });
+  }
+
+  const schedules = await services
+    .exportSchedules()
+    .getProjectSchedules(project._id.toString());
+
+  return c.json(
+    response.success({ schedules: schedules.map(formatSchedule) })
+  );
+});
+
+/**
+ * @route POST /api/v1/projects/:projectId/exports/schedules
+ * @desc Create a recurring export. Schedules are cron expressions in UTC.
+ * @access Admin, Super Admin
+ */
+exportRouter.post("/schedules", async (c) => {
+  const project = c.get("project");
+  if (!project) {
+    throw new HTTPException(404, { message: "Project not found" });
+  }
+
+  const currentUser = c.get("user");
+  if (!currentUser) {
+    throw new HTTPException(401, { message: "User not authenticated" });
+  }
+
+  const body = await c.req.json<CreateExportScheduleRequest>();
+  validation.schema(exportScheduleSchema, body);
+  checkExportOptions(project, body);
+
+  try {
+    const schedule = await services
+      .exportSchedules()
+      .createSchedule(
+        project._id.toString(),
+        { ...body, name: body.name.trim() },
+        currentUser._id
+      );
+
+    return c.json(
+      response.success(
+        formatSchedule(schedule),
+        "Export schedule created successfully"
+      ),
+      201
+    );
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new HTTPException(400, { message: error.message });
+    }
+    throw error;
+  }
+});
+
+/**
+ * @route PATCH /api/v1/projects/:projectId/exports/schedules/:scheduleId
+ * @desc Update an export schedule, e.g. to pause it
+ * @access Admin, Super Admin
+ */
+exportRouter.patch("/schedules/:scheduleId", async (c) => {
+  const project = c.get("project");
+  if (!project) {
+    throw new HTTPException(404, { message: "Project not found" });
+  }
+
+  const scheduleId = c.req.param("scheduleId");
+  validation.objectId(scheduleId, "scheduleId");
+
+  const schedule = await services.exportSchedules().findOne({
+    _id: new ObjectId(scheduleId),
+    projectId: project._id,
+  });
+  if (!schedule) {
+    throw new HTTPException(404, { message: "Export schedule not found" });
+  }
+
+  const body = await c.req.json<UpdateExportScheduleRequest>();
+  validation.schema(exportScheduleSchema.partial(), body);
+  checkExportOptions(project, {
+    format: body.format ?? schedule.format,
+    onlyReviewedAnnotations:
+      body.onlyReviewedAnnotations ?? schedule.onlyReviewedAnnotations,
+    includesImages: body.includesImages ?? schedule.includesImages,
+    split: body.split ?? schedule.split,
+    tiling: body.tiling ?? schedule.tiling,
+    augmentation: body.augmentation ?? schedule.augmentation,
+    filters: body.filters ?? schedule.filters,
+  });
+
+  try {
+    const updated = await services
+      .exportSchedules()
+      .updateSchedule(scheduleId, {
+        ...body,
+        ...(body.name !== undefined && { name: body.name.trim() }),
+      });
+    if (!updated) {
+      throw new HTTPException(404, { message: "Export schedule not found" });
+    }
+
+    return c.json(
+      response.success(
+        formatSchedule(updated),
+        "Export schedule updated successfully"
+      )
+    );
+  } catch (error) {
+    if (error instanceof HTTPException) {
+      throw error;
+    }
+    if (error instanceof Error) {
+      throw new HTTPException(400, { message: error.message });
+    }
+    throw error;
+  }
+});
+
+/**
+ * @route DELETE /api/v1/projects/:projectId/exports/schedules/:scheduleId
+ * @desc Delete an export schedule, keeping the exports it created
+ * @access Admin, Super Admin
+ */
+exportRouter.delete("/schedules/:scheduleId", async (c) => {
+  const project = c.get("project");
+  if (!project) {
+    throw new HTTPException(404, { message: "Project not found" });
+  }
+
+  const scheduleId = c.req.param("scheduleId");
+  validation.objectId(scheduleId, "scheduleId");
+
+  const schedule = await services.exportSchedules().findOne({
+    _id: new ObjectId(scheduleId),
+    projectId: project._id,
+  });
+  if (!schedule) {
+    throw new HTTPException(404, { message: "Export schedule not found" });
+  }
+
+  await services.exportSchedules().delete(scheduleId);
+
+  return c.json(
+    response.success(null, "Export schedule deleted successfully")
+  );
+});
+
 /**
  * @route GET /api/v1/projects/:projectId/exports/:exportId/download
  * @desc Download export
@@ -2,6 +2,7 @@
 import { Hono } from "hono";
 import { HTTPException } from "hono/http-exception";
 import { ObjectId } from "mongodb";
+import sharp from "sharp";
 import type { HonoContext, ProjectImage } from "../types/index.js";
 import { services } from "../services/index.js";
 import { response } from "../utils/response.js";
@@ -68,13 +69,22 @@ imageRouter.post(
           const arrayBuffer = await file.arrayBuffer();
           const buffer = Buffer.from(arrayBuffer);
 
-          // Using placeholder dimensions (in a real implementation use image processing)
+          // Read the real dimensions, which exports rely on
+          const metadata = await sharp(buffer)
+            .metadata()
+            .catch(() => null);
+          if (!metadata?.width || !metadata?.height) {
+            throw new HTTPException(400, {
+              message: `File '${file.name}' could not be read as an image`,
+            });
+          }
+
           return {
             buffer,
             originalname: file.name,
             mimetype: file.type,
-            width: 800,
-            height: 600,
+            width: metadata.width,
+            height: metadata.height,
           };
         })
       );
@@ -177,6 +187,38 @@ imageRouter.get("/", async (c) => {
     }
   }
 
+  // Image label filters look like imageLabel=<setId>:<option> and all must match
+  const imageLabelFilters = c.req.queries("imageLabel") || [];
+  let labeledImageIds: ObjectId[] | null = null;
+
+  for (const imageLabelFilter of imageLabelFilters) {
+    const separatorIndex = imageLabelFilter.indexOf(":");
+    if (separatorIndex === -1) {
+      throw new HTTPException(400, {
+        message: "Image label filters must look like <setId>:<option>",
+      });
+    }
+
+    const imageIds: ObjectId[] = await services
+      .annotations()
+      .getImageIdsWithLabel(
+        projectId,
+        imageLabelFilter.slice(0, separatorIndex),
+        imageLabelFilter.slice(separatorIndex + 1)
+      );
+
+    labeledImageIds =
+      labeledImageIds === null
+        ? imageIds
+        : labeledImageIds.filter((id) =>
+            imageIds.some((imageId) => imageId.equals(id))
+          );
+  }
+
+  if (labeledImageIds !== null) {
+    filters._id = { $in: labeledImageIds };
+  }
+
   const { images, total } = await services
     .images()
     .getProjectImages(projectId, page, limit, filters);
@@ -197,6 +239,9 @@ imageRouter.get("/", async (c) => {
     reviewedAt: image.reviewedAt,
     autoAnnotated: image.autoAnnotated,
     timeSpent: image.timeSpent,
+    sequenceId: image.sequenceId ? image.sequenceId.toString() : null,
+    frameIndex: image.frameIndex,
+    sourceTimestamp: image.sourceTimestamp,
   }));
 
   return c.json(
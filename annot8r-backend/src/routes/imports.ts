@@ -0,0 +1,151 @@
+// src/routes/imports.ts
+import { Hono } from "hono";
+import { HTTPException } from "hono/http-exception";
+import { ObjectId } from "mongodb";
+import type { DatasetImport, HonoContext } from "../types/index.js";
+import { services } from "../services/index.js";
+import { response } from "../utils/response.js";
+import { authenticate, requireRoles } from "../middleware/index.js";
+import { validation } from "../utils/validation.js";
+import { z } from "zod";
+import { DatasetImportFormat, UserRole } from "../types/index.js";
+
+const importRouter = new Hono<HonoContext>();
+
+// Apply authentication and admin role to all routes
+importRouter.use("*", authenticate);
+importRouter.use("*", requireRoles([UserRole.ADMIN, UserRole.SUPER_ADMIN]));
+
+// Files accepted for each format; COCO and VOC files may also come zipped
+const ACCEPTED_EXTENSIONS: Record<DatasetImportFormat, string[]> = {
+  [DatasetImportFormat.YOLO]: [".zip"],
+  [DatasetImportFormat.COCO]: [".json", ".zip"],
+  [DatasetImportFormat.VOC]: [".xml", ".zip"],
+  [DatasetImportFormat.LABEL_STUDIO]: [".json", ".zip"],
+  [DatasetImportFormat.CVAT]: [".xml", ".zip"],
+};
+
+const formatDatasetImport = (datasetImport: DatasetImport) => ({
+  id: datasetImport._id.toString(),
+  format: datasetImport.format,
+  filename: datasetImport.filename,
+  createMissingClasses: datasetImport.createMissingClasses,
+  status: datasetImport.status,
+  progress: datasetImport.progress,
+  importedImages: datasetImport.importedImages,
+  importedObjects: datasetImport.importedObjects,
+  createdClasses: datasetImport.createdClasses,
+  errors: datasetImport.errors,
+  error: datasetImport.error || null,
+  createdAt: datasetImport.createdAt,
+});
+
+/**
+ * @route POST /api/v1/projects/:projectId/imports
+ * @desc Start importing a dataset: a zipped YOLO dataset (images/, labels/
+ * and classes.txt or data.yaml) as annotated project images, or COCO JSON,
+ * Pascal VOC XML, Label Studio JSON or CVAT XML annotations of images
+ * already in the project
+ * @access Admin, Super Admin
+ */
+importRouter.post("/", async (c) => {
+  const project = c.get("project");
+  if (!project) {
+    throw new HTTPException(404, { message: "Project not found" });
+  }
+
+  const currentUser = c.get("user");
+  if (!currentUser) {
+    throw new HTTPException(401, { message: "User not authenticated" });
+  }
+
+  const formData = await c.req.formData();
+  const schema = z.object({
+    format: z.nativeEnum(DatasetImportFormat),
+  });
+  const format = formData.get("format");
+  validation.schema(schema, { format });
+
+  const file = formData.get("file");
+  if (!(file instanceof File)) {
+    throw new HTTPException(400, { message: "No dataset was uploaded" });
+  }
+
+  const extensions = ACCEPTED_EXTENSIONS[format as DatasetImportFormat];
+  if (!extensions.some((ext) => file.name.toLowerCase().endsWith(ext))) {
+    throw new HTTPException(400, {
+      message: `File '${file.name}' is not a ${extensions.join(" or ")} file`,
+    });
+  }
+
+  // Validate file size (500MB limit)
+  if (file.size > 500 * 1024 * 1024) {
+    throw new HTTPException(400, {
+      message: `File '${file.name}' exceeds the 500MB size limit`,
+    });
+  }
+
+  const datasetImport = await services.datasetImports().createImport(
+    project._id.toString(),
+    format as DatasetImportFormat,
+    {
+      buffer: Buffer.from(await file.arrayBuffer()),
+      originalname: file.name,
+    },
+    formData.get("createMissingClasses") === "true",
+    currentUser._id,
+    c.env.S3_BUCKET
+  );
+
+  return c.json(
+    response.success(formatDatasetImport(datasetImport), "Import started"),
+    202
+  );
+});
+
+/**
+ * @route GET /api/v1/projects/:projectId/imports
+ * @desc List the dataset imports of a project
+ * @access Admin, Super Admin
+ */
+importRouter.get("/", async (c) => {
+  const project = c.get("project");
+  if (!project) {
+    throw new HTTPException(404, { message: "Project not found" });
+  }
+
+  const datasetImports = await services
+    .datasetImports()
+    .getProjectImports(project._id.toString());
+
+  return c.json(
+    response.success({ imports: datasetImports.map(formatDatasetImport) })
+  );
+});
+
+/**
+ * @route GET /api/v1/projects/:projectId/imports/:importId/status
+ * @desc Check the progress of a dataset import
+ * @access Admin, Super Admin
+ */
+importRouter.get("/:importId/status", async (c) => {
+  const project = c.get("project");
+  if (!project) {
+    throw new HTTPException(404, { message: "Project not found" });
+  }
+
+  const importId = c.req.param("importId");
+  validation.objectId(importId);
+
+  const datasetImport = await services.datasetImports().findOne({
+    _id: new ObjectId(importId),
+    projectId: project._id,
+  });
+  if (!datasetImport) {
+    throw new HTTPException(404, { message: "Import not found" });
+  }
+
+  return c.json(response.success(formatDatasetImport(datasetImport)));
+});
+
+export { importRouter };
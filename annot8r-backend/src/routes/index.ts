@@ -14,6 +14,10 @@ import { assignmentRouter } from './assignments.js';
 import { annotationRouter } from './annotations.js';
 import { submissionRouter } from './submissions.js';
 import { exportRouter } from './exports.js';
+import { sequenceRouter } from './sequences.js';
+import { videoRouter } from './videos.js';
+import { datasetVersionRouter } from './dataset-versions.js';
+import { importRouter } from './imports.js';
 
 // Create main router
 const apiRouter = new Hono<HonoContext>();
@@ -33,6 +37,10 @@ apiRouter.route('/projects/:projectId/images', imageRouter);
 apiRouter.route('/projects/:projectId/assignments', assignmentRouter);
 apiRouter.route('/projects/:projectId/submissions', submissionRouter);
 apiRouter.route('/projects/:projectId/exports', exportRouter);
+apiRouter.route('/projects/:projectId/sequences', sequenceRouter);
+apiRouter.route('/projects/:projectId/videos', videoRouter);
+apiRouter.route('/projects/:projectId/versions', datasetVersionRouter);
+apiRouter.route('/projects/:projectId/imports', importRouter);
 apiRouter.route('/user/projects/:projectId/images/:imageId/annotations', annotationRouter);
 
 export { apiRouter };
\ No newline at end of file
@@ -13,13 +13,73 @@ import { services } from "../services/index.js";
 import { response } from "../utils/response.js";
 import { authenticate, requireRoles } from "../middleware/index.js";
 import { validation } from "../utils/validation.js";
+import { classTaxonomy } from "../utils/class-taxonomy.js";
 import { z } from "zod";
-import { ReviewStatus, SubmissionStatus, UserRole } from "../types/index.js";
+import {
+  AttributeType,
+  ImageLabelSetType,
+  ReviewStatus,
+  SubmissionStatus,
+  UserRole,
+} from "../types/index.js";
 import { createListRoute } from "./route-factory.js";
 import { db } from "../config/db.js";
 
 const projectRouter = new Hono<HonoContext>();
 
+// Schema for a pose skeleton (named keypoints plus edges between them)
+const skeletonSchema = z
+  .object({
+    keypoints: z.array(z.string().min(1)).min(1),
+    edges: z.array(z.tuple([z.number().int().min(0), z.number().int().min(0)])),
+  })
+  .refine(
+    (skeleton) =>
+      skeleton.edges.every(
+        ([from, to]) =>
+          from !== to &&
+          from < skeleton.keypoints.length &&
+          to < skeleton.keypoints.length
+      ),
+    { message: "Skeleton edges must connect two existing keypoints" }
+  );
+
+// Schema for an attribute declared by a class (enum attributes need options)
+const classAttributeSchema = z
+  .object({
+    name: z.string().min(1),
+    type: z.nativeEnum(AttributeType),
+    options: z.array(z.string().min(1)).optional(),
+    required: z.boolean().optional(),
+  })
+  .refine(
+    (attribute) =>
+      attribute.type !== AttributeType.ENUM ||
+      (attribute.options !== undefined && attribute.options.length > 0),
+    { message: "Enum attributes need at least one option", path: ["options"] }
+  );
+
+// Schema for the attributes of a class, whose names must be unique
+const classAttributesSchema = z
+  .array(classAttributeSchema)
+  .refine(
+    (attributes) =>
+      new Set(attributes.map((attr) => attr.name)).size === attributes.length,
+    { message: "Attribute names must be unique within a class" }
+  );
+
+// Schema for an image-level label set (e.g. "Weather": sunny, rainy, foggy)
+const imageLabelSetSchema = z.object({
+  name: z.string().min(1),
+  type: z.nativeEnum(ImageLabelSetType),
+  options: z
+    .array(z.string().min(1))
+    .min(1)
+    .refine((options) => new Set(options).size === options.length, {
+      message: "Image label options must be unique",
+    }),
+});
+
 // Apply authentication to all routes
 projectRouter.use("*", authenticate);
 
@@ -97,9 +157,12 @@ projectRouter.post(
             color: z.string().regex(/^#[0-9A-Fa-f]{6}$/, {
               message: "Color must be a valid hex code",
             }),
+            attributes: classAttributesSchema.optional(),
           })
         )
         .min(1),
+      skeleton: skeletonSchema.optional(),
+      imageLabelSets: z.array(imageLabelSetSchema).optional(),
       allowCustomClasses: z.boolean(),
     });
 
@@ -123,6 +186,8 @@ projectRouter.post(
           description: project.description,
           annotationFormat: project.annotationFormat,
           classes: project.classes,
+          skeleton: project.skeleton,
+          imageLabelSets: project.imageLabelSets,
           allowCustomClasses: project.allowCustomClasses,
           status: project.status,
           createdAt: project.createdAt,
@@ -152,6 +217,8 @@ projectRouter.get(
         description: project.description,
         annotationFormat: project.annotationFormat,
         classes: project.classes,
+        skeleton: project.skeleton,
+        imageLabelSets: project.imageLabelSets,
         allowCustomClasses: project.allowCustomClasses,
         status: project.status,
         totalImages: project.totalImages,
@@ -187,8 +254,17 @@ projectRouter.patch(
             name: z.string().min(1),
             color: z.string().regex(/^#[0-9A-Fa-f]{6}$/),
             isCustom: z.boolean(),
+            attributes: classAttributesSchema.optional(),
+            parentId: z.string().optional(),
           })
         )
+        .refine((classes) => classTaxonomy.validate(classes) === null, {
+          message: "Class parents must be existing classes without cycles",
+        })
+        .optional(),
+      skeleton: skeletonSchema.optional(),
+      imageLabelSets: z
+        .array(imageLabelSetSchema.extend({ id: z.string() }))
         .optional(),
       allowCustomClasses: z.boolean().optional(),
       status: z
@@ -215,6 +291,8 @@ projectRouter.patch(
           description: updatedProject.description,
           annotationFormat: updatedProject.annotationFormat,
           classes: updatedProject.classes,
+          skeleton: updatedProject.skeleton,
+          imageLabelSets: updatedProject.imageLabelSets,
           allowCustomClasses: updatedProject.allowCustomClasses,
           status: updatedProject.status,
           updatedAt: updatedProject.updatedAt,
@@ -225,6 +303,26 @@ projectRouter.patch(
   }
 );
 
+/**
+ * @route GET /api/v1/projects/:projectId/class-distribution
+ * @desc Get the number of annotated objects per class, with totals rolled
+ * up to parent classes
+ * @access Admin, Super Admin
+ */
+projectRouter.get(
+  "/:projectId/class-distribution",
+  requireRoles([UserRole.ADMIN, UserRole.SUPER_ADMIN]),
+  async (c) => {
+    const project = c.get("project") as Project;
+
+    const distribution = await services
+      .projects()
+      .getClassDistribution(project);
+
+    return c.json(response.success({ classes: distribution }));
+  }
+);
+
 /**
  * @route DELETE /api/v1/projects/:projectId
  * @desc Delete project
@@ -0,0 +1,190 @@
+// src/routes/sequences.ts
+import { Hono } from "hono";
+import { HTTPException } from "hono/http-exception";
+import { ObjectId } from "mongodb";
+import type {
+  HonoContext,
+  CreateSequenceRequest,
+  ImageSequence,
+} from "../types/index.js";
+import { services } from "../services/index.js";
+import { response } from "../utils/response.js";
+import { authenticate, requireRoles } from "../middleware/index.js";
+import { validation } from "../utils/validation.js";
+import { z } from "zod";
+import { UserRole } from "../types/index.js";
+
+const sequenceRouter = new Hono<HonoContext>();
+
+// Apply authentication to all routes
+sequenceRouter.use("*", authenticate);
+
+// Sequence param middleware, which also checks that the sequence belongs to
+// the project
+sequenceRouter.use("/:sequenceId/*", async (c, next) => {
+  const project = c.get("project");
+  if (!project) {
+    throw new HTTPException(404, { message: "Project not found" });
+  }
+
+  const sequenceId = c.req.param("sequenceId");
+  validation.objectId(sequenceId);
+
+  const sequence = await services.sequences().findOne({
+    _id: new ObjectId(sequenceId),
+    projectId: project._id,
+  });
+  if (!sequence) {
+    throw new HTTPException(404, { message: "Sequence not found" });
+  }
+
+  await next();
+});
+
+/**
+ * @route POST /api/v1/projects/:projectId/sequences
+ * @desc Create a sequence from project images, in frame order
+ * @access Admin, Super Admin
+ */
+sequenceRouter.post(
+  "/",
+  requireRoles([UserRole.ADMIN, UserRole.SUPER_ADMIN]),
+  async (c) => {
+    const project = c.get("project");
+    if (!project) {
+      throw new HTTPException(404, { message: "Project not found" });
+    }
+
+    const currentUser = c.get("user");
+    if (!currentUser) {
+      throw new HTTPException(401, { message: "User not authenticated" });
+    }
+
+    const schema = z.object({
+      name: z.string().min(1).max(100),
+      imageIds: z.array(z.string().regex(/^[0-9a-fA-F]{24}$/)).min(2),
+    });
+
+    const body = await c.req.json<CreateSequenceRequest>();
+    validation.schema(schema, body);
+
+    try {
+      const sequence = await services
+        .sequences()
+        .createSequence(
+          project._id.toString(),
+          body.name,
+          body.imageIds,
+          currentUser._id
+        );
+
+      return c.json(
+        response.success(
+          {
+            id: sequence._id.toString(),
+            name: sequence.name,
+            frameCount: body.imageIds.length,
+            createdAt: sequence.createdAt,
+          },
+          "Sequence created successfully"
+        ),
+        201
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new HTTPException(400, { message: error.message });
+      }
+      throw error;
+    }
+  }
+);
+
+/**
+ * @route GET /api/v1/projects/:projectId/sequences
+ * @desc List the sequences of a project
+ * @access Admin, Super Admin
+ */
+sequenceRouter.get(
+  "/",
+  requireRoles([UserRole.ADMIN, UserRole.SUPER_ADMIN]),
+  async (c) => {
+    const project = c.get("project");
+    if (!project) {
+      throw new HTTPException(404, { message: "Project not found" });
+    }
+
+    const sequences = await services
+      .sequences()
+      .getProjectSequences(project._id.toString());
+
+    return c.json(
+      response.success({
+        sequences: sequences.map(
+          (sequence: ImageSequence & { frameCount: number }) => ({
+            id: sequence._id.toString(),
+            name: sequence.name,
+            frameCount: sequence.frameCount,
+            createdAt: sequence.createdAt,
+          })
+        ),
+      })
+    );
+  }
+);
+
+/**
+ * @route GET /api/v1/projects/:projectId/sequences/:sequenceId/tracks
+ * @desc Get the tracked objects on every frame of a sequence
+ * @access Project members
+ */
+sequenceRouter.get("/:sequenceId/tracks", async (c) => {
+  const project = c.get("project");
+  if (!project) {
+    throw new HTTPException(404, { message: "Project not found" });
+  }
+
+  const currentUser = c.get("user");
+  if (!currentUser) {
+    throw new HTTPException(401, { message: "User not authenticated" });
+  }
+
+  if (currentUser.role === UserRole.USER) {
+    const isMember = await services
+      .projects()
+      .isProjectMember(project._id.toString(), currentUser._id.toString());
+
+    if (!isMember) {
+      throw new HTTPException(403, {
+        message: "Forbidden: Not a member of this project",
+      });
+    }
+  }
+
+  const frames = await services
+    .sequences()
+    .getTracks(c.req.param("sequenceId"));
+
+  return c.json(response.success({ frames }));
+});
+
+/**
+ * @route DELETE /api/v1/projects/:projectId/sequences/:sequenceId
+ * @desc Delete a sequence, keeping its frames as regular images
+ * @access Admin, Super Admin
+ */
+sequenceRouter.delete(
+  "/:sequenceId",
+  requireRoles([UserRole.ADMIN, UserRole.SUPER_ADMIN]),
+  async (c) => {
+    const sequenceId = c.req.param("sequenceId");
+    if (!sequenceId) {
+      throw new HTTPException(400, { message: "Sequence ID is required" });
+    }
+
+    await services.sequences().deleteSequence(sequenceId);
+
+    return c.json(response.success(null, "Sequence deleted successfully"));
+  }
+);
+
+export { sequenceRouter };
@@ -324,6 +324,8 @@ userProjectRouter.get("/:projectId/classes", async (c) => {
   return c.json(
     response.success({
       classes: project.classes,
+      skeleton: project.skeleton,
+      imageLabelSets: project.imageLabelSets,
       allowCustomClasses: project.allowCustomClasses,
     })
   );
@@ -0,0 +1,157 @@
+// src/routes/videos.ts
+import { Hono } from "hono";
+import { HTTPException } from "hono/http-exception";
+import { ObjectId } from "mongodb";
+import type { HonoContext, VideoImport } from "../types/index.js";
+import { services } from "../services/index.js";
+import { response } from "../utils/response.js";
+import { authenticate, requireRoles } from "../middleware/index.js";
+import { validation } from "../utils/validation.js";
+import { z } from "zod";
+import { FrameSamplingMode, UserRole } from "../types/index.js";
+
+const videoRouter = new Hono<HonoContext>();
+
+// Apply authentication and admin role to all routes
+videoRouter.use("*", authenticate);
+videoRouter.use("*", requireRoles([UserRole.ADMIN, UserRole.SUPER_ADMIN]));
+
+const formatVideoImport = (videoImport: VideoImport) => ({
+  id: videoImport._id.toString(),
+  filename: videoImport.filename,
+  samplingMode: videoImport.samplingMode,
+  samplingValue: videoImport.samplingValue,
+  status: videoImport.status,
+  progress: videoImport.progress,
+  extractedFrames: videoImport.extractedFrames,
+  uploadedFrames: videoImport.uploadedFrames,
+  truncated: videoImport.truncated ?? false,
+  duration: videoImport.duration ?? null,
+  sequenceId: videoImport.sequenceId?.toString() || null,
+  error: videoImport.error || null,
+  createdAt: videoImport.createdAt,
+});
+
+/**
+ * @route POST /api/v1/projects/:projectId/videos/upload
+ * @desc Upload a video and extract its frames into a sequence
+ * @access Admin, Super Admin
+ */
+videoRouter.post("/upload", async (c) => {
+  const project = c.get("project");
+  if (!project) {
+    throw new HTTPException(404, { message: "Project not found" });
+  }
+
+  const currentUser = c.get("user");
+  if (!currentUser) {
+    throw new HTTPException(401, { message: "User not authenticated" });
+  }
+
+  const formData = await c.req.formData();
+  const file = formData.get("file");
+  if (!(file instanceof File)) {
+    throw new HTTPException(400, { message: "No video was uploaded" });
+  }
+
+  if (!file.type.startsWith("video/")) {
+    throw new HTTPException(400, {
+      message: `File '${file.name}' is not a video`,
+    });
+  }
+
+  // Validate file size (500MB limit)
+  if (file.size > 500 * 1024 * 1024) {
+    throw new HTTPException(400, {
+      message: `File '${file.name}' exceeds the 500MB size limit`,
+    });
+  }
+
+  const schema = z.object({
+    samplingMode: z.nativeEnum(FrameSamplingMode),
+    samplingValue: z.number().positive().max(60),
+  });
+
+  const sampling = {
+    samplingMode: formData.get("samplingMode"),
+    samplingValue: Number(formData.get("samplingValue")),
+  };
+  validation.schema(schema, sampling);
+
+  const samplingMode = sampling.samplingMode as FrameSamplingMode;
+  if (
+    samplingMode === FrameSamplingMode.EVERY_NTH_FRAME &&
+    !Number.isInteger(sampling.samplingValue)
+  ) {
+    throw new HTTPException(400, {
+      message: "Frame interval must be a whole number",
+    });
+  }
+
+  const videoImport = await services.videos().createVideoImport(
+    project._id.toString(),
+    {
+      buffer: Buffer.from(await file.arrayBuffer()),
+      originalname: file.name,
+    },
+    samplingMode,
+    sampling.samplingValue,
+    currentUser._id,
+    c.env.S3_BUCKET
+  );
+
+  return c.json(
+    response.success(
+      formatVideoImport(videoImport),
+      "Video uploaded, extracting frames"
+    ),
+    202
+  );
+});
+
+/**
+ * @route GET /api/v1/projects/:projectId/videos
+ * @desc List the video imports of a project
+ * @access Admin, Super Admin
+ */
+videoRouter.get("/", async (c) => {
+  const project = c.get("project");
+  if (!project) {
+    throw new HTTPException(404, { message: "Project not found" });
+  }
+
+  const videoImports = await services
+    .videos()
+    .getProjectVideoImports(project._id.toString());
+
+  return c.json(
+    response.success({ videos: videoImports.map(formatVideoImport) })
+  );
+});
+
+/**
+ * @route GET /api/v1/projects/:projectId/videos/:videoId/status
+ * @desc Check the frame extraction progress of a video
+ * @access Admin, Super Admin
+ */
+videoRouter.get("/:videoId/status", async (c) => {
+  const project = c.get("project");
+  if (!project) {
+    throw new HTTPException(404, { message: "Project not found" });
+  }
+
+  const videoId = c.req.param("videoId");
+  validation.objectId(videoId);
+
+  const videoImport = await services.videos().findOne({
+    _id: new ObjectId(videoId),
+    projectId: project._id,
+  });
+  if (!videoImport) {
+    throw new HTTPException(404, { message: "Video not found" });
+  }
+
+  return c.json(response.success(formatVideoImport(videoImport)));
+});
+
+export { videoRouter };
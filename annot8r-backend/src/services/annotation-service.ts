@@ -7,11 +7,13 @@ import {
   type YoloObject,
   type SaveAnnotationRequest,
   type AutosaveAnnotationRequest,
-  AnnotationStatus
+  AnnotationStatus,
+  AnnotationObjectType
 } from "../types/index.js";
 import { db } from "../config/index.js";
 import { s3 } from "../config/s3.js";
 import { s3Operations } from "../utils/s3-operations.js";
+import { yoloFormat } from "../utils/yolo-format.js";
 import { BaseService } from "./base-service.js";
 
 export class AnnotationService extends BaseService<Annotation> {
@@ -30,11 +32,7 @@ export class AnnotationService extends BaseService<Annotation> {
     bucket: string
   ): Promise<Annotation> {
     // Build annotation objects
-    const objects: YoloObject[] = data.objects.map((obj, index) => ({
-      ...obj,
-      classId: data.classIds[index],
-      className: data.classNames[index]
-    }));
+    const objects = this.buildObjects(data);
 
     // Check if the image is currently flagged
     const database = db.getDb();
@@ -60,7 +58,9 @@ export class AnnotationService extends BaseService<Annotation> {
         timeSpent: existingAnnotation.timeSpent + data.timeSpent,
         autoAnnotated: data.autoAnnotated,
         version: existingAnnotation.version + 1,
-        objects
+        objects,
+        imageLabels: data.imageLabels ?? existingAnnotation.imageLabels,
+        mask: data.mask ?? existingAnnotation.mask
       };
       await this.collection().updateOne(
         { _id: existingAnnotation._id } as Filter<Annotation>,
@@ -78,7 +78,9 @@ export class AnnotationService extends BaseService<Annotation> {
         timeSpent: data.timeSpent,
         autoAnnotated: data.autoAnnotated,
         version: 1,
-        objects
+        objects,
+        imageLabels: data.imageLabels,
+        mask: data.mask
       };
       result = await this.create(newAnnotation);
     }
@@ -121,7 +123,14 @@ export class AnnotationService extends BaseService<Annotation> {
     });
 
     // Save YOLO format annotation to S3 using class indices
-    await this.saveYoloAnnotation(projectId, imageId, objects, bucket, classIdToIndexMap);
+    await this.saveYoloAnnotation(
+      projectId,
+      imageId,
+      objects,
+      bucket,
+      classIdToIndexMap,
+      project.skeleton?.keypoints?.length || 0
+    );
     return result;
   }
 
@@ -136,11 +145,7 @@ export class AnnotationService extends BaseService<Annotation> {
     bucket: string
   ): Promise<void> {
     // Build annotation objects
-    const objects: YoloObject[] = data.objects.map((obj, index) => ({
-      ...obj,
-      classId: data.classIds[index],
-      className: data.classNames[index]
-    }));
+    const objects = this.buildObjects(data);
 
     // Check if annotation exists
     const existingAnnotation = await this.findOne({
@@ -158,7 +163,9 @@ export class AnnotationService extends BaseService<Annotation> {
             updatedAt: new Date(),
             timeSpent: existingAnnotation.timeSpent + data.timeSpent,
             version: existingAnnotation.version + 1,
-            objects
+            objects,
+            imageLabels: data.imageLabels ?? existingAnnotation.imageLabels,
+            mask: data.mask ?? existingAnnotation.mask
           }
         }
       );
@@ -173,7 +180,9 @@ export class AnnotationService extends BaseService<Annotation> {
         timeSpent: data.timeSpent,
         autoAnnotated: false,
         version: 1,
-        objects
+        objects,
+        imageLabels: data.imageLabels,
+        mask: data.mask
       });
     }
 
@@ -199,7 +208,14 @@ export class AnnotationService extends BaseService<Annotation> {
     });
 
     if (bucket) {
-      await this.saveYoloAnnotation(projectId, imageId, objects, bucket, classIdToIndexMap);
+      await this.saveYoloAnnotation(
+        projectId,
+        imageId,
+        objects,
+        bucket,
+        classIdToIndexMap,
+        project.skeleton?.keypoints?.length || 0
+      );
     }
   }
 
@@ -234,6 +250,63 @@ export class AnnotationService extends BaseService<Annotation> {
     } as Filter<Annotation>);
   }
 
+  /**
+   * Get IDs of the images whose annotations picked an image label option
+   */
+  async getImageIdsWithLabel(
+    projectId: string,
+    setId: string,
+    option: string
+  ): Promise<ObjectId[]> {
+    return this.collection().distinct('imageId', {
+      projectId: new ObjectId(projectId),
+      imageLabels: { $elemMatch: { setId, values: option } }
+    } as Filter<Annotation>);
+  }
+
+  /**
+   * Build annotation objects from a save request
+   */
+  private buildObjects(
+    data: SaveAnnotationRequest | AutosaveAnnotationRequest
+  ): YoloObject[] {
+    return data.objects.map((obj, index) => {
+      const object: YoloObject = {
+        ...obj,
+        type: obj.type || AnnotationObjectType.BOX,
+        classId: data.classIds[index],
+        className: data.classNames[index]
+      };
+
+      // Keep the bounding box of polygons and polylines in sync with their
+      // vertices
+      if (yoloFormat.isPolygon(object) || yoloFormat.isPolyline(object)) {
+        Object.assign(object, yoloFormat.boundingBox(object.points!));
+        delete object.keypoints;
+        delete object.angle;
+      } else if (!yoloFormat.isRotated(object)) {
+        // Rotated boxes keep the corners computed by the editor
+        delete object.points;
+        delete object.angle;
+      }
+
+      if (object.keypoints && object.keypoints.length === 0) {
+        delete object.keypoints;
+      }
+
+      if (object.attributes && Object.keys(object.attributes).length === 0) {
+        delete object.attributes;
+      }
+
+      // Only tracked objects can be keyframes
+      if (object.trackId === undefined) {
+        delete object.keyframe;
+      }
+
+      return object;
+    });
+  }
+
   /**
    * Save YOLO format annotation to S3 using class indices
    */
@@ -242,14 +315,18 @@ export class AnnotationService extends BaseService<Annotation> {
     imageId: string,
     objects: YoloObject[],
     bucket: string,
-    classIdToIndexMap: Map<string, number>
+    classIdToIndexMap: Map<string, number>,
+    keypointCount: number = 0
   ): Promise<void> {
-    // Format annotation in YOLO style (class_index x y width height)
-    const yoloLines = objects.map(obj => {
+    // Format annotation in YOLO style (class_index x y width height),
+    // YOLO-seg style (class_index x1 y1 x2 y2 ...) when polygons are present
+    // or YOLO-pose style (class_index x y width height px py v ...) for skeletons
+    const yoloLines = yoloFormat.toLabelLines(
+      objects,
       // Use class index instead of classId
-      const classIndex = classIdToIndexMap.get(obj.classId) || 0;
-      return `${classIndex} ${obj.x} ${obj.y} ${obj.width} ${obj.height}`;
-    });
+      obj => classIdToIndexMap.get(obj.classId) || 0,
+      keypointCount
+    );
     const yoloContent = yoloLines.join('\n');
     const s3Key = s3.getAnnotationPath(projectId, imageId);
     await s3Operations.upload(bucket, s3Key, yoloContent, 'text/plain');
@@ -0,0 +1,1025 @@
+// src/services/dataset-import-service.ts
+import { ObjectId, type Filter } from "mongodb";
+import JSZip from "jszip";
+import path from "path";
+import sharp from "sharp";
+import {
+  DatasetImportFormat,
+  DatasetImportStatus,
+  type DatasetImport,
+  type DatasetImportError,
+  type Project,
+  type ProjectClass,
+  type ProjectImage,
+  type YoloObject,
+} from "../types/index.js";
+import { yoloFormat } from "../utils/yolo-format.js";
+import { cocoFormat } from "../utils/coco-format.js";
+import { vocFormat } from "../utils/voc-format.js";
+import { cvatFormat } from "../utils/cvat-format.js";
+import { labelStudioFormat } from "../utils/label-studio-format.js";
+import { datasetSplit } from "../utils/dataset-split.js";
+import { classAttributes } from "../utils/class-attributes.js";
+import { BaseService } from "./base-service.js";
+import { services } from "./service-factory.js";
+
+// Image files read from imported datasets
+const IMAGE_EXTENSIONS = new Set([
+  ".jpg",
+  ".jpeg",
+  ".png",
+  ".webp",
+  ".tif",
+  ".tiff",
+]);
+
+// Largest image imported, as for uploads
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+
+// Most files, and largest total size once extracted, of an imported archive
+const MAX_ARCHIVE_ENTRIES = 100000;
+const MAX_ARCHIVE_EXTRACTED_SIZE = 2 * 1024 * 1024 * 1024;
+
+// Colors given in turn to the classes an import creates
+const CLASS_COLORS = [
+  "#FF0000",
+  "#00FF00",
+  "#0000FF",
+  "#FFFF00",
+  "#FF00FF",
+  "#00FFFF",
+  "#FF8000",
+  "#8000FF",
+  "#0080FF",
+  "#FF0080",
+  "#80FF00",
+  "#00FF80",
+];
+
+// Object read from an imported file, before its class is resolved
+type ImportedObject = Omit<YoloObject, "classId" | "className">;
+
+/**
+ * Interface for an object of an annotation file, converted once the image
+ * it belongs to is known
+ */
+interface PendingObject {
+  file: string;
+  label: string; // Names the object in errors
+  className: string;
+  toObject: (
+    imageWidth: number,
+    imageHeight: number
+  ) => { object: ImportedObject } | { error: string };
+}
+
+// Objects read for each image, keyed by its stored filename, with the
+// username or email of their annotator and the image size when the file
+// names them
+type PendingImages = Map<
+  string,
+  {
+    file: string;
+    objects: PendingObject[];
+    annotator?: string;
+    size?: { width: number; height: number };
+  }
+>;
+
+// Files read by the importers of annotations and their name in errors
+const ANNOTATION_FILES: Record<
+  Exclude<DatasetImportFormat, DatasetImportFormat.YOLO>,
+  { extension: string; name: string }
+> = {
+  [DatasetImportFormat.COCO]: { extension: ".json", name: "COCO" },
+  [DatasetImportFormat.VOC]: { extension: ".xml", name: "VOC" },
+  [DatasetImportFormat.LABEL_STUDIO]: {
+    extension: ".json",
+    name: "Label Studio",
+  },
+  [DatasetImportFormat.CVAT]: { extension: ".xml", name: "CVAT" },
+};
+
+/**
+ * Split an archive path into the dataset key shared by an image and its
+ * label file, and the folder it is in. Datasets may sit in a top folder and
+ * split their images into subfolders (e.g. images/train).
+ */
+const datasetEntry = (
+  filePath: string
+): { folder: "images" | "labels"; key: string } | null => {
+  const parts = filePath.split("/");
+  const index = parts.findIndex(
+    (part) => part === "images" || part === "labels"
+  );
+  if (index === -1 || index === parts.length - 1) {
+    return null;
+  }
+
+  const rest = parts.slice(index + 1).join("/");
+  return {
+    folder: parts[index] as "images" | "labels",
+    key: [
+      ...parts.slice(0, index),
+      rest.slice(0, rest.length - path.extname(rest).length),
+    ].join("/"),
+  };
+};
+
+/**
+ * Check whether an archive entry is an operating system leftover (macOS
+ * resource forks, hidden files)
+ */
+const isSystemFile = (filePath: string) =>
+  filePath.startsWith("__MACOSX/") || path.basename(filePath).startsWith(".");
+
+/**
+ * Get the filename an image referenced by an annotation file is stored
+ * under, as uploads rename it
+ */
+const storedFilename = (reference: string) =>
+  path
+    .basename(reference.replace(/\\/g, "/"))
+    .replace(/[^a-zA-Z0-9._-]/g, "_");
+
+/**
+ * Get the objects of a JSON array, leaving out other values
+ */
+const records = (value: unknown): Array<Record<string, unknown>> =>
+  Array.isArray(value)
+    ? value.filter(
+        (item): item is Record<string, unknown> =>
+          typeof item === "object" && item !== null
+      )
+    : [];
+
+/**
+ * Get the entry for an image of pending objects, adding it when new. The
+ * size the file gives the image is kept when it has one.
+ */
+const pendingImage = (
+  images: PendingImages,
+  file: string,
+  image: string,
+  size?: { width?: unknown; height?: unknown }
+) => {
+  const filename = storedFilename(image);
+  let entry = images.get(filename);
+  if (!entry) {
+    entry = { file, objects: [] };
+    images.set(filename, entry);
+  }
+  if (
+    typeof size?.width === "number" &&
+    typeof size.height === "number" &&
+    size.width > 0 &&
+    size.height > 0
+  ) {
+    entry.size = { width: size.width, height: size.height };
+  }
+  return entry;
+};
+
+export class DatasetImportService extends BaseService<DatasetImport> {
+  constructor() {
+    super("dataset_imports");
+  }
+
+  /**
+   * Start importing a dataset into a project. YOLO archives bring their
+   * images; COCO, VOC, Label Studio and CVAT files annotate images already
+   * in the project, matched by filename. Classes are matched to project
+   * classes by name, missing ones are created when allowed.
+   */
+  async createImport(
+    projectId: string,
+    format: DatasetImportFormat,
+    file: { buffer: Buffer; originalname: string },
+    createMissingClasses: boolean,
+    importedBy: ObjectId,
+    bucket: string
+  ): Promise<DatasetImport> {
+    const datasetImport = await this.create({
+      projectId: new ObjectId(projectId),
+      format,
+      filename: file.originalname,
+      createMissingClasses,
+      status: DatasetImportStatus.PENDING,
+      progress: 0,
+      importedImages: 0,
+      importedObjects: 0,
+      createdClasses: [],
+      errors: [],
+      importedBy,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    // Start import process
+    this.processImport(datasetImport, file.buffer, bucket).catch((error) => {
+      console.error("Dataset import processing error:", error);
+      this.update(datasetImport._id.toString(), {
+        status: DatasetImportStatus.FAILED,
+        error: error instanceof Error ? error.message : "Unknown error",
+        updatedAt: new Date(),
+      }).catch(console.error);
+    });
+
+    return datasetImport;
+  }
+
+  /**
+   * Get the dataset imports of a project, newest first
+   */
+  async getProjectImports(projectId: string): Promise<DatasetImport[]> {
+    return this.collection()
+      .find({ projectId: new ObjectId(projectId) } as Filter<DatasetImport>)
+      .sort({ createdAt: -1 })
+      .toArray();
+  }
+
+  /**
+   * Read the uploaded file in its format and record the outcome. Files that
+   * can't be imported are reported and skipped.
+   */
+  private async processImport(
+    datasetImport: DatasetImport,
+    upload: Buffer,
+    bucket: string
+  ): Promise<void> {
+    const importId = datasetImport._id.toString();
+    await this.update(importId, {
+      status: DatasetImportStatus.PROCESSING,
+      updatedAt: new Date(),
+    });
+
+    const project = await services
+      .projects()
+      .findActiveById(datasetImport.projectId.toString());
+    if (!project) {
+      throw new Error("Project not found");
+    }
+
+    const errors: DatasetImportError[] = [];
+    const keypointCount = project.skeleton?.keypoints.length || 0;
+    let result: Pick<
+      DatasetImport,
+      "importedImages" | "importedObjects" | "createdClasses"
+    >;
+
+    if (datasetImport.format === DatasetImportFormat.YOLO) {
+      result = await this.processYoloImport(
+        datasetImport,
+        project,
+        upload,
+        errors,
+        bucket
+      );
+    } else {
+      const images: PendingImages = new Map();
+      const { extension, name } = ANNOTATION_FILES[datasetImport.format];
+      const files = await this.readTextFiles(
+        upload,
+        datasetImport.filename,
+        extension
+      );
+      files.forEach((file) => {
+        switch (datasetImport.format) {
+          case DatasetImportFormat.COCO:
+            return this.readCocoFile(file, keypointCount, images, errors);
+          case DatasetImportFormat.VOC:
+            return this.readVocFile(file, images, errors);
+          case DatasetImportFormat.LABEL_STUDIO:
+            return this.readLabelStudioFile(
+              file,
+              project.skeleton?.keypoints || [],
+              images,
+              errors
+            );
+          case DatasetImportFormat.CVAT:
+            return this.readCvatFile(
+              file,
+              project.skeleton?.keypoints || [],
+              images,
+              errors
+            );
+        }
+      });
+      if (images.size === 0) {
+        throw new Error(`No ${name} annotations were found in the file`);
+      }
+
+      result = await this.annotateImages(
+        datasetImport,
+        project,
+        images,
+        errors,
+        bucket
+      );
+    }
+
+    await this.update(importId, {
+      status: DatasetImportStatus.COMPLETED,
+      progress: 100,
+      ...result,
+      errors,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Match class names to project classes, ignoring case, and create the
+   * missing ones when the import allows it. Returns the class of each name,
+   * undefined when it is not in the project.
+   */
+  private async resolveClasses(
+    datasetImport: DatasetImport,
+    project: Project,
+    classNames: string[]
+  ): Promise<{
+    classMap: Array<ProjectClass | undefined>;
+    createdClasses: string[];
+  }> {
+    const classes: ProjectClass[] = [...project.classes];
+    const createdClasses: string[] = [];
+    const classMap = classNames.map((name) => {
+      const existing = classes.find(
+        (cls) => cls.name.toLowerCase() === name.toLowerCase()
+      );
+      if (existing || !datasetImport.createMissingClasses) {
+        return existing;
+      }
+
+      const created: ProjectClass = {
+        id: new ObjectId().toString(),
+        name,
+        color: CLASS_COLORS[classes.length % CLASS_COLORS.length],
+        isCustom: false,
+      };
+      classes.push(created);
+      createdClasses.push(name);
+      return created;
+    });
+
+    if (createdClasses.length > 0) {
+      await services
+        .projects()
+        .updateProject(project._id.toString(), { classes });
+    }
+
+    return { classMap, createdClasses };
+  }
+
+  /**
+   * Create a progress callback that records each new whole percentage
+   */
+  private progressReporter(importId: string, total: number) {
+    let lastProgress = 0;
+    return (done: number) => {
+      const progress = Math.floor((done / total) * 100);
+      if (progress > lastProgress) {
+        lastProgress = progress;
+        this.update(importId, { progress }).catch(console.error);
+      }
+    };
+  }
+
+  /**
+   * Get the files with an extension from an uploaded zip archive, or the
+   * uploaded file itself, as text
+   */
+  private async readTextFiles(
+    upload: Buffer,
+    filename: string,
+    extension: string
+  ): Promise<Array<{ name: string; content: string }>> {
+    if (path.extname(filename).toLowerCase() !== ".zip") {
+      return [{ name: filename, content: upload.toString("utf8") }];
+    }
+
+    const entries = (await this.readArchive(upload)).filter(
+      (entry) => path.extname(entry.name).toLowerCase() === extension
+    );
+    return Promise.all(
+      entries.map(async (entry) => ({
+        name: entry.name,
+        content: await entry.async("string"),
+      }))
+    );
+  }
+
+  /**
+   * Get the files of a zip archive, leaving out folders and system files.
+   * Archives with too many files or extracting to too much data are
+   * rejected before anything is extracted.
+   */
+  private async readArchive(archive: Buffer): Promise<JSZip.JSZipObject[]> {
+    const zip = await JSZip.loadAsync(archive).catch(() => {
+      throw new Error("The file is not a valid zip archive");
+    });
+    const entries = Object.values(zip.files);
+    if (entries.length > MAX_ARCHIVE_ENTRIES) {
+      throw new Error(
+        `The archive holds more than ${MAX_ARCHIVE_ENTRIES} files`
+      );
+    }
+
+    // Sizes come from the zip directory, kept in the private _data of
+    // entries. JSZip fails entries that extract to another size.
+    const extractedSize = entries.reduce(
+      (total, entry) =>
+        total +
+        ((entry as unknown as { _data?: { uncompressedSize?: number } })._data
+          ?.uncompressedSize ?? 0),
+      0
+    );
+    if (extractedSize > MAX_ARCHIVE_EXTRACTED_SIZE) {
+      throw new Error("The archive extracts to more than 2GB");
+    }
+
+    return entries.filter((entry) => !entry.dir && !isSystemFile(entry.name));
+  }
+
+  /**
+   * Read the images, categories and annotations of a COCO file. Images
+   * listed without annotations are read as having no objects.
+   */
+  private readCocoFile(
+    file: { name: string; content: string },
+    keypointCount: number,
+    images: PendingImages,
+    errors: DatasetImportError[]
+  ): void {
+    let data: Record<string, unknown>;
+    try {
+      data = JSON.parse(file.content);
+    } catch {
+      errors.push({ file: file.name, message: "File is not valid JSON" });
+      return;
+    }
+    if (!Array.isArray(data?.images) || !Array.isArray(data.categories)) {
+      errors.push({
+        file: file.name,
+        message: "File has no COCO images and categories",
+      });
+      return;
+    }
+
+    const categories = new Map(
+      records(data.categories)
+        .filter((category) => typeof category.name === "string")
+        .map((category) => [category.id, category.name as string])
+    );
+
+    const imagesById = new Map<unknown, PendingObject[]>();
+    records(data.images).forEach((image) => {
+      if (typeof image.file_name !== "string" || image.file_name === "") {
+        errors.push({
+          file: file.name,
+          message: `Image ${image.id} has no file_name`,
+        });
+        return;
+      }
+      imagesById.set(
+        image.id,
+        pendingImage(images, file.name, image.file_name, image).objects
+      );
+    });
+
+    records(data.annotations).forEach((annotation) => {
+      const label = `Annotation ${annotation.id}`;
+      const objects = imagesById.get(annotation.image_id);
+      if (!objects) {
+        errors.push({
+          file: file.name,
+          message: `${label} is for unknown image ${annotation.image_id}`,
+        });
+        return;
+      }
+      const className = categories.get(annotation.category_id);
+      if (className === undefined) {
+        errors.push({
+          file: file.name,
+          message: `${label} has unknown category ${annotation.category_id}`,
+        });
+        return;
+      }
+
+      objects.push({
+        file: file.name,
+        label,
+        className,
+        toObject: (imageWidth, imageHeight) =>
+          cocoFormat.fromAnnotation(
+            annotation,
+            imageWidth,
+            imageHeight,
+            keypointCount
+          ),
+      });
+    });
+  }
+
+  /**
+   * Read the image and objects of a VOC annotation XML
+   */
+  private readVocFile(
+    file: { name: string; content: string },
+    images: PendingImages,
+    errors: DatasetImportError[]
+  ): void {
+    const annotation = vocFormat.fromXml(file.content);
+    if ("error" in annotation) {
+      errors.push({ file: file.name, message: annotation.error });
+      return;
+    }
+
+    const { objects } = pendingImage(
+      images,
+      file.name,
+      annotation.filename,
+      annotation
+    );
+    annotation.objects.forEach((vocObject, index) => {
+      const label = `Object ${index + 1}`;
+      if (vocObject.name === "") {
+        errors.push({ file: file.name, message: `${label} has no name` });
+        return;
+      }
+
+      objects.push({
+        file: file.name,
+        label,
+        className: vocObject.name,
+        toObject: (imageWidth, imageHeight) => {
+          const result = vocFormat.fromBndBox(
+            vocObject.bndbox,
+            imageWidth,
+            imageHeight
+          );
+          if ("object" in result && Object.keys(vocObject.attributes).length) {
+            result.object.attributes = vocObject.attributes;
+          }
+          return result;
+        },
+      });
+    });
+  }
+
+  /**
+   * Read the tasks of a Label Studio JSON export. Tasks without a completed
+   * annotation are left alone.
+   */
+  private readLabelStudioFile(
+    file: { name: string; content: string },
+    keypointNames: string[],
+    images: PendingImages,
+    errors: DatasetImportError[]
+  ): void {
+    let data: unknown;
+    try {
+      data = JSON.parse(file.content);
+    } catch {
+      errors.push({ file: file.name, message: "File is not valid JSON" });
+      return;
+    }
+
+    const tasks = records(Array.isArray(data) ? data : [data]);
+    if (tasks.length === 0) {
+      errors.push({ file: file.name, message: "File has no tasks" });
+      return;
+    }
+
+    tasks.forEach((task) => {
+      const read = labelStudioFormat.fromTask(task);
+      if ("error" in read) {
+        errors.push({ file: file.name, message: read.error });
+        return;
+      }
+      read.skipped.forEach((message) =>
+        errors.push({ file: file.name, message })
+      );
+      if (!read.regions) {
+        return;
+      }
+
+      const entry = pendingImage(images, file.name, read.image);
+      entry.annotator = read.annotator;
+      read.regions.forEach((region) =>
+        entry.objects.push({
+          file: file.name,
+          label: `Region ${region.id}`,
+          className: region.label,
+          toObject: (imageWidth, imageHeight) =>
+            labelStudioFormat.fromRegion(
+              region,
+              imageWidth,
+              imageHeight,
+              keypointNames
+            ),
+        })
+      );
+    });
+  }
+
+  /**
+   * Read the images and shapes of a CVAT for images XML. The task
+   * assignee, when named, annotated every image.
+   */
+  private readCvatFile(
+    file: { name: string; content: string },
+    keypointNames: string[],
+    images: PendingImages,
+    errors: DatasetImportError[]
+  ): void {
+    const read = cvatFormat.fromXml(file.content);
+    if ("error" in read) {
+      errors.push({ file: file.name, message: read.error });
+      return;
+    }
+
+    read.images.forEach((image) => {
+      image.skipped.forEach((message) =>
+        errors.push({ file: file.name, message: `${image.name}: ${message}` })
+      );
+      if (image.name === "") {
+        errors.push({ file: file.name, message: "Image has no name" });
+        return;
+      }
+
+      const entry = pendingImage(images, file.name, image.name, image);
+      entry.annotator = read.assignee;
+      image.shapes.forEach((shape, index) =>
+        entry.objects.push({
+          file: file.name,
+          label: `${image.name} shape ${index + 1}`,
+          className: shape.label,
+          toObject: (imageWidth, imageHeight) =>
+            cvatFormat.fromShape(shape, imageWidth, imageHeight, keypointNames),
+        })
+      );
+    });
+  }
+
+  /**
+   * Save the objects read for each image as the annotation of the project
+   * image stored, or exported, under its filename, converted with the size
+   * the file gives the image, or the image's own dimensions. Annotations
+   * are attributed to the annotator the file names when they are a user,
+   * and to the importing user otherwise.
+   */
+  private async annotateImages(
+    datasetImport: DatasetImport,
+    project: Project,
+    images: PendingImages,
+    errors: DatasetImportError[],
+    bucket: string
+  ): Promise<
+    Pick<DatasetImport, "importedImages" | "importedObjects" | "createdClasses">
+  > {
+    const projectId = project._id.toString();
+    const classNames = Array.from(
+      new Set(
+        Array.from(images.values()).flatMap(({ objects }) =>
+          objects.map((obj) => obj.className)
+        )
+      )
+    );
+    const { classMap, createdClasses } = await this.resolveClasses(
+      datasetImport,
+      project,
+      classNames
+    );
+    const classOf = new Map(
+      classNames.map((name, index) => [name, classMap[index]])
+    );
+
+    // Sizes given by the files are checked against measured images, see
+    // ImageService.measureSizes
+    const foundImages = await services
+      .images()
+      .findByFilenames(projectId, Array.from(images.keys()));
+    await services.images().measureSizes(foundImages, bucket);
+
+    const projectImages = new Map<string, ProjectImage[]>();
+    const exportedImages = new Map<string, ProjectImage>();
+    foundImages.forEach((image) => {
+      projectImages.set(image.filename, [
+        ...(projectImages.get(image.filename) || []),
+        image,
+      ]);
+      exportedImages.set(image._id.toString(), image);
+    });
+
+    const annotatorNames = Array.from(
+      new Set(
+        Array.from(images.values()).flatMap(({ annotator }) =>
+          annotator ? [annotator] : []
+        )
+      )
+    );
+    const annotators =
+      annotatorNames.length > 0
+        ? await services.users().findByUsernamesOrEmails(annotatorNames)
+        : [];
+    const annotatorOf = (name?: string) =>
+      annotators.find((user) => user.username === name || user.email === name)
+        ?._id ?? datasetImport.importedBy;
+
+    const reportProgress = this.progressReporter(
+      datasetImport._id.toString(),
+      images.size
+    );
+    let done = 0;
+    let importedImages = 0;
+    let importedObjects = 0;
+
+    for (const [filename, pending] of images) {
+      reportProgress(done++);
+
+      const exported = exportedImages.get(path.parse(filename).name);
+      const matches =
+        projectImages.get(filename) || (exported ? [exported] : []);
+      if (matches.length !== 1) {
+        errors.push({
+          file: pending.file,
+          message:
+            matches.length === 0
+              ? `No project image is named ${filename}`
+              : `${matches.length} project images are named ${filename}`,
+        });
+        continue;
+      }
+      const [image] = matches;
+
+      // Pixel coordinates are relative to the image the file was made for,
+      // which may have been resized since
+      const size = pending.size || image;
+      if (size.width !== image.width || size.height !== image.height) {
+        errors.push({
+          file: pending.file,
+          message:
+            `${filename} is ${size.width}x${size.height} in the file but ` +
+            `${image.width}x${image.height} in the project, objects scaled ` +
+            "to the image",
+        });
+      }
+
+      const objects: ImportedObject[] = [];
+      const objectClasses: ProjectClass[] = [];
+      pending.objects.forEach((pendingObject) => {
+        const objectError = (message: string) =>
+          errors.push({
+            file: pendingObject.file,
+            message: `${pendingObject.label}: ${message}`,
+          });
+        const cls = classOf.get(pendingObject.className);
+        if (!cls) {
+          objectError(
+            `Class "${pendingObject.className}" is not in the project`
+          );
+          return;
+        }
+        const converted = pendingObject.toObject(size.width, size.height);
+        if ("error" in converted) {
+          objectError(converted.error);
+          return;
+        }
+
+        // Keep the values of the attributes the class declares
+        const { object } = converted;
+        if (object.attributes) {
+          object.attributes = classAttributes.coerce(
+            object.attributes,
+            cls.attributes || []
+          );
+          if (Object.keys(object.attributes).length === 0) {
+            delete object.attributes;
+          }
+        }
+
+        objects.push(object);
+        objectClasses.push(cls);
+      });
+
+      try {
+        await services.annotations().saveAnnotation(
+          projectId,
+          image._id.toString(),
+          annotatorOf(pending.annotator).toString(),
+          {
+            objects,
+            classIds: objectClasses.map((cls) => cls.id),
+            classNames: objectClasses.map((cls) => cls.name),
+            timeSpent: 0,
+            autoAnnotated: false,
+          },
+          bucket
+        );
+        importedImages++;
+        importedObjects += objects.length;
+      } catch (error) {
+        errors.push({
+          file: pending.file,
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    return { importedImages, importedObjects, createdClasses };
+  }
+
+  /**
+   * Read a YOLO archive with images/, labels/ and classes.txt or data.yaml,
+   * map its classes and create an image, and an annotation when it has a
+   * label file, for every image
+   */
+  private async processYoloImport(
+    datasetImport: DatasetImport,
+    project: Project,
+    archive: Buffer,
+    errors: DatasetImportError[],
+    bucket: string
+  ): Promise<
+    Pick<DatasetImport, "importedImages" | "importedObjects" | "createdClasses">
+  > {
+    const projectId = project._id.toString();
+    const entries = await this.readArchive(archive);
+
+    // The class file closest to the archive root names the classes, by
+    // their index in label files
+    const classFile = entries
+      .filter((entry) =>
+        ["classes.txt", "data.yaml", "data.yml"].includes(
+          path.basename(entry.name)
+        )
+      )
+      .sort(
+        (a, b) =>
+          a.name.split("/").length - b.name.split("/").length ||
+          Number(b.name.endsWith(".txt")) - Number(a.name.endsWith(".txt"))
+      )[0];
+    if (!classFile) {
+      throw new Error("The archive has no classes.txt or data.yaml");
+    }
+    const classContent = await classFile.async("string");
+    const classNames = classFile.name.endsWith(".txt")
+      ? classContent
+          .split(/\r?\n/)
+          .map((name) => name.trim())
+          .filter((name) => name !== "")
+      : datasetSplit.fromDataYaml(classContent);
+    if (!classNames || classNames.length === 0) {
+      throw new Error(`${classFile.name} names no classes`);
+    }
+
+    // Pair images with their label files
+    const images = new Map<string, JSZip.JSZipObject>();
+    const labels = new Map<string, JSZip.JSZipObject>();
+    entries.forEach((entry) => {
+      const location = datasetEntry(entry.name);
+      const extension = path.extname(entry.name).toLowerCase();
+      if (location?.folder === "images" && IMAGE_EXTENSIONS.has(extension)) {
+        images.set(location.key, entry);
+      } else if (location?.folder === "labels" && extension === ".txt") {
+        labels.set(location.key, entry);
+      }
+    });
+    if (images.size === 0) {
+      throw new Error("The archive has no images in an images/ folder");
+    }
+
+    const { classMap, createdClasses } = await this.resolveClasses(
+      datasetImport,
+      project,
+      classNames
+    );
+
+    const keypointCount = project.skeleton?.keypoints.length || 0;
+    const reportProgress = this.progressReporter(
+      datasetImport._id.toString(),
+      images.size
+    );
+    let done = 0;
+    let importedImages = 0;
+    let importedObjects = 0;
+
+    for (const [key, imageEntry] of images) {
+      reportProgress(done++);
+      const labelEntry = labels.get(key);
+      labels.delete(key);
+
+      try {
+        const buffer = await imageEntry.async("nodebuffer");
+        if (buffer.length > MAX_IMAGE_SIZE) {
+          errors.push({
+            file: imageEntry.name,
+            message: "Image exceeds the 10MB size limit",
+          });
+          continue;
+        }
+
+        const metadata = await sharp(buffer)
+          .metadata()
+          .catch(() => null);
+        if (!metadata?.width || !metadata?.height || !metadata.format) {
+          errors.push({
+            file: imageEntry.name,
+            message: "File could not be read as an image",
+          });
+          continue;
+        }
+
+        // Read the labels before storing the image
+        const objects: ImportedObject[] = [];
+        const objectClasses: ProjectClass[] = [];
+        const lines = labelEntry
+          ? (await labelEntry.async("string")).split(/\r?\n/)
+          : [];
+        lines.forEach((line, index) => {
+          if (line.trim() === "") return;
+
+          const lineError = (message: string) =>
+            errors.push({
+              file: (labelEntry as JSZip.JSZipObject).name,
+              line: index + 1,
+              message,
+            });
+          const parsed = yoloFormat.fromLabelLine(line, keypointCount);
+          if ("error" in parsed) {
+            lineError(parsed.error);
+            return;
+          }
+          if (parsed.classIndex >= classNames.length) {
+            lineError(
+              `Class index ${parsed.classIndex} is not in ${classFile.name}`
+            );
+            return;
+          }
+          const cls = classMap[parsed.classIndex];
+          if (!cls) {
+            lineError(
+              `Class "${classNames[parsed.classIndex]}" is not in the project`
+            );
+            return;
+          }
+
+          objects.push(parsed.object);
+          objectClasses.push(cls);
+        });
+
+        const [image] = await services.images().uploadImages(
+          projectId,
+          [
+            {
+              buffer,
+              originalname: path.basename(imageEntry.name),
+              mimetype: `image/${metadata.format}`,
+              width: metadata.width,
+              height: metadata.height,
+            },
+          ],
+          datasetImport.importedBy,
+          bucket
+        );
+        if (!image) {
+          errors.push({
+            file: imageEntry.name,
+            message: "Image could not be stored",
+          });
+          continue;
+        }
+        importedImages++;
+
+        // Images without a label file are left unannotated
+        if (labelEntry) {
+          await services.annotations().saveAnnotation(
+            projectId,
+            image._id.toString(),
+            datasetImport.importedBy.toString(),
+            {
+              objects,
+              classIds: objectClasses.map((cls) => cls.id),
+              classNames: objectClasses.map((cls) => cls.name),
+              timeSpent: 0,
+              autoAnnotated: false,
+            },
+            bucket
+          );
+          importedObjects += objects.length;
+        }
+      } catch (error) {
+        errors.push({
+          file: imageEntry.name,
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    labels.forEach((entry) =>
+      errors.push({ file: entry.name, message: "No image for this label file" })
+    );
+
+    return { importedImages, importedObjects, createdClasses };
+  }
+}
@@ -0,0 +1,228 @@
+// src/services/dataset-version-service.ts
+import { ObjectId, type Filter } from "mongodb";
+import {
+  type Annotation,
+  type CreateDatasetVersionRequest,
+  type DatasetDiffImage,
+  type DatasetVersion,
+  type DatasetVersionDiff,
+  type DatasetVersionImage,
+  type ProjectImage,
+  DatasetDiffStatus,
+  ReviewStatus,
+} from "../types/index.js";
+import { db } from "../config/index.js";
+import { datasetDiff } from "../utils/dataset-diff.js";
+import { BaseService } from "./base-service.js";
+
+// Frozen images written to the database at a time
+const VERSION_IMAGE_BATCH_SIZE = 500;
+
+export class DatasetVersionService extends BaseService<DatasetVersion> {
+  constructor() {
+    super("dataset_versions");
+  }
+
+  /**
+   * Create a version from the approved images of a project, freezing a copy
+   * of the latest annotation of each
+   */
+  async createVersion(
+    projectId: string,
+    versionData: CreateDatasetVersionRequest,
+    createdBy: ObjectId
+  ): Promise<DatasetVersion> {
+    const database = db.getDb();
+    const projectObjId = new ObjectId(projectId);
+
+    const existing = await this.findOne({
+      projectId: projectObjId,
+      name: versionData.name,
+    } as Filter<DatasetVersion>);
+    if (existing) {
+      throw new Error("A version with this name already exists");
+    }
+
+    const images = await database
+      .collection<ProjectImage>("project_images")
+      .find({ projectId: projectObjId, reviewStatus: ReviewStatus.APPROVED })
+      .sort({ uploadedAt: 1 })
+      .toArray();
+
+    const annotations = await database
+      .collection<Annotation>("annotations")
+      .find({ imageId: { $in: images.map((image) => image._id) } })
+      .sort({ updatedAt: -1 })
+      .toArray();
+
+    // Keep the latest annotation of each image
+    const latestByImage = new Map<string, Annotation>();
+    annotations.forEach((annotation) => {
+      const imageId = annotation.imageId.toString();
+      if (!latestByImage.has(imageId)) {
+        latestByImage.set(imageId, annotation);
+      }
+    });
+    const frozenImages = images.filter((image) =>
+      latestByImage.has(image._id.toString())
+    );
+
+    const version = await this.create({
+      projectId: projectObjId,
+      name: versionData.name,
+      ...(versionData.description && {
+        description: versionData.description,
+      }),
+      createdBy,
+      createdAt: new Date(),
+      totalImages: frozenImages.length,
+      totalObjects: frozenImages.reduce(
+        (total, image) =>
+          total + latestByImage.get(image._id.toString())!.objects.length,
+        0
+      ),
+    });
+
+    const versionImages = database.collection<DatasetVersionImage>(
+      "dataset_version_images"
+    );
+    for (let i = 0; i < frozenImages.length; i += VERSION_IMAGE_BATCH_SIZE) {
+      await versionImages.insertMany(
+        frozenImages.slice(i, i + VERSION_IMAGE_BATCH_SIZE).map((image) => ({
+          _id: new ObjectId(),
+          versionId: version._id,
+          imageId: image._id,
+          filename: image.filename,
+          annotation: latestByImage.get(image._id.toString())!,
+        }))
+      );
+    }
+
+    return version;
+  }
+
+  /**
+   * Get the versions of a project, newest first
+   */
+  async getProjectVersions(projectId: string): Promise<DatasetVersion[]> {
+    return this.collection()
+      .find({ projectId: new ObjectId(projectId) } as Filter<DatasetVersion>)
+      .sort({ createdAt: -1 })
+      .toArray();
+  }
+
+  /**
+   * Get the frozen images of a version
+   */
+  async getVersionImages(versionId: string): Promise<DatasetVersionImage[]> {
+    return db
+      .getDb()
+      .collection<DatasetVersionImage>("dataset_version_images")
+      .find({ versionId: new ObjectId(versionId) })
+      .toArray();
+  }
+
+  /**
+   * Compare two versions of a project, image by image
+   */
+  async diffVersions(
+    projectId: string,
+    fromId: string,
+    toId: string
+  ): Promise<DatasetVersionDiff> {
+    const [from, to] = await Promise.all([
+      this.findOne({
+        _id: new ObjectId(fromId),
+        projectId: new ObjectId(projectId),
+      } as Filter<DatasetVersion>),
+      this.findOne({
+        _id: new ObjectId(toId),
+        projectId: new ObjectId(projectId),
+      } as Filter<DatasetVersion>),
+    ]);
+    if (!from || !to) {
+      throw new Error("Version not found");
+    }
+
+    const [fromImages, toImages] = await Promise.all([
+      this.getVersionImages(fromId),
+      this.getVersionImages(toId),
+    ]);
+    const fromByImage = new Map(
+      fromImages.map((image) => [image.imageId.toString(), image])
+    );
+    const toIds = new Set(toImages.map((image) => image.imageId.toString()));
+
+    const images: DatasetDiffImage[] = [];
+
+    for (const image of toImages) {
+      const imageId = image.imageId.toString();
+      const before = fromByImage.get(imageId);
+
+      if (!before) {
+        images.push({
+          imageId,
+          filename: image.filename,
+          status: DatasetDiffStatus.ADDED,
+          objectsAdded: image.annotation.objects.length,
+          objectsRemoved: 0,
+          objectsChanged: 0,
+        });
+        continue;
+      }
+
+      const objects = datasetDiff.compareObjects(
+        before.annotation.objects,
+        image.annotation.objects
+      );
+      if (
+        objects.added > 0 ||
+        objects.removed > 0 ||
+        objects.changed > 0 ||
+        !datasetDiff.sameImageData(before.annotation, image.annotation)
+      ) {
+        images.push({
+          imageId,
+          filename: image.filename,
+          status: DatasetDiffStatus.CHANGED,
+          objectsAdded: objects.added,
+          objectsRemoved: objects.removed,
+          objectsChanged: objects.changed,
+        });
+      }
+    }
+
+    for (const image of fromImages) {
+      if (!toIds.has(image.imageId.toString())) {
+        images.push({
+          imageId: image.imageId.toString(),
+          filename: image.filename,
+          status: DatasetDiffStatus.REMOVED,
+          objectsAdded: 0,
+          objectsRemoved: image.annotation.objects.length,
+          objectsChanged: 0,
+        });
+      }
+    }
+
+    const countImages = (status: DatasetDiffStatus) =>
+      images.filter((image) => image.status === status).length;
+    const sumObjects = (
+      field: "objectsAdded" | "objectsRemoved" | "objectsChanged"
+    ) => images.reduce((total, image) => total + image[field], 0);
+
+    return {
+      from: { id: from._id.toString(), name: from.name },
+      to: { id: to._id.toString(), name: to.name },
+      summary: {
+        imagesAdded: countImages(DatasetDiffStatus.ADDED),
+        imagesRemoved: countImages(DatasetDiffStatus.REMOVED),
+        imagesChanged: countImages(DatasetDiffStatus.CHANGED),
+        objectsAdded: sumObjects("objectsAdded"),
+        objectsRemoved: sumObjects("objectsRemoved"),
+        objectsChanged: sumObjects("objectsChanged"),
+      },
+      images,
+    };
+  }
+}
@@ -0,0 +1,281 @@
+// src/services/export-schedule-service.ts
+import { ObjectId, type Filter } from "mongodb";
+import {
+  type CreateExportScheduleRequest,
+  type ExportFilters,
+  type ExportSchedule,
+  type Project,
+  type ProjectExport,
+  type UpdateExportScheduleRequest,
+  ExportStatus,
+  ProjectStatus,
+} from "../types/index.js";
+import { db, EXPORT_SCHEDULER_INTERVAL } from "../config/index.js";
+import { cronSchedule } from "../utils/cron-schedule.js";
+import { BaseService } from "./base-service.js";
+import { services } from "./service-factory.js";
+
+export class ExportScheduleService extends BaseService<ExportSchedule> {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor() {
+    super("export_schedules");
+  }
+
+  /**
+   * Convert the request dates of export filters to dates
+   */
+  private toFilters(
+    filters: CreateExportScheduleRequest["filters"]
+  ): ExportFilters | undefined {
+    if (!filters) {
+      return undefined;
+    }
+
+    const { annotatedFrom, annotatedTo, ...rest } = filters;
+    return {
+      ...rest,
+      ...(annotatedFrom && { annotatedFrom: new Date(annotatedFrom) }),
+      ...(annotatedTo && { annotatedTo: new Date(annotatedTo) }),
+    };
+  }
+
+  /**
+   * Create an export schedule, first running at the next matching time
+   */
+  async createSchedule(
+    projectId: string,
+    scheduleData: CreateExportScheduleRequest,
+    createdBy: ObjectId
+  ): Promise<ExportSchedule> {
+    const filters = this.toFilters(scheduleData.filters);
+
+    return this.create({
+      projectId: new ObjectId(projectId),
+      name: scheduleData.name,
+      cron: scheduleData.cron,
+      format: scheduleData.format,
+      includesImages: scheduleData.includesImages,
+      onlyReviewedAnnotations: scheduleData.onlyReviewedAnnotations,
+      ...(scheduleData.taxonomyLevel !== undefined && {
+        taxonomyLevel: scheduleData.taxonomyLevel,
+      }),
+      ...(scheduleData.split && { split: scheduleData.split }),
+      ...(scheduleData.tiling && { tiling: scheduleData.tiling }),
+      ...(scheduleData.augmentation && {
+        augmentation: scheduleData.augmentation,
+      }),
+      ...(filters && { filters }),
+      retention: scheduleData.retention,
+      enabled: scheduleData.enabled ?? true,
+      createdBy,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      nextRunAt: cronSchedule.next(scheduleData.cron),
+    });
+  }
+
+  /**
+   * Update an export schedule. Changing the expression or enabling the
+   * schedule moves its next run to the next matching time.
+   */
+  async updateSchedule(
+    scheduleId: string,
+    scheduleData: UpdateExportScheduleRequest
+  ): Promise<ExportSchedule | null> {
+    const schedule = await this.findById(scheduleId);
+    if (!schedule) {
+      return null;
+    }
+
+    const { filters, ...rest } = scheduleData;
+    const cron = scheduleData.cron ?? schedule.cron;
+    const reschedule =
+      scheduleData.cron !== undefined ||
+      (scheduleData.enabled === true && !schedule.enabled);
+
+    return this.update(scheduleId, {
+      ...rest,
+      ...(filters !== undefined && { filters: this.toFilters(filters) }),
+      ...(reschedule && { nextRunAt: cronSchedule.next(cron) }),
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Get the schedules of a project
+   */
+  async getProjectSchedules(projectId: string): Promise<ExportSchedule[]> {
+    return this.collection()
+      .find({ projectId: new ObjectId(projectId) } as Filter<ExportSchedule>)
+      .sort({ createdAt: -1 })
+      .toArray();
+  }
+
+  /**
+   * Run every enabled schedule that is due, then delete the scheduled
+   * exports beyond their retention. Schedules of deleted or archived
+   * projects are disabled instead.
+   */
+  async runDueSchedules(bucket: string): Promise<void> {
+    const now = new Date();
+    const dueSchedules = await this.collection()
+      .find({
+        enabled: true,
+        nextRunAt: { $lte: now },
+      } as Filter<ExportSchedule>)
+      .toArray();
+
+    const activeProjectIds = new Set(
+      (
+        await db
+          .getDb()
+          .collection<Project>("projects")
+          .find({
+            _id: { $in: dueSchedules.map((schedule) => schedule.projectId) },
+            isDeleted: { $ne: true },
+            status: { $ne: ProjectStatus.ARCHIVED },
+          })
+          .project<Pick<Project, "_id">>({ _id: 1 })
+          .toArray()
+      ).map((project) => project._id.toString())
+    );
+
+    for (const schedule of dueSchedules) {
+      if (!activeProjectIds.has(schedule.projectId.toString())) {
+        await this.update(schedule._id.toString(), {
+          enabled: false,
+          lastError: "Project was deleted or archived",
+        });
+        continue;
+      }
+
+      // Claim the run by moving the next run forward, so a schedule runs
+      // once even with several servers
+      const claimed = await this.collection().findOneAndUpdate(
+        {
+          _id: schedule._id,
+          nextRunAt: schedule.nextRunAt,
+        } as Filter<ExportSchedule>,
+        {
+          $set: {
+            nextRunAt: cronSchedule.next(schedule.cron, now),
+            lastRunAt: now,
+          },
+        }
+      );
+      if (!claimed) {
+        continue;
+      }
+
+      try {
+        const exportRecord = await services.exports().createExport(
+          schedule.projectId.toString(),
+          {
+            format: schedule.format,
+            includesImages: schedule.includesImages,
+            onlyReviewedAnnotations: schedule.onlyReviewedAnnotations,
+            ...(schedule.taxonomyLevel != null && {
+              taxonomyLevel: schedule.taxonomyLevel,
+            }),
+            ...(schedule.split && { split: schedule.split }),
+            ...(schedule.tiling && { tiling: schedule.tiling }),
+            ...(schedule.augmentation && {
+              augmentation: schedule.augmentation,
+            }),
+            ...(schedule.filters && {
+              filters: {
+                ...schedule.filters,
+                annotatedFrom: schedule.filters.annotatedFrom?.toISOString(),
+                annotatedTo: schedule.filters.annotatedTo?.toISOString(),
+              },
+            }),
+          },
+          schedule.createdBy,
+          bucket,
+          schedule._id
+        );
+
+        await this.collection().updateOne(
+          { _id: schedule._id } as Filter<ExportSchedule>,
+          {
+            $set: { lastExportId: exportRecord._id },
+            $unset: { lastError: "" },
+          }
+        );
+
+        await this.pruneExports(schedule, bucket);
+      } catch (error) {
+        console.error(`Scheduled export ${schedule._id} failed:`, error);
+        await this.update(schedule._id.toString(), {
+          lastError: error instanceof Error ? error.message : "Export failed",
+        });
+      }
+    }
+  }
+
+  /**
+   * Delete the exports of a schedule beyond its retention, newest kept.
+   * Exports still in progress are never deleted.
+   */
+  private async pruneExports(
+    schedule: ExportSchedule,
+    bucket: string
+  ): Promise<void> {
+    const expired = await db
+      .getDb()
+      .collection<ProjectExport>("project_exports")
+      .find({ scheduleId: schedule._id })
+      .sort({ exportedAt: -1 })
+      .skip(schedule.retention)
+      .project<Pick<ProjectExport, "_id" | "status">>({ _id: 1, status: 1 })
+      .toArray();
+
+    for (const exportRecord of expired) {
+      if (
+        exportRecord.status === ExportStatus.COMPLETED ||
+        exportRecord.status === ExportStatus.FAILED
+      ) {
+        await services
+          .exports()
+          .deleteExport(exportRecord._id.toString(), bucket);
+      }
+    }
+  }
+
+  /**
+   * Start checking for due schedules in the background. Checks never
+   * overlap, a slow check delays the next one.
+   */
+  start(bucket: string): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(async () => {
+      if (this.running) {
+        return;
+      }
+
+      this.running = true;
+      try {
+        await this.runDueSchedules(bucket);
+      } catch (error) {
+        console.error("Export scheduler error:", error);
+      } finally {
+        this.running = false;
+      }
+    }, EXPORT_SCHEDULER_INTERVAL);
+  }
+
+  /**
+   * Stop checking for due schedules
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
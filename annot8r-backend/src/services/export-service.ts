@@ -1,25 +1,88 @@
 // src/services/export-service.ts
 import { ObjectId } from "mongodb";
-import { createWriteStream } from "fs";
-import { mkdir, rm, writeFile, readFile } from "fs/promises";
-import { Readable } from "stream";
-import { pipeline } from "stream/promises";
+import { PassThrough, Readable } from "stream";
 import { GetObjectCommand } from "@aws-sdk/client-s3";
 import {
   type ProjectExport,
+  type ExportContentEntry,
+  type ExportContentImage,
+  type ExportFilters,
+  type ExportIssue,
+  type ExportDroppedImage,
+  type ExportValidationReport,
+  ExportDropReason,
+  ExportIssueType,
+  ExportFormat,
   ExportStatus,
   type Project,
   type ProjectImage,
   type Annotation,
+  type ImageSequence,
+  type User,
   type CreateExportRequest,
+  type YoloObject,
+  type NormalizedPoint,
   ReviewStatus,
 } from "../types/index.js";
 import { db } from "../config/index.js";
 import { s3 } from "../config/s3.js";
 import { s3Operations } from "../utils/s3-operations.js";
+import { yoloFormat } from "../utils/yolo-format.js";
+import { maskFormat } from "../utils/mask-format.js";
+import { classTaxonomy } from "../utils/class-taxonomy.js";
+import { motFormat } from "../utils/mot-format.js";
+import { vocFormat } from "../utils/voc-format.js";
+import { datasetSplit } from "../utils/dataset-split.js";
+import { exportFilters } from "../utils/export-filters.js";
+import { exportValidation } from "../utils/export-validation.js";
+import { imageTiling, type ImageTile } from "../utils/image-tiling.js";
+import {
+  imageAugmentation,
+  type AugmentationTransform,
+} from "../utils/image-augmentation.js";
+import {
+  cocoFormat,
+  type CocoAnnotation,
+  type CocoImage,
+} from "../utils/coco-format.js";
+import { objectTable, type ObjectTableRow } from "../utils/object-table.js";
+import { labelStudioFormat } from "../utils/label-studio-format.js";
+import { cvatFormat } from "../utils/cvat-format.js";
+import {
+  imageLabelManifest,
+  type ImageLabelManifestRow,
+} from "../utils/image-label-manifest.js";
 import { BaseService } from "./base-service.js";
+import { services } from "./service-factory.js";
 import archiver from "archiver";
 import path from "path";
+import sharp from "sharp";
+
+// Images downloaded from S3 at a time while streaming an export
+const EXPORT_DOWNLOAD_CONCURRENCY = 4;
+
+// Content entries inserted at a time
+const EXPORT_CONTENT_BATCH_SIZE = 500;
+
+/**
+ * Run a task on every item, with at most `limit` tasks running at once
+ */
+const forEachConcurrent = async <T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> => {
+  let next = 0;
+  const workers = Array.from(
+    { length: Math.min(limit, items.length) },
+    async () => {
+      while (next < items.length) {
+        await task(items[next++]);
+      }
+    }
+  );
+  await Promise.all(workers);
+};
 
 export class ExportService extends BaseService<ProjectExport> {
   constructor() {
@@ -33,8 +96,70 @@ export class ExportService extends BaseService<ProjectExport> {
     projectId: string,
     exportData: CreateExportRequest,
     exportedBy: ObjectId,
-    bucket: string
+    bucket: string,
+    scheduleId?: ObjectId
   ): Promise<ProjectExport> {
+    // Incremental exports keep the class level, split, tiling, augmentation
+    // and filters of their base, so unchanged images keep their labels and
+    // folders
+    let base: ProjectExport | null = null;
+    if (exportData.baseExportId) {
+      base = await this.findById(exportData.baseExportId);
+
+      if (!base || base.projectId.toString() !== projectId) {
+        throw new Error("Base export not found");
+      }
+      if (
+        base.status !== ExportStatus.COMPLETED ||
+        base.contentCount === undefined
+      ) {
+        throw new Error("Base export can't be used for an incremental export");
+      }
+      if (base.format !== exportData.format) {
+        throw new Error("Incremental exports must use the base export format");
+      }
+      if (exportData.format === ExportFormat.MOT) {
+        throw new Error("Incremental exports are not available for MOT");
+      }
+      if (exportData.versionId) {
+        throw new Error("Dataset versions can't be exported incrementally");
+      }
+    }
+
+    if (exportData.versionId) {
+      const version = await services.datasetVersions().findOne({
+        _id: new ObjectId(exportData.versionId),
+        projectId: new ObjectId(projectId),
+      });
+      if (!version) {
+        throw new Error("Version not found");
+      }
+    }
+
+    const taxonomyLevel = base
+      ? base.taxonomyLevel ?? undefined
+      : exportData.taxonomyLevel;
+    const split = base ? base.split ?? undefined : exportData.split;
+    const tiling = base ? base.tiling ?? undefined : exportData.tiling;
+    const augmentation = base
+      ? base.augmentation ?? undefined
+      : exportData.augmentation;
+    if (tiling && !exportData.includesImages) {
+      throw new Error("Tiled exports must include images");
+    }
+    if (augmentation && !exportData.includesImages) {
+      throw new Error("Augmented exports must include images");
+    }
+    const { annotatedFrom, annotatedTo, ...requestFilters } =
+      exportData.filters || {};
+    const filters: ExportFilters | undefined = base
+      ? base.filters ?? undefined
+      : exportData.filters && {
+          ...requestFilters,
+          ...(annotatedFrom && { annotatedFrom: new Date(annotatedFrom) }),
+          ...(annotatedTo && { annotatedTo: new Date(annotatedTo) }),
+        };
+
     // Create export record
     const timestamp = Date.now();
     const s3Key = s3.getExportPath(
@@ -53,6 +178,16 @@ export class ExportService extends BaseService<ProjectExport> {
       totalAnnotations: 0,
       includesImages: exportData.includesImages,
       onlyReviewedAnnotations: exportData.onlyReviewedAnnotations,
+      ...(taxonomyLevel !== undefined && { taxonomyLevel }),
+      ...(split && { split }),
+      ...(tiling && { tiling }),
+      ...(augmentation && { augmentation }),
+      ...(filters && { filters }),
+      ...(scheduleId && { scheduleId }),
+      ...(base && { baseExportId: base._id }),
+      ...(exportData.versionId && {
+        versionId: new ObjectId(exportData.versionId),
+      }),
       status: ExportStatus.PENDING,
     });
 
@@ -85,6 +220,19 @@ export class ExportService extends BaseService<ProjectExport> {
 
     const database = db.getDb();
 
+    // Images of the base export of an incremental export, by ID
+    const base = exportConfig.baseExportId
+      ? await this.findById(exportConfig.baseExportId.toString())
+      : null;
+    if (exportConfig.baseExportId && base?.contentCount === undefined) {
+      throw new Error("Base export not found");
+    }
+    const baseEntries = new Map(
+      (base ? await this.getExportContents(base._id.toString()) : []).map(
+        (entry) => [entry.imageId.toString(), entry]
+      )
+    );
+
     // Get project
     const project = await database.collection<Project>("projects").findOne({
       _id: exportConfig.projectId,
@@ -94,13 +242,25 @@ export class ExportService extends BaseService<ProjectExport> {
       throw new Error("Project not found");
     }
 
+    // Versions hold the images and annotations to export, images deleted
+    // since the version was created are left out
+    const versionImages = exportConfig.versionId
+      ? await services
+          .datasetVersions()
+          .getVersionImages(exportConfig.versionId.toString())
+      : null;
+
     // Get images
     const imageQuery: Record<string, any> = {
       projectId: project._id,
     };
 
-    if (exportConfig.onlyReviewedAnnotations) {
+    if (versionImages) {
+      imageQuery._id = { $in: versionImages.map((image) => image.imageId) };
+    } else if (exportConfig.onlyReviewedAnnotations) {
       imageQuery.reviewStatus = ReviewStatus.APPROVED;
+    } else if (exportConfig.filters?.reviewStatuses?.length) {
+      imageQuery.reviewStatus = { $in: exportConfig.filters.reviewStatuses };
     }
 
     const images = await database
@@ -109,26 +269,165 @@ export class ExportService extends BaseService<ProjectExport> {
       .toArray();
 
     // Get annotations
-    const annotations = await database
-      .collection<Annotation>("annotations")
-      .find({
-        projectId: project._id,
-        imageId: { $in: images.map((img) => img._id) },
-      })
-      .toArray();
+    const annotations = versionImages
+      ? versionImages.map((image) => image.annotation)
+      : await database
+          .collection<Annotation>("annotations")
+          .find({
+            projectId: project._id,
+            imageId: { $in: images.map((img) => img._id) },
+          })
+          .toArray();
+
+    // MOT exports only cover the frames of image sequences, one directory
+    // per sequence
+    const isYolo =
+      exportConfig.format === ExportFormat.YOLO ||
+      exportConfig.format === ExportFormat.YOLO_OBB;
+    const isMot = exportConfig.format === ExportFormat.MOT;
+    const sequences = isMot
+      ? await database
+          .collection<ImageSequence>("image_sequences")
+          .find({ projectId: project._id })
+          .toArray()
+      : [];
+    const sequenceDirs = new Map<string, string>();
+    sequences.forEach((sequence) => {
+      const name = sequence.name.replace(/[^a-zA-Z0-9._-]/g, "_");
+      const taken = [...sequenceDirs.values()].includes(name);
+      sequenceDirs.set(
+        sequence._id.toString(),
+        taken ? `${name}_${sequence._id}` : name
+      );
+    });
+    const motSequences = new Map<
+      string,
+      {
+        lines: string[];
+        seqLength: number;
+        width: number;
+        height: number;
+        extension: string;
+      }
+    >();
+
+    // COCO exports gather every image and object into one annotations.json,
+    // Pascal VOC exports write one XML per image and object table exports
+    // write one row per object. Label Studio exports write a task per image
+    // with their labeling config, CVAT exports one annotations.xml.
+    const isCoco = exportConfig.format === ExportFormat.COCO;
+    const isVoc = exportConfig.format === ExportFormat.VOC;
+    const isTable = exportConfig.format === ExportFormat.OBJECT_TABLE;
+    const isLabelStudio = exportConfig.format === ExportFormat.LABEL_STUDIO;
+    const isCvat = exportConfig.format === ExportFormat.CVAT;
+    // These formats record image dimensions, measured from the exported files
+    const measuresImages =
+      isCoco || isVoc || isTable || isLabelStudio || isCvat;
+
+    // Stream the archive straight into a multipart upload, so the export
+    // never sits on disk or in memory as a whole
+    const archive = archiver("zip", {
+      zlib: { level: 9 }, // Maximum compression
+    });
+    const upload = s3Operations.uploadStream(
+      bucket,
+      exportConfig.s3Key,
+      archive,
+      "application/zip"
+    );
+
+    // Image and mask entries wait here until the archive has written them,
+    // which keeps the number of open S3 downloads and buffers held bounded
+    const pendingEntries = new Map<
+      string,
+      { resolve: () => void; reject: (error: Error) => void }
+    >();
+    let archiveFailure: Error | null = null;
+    const failPendingEntries = (error: Error) => {
+      archiveFailure = error;
+      pendingEntries.forEach((entry) => entry.reject(error));
+      pendingEntries.clear();
+    };
+    archive.on("entry", (entry) => {
+      pendingEntries.get(entry.name)?.resolve();
+      pendingEntries.delete(entry.name);
+    });
+    archive.on("error", failPendingEntries);
+    upload.catch(failPendingEntries);
 
-    // Create temporary directory
-    const tmpDir = `temp/exports/${exportId}`;
-    await mkdir(tmpDir, { recursive: true });
+    const appendEntry = (source: Readable | Buffer, name: string) =>
+      new Promise<void>((resolve, reject) => {
+        if (archiveFailure) {
+          reject(archiveFailure);
+          return;
+        }
+        pendingEntries.set(name, { resolve, reject });
+        if (source instanceof Readable) {
+          // A download failing partway never ends its entry, which would
+          // leave the export waiting
+          source.on("error", (error) => {
+            pendingEntries.delete(name);
+            reject(error);
+          });
+        }
+        archive.append(source, { name });
+      });
 
     try {
-      // Create directory structure
-      await mkdir(`${tmpDir}/images`, { recursive: true });
-      await mkdir(`${tmpDir}/labels`, { recursive: true });
+      // Collapse classes deeper than the taxonomy level into their ancestor
+      // at that level
+      const taxonomyLevel = exportConfig.taxonomyLevel ?? undefined;
+      const collapseClass = (classId: string) =>
+        taxonomyLevel === undefined
+          ? classId
+          : classTaxonomy.collapse(project.classes, classId, taxonomyLevel);
+
+      // A class filter keeps the classes it hits, re-indexed in project
+      // order
+      const filters = exportConfig.filters ?? undefined;
+      const hasClassFilter = Boolean(filters?.classIds?.length);
+      const keptClassIds = exportFilters.keptClassIds(project.classes, filters);
+      const exportedClassIds = new Set([...keptClassIds].map(collapseClass));
+      const exportClasses = (
+        taxonomyLevel === undefined
+          ? project.classes
+          : classTaxonomy.upToLevel(project.classes, taxonomyLevel)
+      ).filter((cls) => exportedClassIds.has(cls.id));
+      const exportClassIndexOf = (classId: string) => {
+        if (hasClassFilter && !keptClassIds.has(classId)) {
+          return -1;
+        }
+        const exportClassId =
+          taxonomyLevel === undefined
+            ? classId
+            : classTaxonomy.collapse(project.classes, classId, taxonomyLevel);
+        return exportClasses.findIndex((cls) => cls.id === exportClassId);
+      };
 
       // Create class names file
-      const classesContent = project.classes.map((cls) => cls.name).join("\n");
-      await writeFile(`${tmpDir}/classes.txt`, classesContent);
+      const classesContent = exportClasses.map((cls) => cls.name).join("\n");
+      archive.append(classesContent, { name: "classes.txt" });
+
+      // Validation report of the export
+      const issues: ExportIssue[] = [];
+      const droppedImages: ExportDroppedImage[] = [];
+      const annotatedImageIds = new Set(
+        annotations.map((ann) => ann.imageId.toString())
+      );
+
+      // Version images deleted since the version was created
+      if (versionImages) {
+        const foundIds = new Set(images.map((image) => image._id.toString()));
+        versionImages
+          .filter((image) => !foundIds.has(image.imageId.toString()))
+          .forEach((image) =>
+            droppedImages.push({
+              imageId: image.imageId.toString(),
+              filename: image.filename,
+              reason: ExportDropReason.IMAGE_DELETED,
+            })
+          );
+      }
 
       // Group annotations by image
       const annotationsByImage = annotations.reduce((acc, ann) => {
@@ -140,103 +439,887 @@ export class ExportService extends BaseService<ProjectExport> {
         return acc;
       }, {} as Record<string, Annotation[]>);
 
+      // Keep the latest annotation of images matching the filters, without
+      // the objects of filtered out classes. Images left without objects
+      // by the class filter are left out.
+      if (filters) {
+        for (const imageId of Object.keys(annotationsByImage)) {
+          const latest = annotationsByImage[imageId].reduce((a, b) =>
+            new Date(b.updatedAt).getTime() > new Date(a.updatedAt).getTime()
+              ? b
+              : a
+          );
+          const objects = hasClassFilter
+            ? latest.objects.filter((obj) => keptClassIds.has(obj.classId))
+            : latest.objects;
+
+          if (
+            !exportFilters.matchesAnnotation(latest, filters) ||
+            (hasClassFilter && objects.length === 0)
+          ) {
+            delete annotationsByImage[imageId];
+          } else {
+            annotationsByImage[imageId] = [{ ...latest, objects }];
+          }
+        }
+      }
+
+      // Assign YOLO images to train/val/test, stratified by the exported
+      // classes of their latest annotation. Images of the base export keep
+      // their split.
+      const split = isYolo ? exportConfig.split ?? undefined : undefined;
+      const imageSplits = split
+        ? datasetSplit.stratify(
+            images
+              .filter(
+                (image) =>
+                  annotationsByImage[image._id.toString()] &&
+                  !baseEntries.has(image._id.toString())
+              )
+              .map((image) => {
+                const latest = annotationsByImage[image._id.toString()].reduce(
+                  (a, b) =>
+                    new Date(b.updatedAt).getTime() >
+                    new Date(a.updatedAt).getTime()
+                      ? b
+                      : a
+                );
+                return {
+                  id: image._id.toString(),
+                  classIds: latest.objects
+                    .map((obj) => exportClassIndexOf(obj.classId))
+                    .filter((index) => index >= 0)
+                    .map((index) => exportClasses[index].id),
+                };
+              }),
+            split
+          )
+        : null;
+      baseEntries.forEach((entry, imageId) => {
+        if (imageSplits && entry.split) {
+          imageSplits.set(imageId, entry.split);
+        }
+      });
+      const splitDir = (imageId: string) =>
+        imageSplits ? `/${imageSplits.get(imageId)}` : "";
+
+      // YOLO images can be cut into tiles and get augmented copies
+      const tiling = isYolo ? exportConfig.tiling ?? undefined : undefined;
+      const augmentation = isYolo
+        ? exportConfig.augmentation ?? undefined
+        : undefined;
+
+      // Sizes are written to the export or used to cut tiles and augmented
+      // copies, see ImageService.measureSizes
+      if (measuresImages || isMot || tiling || augmentation) {
+        await services.images().measureSizes(
+          images.filter((image) => annotationsByImage[image._id.toString()]),
+          bucket
+        );
+      }
+
+      const augmentedFiles: Array<{
+        image: string;
+        labels: string;
+        source: { image: string; filename: string; tile?: ImageTile };
+        copy: number;
+        transform: AugmentationTransform;
+      }> = [];
+
       // Process each image
       let totalImages = 0;
       let totalAnnotations = 0;
+      const imageLabelRows: ImageLabelManifestRow[] = [];
+      // Formats that record dimensions also keep attributes on their objects
+      const hasAttributes =
+        !isMot &&
+        !measuresImages &&
+        exportClasses.some(
+          (cls) => cls.attributes && cls.attributes.length > 0
+        );
+      const attributeImages: Array<{
+        image: string;
+        filename: string;
+        objects: Array<{
+          line: number;
+          className: string;
+          attributes: YoloObject["attributes"];
+        }>;
+      }> = [];
+      const polylineImages: Array<{
+        image: string;
+        filename: string;
+        polylines: Array<{
+          classIndex: number;
+          className: string;
+          points: NormalizedPoint[];
+          attributes?: YoloObject["attributes"];
+        }>;
+      }> = [];
+
+      // Every image of the dataset, and the images an incremental export
+      // adds or changes
+      const contents: ExportContentEntry[] = [];
+      const addedEntries: ExportContentEntry[] = [];
+      const changedEntries: ExportContentEntry[] = [];
+
+      // Exported images with their path in the archive, streamed in once
+      // the annotations are written
+      const exportedImages: Array<{
+        image: ProjectImage;
+        annotation: Annotation;
+        filename: string;
+        archivePath: string;
+        // Images cut or transformed from the image
+        pieces?: Array<{
+          tile?: ImageTile;
+          augmentation?: AugmentationTransform;
+          archivePath: string;
+        }>;
+      }> = [];
 
       for (const image of images) {
         const imageId = image._id.toString();
         const imageAnnotations = annotationsByImage[imageId] || [];
 
-        if (imageAnnotations.length === 0) {
+        const sequenceDir = image.sequenceId
+          ? sequenceDirs.get(image.sequenceId.toString())
+          : undefined;
+
+        if (imageAnnotations.length === 0 || (isMot && !sequenceDir)) {
+          droppedImages.push({
+            imageId,
+            filename: image.filename,
+            reason:
+              imageAnnotations.length > 0
+                ? ExportDropReason.NOT_IN_SEQUENCE
+                : annotatedImageIds.has(imageId)
+                ? ExportDropReason.FILTERED
+                : ExportDropReason.NO_ANNOTATION,
+          });
           continue;
         }
 
+        // Keep the original file extension
+        const extension = (path.extname(image.filename) || ".jpg").toLowerCase();
+        const filename = `${imageId}${extension}`;
+
         // Get latest annotation
-        const latestAnnotation = imageAnnotations.sort(
+        const latest = imageAnnotations.sort(
           (a, b) =>
             new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
         )[0];
 
-        // Process annotation
-        if (latestAnnotation) {
-          // Create YOLO format annotation file
-          const yoloLines = latestAnnotation.objects.map((obj) => {
-            // Find class index in project classes
-            const classIndex = project.classes.findIndex(
-              (cls) => cls.id === obj.classId
+        // MOT frames are named by their frame number in their sequence
+        const archivePath =
+          isMot && sequenceDir
+            ? `sequences/${sequenceDir}/img1/${motFormat.frameFilename(
+                image.frameIndex ?? 0,
+                extension
+              )}`
+            : isVoc
+            ? `JPEGImages/${filename}`
+            : tiling
+            ? `images${splitDir(imageId)}/${imageId}_*${extension}`
+            : `images${splitDir(imageId)}/${filename}`;
+
+        contents.push({
+          imageId: image._id,
+          filename: image.filename,
+          path: archivePath,
+          ...(imageSplits && { split: imageSplits.get(imageId) }),
+        });
+
+        // Incremental exports leave out images whose annotation hasn't
+        // changed since the base export
+        const baseEntry = baseEntries.get(imageId);
+        if (base && baseEntry) {
+          if (
+            new Date(latest.updatedAt).getTime() <=
+            new Date(base.exportedAt).getTime()
+          ) {
+            continue;
+          }
+          changedEntries.push(contents[contents.length - 1]);
+        } else if (base) {
+          addedEntries.push(contents[contents.length - 1]);
+        }
+
+        // Leave out objects that would write broken labels and clamp
+        // coordinates to the image
+        const isKnownClass = (classId: string) =>
+          exportClassIndexOf(classId) >= 0;
+        const checked = exportValidation.checkObjects(
+          latest.objects,
+          isKnownClass
+        );
+        const maskIssues = maskFormat.hasPixels(latest.mask)
+          ? exportValidation.checkMask(latest.mask, (classId) =>
+              project.classes.some((cls) => cls.id === classId)
+            )
+          : [];
+        [...checked.issues, ...maskIssues].forEach((issue) =>
+          issues.push({ imageId, filename: image.filename, ...issue })
+        );
+        const latestAnnotation = { ...latest, objects: checked.objects };
+
+        // Find class index in exported classes
+        const classIndexOf = (obj: YoloObject) =>
+          exportClassIndexOf(obj.classId);
+        const classNameOf = (obj: YoloObject) =>
+          exportClasses[classIndexOf(obj)]?.name ?? obj.className;
+
+        if (isMot && sequenceDir) {
+          // Collect the tracked boxes of the frame into the ground truth
+          // of its sequence
+          const motSequence = motSequences.get(sequenceDir) || {
+            lines: [],
+            seqLength: 0,
+            width: image.width,
+            height: image.height,
+            extension,
+          };
+          motSequence.lines.push(
+            ...motFormat.toGtLines(
+              image.frameIndex ?? 0,
+              latestAnnotation.objects,
+              image.width,
+              image.height,
+              classIndexOf
+            )
+          );
+          motSequence.seqLength = Math.max(
+            motSequence.seqLength,
+            (image.frameIndex ?? 0) + 1
+          );
+          motSequences.set(sequenceDir, motSequence);
+        }
+
+        // Tiled exports write every tile as an image of its own, named
+        // after its image and position
+        const basePieces: Array<{
+          name: string;
+          tile?: ImageTile;
+          augmentation?: AugmentationTransform;
+          objects: YoloObject[];
+        }> = tiling
+          ? imageTiling
+              .tiles(image.width, image.height, tiling.size, tiling.overlap)
+              .map((tile) => ({
+                name: imageTiling.tileName(imageId, tile),
+                tile,
+                objects: imageTiling.cropObjects(
+                  latestAnnotation.objects,
+                  tile,
+                  image.width,
+                  image.height,
+                  tiling.minVisibility
+                ),
+              }))
+          : [{ name: imageId, objects: latestAnnotation.objects }];
+
+        // Augmented copies follow the image or tile they come from. Only
+        // training images are augmented when the dataset is split.
+        const augment =
+          augmentation &&
+          (!imageSplits || imageSplits.get(imageId) === "train");
+        const pieces = augment
+          ? basePieces.flatMap((piece) => [
+              piece,
+              ...Array.from({ length: augmentation.copies }, (_, index) => {
+                const copy = index + 1;
+                const transform = imageAugmentation.transform(
+                  augmentation,
+                  piece.name,
+                  copy
+                );
+                const name = `${piece.name}_aug${copy}`;
+
+                augmentedFiles.push({
+                  image: `images${splitDir(imageId)}/${name}${extension}`,
+                  labels: `labels${splitDir(imageId)}/${name}.txt`,
+                  source: {
+                    image: imageId,
+                    filename: image.filename,
+                    ...(piece.tile && { tile: piece.tile }),
+                  },
+                  copy,
+                  transform,
+                });
+
+                return {
+                  name,
+                  tile: piece.tile,
+                  augmentation: transform,
+                  objects: imageAugmentation.transformObjects(
+                    piece.objects,
+                    piece.tile?.width ?? image.width,
+                    piece.tile?.height ?? image.height,
+                    transform
+                  ),
+                };
+              }),
+            ])
+          : basePieces;
+
+        for (const piece of pieces) {
+          if (isYolo) {
+            // Create YOLO-OBB, or YOLO (YOLO-seg or YOLO-pose when needed),
+            // annotation file
+            const yoloLines =
+              exportConfig.format === ExportFormat.YOLO_OBB
+                ? yoloFormat.toObbLines(piece.objects, classIndexOf)
+                : yoloFormat.toLabelLines(
+                    piece.objects,
+                    classIndexOf,
+                    project.skeleton?.keypoints.length || 0
+                  );
+
+            archive.append(yoloLines.join("\n"), {
+              name: `labels${splitDir(imageId)}/${piece.name}.txt`,
+            });
+          }
+
+          totalAnnotations += piece.objects.length;
+
+          // Create PNG index mask, where each pixel holds the line of its
+          // class in classes.txt (1-based) and 0 is background
+          if (maskFormat.hasPixels(latestAnnotation.mask)) {
+            const { width, height } = latestAnnotation.mask;
+            const indexMap = maskFormat.toIndexMap(
+              latestAnnotation.mask,
+              (classId) => exportClassIndexOf(classId) + 1
             );
-            return `${classIndex} ${obj.x} ${obj.y} ${obj.width} ${obj.height}`;
+
+            let mask = sharp(Buffer.from(indexMap.buffer), {
+              raw: { width, height, channels: 1 },
+            });
+            let maskWidth = width;
+            let maskHeight = height;
+            if (piece.tile) {
+              // Masks may have another resolution than their image
+              const scaleX = width / image.width;
+              const scaleY = height / image.height;
+              const left = Math.round(piece.tile.left * scaleX);
+              const top = Math.round(piece.tile.top * scaleY);
+              maskWidth = Math.max(
+                1,
+                Math.min(width - left, Math.round(piece.tile.width * scaleX))
+              );
+              maskHeight = Math.max(
+                1,
+                Math.min(height - top, Math.round(piece.tile.height * scaleY))
+              );
+              mask = mask.extract({
+                left,
+                top,
+                width: maskWidth,
+                height: maskHeight,
+              });
+            }
+            if (piece.augmentation) {
+              mask = imageAugmentation.apply(
+                mask,
+                maskWidth,
+                maskHeight,
+                piece.augmentation,
+                true
+              );
+            }
+            const maskPng = await mask.toColourspace("b-w").png().toBuffer();
+            await appendEntry(maskPng, `masks/${piece.name}.png`);
+          }
+
+          imageLabelRows.push({
+            image: piece.name,
+            filename: image.filename,
+            imageLabels: latestAnnotation.imageLabels || [],
           });
 
-          const yoloContent = yoloLines.join("\n");
-          await writeFile(`${tmpDir}/labels/${imageId}.txt`, yoloContent);
+          // Attributes of each object, by its line in the label file
+          if (hasAttributes) {
+            attributeImages.push({
+              image: piece.name,
+              filename: image.filename,
+              objects: yoloFormat
+                .labelObjects(piece.objects)
+                .map((obj, line) => ({
+                  line,
+                  className: classNameOf(obj),
+                  attributes: obj.attributes || {},
+                })),
+            });
+          }
 
-          totalAnnotations += latestAnnotation.objects.length;
+          // Polylines have no YOLO representation, keep their points instead
+          const polylines = piece.objects.filter((obj) =>
+            yoloFormat.isPolyline(obj)
+          );
+          if (polylines.length > 0) {
+            polylineImages.push({
+              image: piece.name,
+              filename: image.filename,
+              polylines: polylines.map((obj) => ({
+                classIndex: classIndexOf(obj),
+                className: classNameOf(obj),
+                points: obj.points as NormalizedPoint[],
+                attributes: obj.attributes,
+              })),
+            });
+          }
         }
 
-        // Download image if included
-        if (exportConfig.includesImages) {
-          const s3Client = s3.getClient();
-          const imageS3Key = image.s3Key;
+        exportedImages.push({
+          image,
+          annotation: latestAnnotation,
+          filename,
+          archivePath,
+          ...((tiling || augment) && {
+            pieces: pieces.map((piece) => ({
+              tile: piece.tile,
+              augmentation: piece.augmentation,
+              archivePath: `images${splitDir(
+                imageId
+              )}/${piece.name}${extension}`,
+            })),
+          }),
+        });
 
-          const getObjectCommand = new GetObjectCommand({
-            Bucket: bucket,
-            Key: imageS3Key,
-          });
+        totalImages += pieces.length;
+      }
 
-          const imageResponse = await s3Client.send(getObjectCommand);
+      // Stream images from S3 into the archive, measuring them on the way
+      // when the format records their size
+      const measuredSizes = new Map<
+        string,
+        { width: number; height: number; depth?: number }
+      >();
+      if (exportConfig.includesImages) {
+        const s3Client = s3.getClient();
 
-          if (imageResponse.Body) {
-            const imageStream = imageResponse.Body as Readable;
-            const fileStream = createWriteStream(
-              `${tmpDir}/images/${imageId}.jpg`
+        await forEachConcurrent(
+          exportedImages,
+          EXPORT_DOWNLOAD_CONCURRENCY,
+          async ({ image, archivePath, pieces }) => {
+            const imageResponse = await s3Client.send(
+              new GetObjectCommand({ Bucket: bucket, Key: image.s3Key })
             );
-            await pipeline(imageStream, fileStream);
+            if (!imageResponse.Body) {
+              issues.push({
+                type: ExportIssueType.MISSING_FILE,
+                imageId: image._id.toString(),
+                filename: image.filename,
+                message: "Image file missing from storage, labels kept",
+              });
+              return;
+            }
+
+            // Tiles and augmented copies are made from the whole image,
+            // keeping its format. The image itself is kept as is.
+            if (pieces) {
+              const imageBuffer = Buffer.from(
+                await imageResponse.Body.transformToByteArray()
+              );
+
+              // Tiles and transforms were made for the measured size, a file
+              // of another size would be cut in the wrong place
+              const measured = await sharp(imageBuffer)
+                .metadata()
+                .catch(() => null);
+              if (
+                measured?.width !== image.width ||
+                measured?.height !== image.height
+              ) {
+                issues.push({
+                  type: ExportIssueType.SIZE_MISMATCH,
+                  imageId: image._id.toString(),
+                  filename: image.filename,
+                  message: `Image file is ${
+                    measured?.width && measured?.height
+                      ? `${measured.width}x${measured.height}`
+                      : "unreadable"
+                  } instead of ${image.width}x${
+                    image.height
+                  }, labels kept without images`,
+                });
+                return;
+              }
+
+              for (const piece of pieces) {
+                if (!piece.tile && !piece.augmentation) {
+                  await appendEntry(imageBuffer, piece.archivePath);
+                  continue;
+                }
+
+                let pieceImage = sharp(imageBuffer);
+                if (piece.tile) {
+                  pieceImage = pieceImage.extract(piece.tile);
+                }
+                if (piece.augmentation) {
+                  pieceImage = imageAugmentation.apply(
+                    pieceImage,
+                    piece.tile?.width ?? image.width,
+                    piece.tile?.height ?? image.height,
+                    piece.augmentation
+                  );
+                }
+                await appendEntry(
+                  await pieceImage.toBuffer(),
+                  piece.archivePath
+                );
+              }
+              return;
+            }
+
+            const imageStream = imageResponse.Body as Readable;
+            if (!measuresImages) {
+              await appendEntry(imageStream, archivePath);
+              return;
+            }
+
+            const probe = sharp();
+            const metadata = probe.metadata().catch(() => null);
+            const entryStream = new PassThrough();
+            imageStream.on("error", (error) => {
+              probe.destroy();
+              entryStream.destroy(error);
+            });
+            imageStream.pipe(probe);
+            imageStream.pipe(entryStream);
+
+            await appendEntry(entryStream, archivePath);
+            const measured = await metadata;
+            if (measured?.width && measured?.height) {
+              measuredSizes.set(image._id.toString(), {
+                width: measured.width,
+                height: measured.height,
+                depth: measured.channels,
+              });
+            }
           }
+        );
+      }
+
+      // Stored dimensions, replaced by the measured ones of streamed images
+      const sizeOf = (image: ProjectImage) =>
+        measuredSizes.get(image._id.toString()) || {
+          width: image.width,
+          height: image.height,
+          depth: undefined,
+        };
+
+      // Create one XML per image and the image list for VOC, every exported
+      // image being in trainval
+      if (isVoc) {
+        for (const { image, annotation, filename } of exportedImages) {
+          archive.append(
+            vocFormat.toXml(
+              { filename, ...sizeOf(image) },
+              annotation.objects,
+              (obj) => exportClasses[exportClassIndexOf(obj.classId)]?.name
+            ),
+            { name: `Annotations/${image._id}.xml` }
+          );
         }
+        archive.append(
+          exportedImages.map(({ image }) => image._id.toString()).join("\n"),
+          { name: "ImageSets/Main/trainval.txt" }
+        );
+      }
+
+      // Create the COCO annotations file
+      if (isCoco) {
+        const cocoImages: CocoImage[] = [];
+        const cocoAnnotations: CocoAnnotation[] = [];
 
-        totalImages++;
+        exportedImages.forEach(({ image, annotation, filename }, index) => {
+          const { width, height } = sizeOf(image);
+          cocoImages.push({ id: index + 1, file_name: filename, width, height });
+          cocoAnnotations.push(
+            ...cocoFormat.toAnnotations(
+              annotation.objects,
+              index + 1,
+              width,
+              height,
+              (obj) => exportClassIndexOf(obj.classId) + 1,
+              cocoAnnotations.length + 1,
+              project.skeleton?.keypoints.length || 0
+            )
+          );
+        });
+
+        archive.append(
+          JSON.stringify(
+            {
+              info: {
+                description: `${project.name} export`,
+                date_created: new Date().toISOString(),
+              },
+              images: cocoImages,
+              categories: cocoFormat.toCategories(
+                exportClasses,
+                project.classes,
+                project.skeleton
+              ),
+              annotations: cocoAnnotations,
+            },
+            null,
+            2
+          ),
+          { name: "annotations.json" }
+        );
       }
 
-      // Create ZIP file using native ZIP command
-      const zipFilePath = `${tmpDir}/${project.name}_export.zip`;
+      // Name annotators and reviewers by their username in the formats that
+      // credit them
+      const userIds = new Set<string>();
+      if (isTable || isLabelStudio || isCvat) {
+        exportedImages.forEach(({ image, annotation }) => {
+          userIds.add(annotation.userId.toString());
+          if (image.reviewedBy) {
+            userIds.add(image.reviewedBy.toString());
+          }
+        });
+      }
+      const users =
+        userIds.size > 0
+          ? await database
+              .collection<User>("users")
+              .find(
+                { _id: { $in: [...userIds].map((id) => new ObjectId(id)) } },
+                { projection: { username: 1 } }
+              )
+              .toArray()
+          : [];
+      const usernameOf = (userId?: ObjectId) =>
+        userId
+          ? users.find((user) => user._id.equals(userId))?.username ?? null
+          : null;
 
-      // Use zip command (most Unix systems have this)
-      const output = createWriteStream(zipFilePath);
-      const archive = archiver("zip", {
-        zlib: { level: 9 }, // Maximum compression
-      });
+      // Create the Label Studio tasks and the labeling config to import them
+      // with
+      if (isLabelStudio) {
+        const keypointNames = project.skeleton?.keypoints || [];
+        const tasks = exportedImages.map(
+          ({ image, annotation, archivePath }, index) =>
+            labelStudioFormat.toTask(
+              index + 1,
+              { path: archivePath, ...sizeOf(image) },
+              annotation.objects,
+              (obj) => exportClasses[exportClassIndexOf(obj.classId)],
+              {
+                annotator: usernameOf(annotation.userId),
+                createdAt: annotation.createdAt,
+                updatedAt: annotation.updatedAt,
+                timeSpent: annotation.timeSpent,
+              },
+              keypointNames
+            )
+        );
 
-      // Handle archive completion
-      await new Promise<void>((resolve, reject) => {
-        output.on("close", () => resolve());
-        archive.on("error", (err) => reject(err));
+        archive.append(JSON.stringify(tasks, null, 2), { name: "tasks.json" });
+        archive.append(
+          labelStudioFormat.toLabelConfig(exportClasses, keypointNames),
+          { name: "label_config.xml" }
+        );
+      }
 
-        archive.pipe(output);
+      // Create the CVAT annotations, naming the annotator when a single user
+      // annotated every exported image
+      if (isCvat) {
+        const annotatorIds = new Set(
+          exportedImages.map(({ annotation }) => annotation.userId.toString())
+        );
+        archive.append(
+          cvatFormat.toXml(
+            project.name,
+            exportClasses,
+            exportedImages.map(({ image, annotation, archivePath }) => ({
+              name: archivePath,
+              ...sizeOf(image),
+              objects: annotation.objects,
+            })),
+            (obj) => exportClasses[exportClassIndexOf(obj.classId)]?.name,
+            project.skeleton?.keypoints,
+            annotatorIds.size === 1
+              ? usernameOf(exportedImages[0].annotation.userId)
+              : null
+          ),
+          { name: "annotations.xml" }
+        );
+      }
 
-        // Add files to the archive
-        archive.file(path.join(tmpDir, "classes.txt"), { name: "classes.txt" });
-        archive.directory(path.join(tmpDir, "labels"), "labels");
+      // Create the object table
+      if (isTable) {
+        const rows: ObjectTableRow[] = exportedImages.flatMap(
+          ({ image, annotation }) => {
+            const { width, height } = sizeOf(image);
+            return objectTable.toRows(
+              {
+                image_id: image._id.toString(),
+                filename: image.filename,
+                image_width: width,
+                image_height: height,
+                annotator_id: annotation.userId.toString(),
+                annotator: usernameOf(annotation.userId),
+                auto_annotated: annotation.autoAnnotated,
+                annotated_at: annotation.createdAt,
+                updated_at: annotation.updatedAt,
+                review_status: image.reviewStatus,
+                reviewer_id: image.reviewedBy?.toString() ?? null,
+                reviewer: usernameOf(image.reviewedBy),
+                reviewed_at: image.reviewedAt ?? null,
+              },
+              annotation.objects,
+              (obj) => exportClasses[exportClassIndexOf(obj.classId)]
+            );
+          }
+        );
 
-        // Add images if included
-        if (exportConfig.includesImages) {
-          archive.directory(path.join(tmpDir, "images"), "images");
-        }
+        archive.append(objectTable.toJsonl(rows), { name: "objects.jsonl" });
+        archive.append(objectTable.toParquet(rows), {
+          name: "objects.parquet",
+        });
+      }
 
-        archive.finalize();
-      });
+      // Create the ground truth and info file of each MOT sequence
+      for (const [sequenceDir, motSequence] of motSequences) {
+        archive.append(motSequence.lines.join("\n"), {
+          name: `sequences/${sequenceDir}/gt/gt.txt`,
+        });
+        archive.append(
+          motFormat.toSeqInfo({
+            name: sequenceDir,
+            seqLength: motSequence.seqLength,
+            imWidth: motSequence.width,
+            imHeight: motSequence.height,
+            imExt: motSequence.extension,
+          }),
+          { name: `sequences/${sequenceDir}/seqinfo.ini` }
+        );
+      }
 
-      // Read the ZIP file
-      const zipBuffer = await readFile(zipFilePath);
+      // Create the Ultralytics dataset file
+      if (isYolo) {
+        archive.append(
+          datasetSplit.toDataYaml(
+            exportClasses.map((cls) => cls.name),
+            {
+              split,
+              keypointCount:
+                exportConfig.format === ExportFormat.YOLO
+                  ? project.skeleton?.keypoints.length
+                  : undefined,
+            }
+          ),
+          { name: "data.yaml" }
+        );
+      }
 
-      // Upload to S3
-      await s3Operations.upload(
-        bucket,
-        exportConfig.s3Key,
-        zipBuffer,
-        "application/zip"
+      // Create the object attributes file when classes declare attributes
+      if (hasAttributes) {
+        archive.append(
+          JSON.stringify(
+            {
+              classes: exportClasses.map((cls) => ({
+                name: cls.name,
+                attributes: cls.attributes || [],
+              })),
+              images: attributeImages,
+            },
+            null,
+            2
+          ),
+          { name: "attributes.json" }
+        );
+      }
+
+      // Create the polylines file when any exported image has polylines
+      if (polylineImages.length > 0) {
+        archive.append(
+          JSON.stringify(
+            {
+              classes: exportClasses.map((cls) => cls.name),
+              images: polylineImages,
+            },
+            null,
+            2
+          ),
+          { name: "polylines.json" }
+        );
+      }
+
+      // Link every augmented copy to its source image
+      if (augmentation) {
+        archive.append(
+          JSON.stringify(
+            { ...augmentation, files: augmentedFiles },
+            null,
+            2
+          ),
+          { name: "augmentations.json" }
+        );
+      }
+
+      // Create image label manifests when the project defines label sets
+      const imageLabelSets = project.imageLabelSets || [];
+      if (imageLabelSets.length > 0) {
+        archive.append(
+          imageLabelManifest.toCsv(imageLabelSets, imageLabelRows),
+          { name: "image_labels.csv" }
+        );
+        archive.append(
+          imageLabelManifest.toJson(imageLabelSets, imageLabelRows),
+          { name: "image_labels.json" }
+        );
+      }
+
+      // Describe the changes of an incremental export. Images of the base
+      // export missing from the dataset were deleted, lost their
+      // annotations or are no longer approved.
+      const exportedIds = new Set(
+        contents.map((entry) => entry.imageId.toString())
+      );
+      const removedEntries = [...baseEntries.values()].filter(
+        (entry) => !exportedIds.has(entry.imageId.toString())
       );
+      if (base) {
+        const toManifestEntry = (entry: ExportContentEntry) => ({
+          image: entry.imageId.toString(),
+          filename: entry.filename,
+          path: entry.path,
+          ...(entry.split && { split: entry.split }),
+        });
+
+        archive.append(
+          JSON.stringify(
+            {
+              baseExportId: base._id.toString(),
+              baseExportedAt: base.exportedAt,
+              exportedAt: exportConfig.exportedAt,
+              added: addedEntries.map(toManifestEntry),
+              changed: changedEntries.map(toManifestEntry),
+              removed: removedEntries.map(toManifestEntry),
+            },
+            null,
+            2
+          ),
+          { name: "manifest.json" }
+        );
+      }
+
+      // Create the validation report
+      const validation = exportValidation.summarize(issues, droppedImages);
+      const report: ExportValidationReport = {
+        summary: validation,
+        issues,
+        droppedImages,
+      };
+      archive.append(JSON.stringify(report, null, 2), { name: "report.json" });
+
+      // The upload stops reading the archive once it fails, so finalize is
+      // only settled alongside it
+      await Promise.all([archive.finalize(), upload]);
 
       // Create download URL
       const downloadUrl = await s3.getSignedUrl(
@@ -245,21 +1328,43 @@ export class ExportService extends BaseService<ProjectExport> {
         60 * 60 * 24
       ); // 24 hours
 
+      const exportContents = database.collection<ExportContentImage>(
+        "export_contents"
+      );
+      for (let i = 0; i < contents.length; i += EXPORT_CONTENT_BATCH_SIZE) {
+        await exportContents.insertMany(
+          contents.slice(i, i + EXPORT_CONTENT_BATCH_SIZE).map((entry) => ({
+            _id: new ObjectId(),
+            exportId: exportConfig._id,
+            ...entry,
+          }))
+        );
+      }
+
       // Update export record
       await this.update(exportId, {
         status: ExportStatus.COMPLETED,
         totalImages,
         totalAnnotations,
+        contentCount: contents.length,
+        validation,
+        ...(base && {
+          changes: {
+            added: addedEntries.length,
+            changed: changedEntries.length,
+            removed: removedEntries.length,
+          },
+        }),
         url: downloadUrl,
         expiresAt: new Date(Date.now() + 60 * 60 * 24 * 1000), // 24 hours
       });
-    } finally {
-      // Clean up temporary directory
-      try {
-        await rm(tmpDir, { recursive: true, force: true });
-      } catch (error) {
-        console.error("Error cleaning up temporary directory:", error);
-      }
+    } catch (error) {
+      // Fail the upload rather than completing it with a partial archive
+      archive.destroy(
+        error instanceof Error ? error : new Error("Export failed")
+      );
+      await upload.catch(() => undefined);
+      throw error;
     }
   }
 
@@ -289,6 +1394,40 @@ export class ExportService extends BaseService<ProjectExport> {
     return downloadUrl;
   }
 
+  /**
+   * Get the images of the dataset when an export was made
+   */
+  async getExportContents(exportId: string): Promise<ExportContentEntry[]> {
+    return db
+      .getDb()
+      .collection<ExportContentImage>("export_contents")
+      .find({ exportId: new ObjectId(exportId) })
+      .project<ExportContentEntry>({ _id: 0, exportId: 0 })
+      .toArray();
+  }
+
+  /**
+   * Delete an export, its archive and its contents
+   */
+  async deleteExport(exportId: string, bucket: string): Promise<boolean> {
+    const exportRecord = await this.findById(exportId);
+    if (!exportRecord) {
+      return false;
+    }
+
+    // Failed exports may have no archive
+    if (await s3.objectExists(bucket, exportRecord.s3Key)) {
+      await s3Operations.delete(bucket, exportRecord.s3Key);
+    }
+
+    await db
+      .getDb()
+      .collection<ExportContentImage>("export_contents")
+      .deleteMany({ exportId: exportRecord._id });
+
+    return this.delete(exportId);
+  }
+
   /**
    * Get project exports with pagination
    */
@@ -1,5 +1,8 @@
 // src/services/image-service.ts
+import path from "path";
 import { ObjectId, type Filter } from "mongodb";
+import { GetObjectCommand } from "@aws-sdk/client-s3";
+import sharp from "sharp";
 import {
   AnnotationStatus,
   ImageStatus,
@@ -13,6 +16,9 @@ import { s3Operations } from "../utils/s3-operations.js";
 import { BaseService } from "./base-service.js";
 import { generateImageToken } from "../utils/jwt.js";
 
+// Images downloaded from S3 at a time while measuring their size
+const MEASURE_BATCH_SIZE = 4;
+
 export class ImageService extends BaseService<ProjectImage> {
   constructor() {
     super('project_images');
@@ -29,6 +35,7 @@ export class ImageService extends BaseService<ProjectImage> {
       mimetype: string;
       width: number;
       height: number;
+      sourceTimestamp?: number;
     }>,
     uploadedBy: ObjectId,
     bucket: string
@@ -71,6 +78,7 @@ export class ImageService extends BaseService<ProjectImage> {
           s3Key,
           width: file.width,
           height: file.height,
+          sizeMeasured: true,
           uploadedAt: new Date(),
           uploadedBy,
           status: ImageStatus.UPLOADED,
@@ -78,6 +86,9 @@ export class ImageService extends BaseService<ProjectImage> {
           autoAnnotated: false,
           timeSpent: 0,
           reviewStatus: ReviewStatus.NOT_REVIEWED,
+          ...(file.sourceTimestamp !== undefined && {
+            sourceTimestamp: file.sourceTimestamp,
+          }),
         };
         
         // Upload file to S3
@@ -163,6 +174,80 @@ export class ImageService extends BaseService<ProjectImage> {
     return { images: items, total };
   }
 
+  /**
+   * Get the images of a project stored under any of the filenames, or
+   * exported under them (`<imageId>.<extension>`)
+   */
+  async findByFilenames(
+    projectId: string,
+    filenames: string[]
+  ): Promise<ProjectImage[]> {
+    const exportedIds = filenames
+      .map((filename) => path.parse(filename).name)
+      .filter((name) => ObjectId.isValid(name) && name.length === 24)
+      .map((name) => new ObjectId(name));
+
+    return this.collection()
+      .find({
+        projectId: new ObjectId(projectId),
+        $or: [
+          { filename: { $in: filenames } },
+          { _id: { $in: exportedIds } },
+        ],
+      } as Filter<ProjectImage>)
+      .toArray();
+  }
+
+  /**
+   * Measure images stored with the placeholder dimensions of older uploads
+   * and store their real size. Run this before an image's size is trusted,
+   * as exports and imports do to write, tile or check coordinates. The
+   * images are updated in place, those that can't be read keep their
+   * stored size.
+   */
+  async measureSizes(images: ProjectImage[], bucket: string): Promise<void> {
+    const unmeasured = images.filter((image) => !image.sizeMeasured);
+    const s3Client = s3.getClient();
+
+    for (let i = 0; i < unmeasured.length; i += MEASURE_BATCH_SIZE) {
+      await Promise.all(
+        unmeasured.slice(i, i + MEASURE_BATCH_SIZE).map(async (image) => {
+          try {
+            const imageResponse = await s3Client.send(
+              new GetObjectCommand({ Bucket: bucket, Key: image.s3Key })
+            );
+            if (!imageResponse.Body) {
+              return;
+            }
+
+            const metadata = await sharp(
+              Buffer.from(await imageResponse.Body.transformToByteArray())
+            ).metadata();
+            if (!metadata.width || !metadata.height) {
+              return;
+            }
+
+            image.width = metadata.width;
+            image.height = metadata.height;
+            image.sizeMeasured = true;
+            await this.collection().updateOne(
+              { _id: image._id } as Filter<ProjectImage>,
+              {
+                $set: {
+                  width: image.width,
+                  height: image.height,
+                  sizeMeasured: true,
+                },
+              }
+            );
+          } catch (error) {
+            console.error(`Error measuring image ${image._id}:`, error);
+          }
+        })
+      );
+    }
+  }
+
   /**
    * Get images assigned to a user
    */
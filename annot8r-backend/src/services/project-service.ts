@@ -4,6 +4,7 @@ import {
   ProjectStatus,
   type Project,
   type ProjectClass,
+  type ClassDistributionEntry,
   type ProjectMember,
   type CreateProjectRequest,
   type UpdateProjectRequest,
@@ -13,6 +14,7 @@ import {
 } from "../types/index.js";
 import { BaseService } from "./base-service.js";
 import { s3Operations } from "../utils/s3-operations.js";
+import { classTaxonomy } from "../utils/class-taxonomy.js";
 import { db } from "../config/index.js";
 import { services } from "./service-factory.js";
 
@@ -45,12 +47,20 @@ export class ProjectService extends BaseService<Project> {
       isCustom: false,
     }));
 
+    // Generate image label set IDs
+    const imageLabelSets = projectData.imageLabelSets?.map((set) => ({
+      ...set,
+      id: new ObjectId().toString(),
+    }));
+
     // Create project
     const project = await this.create({
       name: projectData.name,
       description: projectData.description,
       annotationFormat: projectData.annotationFormat,
       classes,
+      skeleton: projectData.skeleton,
+      imageLabelSets,
       allowCustomClasses: projectData.allowCustomClasses,
       status: ProjectStatus.CREATED,
       createdBy,
@@ -158,6 +168,9 @@ export class ProjectService extends BaseService<Project> {
       database
         .collection("project_exports")
         .deleteMany({ projectId: projectObjId }),
+      database
+        .collection("export_schedules")
+        .deleteMany({ projectId: projectObjId }),
     ]);
 
     // Soft delete the project
@@ -447,6 +460,42 @@ export class ProjectService extends BaseService<Project> {
     });
   }
 
+  /**
+   * Count the objects of each class in the latest annotation of every image,
+   * rolling the counts up to parent classes
+   */
+  async getClassDistribution(
+    project: Project
+  ): Promise<ClassDistributionEntry[]> {
+    const database = db.getDb();
+
+    const results = await database
+      .collection("annotations")
+      .aggregate<{ _id: string; count: number }>([
+        { $match: { projectId: project._id } },
+        { $sort: { updatedAt: -1 } },
+        { $group: { _id: "$imageId", objects: { $first: "$objects" } } },
+        { $unwind: "$objects" },
+        { $group: { _id: "$objects.classId", count: { $sum: 1 } } },
+      ])
+      .toArray();
+
+    const counts: Record<string, number> = {};
+    results.forEach((result) => {
+      counts[result._id] = result.count;
+    });
+
+    const totals = classTaxonomy.rollUp(project.classes, counts);
+
+    return project.classes.map((cls) => ({
+      classId: cls.id,
+      className: cls.name,
+      parentId: cls.parentId,
+      count: counts[cls.id] || 0,
+      total: totals[cls.id] || 0,
+    }));
+  }
+
   /**
    * Mark project as complete
    * This prevents further submissions and edits
@@ -0,0 +1,163 @@
+// src/services/sequence-service.ts
+import { ObjectId, type Filter } from "mongodb";
+import type {
+  Annotation,
+  ImageSequence,
+  ProjectImage,
+  SequenceFrameTracks,
+} from "../types/index.js";
+import { db } from "../config/index.js";
+import { BaseService } from "./base-service.js";
+
+export class SequenceService extends BaseService<ImageSequence> {
+  constructor() {
+    super("image_sequences");
+  }
+
+  /**
+   * Create a sequence from project images, in the given frame order
+   */
+  async createSequence(
+    projectId: string,
+    name: string,
+    imageIds: string[],
+    createdBy: ObjectId
+  ): Promise<ImageSequence> {
+    if (new Set(imageIds).size !== imageIds.length) {
+      throw new Error("An image can only appear once in a sequence");
+    }
+
+    const database = db.getDb();
+    const projectObjId = new ObjectId(projectId);
+    const imageObjIds = imageIds.map((id) => new ObjectId(id));
+
+    const images = await database
+      .collection<ProjectImage>("project_images")
+      .find({ _id: { $in: imageObjIds }, projectId: projectObjId })
+      .toArray();
+
+    if (images.length !== imageIds.length) {
+      throw new Error("Some images were not found in this project");
+    }
+
+    if (images.some((image) => image.sequenceId)) {
+      throw new Error("Some images already belong to a sequence");
+    }
+
+    const sequence = await this.create({
+      projectId: projectObjId,
+      name,
+      createdBy,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    await database.collection<ProjectImage>("project_images").bulkWrite(
+      imageObjIds.map((imageId, frameIndex) => ({
+        updateOne: {
+          filter: { _id: imageId },
+          update: { $set: { sequenceId: sequence._id, frameIndex } },
+        },
+      }))
+    );
+
+    return sequence;
+  }
+
+  /**
+   * Get the sequences of a project with their number of frames
+   */
+  async getProjectSequences(
+    projectId: string
+  ): Promise<Array<ImageSequence & { frameCount: number }>> {
+    const database = db.getDb();
+    const projectObjId = new ObjectId(projectId);
+
+    const sequences = await this.collection()
+      .find({ projectId: projectObjId } as Filter<ImageSequence>)
+      .sort({ createdAt: -1 })
+      .toArray();
+
+    const frameCounts = await database
+      .collection<ProjectImage>("project_images")
+      .aggregate<{ _id: ObjectId; count: number }>([
+        {
+          $match: {
+            projectId: projectObjId,
+            sequenceId: { $in: sequences.map((seq) => seq._id) },
+          },
+        },
+        { $group: { _id: "$sequenceId", count: { $sum: 1 } } },
+      ])
+      .toArray();
+
+    return sequences.map((sequence) => ({
+      ...sequence,
+      frameCount:
+        frameCounts.find((item) => item._id.equals(sequence._id))?.count || 0,
+    }));
+  }
+
+  /**
+   * Get the frames of a sequence in order
+   */
+  async getFrames(sequenceId: string): Promise<ProjectImage[]> {
+    return db
+      .getDb()
+      .collection<ProjectImage>("project_images")
+      .find({ sequenceId: new ObjectId(sequenceId) })
+      .sort({ frameIndex: 1 })
+      .toArray();
+  }
+
+  /**
+   * Get the tracked objects of every frame of a sequence, taken from the
+   * latest annotation of each frame
+   */
+  async getTracks(sequenceId: string): Promise<SequenceFrameTracks[]> {
+    const frames = await this.getFrames(sequenceId);
+
+    const annotations = await db
+      .getDb()
+      .collection<Annotation>("annotations")
+      .find({ imageId: { $in: frames.map((frame) => frame._id) } })
+      .sort({ updatedAt: -1 })
+      .toArray();
+
+    return frames.map((frame) => {
+      const latest = annotations.find((ann) => ann.imageId.equals(frame._id));
+
+      return {
+        imageId: frame._id.toString(),
+        frameIndex: frame.frameIndex ?? 0,
+        objects: (latest?.objects || [])
+          .filter((obj) => obj.trackId !== undefined)
+          .map((obj) => ({
+            classId: obj.classId,
+            className: obj.className,
+            x: obj.x,
+            y: obj.y,
+            width: obj.width,
+            height: obj.height,
+            trackId: obj.trackId,
+            keyframe: obj.keyframe,
+          })),
+      };
+    });
+  }
+
+  /**
+   * Delete a sequence, leaving its frames as regular images
+   */
+  async deleteSequence(sequenceId: string): Promise<boolean> {
+    await db
+      .getDb()
+      .collection<ProjectImage>("project_images")
+      .updateMany(
+        { sequenceId: new ObjectId(sequenceId) },
+        { $unset: { sequenceId: "", frameIndex: "" } }
+      );
+
+    return this.delete(sequenceId);
+  }
+}
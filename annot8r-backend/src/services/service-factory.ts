@@ -7,6 +7,11 @@ import { AssignmentService } from './assignment-service.js';
 import { AnnotationService } from './annotation-service.js';
 import { SubmissionService } from './submission-service.js';
 import { ExportService } from './export-service.js';
+import { SequenceService } from './sequence-service.js';
+import { VideoService } from './video-service.js';
+import { DatasetVersionService } from './dataset-version-service.js';
+import { ExportScheduleService } from './export-schedule-service.js';
+import { DatasetImportService } from './dataset-import-service.js';
 import { DashboardService } from './dashboard-service.js'; // Import the new service
 
 // Service singleton instances
@@ -18,6 +23,11 @@ let assignmentService: AssignmentService | null = null;
 let annotationService: AnnotationService | null = null;
 let submissionService: SubmissionService | null = null;
 let exportService: ExportService | null = null;
+let sequenceService: SequenceService | null = null;
+let videoService: VideoService | null = null;
+let datasetVersionService: DatasetVersionService | null = null;
+let exportScheduleService: ExportScheduleService | null = null;
+let datasetImportService: DatasetImportService | null = null;
 let dashboardService: DashboardService | null = null; // Add new service instance
 
 /**
@@ -56,6 +66,26 @@ export const services = {
     if (!exportService) exportService = new ExportService();
     return exportService;
   },
+  sequences(): SequenceService {
+    if (!sequenceService) sequenceService = new SequenceService();
+    return sequenceService;
+  },
+  videos(): VideoService {
+    if (!videoService) videoService = new VideoService();
+    return videoService;
+  },
+  datasetVersions(): DatasetVersionService {
+    if (!datasetVersionService) datasetVersionService = new DatasetVersionService();
+    return datasetVersionService;
+  },
+  exportSchedules(): ExportScheduleService {
+    if (!exportScheduleService) exportScheduleService = new ExportScheduleService();
+    return exportScheduleService;
+  },
+  datasetImports(): DatasetImportService {
+    if (!datasetImportService) datasetImportService = new DatasetImportService();
+    return datasetImportService;
+  },
   dashboard(): DashboardService { // Add method to get dashboard service
     if (!dashboardService) dashboardService = new DashboardService();
     return dashboardService;
@@ -22,6 +22,17 @@ export class UserService extends BaseService<User> {
   async findByUsername(username: string): Promise<User | null> {
     return this.findOne({ username } as Filter<User>);
   }
+
+  /**
+   * Find the users whose username or email is one of the given names
+   */
+  async findByUsernamesOrEmails(names: string[]): Promise<User[]> {
+    return this.collection()
+      .find({
+        $or: [{ username: { $in: names } }, { email: { $in: names } }],
+      } as Filter<User>)
+      .toArray();
+  }
   
   /**
    * Create a regular user
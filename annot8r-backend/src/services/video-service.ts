@@ -0,0 +1,291 @@
+// src/services/video-service.ts
+import { spawn } from "child_process";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { ObjectId, type Filter } from "mongodb";
+import sharp from "sharp";
+import {
+  FrameSamplingMode,
+  VideoImportStatus,
+  type VideoImport,
+} from "../types/index.js";
+import { FFMPEG_PATH, MAX_VIDEO_FRAMES } from "../config/index.js";
+import { BaseService } from "./base-service.js";
+import { services } from "./service-factory.js";
+
+// Frames uploaded to S3 at a time
+const UPLOAD_BATCH_SIZE = 10;
+
+export class VideoService extends BaseService<VideoImport> {
+  constructor() {
+    super("video_imports");
+  }
+
+  /**
+   * Start extracting the frames of an uploaded video into a new sequence
+   */
+  async createVideoImport(
+    projectId: string,
+    file: { buffer: Buffer; originalname: string },
+    samplingMode: FrameSamplingMode,
+    samplingValue: number,
+    uploadedBy: ObjectId,
+    bucket: string
+  ): Promise<VideoImport> {
+    const videoImport = await this.create({
+      projectId: new ObjectId(projectId),
+      filename: file.originalname,
+      samplingMode,
+      samplingValue,
+      status: VideoImportStatus.PENDING,
+      progress: 0,
+      extractedFrames: 0,
+      uploadedFrames: 0,
+      uploadedBy,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    // Start extraction process
+    this.processVideoImport(videoImport, file.buffer, bucket).catch(
+      (error) => {
+        console.error("Video import processing error:", error);
+        this.update(videoImport._id.toString(), {
+          status: VideoImportStatus.FAILED,
+          error: error instanceof Error ? error.message : "Unknown error",
+          updatedAt: new Date(),
+        }).catch(console.error);
+      }
+    );
+
+    return videoImport;
+  }
+
+  /**
+   * Get the video imports of a project, newest first
+   */
+  async getProjectVideoImports(projectId: string): Promise<VideoImport[]> {
+    return this.collection()
+      .find({ projectId: new ObjectId(projectId) } as Filter<VideoImport>)
+      .sort({ createdAt: -1 })
+      .toArray();
+  }
+
+  /**
+   * Extract the frames with ffmpeg, upload them as project images and group
+   * them into a sequence. Extraction counts for the first half of the
+   * progress and uploading for the second.
+   */
+  private async processVideoImport(
+    videoImport: VideoImport,
+    video: Buffer,
+    bucket: string
+  ): Promise<void> {
+    const importId = videoImport._id.toString();
+    const workDir = await mkdtemp(path.join(tmpdir(), "annot8r-video-"));
+
+    try {
+      await this.update(importId, {
+        status: VideoImportStatus.EXTRACTING,
+        updatedAt: new Date(),
+      });
+
+      const inputPath = path.join(workDir, "input");
+      await writeFile(inputPath, video);
+
+      let lastProgress = 0;
+      const { duration, timestamps } = await this.extractFrames(
+        inputPath,
+        workDir,
+        videoImport.samplingMode,
+        videoImport.samplingValue,
+        (progress) => {
+          const percent = Math.floor(progress * 50);
+          if (percent > lastProgress) {
+            lastProgress = percent;
+            this.update(importId, { progress: percent }).catch(
+              console.error
+            );
+          }
+        }
+      );
+
+      const extractedFiles = (await readdir(workDir))
+        .filter((name) => name.startsWith("frame_"))
+        .sort();
+
+      // Videos sampled into more frames than the limit keep the first ones
+      const truncated = extractedFiles.length > MAX_VIDEO_FRAMES;
+      const frameFiles = extractedFiles.slice(0, MAX_VIDEO_FRAMES);
+
+      if (frameFiles.length === 0) {
+        throw new Error("No frames could be extracted from the video");
+      }
+
+      await this.update(importId, {
+        status: VideoImportStatus.UPLOADING,
+        progress: 50,
+        extractedFrames: frameFiles.length,
+        truncated,
+        ...(duration !== undefined && { duration }),
+        updatedAt: new Date(),
+      });
+
+      const projectId = videoImport.projectId.toString();
+      const baseName =
+        path
+          .parse(videoImport.filename)
+          .name.replace(/[^a-zA-Z0-9._-]/g, "_") || "video";
+      const imageIds: string[] = [];
+
+      for (let i = 0; i < frameFiles.length; i += UPLOAD_BATCH_SIZE) {
+        const batch = await Promise.all(
+          frameFiles.slice(i, i + UPLOAD_BATCH_SIZE).map(async (name, j) => {
+            const buffer = await readFile(path.join(workDir, name));
+            const metadata = await sharp(buffer).metadata();
+            const frameNumber = String(i + j + 1).padStart(6, "0");
+
+            return {
+              buffer,
+              originalname: `${baseName}_${frameNumber}.jpg`,
+              mimetype: "image/jpeg",
+              width: metadata.width || 0,
+              height: metadata.height || 0,
+              sourceTimestamp: timestamps[i + j],
+            };
+          })
+        );
+
+        const uploaded = await services
+          .images()
+          .uploadImages(projectId, batch, videoImport.uploadedBy, bucket);
+        imageIds.push(...uploaded.map((image) => image._id.toString()));
+
+        await this.update(importId, {
+          uploadedFrames: imageIds.length,
+          progress:
+            50 +
+            Math.floor(
+              (Math.min(i + UPLOAD_BATCH_SIZE, frameFiles.length) /
+                frameFiles.length) *
+                50
+            ),
+          updatedAt: new Date(),
+        });
+      }
+
+      if (imageIds.length === 0) {
+        throw new Error("None of the extracted frames could be uploaded");
+      }
+
+      const sequence = await services
+        .sequences()
+        .createSequence(
+          projectId,
+          path.parse(videoImport.filename).name || "Video",
+          imageIds,
+          videoImport.uploadedBy
+        );
+
+      await this.update(importId, {
+        status: VideoImportStatus.COMPLETED,
+        progress: 100,
+        sequenceId: sequence._id,
+        updatedAt: new Date(),
+      });
+    } finally {
+      await rm(workDir, { recursive: true, force: true }).catch(
+        console.error
+      );
+    }
+  }
+
+  /**
+   * Run ffmpeg to write the sampled frames as numbered JPEGs. The showinfo
+   * filter logs the source timestamp of every written frame, and the
+   * duration logged up front turns those timestamps into progress.
+   */
+  private extractFrames(
+    inputPath: string,
+    outputDir: string,
+    samplingMode: FrameSamplingMode,
+    samplingValue: number,
+    onProgress: (progress: number) => void
+  ): Promise<{ duration?: number; timestamps: number[] }> {
+    const filter =
+      samplingMode === FrameSamplingMode.FPS
+        ? `fps=${samplingValue},showinfo`
+        : `select=not(mod(n\\,${samplingValue})),showinfo`;
+
+    const args = [
+      "-hide_banner",
+      "-i",
+      inputPath,
+      "-vf",
+      filter,
+      "-vsync",
+      "vfr",
+      // One frame past the limit tells whether the video was cut short
+      "-frames:v",
+      String(MAX_VIDEO_FRAMES + 1),
+      "-q:v",
+      "2",
+      path.join(outputDir, "frame_%06d.jpg"),
+    ];
+
+    return new Promise((resolve, reject) => {
+      const ffmpeg = spawn(FFMPEG_PATH, args);
+      const timestamps: number[] = [];
+      let duration: number | undefined;
+      let pending = "";
+      let lastLines: string[] = [];
+
+      ffmpeg.stderr.on("data", (chunk: Buffer) => {
+        const lines = (pending + chunk.toString()).split(/\r?\n/);
+        pending = lines.pop() || "";
+
+        for (const line of lines) {
+          const durationMatch = line.match(
+            /Duration: (\d+):(\d{2}):(\d{2}(?:\.\d+)?)/
+          );
+          if (durationMatch && duration === undefined) {
+            duration =
+              Number(durationMatch[1]) * 3600 +
+              Number(durationMatch[2]) * 60 +
+              Number(durationMatch[3]);
+          }
+
+          const ptsMatch = line.includes("Parsed_showinfo")
+            ? line.match(/pts_time:\s*(-?[\d.]+)/)
+            : null;
+          if (ptsMatch) {
+            const timestamp = Math.max(0, Number(ptsMatch[1]));
+            timestamps.push(Math.round(timestamp * 1000) / 1000);
+            if (duration) {
+              onProgress(Math.min(timestamp / duration, 1));
+            }
+          }
+
+          lastLines = [...lastLines, line].slice(-5);
+        }
+      });
+
+      ffmpeg.on("error", (error) => {
+        reject(new Error(`Failed to run ffmpeg: ${error.message}`));
+      });
+
+      ffmpeg.on("close", (code) => {
+        if (code !== 0) {
+          reject(
+            new Error(
+              `ffmpeg exited with code ${code}: ${lastLines.join(" ").trim()}`
+            )
+          );
+          return;
+        }
+        resolve({ duration, timestamps });
+      });
+    });
+  }
+}
@@ -73,6 +73,20 @@ export enum SubmissionStatus {
   APPROVED = "APPROVED",
 }
 
+/**
+ * Enum representing the possible export formats
+ */
+export enum ExportFormat {
+  YOLO = "YOLO",
+  YOLO_OBB = "YOLO_OBB",
+  MOT = "MOT",
+  COCO = "COCO",
+  VOC = "VOC",
+  OBJECT_TABLE = "OBJECT_TABLE", // One row per object, as JSONL and Parquet
+  LABEL_STUDIO = "LABEL_STUDIO", // JSON tasks with a labeling config
+  CVAT = "CVAT", // CVAT for images 1.1 XML
+}
+
 /**
  * Enum representing the possible export statuses
  */
@@ -83,6 +97,106 @@ export enum ExportStatus {
   FAILED = "FAILED",
 }
 
+export enum VideoImportStatus {
+  PENDING = "PENDING",
+  EXTRACTING = "EXTRACTING",
+  UPLOADING = "UPLOADING",
+  COMPLETED = "COMPLETED",
+  FAILED = "FAILED",
+}
+
+/**
+ * Enum representing the annotation formats that datasets are imported from
+ */
+export enum DatasetImportFormat {
+  YOLO = "YOLO", // Images with their labels
+  COCO = "COCO", // Annotations of uploaded images
+  VOC = "VOC", // Annotations of uploaded images
+  LABEL_STUDIO = "LABEL_STUDIO", // Annotations of uploaded images
+  CVAT = "CVAT", // Annotations of uploaded images
+}
+
+/**
+ * Enum representing the possible dataset import statuses
+ */
+export enum DatasetImportStatus {
+  PENDING = "PENDING",
+  PROCESSING = "PROCESSING",
+  COMPLETED = "COMPLETED",
+  FAILED = "FAILED",
+}
+
+// How frames are sampled from an uploaded video
+export enum FrameSamplingMode {
+  EVERY_NTH_FRAME = "EVERY_NTH_FRAME",
+  FPS = "FPS",
+}
+
+/**
+ * Enum representing who created an annotation
+ */
+export enum AnnotationSource {
+  AUTO = "AUTO",
+  HUMAN = "HUMAN",
+}
+
+/**
+ * Enum representing a problem found while validating the labels of an export
+ */
+export enum ExportIssueType {
+  UNKNOWN_CLASS = "UNKNOWN_CLASS", // Object dropped, mask pixels left as background
+  OUT_OF_RANGE = "OUT_OF_RANGE", // Coordinates clamped to the image
+  ZERO_SIZE = "ZERO_SIZE", // Object dropped
+  MISSING_FILE = "MISSING_FILE", // Image file missing from storage
+  SIZE_MISMATCH = "SIZE_MISMATCH", // Image file not the size it was cut for
+}
+
+/**
+ * Enum representing why an image was left out of an export
+ */
+export enum ExportDropReason {
+  NO_ANNOTATION = "NO_ANNOTATION",
+  FILTERED = "FILTERED", // Didn't match the export filters
+  NOT_IN_SEQUENCE = "NOT_IN_SEQUENCE", // MOT exports only cover sequences
+  IMAGE_DELETED = "IMAGE_DELETED", // Deleted since the version was created
+}
+
+/**
+ * Enum representing how an image differs between two dataset versions
+ */
+export enum DatasetDiffStatus {
+  ADDED = "ADDED",
+  REMOVED = "REMOVED",
+  CHANGED = "CHANGED",
+}
+
+/**
+ * Enum representing the possible annotation object shapes
+ */
+export enum AnnotationObjectType {
+  BOX = "BOX",
+  POLYGON = "POLYGON",
+  POLYLINE = "POLYLINE",
+}
+
+/**
+ * Enum representing the possible value types of a class attribute
+ */
+export enum AttributeType {
+  BOOLEAN = "BOOLEAN",
+  ENUM = "ENUM",
+  TEXT = "TEXT",
+  NUMBER = "NUMBER",
+}
+
+/**
+ * Enum representing how many options of an image label set can be picked
+ */
+export enum ImageLabelSetType {
+  SINGLE = "SINGLE",
+  MULTI = "MULTI",
+}
+
 /**
  * Enum representing the possible activity actions
  */
@@ -157,6 +271,21 @@ export interface User {
   lastUserAgent?: string;
 }
 
+/**
+ * Interface representing an attribute declared by a class (e.g. "occluded")
+ */
+export interface ClassAttribute {
+  name: string;
+  type: AttributeType;
+  options?: string[]; // Allowed values of ENUM attributes
+  required?: boolean; // Must be set before a final save
+}
+
+/**
+ * Value of a class attribute on an annotated object
+ */
+export type AttributeValue = string | number | boolean;
+
 /**
  * Interface representing a class in a project
  */
@@ -165,6 +294,37 @@ export interface ProjectClass {
   name: string;
   color: string;
   isCustom: boolean;
+  attributes?: ClassAttribute[];
+  parentId?: string; // Parent class in the taxonomy, top-level when unset
+}
+
+/**
+ * Interface representing the number of annotated objects of a class
+ */
+export interface ClassDistributionEntry {
+  classId: string;
+  className: string;
+  parentId?: string;
+  count: number; // Objects of the class itself
+  total: number; // Objects of the class and all of its descendants
+}
+
+/**
+ * Interface representing a keypoint skeleton for pose annotation
+ */
+export interface ProjectSkeleton {
+  keypoints: string[]; // Keypoint names, in export order
+  edges: [number, number][]; // Pairs of keypoint indices to connect
+}
+
+/**
+ * Interface representing a set of image-level labels (e.g. weather, scene)
+ */
+export interface ImageLabelSet {
+  id: string;
+  name: string;
+  type: ImageLabelSetType;
+  options: string[];
 }
 
 /**
@@ -176,6 +336,8 @@ export interface Project {
   description: string;
   annotationFormat: string; // Currently only "YOLO" is supported
   classes: ProjectClass[];
+  skeleton?: ProjectSkeleton;
+  imageLabelSets?: ImageLabelSet[];
   allowCustomClasses: boolean;
   status: ProjectStatus;
   createdBy: ObjectId;
@@ -213,6 +375,7 @@ export interface ProjectImage {
   s3Key: string;
   width: number;
   height: number;
+  sizeMeasured?: boolean; // Missing on images stored with placeholder dimensions
   uploadedAt: Date;
   uploadedBy: ObjectId;
   status: ImageStatus;
@@ -227,6 +390,97 @@ export interface ProjectImage {
   reviewedAt?: Date;
   reviewFeedback?: string;
   currentSubmissionId?: ObjectId;
+  sequenceId?: ObjectId; // Set on frames of an image sequence
+  frameIndex?: number; // Position in the sequence, starting at 0
+  sourceTimestamp?: number; // Seconds into the video the frame was taken from
+}
+
+/**
+ * Interface representing an ordered sequence of project images (e.g. the
+ * frames of a dashcam recording)
+ */
+export interface ImageSequence {
+  _id: ObjectId;
+  projectId: ObjectId;
+  name: string;
+  createdBy: ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Interface representing the extraction of a video's frames into a sequence
+ */
+export interface VideoImport {
+  _id: ObjectId;
+  projectId: ObjectId;
+  filename: string;
+  samplingMode: FrameSamplingMode;
+  samplingValue: number; // N for every Nth frame, frames per second for FPS
+  status: VideoImportStatus;
+  progress: number; // Percentage, 0-100
+  extractedFrames: number;
+  uploadedFrames: number;
+  truncated?: boolean; // Frames past MAX_VIDEO_FRAMES were left out
+  duration?: number; // Video length in seconds
+  sequenceId?: ObjectId; // Set once the frames are grouped
+  error?: string;
+  uploadedBy: ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Interface representing a problem with one file of an imported dataset.
+ * The file, or the line, is skipped and the rest of the dataset imported.
+ */
+export interface DatasetImportError {
+  file: string; // Path in the archive
+  line?: number; // Line of label files, starting at 1
+  message: string;
+}
+
+/**
+ * Interface representing the import of a labeled dataset archive into a
+ * project
+ */
+export interface DatasetImport {
+  _id: ObjectId;
+  projectId: ObjectId;
+  format: DatasetImportFormat;
+  filename: string;
+  createMissingClasses: boolean;
+  status: DatasetImportStatus;
+  progress: number; // Percentage, 0-100
+  importedImages: number; // Images created, or annotated for other formats
+  importedObjects: number;
+  createdClasses: string[]; // Names of the classes added to the project
+  errors: DatasetImportError[];
+  error?: string; // Why the whole import failed
+  importedBy: ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Interface representing the tracked objects on one frame of a sequence
+ */
+export interface SequenceFrameTracks {
+  imageId: string;
+  frameIndex: number;
+  objects: Array<
+    Pick<
+      YoloObject,
+      | "classId"
+      | "className"
+      | "x"
+      | "y"
+      | "width"
+      | "height"
+      | "trackId"
+      | "keyframe"
+    >
+  >;
 }
 
 /**
@@ -245,16 +499,76 @@ export interface ImageAssignment {
   lastActivity?: Date;
 }
 
+/**
+ * Interface representing a normalized point on an image
+ */
+export interface NormalizedPoint {
+  x: number; // Normalized 0-1
+  y: number; // Normalized 0-1
+}
+
+/**
+ * Keypoint visibility flags, matching the YOLO-pose and COCO convention
+ */
+export enum KeypointVisibility {
+  NOT_LABELED = 0,
+  OCCLUDED = 1,
+  VISIBLE = 2,
+}
+
+/**
+ * Interface representing a keypoint of a pose annotation
+ */
+export interface Keypoint {
+  x: number; // Normalized 0-1
+  y: number; // Normalized 0-1
+  visibility: KeypointVisibility;
+}
+
 /**
  * Interface representing a YOLO annotation object
  */
 export interface YoloObject {
+  type?: AnnotationObjectType; // Missing on older documents, which are boxes
   classId: string;
   className: string;
   x: number; // Center x (normalized 0-1)
   y: number; // Center y (normalized 0-1)
   width: number; // Width (normalized 0-1)
   height: number; // Height (normalized 0-1)
+  angle?: number; // Box rotation in degrees, clockwise around the center
+  points?: NormalizedPoint[]; // Polygon or polyline vertices (bounding box is derived from them) or rotated box corners
+  keypoints?: Keypoint[]; // One entry per skeleton keypoint
+  attributes?: Record<string, AttributeValue>; // Keyed by class attribute name
+  trackId?: number; // Identity of the object across the frames of a sequence
+  keyframe?: boolean; // Placed by hand rather than interpolated
+}
+
+/**
+ * Interface representing the options picked for one image label set
+ */
+export interface ImageLabelValue {
+  setId: string;
+  values: string[];
+}
+
+/**
+ * Interface representing the painted pixels of one class, run-length encoded
+ * over the row-major pixels of the image. Runs alternate between unpainted
+ * and painted pixels, starting with unpainted.
+ */
+export interface MaskClassRle {
+  classId: string;
+  counts: number[];
+}
+
+/**
+ * Interface representing the semantic segmentation mask of an image
+ */
+export interface AnnotationMask {
+  width: number; // Image width in pixels
+  height: number; // Image height in pixels
+  classes: MaskClassRle[];
 }
 
 /**
@@ -271,6 +585,8 @@ export interface Annotation {
   autoAnnotated: boolean;
   version: number;
   objects: YoloObject[];
+  imageLabels?: ImageLabelValue[];
+  mask?: AnnotationMask;
 }
 
 /**
@@ -320,16 +636,193 @@ export interface ProjectExport {
   exportedAt: Date;
   exportedBy: ObjectId;
   s3Key: string;
-  format: string; // Currently only "YOLO" is supported
+  format: ExportFormat;
   totalImages: number;
   totalAnnotations: number;
   includesImages: boolean;
   onlyReviewedAnnotations: boolean;
+  taxonomyLevel?: number; // Depth that classes were collapsed to
+  split?: ExportSplit; // Train/val/test ratios of YOLO exports
+  tiling?: ExportTiling; // Tiles that YOLO images were cut into
+  augmentation?: ExportAugmentation; // Augmented copies of YOLO images
+  baseExportId?: ObjectId; // Export that an incremental export is a delta of
+  versionId?: ObjectId; // Dataset version the export was generated from
+  filters?: ExportFilters; // Subset of the dataset that was exported
+  scheduleId?: ObjectId; // Schedule that created the export
+  changes?: ExportChanges; // Image counts of an incremental export
+  validation?: ExportValidationSummary; // Counts of the validation report
+  contentCount?: number; // Images of the dataset when exported, in export_contents
   status: ExportStatus;
   url?: string;
   expiresAt?: Date;
 }
 
+/**
+ * Interface for an image of the dataset at the time of an export, including
+ * images left out of an incremental archive because they didn't change
+ */
+export interface ExportContentEntry {
+  imageId: ObjectId;
+  filename: string; // Original filename
+  path: string; // Image path in the archive, a pattern matching its tiles when tiled
+  split?: "train" | "val" | "test";
+}
+
+/**
+ * Interface representing a content entry of an export, stored apart from the
+ * export so large datasets don't outgrow its document
+ */
+export interface ExportContentImage extends ExportContentEntry {
+  _id: ObjectId;
+  exportId: ObjectId;
+}
+
+/**
+ * Interface for the subset of a dataset an export covers. Images are matched
+ * on their latest annotation.
+ */
+export interface ExportFilters {
+  classIds?: string[]; // Classes to keep, with their subclasses
+  annotatorIds?: string[]; // Users who made the latest annotation
+  annotatedFrom?: Date;
+  annotatedTo?: Date;
+  source?: AnnotationSource; // Auto-annotated or human-annotated only
+  reviewStatuses?: ReviewStatus[];
+}
+
+/**
+ * Interface representing a recurring export of a project. Exports are
+ * created by the scheduler with the settings of the schedule.
+ */
+export interface ExportSchedule {
+  _id: ObjectId;
+  projectId: ObjectId;
+  name: string;
+  cron: string; // Five-field cron expression, evaluated in UTC
+  format: ExportFormat;
+  includesImages: boolean;
+  onlyReviewedAnnotations: boolean;
+  taxonomyLevel?: number;
+  split?: ExportSplit;
+  tiling?: ExportTiling;
+  augmentation?: ExportAugmentation;
+  filters?: ExportFilters;
+  retention: number; // Scheduled exports kept, older ones are deleted
+  enabled: boolean;
+  createdBy: ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+  nextRunAt: Date;
+  lastRunAt?: Date;
+  lastExportId?: ObjectId;
+  lastError?: string;
+}
+
+/**
+ * Interface for a problem found in the labels of one exported image
+ */
+export interface ExportIssue {
+  type: ExportIssueType;
+  imageId: string;
+  filename: string;
+  objectIndex?: number; // Position in the annotation, missing for masks and files
+  classId?: string;
+  className?: string;
+  message: string;
+}
+
+/**
+ * Interface for an image left out of an export
+ */
+export interface ExportDroppedImage {
+  imageId: string;
+  filename: string;
+  reason: ExportDropReason;
+}
+
+/**
+ * Interface for the validation report bundled with an export as report.json
+ */
+export interface ExportValidationReport {
+  summary: ExportValidationSummary;
+  issues: ExportIssue[];
+  droppedImages: ExportDroppedImage[];
+}
+
+/**
+ * Interface for the counts of an export validation report
+ */
+export interface ExportValidationSummary {
+  issues: Partial<Record<ExportIssueType, number>>;
+  droppedImages: Partial<Record<ExportDropReason, number>>;
+}
+
+/**
+ * Interface for the changes of an incremental export against its base
+ */
+export interface ExportChanges {
+  added: number;
+  changed: number;
+  removed: number;
+}
+
+/**
+ * Interface representing an immutable dataset version, which freezes the
+ * approved images of a project and their annotations at a point in time
+ */
+export interface DatasetVersion {
+  _id: ObjectId;
+  projectId: ObjectId;
+  name: string;
+  description?: string;
+  createdBy: ObjectId;
+  createdAt: Date;
+  totalImages: number;
+  totalObjects: number;
+}
+
+/**
+ * Interface representing an image of a dataset version, with a copy of its
+ * latest annotation when the version was created
+ */
+export interface DatasetVersionImage {
+  _id: ObjectId;
+  versionId: ObjectId;
+  imageId: ObjectId;
+  filename: string;
+  annotation: Annotation;
+}
+
+/**
+ * Interface representing the differences of one image between two dataset
+ * versions
+ */
+export interface DatasetDiffImage {
+  imageId: string;
+  filename: string;
+  status: DatasetDiffStatus;
+  objectsAdded: number;
+  objectsRemoved: number;
+  objectsChanged: number;
+}
+
+/**
+ * Interface representing the differences between two dataset versions
+ */
+export interface DatasetVersionDiff {
+  from: { id: string; name: string };
+  to: { id: string; name: string };
+  summary: {
+    imagesAdded: number;
+    imagesRemoved: number;
+    imagesChanged: number;
+    objectsAdded: number;
+    objectsRemoved: number;
+    objectsChanged: number;
+  };
+  images: DatasetDiffImage[];
+}
+
 /**
  * Interface representing an activity log
  */
@@ -446,6 +939,8 @@ export interface CreateProjectRequest {
   description: string;
   annotationFormat: string; // Currently only "YOLO" is supported
   classes: Omit<ProjectClass, "id">[];
+  skeleton?: ProjectSkeleton;
+  imageLabelSets?: Omit<ImageLabelSet, "id">[];
   allowCustomClasses: boolean;
 }
 
@@ -455,6 +950,8 @@ export interface CreateProjectRequest {
 export interface UpdateProjectRequest {
   description?: string;
   classes?: ProjectClass[];
+  skeleton?: ProjectSkeleton;
+  imageLabelSets?: ImageLabelSet[];
   allowCustomClasses?: boolean;
   status?: ProjectStatus;
 }
@@ -488,6 +985,8 @@ export interface SaveAnnotationRequest {
   classNames: string[];
   timeSpent: number;
   autoAnnotated: boolean;
+  imageLabels?: ImageLabelValue[];
+  mask?: AnnotationMask;
 }
 
 /**
@@ -498,6 +997,8 @@ export interface AutosaveAnnotationRequest {
   classIds: string[];
   classNames: string[];
   timeSpent: number;
+  imageLabels?: ImageLabelValue[];
+  mask?: AnnotationMask;
 }
 
 /**
@@ -528,13 +1029,92 @@ export interface ReviewSubmissionRequest {
   }[];
 }
 
+/**
+ * Interface for creating an image sequence
+ */
+export interface CreateSequenceRequest {
+  name: string;
+  imageIds: string[]; // In frame order
+}
+
 /**
  * Interface for creating an export
  */
 export interface CreateExportRequest {
-  format: string; // Currently only "YOLO" is supported
+  format: ExportFormat;
   includesImages: boolean;
   onlyReviewedAnnotations: boolean;
+  taxonomyLevel?: number;
+  split?: ExportSplit;
+  tiling?: ExportTiling;
+  augmentation?: ExportAugmentation;
+  baseExportId?: string; // Only export changes since this export
+  versionId?: string; // Export a dataset version instead of current data
+  filters?: Omit<ExportFilters, "annotatedFrom" | "annotatedTo"> & {
+    annotatedFrom?: string; // ISO date
+    annotatedTo?: string; // ISO date
+  };
+}
+
+/**
+ * Interface for export schedule creation request
+ */
+export interface CreateExportScheduleRequest
+  extends Omit<CreateExportRequest, "baseExportId" | "versionId"> {
+  name: string;
+  cron: string;
+  retention: number;
+  enabled?: boolean;
+}
+
+/**
+ * Export schedule update request, with any fields of a creation request
+ */
+export type UpdateExportScheduleRequest = Partial<CreateExportScheduleRequest>;
+
+/**
+ * Interface for dataset version creation request
+ */
+export interface CreateDatasetVersionRequest {
+  name: string;
+  description?: string;
+}
+
+/**
+ * Interface for cutting the images of an export into overlapping square
+ * tiles
+ */
+export interface ExportTiling {
+  size: number; // Tile side in pixels
+  overlap: number; // Ratio of the tile size shared with the next tile
+  minVisibility: number; // Ratio of an object inside a tile to keep it
+}
+
+/**
+ * Interface for the augmented copies added to an export. Each copy picks its
+ * transforms at random among the enabled ones, from a seed so exports can
+ * be reproduced.
+ */
+export interface ExportAugmentation {
+  copies: number; // Augmented copies of each image
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  rotate90: boolean; // Turn by a multiple of 90 degrees
+  brightness: number; // Largest brightness change, as a ratio
+  contrast: number; // Largest contrast change, as a ratio
+  resize?: { width: number; height: number; letterbox: boolean }; // Size of copies
+  seed: number;
+}
+
+/**
+ * Interface for the train/val/test split of an export. Ratios are relative
+ * weights and the seed makes the split reproducible.
+ */
+export interface ExportSplit {
+  train: number;
+  val: number;
+  test: number;
+  seed: number;
 }
 
 /**
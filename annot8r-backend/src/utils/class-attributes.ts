@@ -0,0 +1,103 @@
+// src/utils/class-attributes.ts
+import {
+  AttributeType,
+  type AttributeValue,
+  type ClassAttribute,
+} from "../types/index.js";
+
+/**
+ * Class attribute utilities
+ */
+export const classAttributes = {
+  /**
+   * Check if a value matches the type of an attribute
+   */
+  isValidValue(attribute: ClassAttribute, value: AttributeValue): boolean {
+    switch (attribute.type) {
+      case AttributeType.BOOLEAN:
+        return typeof value === "boolean";
+      case AttributeType.NUMBER:
+        return typeof value === "number" && Number.isFinite(value);
+      case AttributeType.TEXT:
+        return typeof value === "string";
+      case AttributeType.ENUM:
+        return (
+          typeof value === "string" && !!attribute.options?.includes(value)
+        );
+      default:
+        return false;
+    }
+  },
+
+  /**
+   * Get the first problem of an object's attribute values against the
+   * attributes declared by its class, if any. Required attributes are only
+   * enforced when requireAll is set, so work in progress can be autosaved.
+   */
+  validate(
+    values: Record<string, AttributeValue>,
+    attributes: ClassAttribute[],
+    requireAll: boolean
+  ): string | null {
+    for (const [name, value] of Object.entries(values)) {
+      const attribute = attributes.find((attr) => attr.name === name);
+      if (!attribute) {
+        return `Unknown attribute "${name}"`;
+      }
+
+      if (!classAttributes.isValidValue(attribute, value)) {
+        return `Invalid value for attribute "${name}"`;
+      }
+    }
+
+    if (requireAll) {
+      const missing = attributes.find(
+        (attr) => attr.required && values[attr.name] === undefined
+      );
+      if (missing) {
+        return `Attribute "${missing.name}" is required`;
+      }
+    }
+
+    return null;
+  },
+
+  /**
+   * Read imported attribute values against the attributes declared by a
+   * class. Text values of boolean and number attributes are converted,
+   * unknown attributes and invalid values are left out.
+   */
+  coerce(
+    values: Record<string, unknown>,
+    attributes: ClassAttribute[]
+  ): Record<string, AttributeValue> {
+    const result: Record<string, AttributeValue> = {};
+
+    for (const attribute of attributes) {
+      let value = values[attribute.name];
+      if (typeof value === "string") {
+        if (attribute.type === AttributeType.BOOLEAN) {
+          value =
+            value.toLowerCase() === "true"
+              ? true
+              : value.toLowerCase() === "false"
+              ? false
+              : value;
+        } else if (attribute.type === AttributeType.NUMBER) {
+          value = value.trim() === "" ? value : Number(value);
+        }
+      }
+
+      if (
+        (typeof value === "string" ||
+          typeof value === "number" ||
+          typeof value === "boolean") &&
+        classAttributes.isValidValue(attribute, value)
+      ) {
+        result[attribute.name] = value;
+      }
+    }
+
+    return result;
+  },
+};
@@ -0,0 +1,100 @@
+// src/utils/class-taxonomy.ts
+import type { ProjectClass } from "../types/index.js";
+
+type TaxonomyNode = Pick<ProjectClass, "id" | "parentId">;
+
+/**
+ * Class taxonomy (parent/child classes) utilities
+ */
+export const classTaxonomy = {
+  /**
+   * Get the first problem of a class hierarchy, if any
+   */
+  validate(classes: TaxonomyNode[]): string | null {
+    const ids = new Set(classes.map((cls) => cls.id));
+
+    for (const cls of classes) {
+      if (cls.parentId === undefined) {
+        continue;
+      }
+      if (!ids.has(cls.parentId)) {
+        return `Unknown parent class: ${cls.parentId}`;
+      }
+      if (classTaxonomy.ancestors(classes, cls.id).includes(cls.id)) {
+        return `Class ${cls.id} cannot be its own ancestor`;
+      }
+    }
+
+    return null;
+  },
+
+  /**
+   * Get the ids of a class's ancestors, nearest first. Stops when a class
+   * repeats, so a cyclic hierarchy ends with the class that closes the cycle.
+   */
+  ancestors(classes: TaxonomyNode[], classId: string): string[] {
+    const ancestors: string[] = [];
+    const seen = new Set([classId]);
+    let parentId = classes.find((cls) => cls.id === classId)?.parentId;
+
+    while (parentId !== undefined) {
+      ancestors.push(parentId);
+      if (seen.has(parentId)) {
+        break;
+      }
+      seen.add(parentId);
+      const parent = classes.find((cls) => cls.id === parentId);
+      parentId = parent?.parentId;
+    }
+
+    return ancestors;
+  },
+
+  /**
+   * Get the depth of a class, top-level classes being at depth 0
+   */
+  depthOf(classes: TaxonomyNode[], classId: string): number {
+    return classTaxonomy.ancestors(classes, classId).length;
+  },
+
+  /**
+   * Get the id a class collapses to at a taxonomy level: its ancestor at
+   * that depth, or the class itself when it is not deeper than the level
+   */
+  collapse(classes: TaxonomyNode[], classId: string, level: number): string {
+    const ancestors = classTaxonomy.ancestors(classes, classId);
+    return ancestors.length <= level
+      ? classId
+      : ancestors[ancestors.length - 1 - level];
+  },
+
+  /**
+   * Get the classes that remain when collapsing to a taxonomy level, in
+   * project order
+   */
+  upToLevel<T extends TaxonomyNode>(classes: T[], level: number): T[] {
+    return classes.filter(
+      (cls) => classTaxonomy.depthOf(classes, cls.id) <= level
+    );
+  },
+
+  /**
+   * Add the counts of every class to its ancestors, giving the total of
+   * each class including its descendants
+   */
+  rollUp(
+    classes: TaxonomyNode[],
+    counts: Record<string, number>
+  ): Record<string, number> {
+    const totals: Record<string, number> = {};
+
+    for (const cls of classes) {
+      totals[cls.id] = (totals[cls.id] || 0) + (counts[cls.id] || 0);
+      for (const ancestorId of classTaxonomy.ancestors(classes, cls.id)) {
+        totals[ancestorId] = (totals[ancestorId] || 0) + (counts[cls.id] || 0);
+      }
+    }
+
+    return totals;
+  },
+};
@@ -0,0 +1,274 @@
+// src/utils/coco-format.ts
+import {
+  AnnotationObjectType,
+  KeypointVisibility,
+  type Keypoint,
+  type NormalizedPoint,
+  type ProjectClass,
+  type ProjectSkeleton,
+  type YoloObject,
+} from "../types/index.js";
+import { yoloFormat } from "./yolo-format.js";
+
+export interface CocoImage {
+  id: number;
+  file_name: string;
+  width: number;
+  height: number;
+}
+
+export interface CocoCategory {
+  id: number;
+  name: string;
+  supercategory: string;
+  keypoints?: string[];
+  skeleton?: [number, number][];
+}
+
+export interface CocoAnnotation {
+  id: number;
+  image_id: number;
+  category_id: number;
+  bbox: [number, number, number, number]; // left, top, width, height in pixels
+  area: number;
+  iscrowd: 0;
+  segmentation: number[][];
+  keypoints?: number[];
+  num_keypoints?: number;
+  attributes?: YoloObject["attributes"];
+  track_id?: number;
+}
+
+// Pixel coordinates are rounded to hundredths of a pixel
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Imported coordinates slightly outside the image are pulled back onto it
+const clampNormalized = (value: number) => Math.min(Math.max(value, 0), 1);
+
+const isNumberList = (value: unknown): value is number[] =>
+  Array.isArray(value) &&
+  value.every((item) => typeof item === "number" && Number.isFinite(item));
+
+/**
+ * COCO (Common Objects in Context) JSON formatting utilities
+ */
+export const cocoFormat = {
+  /**
+   * Build the categories of exported classes, numbered from 1 in class
+   * order. The supercategory is the parent class, or the class itself at
+   * the top of the taxonomy.
+   */
+  toCategories(
+    classes: ProjectClass[],
+    allClasses: ProjectClass[],
+    skeleton?: ProjectSkeleton
+  ): CocoCategory[] {
+    return classes.map((cls, index) => ({
+      id: index + 1,
+      name: cls.name,
+      supercategory:
+        allClasses.find((parent) => parent.id === cls.parentId)?.name ||
+        cls.name,
+      ...(skeleton && {
+        keypoints: skeleton.keypoints,
+        skeleton: skeleton.edges.map(
+          ([from, to]) => [from + 1, to + 1] as [number, number]
+        ),
+      }),
+    }));
+  },
+
+  /**
+   * Get the area enclosed by a polygon (shoelace formula)
+   */
+  polygonArea(points: NormalizedPoint[]): number {
+    let twiceArea = 0;
+    points.forEach((point, i) => {
+      const next = points[(i + 1) % points.length];
+      twiceArea += point.x * next.y - next.x * point.y;
+    });
+    return Math.abs(twiceArea) / 2;
+  },
+
+  /**
+   * Build the annotations of one image in absolute pixels, numbered from
+   * `firstId`. Polygons and rotated boxes keep their outline as the
+   * segmentation. Polylines and objects of unknown classes are left out.
+   */
+  toAnnotations(
+    objects: YoloObject[],
+    imageId: number,
+    imageWidth: number,
+    imageHeight: number,
+    categoryIdOf: (obj: YoloObject) => number,
+    firstId: number,
+    keypointCount = 0
+  ): CocoAnnotation[] {
+    const annotations: CocoAnnotation[] = [];
+    const toPixels = (point: NormalizedPoint) => ({
+      x: point.x * imageWidth,
+      y: point.y * imageHeight,
+    });
+
+    for (const obj of yoloFormat.labelObjects(objects)) {
+      const categoryId = categoryIdOf(obj);
+      if (categoryId < 1) {
+        continue;
+      }
+
+      const points =
+        yoloFormat.isPolygon(obj) || yoloFormat.isRotated(obj)
+          ? (obj.points as NormalizedPoint[])
+          : null;
+      const outline = points ? points.map(toPixels) : null;
+
+      const box = points ? yoloFormat.boundingBox(points) : obj;
+      const width = box.width * imageWidth;
+      const height = box.height * imageHeight;
+
+      const annotation: CocoAnnotation = {
+        id: firstId + annotations.length,
+        image_id: imageId,
+        category_id: categoryId,
+        bbox: [
+          round((box.x - box.width / 2) * imageWidth),
+          round((box.y - box.height / 2) * imageHeight),
+          round(width),
+          round(height),
+        ],
+        area: round(outline ? cocoFormat.polygonArea(outline) : width * height),
+        iscrowd: 0,
+        segmentation: outline
+          ? [outline.flatMap((point) => [round(point.x), round(point.y)])]
+          : [],
+      };
+
+      if (keypointCount > 0) {
+        const keypoints = yoloFormat.keypoints(obj, keypointCount);
+        annotation.keypoints = keypoints.flatMap((keypoint) => [
+          round(keypoint.x * imageWidth),
+          round(keypoint.y * imageHeight),
+          keypoint.visibility,
+        ]);
+        annotation.num_keypoints = keypoints.filter(
+          (keypoint) => keypoint.visibility > 0
+        ).length;
+      }
+
+      if (obj.attributes && Object.keys(obj.attributes).length > 0) {
+        annotation.attributes = obj.attributes;
+      }
+
+      if (obj.trackId !== undefined) {
+        annotation.track_id = obj.trackId;
+      }
+
+      annotations.push(annotation);
+    }
+
+    return annotations;
+  },
+
+  /**
+   * Read an imported annotation in absolute pixels as a normalized object.
+   * The largest polygon of a segmentation makes a polygon, otherwise the
+   * bbox makes a box. Run-length encoded segmentations fall back to the
+   * bbox.
+   */
+  fromAnnotation(
+    annotation: Partial<Record<keyof CocoAnnotation, unknown>>,
+    imageWidth: number,
+    imageHeight: number,
+    keypointCount = 0
+  ):
+    | { object: Omit<YoloObject, "classId" | "className"> }
+    | { error: string } {
+    const toNormalized = (x: number, y: number): NormalizedPoint => ({
+      x: clampNormalized(x / imageWidth),
+      y: clampNormalized(y / imageHeight),
+    });
+
+    const polygons = Array.isArray(annotation.segmentation)
+      ? annotation.segmentation.filter(
+          (polygon): polygon is number[] =>
+            isNumberList(polygon) &&
+            polygon.length >= 6 &&
+            polygon.length % 2 === 0
+        )
+      : [];
+    const points = polygons
+      .map((polygon) =>
+        Array.from({ length: polygon.length / 2 }, (_, index) =>
+          toNormalized(polygon[index * 2], polygon[index * 2 + 1])
+        )
+      )
+      .sort((a, b) => cocoFormat.polygonArea(b) - cocoFormat.polygonArea(a))[0];
+
+    let object: Omit<YoloObject, "classId" | "className">;
+    if (points) {
+      object = {
+        type: AnnotationObjectType.POLYGON,
+        ...yoloFormat.boundingBox(points),
+        points,
+      };
+    } else {
+      if (!isNumberList(annotation.bbox) || annotation.bbox.length !== 4) {
+        return { error: "bbox must be four numbers" };
+      }
+      const [left, top, width, height] = annotation.bbox;
+      if (width <= 0 || height <= 0) {
+        return { error: "bbox has no area" };
+      }
+
+      const topLeft = toNormalized(left, top);
+      const bottomRight = toNormalized(left + width, top + height);
+      object = {
+        type: AnnotationObjectType.BOX,
+        x: (topLeft.x + bottomRight.x) / 2,
+        y: (topLeft.y + bottomRight.y) / 2,
+        width: bottomRight.x - topLeft.x,
+        height: bottomRight.y - topLeft.y,
+      };
+    }
+    if (object.width <= 0 || object.height <= 0) {
+      return { error: "Object lies outside the image" };
+    }
+
+    if (
+      keypointCount > 0 &&
+      isNumberList(annotation.keypoints) &&
+      annotation.keypoints.length === keypointCount * 3
+    ) {
+      const values = annotation.keypoints;
+      object.keypoints = Array.from(
+        { length: keypointCount },
+        (_, index): Keypoint => {
+          const [x, y, visibility] = values.slice(index * 3, index * 3 + 3);
+          return visibility > 0
+            ? {
+                ...toNormalized(x, y),
+                visibility:
+                  visibility === KeypointVisibility.OCCLUDED
+                    ? KeypointVisibility.OCCLUDED
+                    : KeypointVisibility.VISIBLE,
+              }
+            : { x: 0, y: 0, visibility: KeypointVisibility.NOT_LABELED };
+        }
+      );
+    }
+
+    if (
+      typeof annotation.attributes === "object" &&
+      annotation.attributes !== null &&
+      !Array.isArray(annotation.attributes)
+    ) {
+      object.attributes = annotation.attributes as YoloObject["attributes"];
+    }
+
+    if (Number.isInteger(annotation.track_id)) {
+      object.trackId = annotation.track_id as number;
+    }
+
+    return { object };
+  },
+};
@@ -0,0 +1,151 @@
+// src/utils/cron-schedule.ts
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron matches either day field when both are restricted
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+// Allowed range of each field, in expression order
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 }, // 0 and 7 are Sunday
+];
+
+// Steps searched for the next run. Non-matching days and hours are skipped
+// whole, so this covers a little over four years and finds February 29th.
+const MAX_SEARCH_STEPS = 366 * 5 * (24 + 60);
+
+/**
+ * Parse one field (e.g. "*", "5", "1-5", "*\/15", "0,30") into its values
+ */
+const parseField = (
+  field: string,
+  range: { name: string; min: number; max: number }
+): Set<number> => {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid ${range.name}: ${part}`);
+    }
+
+    const start = match[1] === "*" ? range.min : Number(match[2]);
+    const end =
+      match[1] === "*"
+        ? range.max
+        : match[3] !== undefined
+        ? Number(match[3])
+        : match[4] !== undefined
+        ? range.max
+        : start;
+    const step = match[4] !== undefined ? Number(match[4]) : 1;
+
+    if (start < range.min || end > range.max || start > end || step < 1) {
+      throw new Error(`Invalid ${range.name}: ${part}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Cron expression utilities. Expressions have five fields (minute, hour,
+ * day of month, month, day of week) and are evaluated in UTC.
+ */
+export const cronSchedule = {
+  /**
+   * Parse an expression, throwing when it is invalid
+   */
+  parse(expression: string): CronFields {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+      throw new Error(
+        "Schedule must have 5 fields: minute hour day-of-month month day-of-week"
+      );
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+      (field, index) => parseField(field, FIELD_RANGES[index])
+    );
+
+    // Sunday can be written as 0 or 7
+    if (daysOfWeek.has(7)) {
+      daysOfWeek.delete(7);
+      daysOfWeek.add(0);
+    }
+
+    return {
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      anyDayOfMonth: fields[2] === "*",
+      anyDayOfWeek: fields[4] === "*",
+    };
+  },
+
+  /**
+   * Check whether an expression is valid
+   */
+  isValid(expression: string): boolean {
+    try {
+      cronSchedule.parse(expression);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  /**
+   * Get the first time after `after` (to the minute) that an expression
+   * matches
+   */
+  next(expression: string, after: Date = new Date()): Date {
+    const fields = cronSchedule.parse(expression);
+    const time = new Date(after.getTime());
+    time.setUTCSeconds(0, 0);
+
+    for (let i = 0; i < MAX_SEARCH_STEPS; i++) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1);
+
+      const dayOfMonth = fields.daysOfMonth.has(time.getUTCDate());
+      const dayOfWeek = fields.daysOfWeek.has(time.getUTCDay());
+      const dayMatches =
+        fields.anyDayOfMonth || fields.anyDayOfWeek
+          ? dayOfMonth && dayOfWeek
+          : dayOfMonth || dayOfWeek;
+
+      // Move to the last minute of the day or hour, so the next step
+      // starts the following one
+      if (!fields.months.has(time.getUTCMonth() + 1) || !dayMatches) {
+        time.setUTCHours(23, 59);
+        continue;
+      }
+      if (!fields.hours.has(time.getUTCHours())) {
+        time.setUTCMinutes(59);
+        continue;
+      }
+
+      if (fields.minutes.has(time.getUTCMinutes())) {
+        return time;
+      }
+    }
+
+    throw new Error(`Schedule never runs: ${expression}`);
+  },
+};
@@ -0,0 +1,514 @@
+// src/utils/cvat-format.ts
+import {
+  AnnotationObjectType,
+  AttributeType,
+  KeypointVisibility,
+  type Keypoint,
+  type NormalizedPoint,
+  type ProjectClass,
+  type YoloObject,
+} from "../types/index.js";
+import { vocFormat } from "./voc-format.js";
+import { yoloFormat } from "./yolo-format.js";
+
+/**
+ * Interface for a shape read from a CVAT for images XML, in pixels
+ */
+export interface CvatShape {
+  type: "box" | "polygon" | "polyline";
+  label: string;
+  box?: { xtl: number; ytl: number; xbr: number; ybr: number };
+  rotation?: number; // Clockwise in degrees, around the box center
+  points?: Array<{ x: number; y: number }>;
+  keypoints?: Array<{
+    label: string;
+    x: number;
+    y: number;
+    occluded: boolean;
+    outside: boolean;
+  }>;
+  attributes: Record<string, string>;
+}
+
+// Shape elements of an image, with their attributes and content
+const SHAPE_PATTERN = new RegExp(
+  "<(box|polygon|polyline|points|skeleton|mask|ellipse|cuboid|tag)\\b" +
+    "([^>]*?)(?:/>|>([\\s\\S]*?)</\\1>)",
+  "g"
+);
+
+// Input type of CVAT label attributes for each attribute type
+const INPUT_TYPES: Record<AttributeType, string> = {
+  [AttributeType.BOOLEAN]: "checkbox",
+  [AttributeType.ENUM]: "select",
+  [AttributeType.TEXT]: "text",
+  [AttributeType.NUMBER]: "number",
+};
+
+// Pixel coordinates are rounded to hundredths of a pixel
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Read the attributes of an element's start tag
+ */
+const tagAttributes = (source: string): Record<string, string> =>
+  Object.fromEntries(
+    Array.from(source.matchAll(/([\w:-]+)="([^"]*)"/g), (match) => [
+      match[1],
+      vocFormat.unescape(match[2]),
+    ])
+  );
+
+/**
+ * Read CVAT point lists ("x1,y1;x2,y2")
+ */
+const parsePoints = (value = ""): Array<{ x: number; y: number }> =>
+  value
+    .split(";")
+    .filter((pair) => pair.trim() !== "")
+    .map((pair) => {
+      const [x, y] = pair.split(",").map(Number);
+      return { x, y };
+    });
+
+/**
+ * Write CVAT point lists from normalized points
+ */
+const formatPoints = (
+  points: NormalizedPoint[],
+  imageWidth: number,
+  imageHeight: number
+) =>
+  points
+    .map(
+      (point) =>
+        `${round(point.x * imageWidth)},${round(point.y * imageHeight)}`
+    )
+    .join(";");
+
+/**
+ * CVAT for images 1.1 XML formatting utilities
+ */
+export const cvatFormat = {
+  /**
+   * Create the annotation XML of a set of images. Labels are the exported
+   * classes with their attributes. Objects with keypoints are written as a
+   * box and a skeleton sharing a group. The assignee names the annotator
+   * when all images have the same one.
+   */
+  toXml(
+    name: string,
+    classes: ProjectClass[],
+    images: Array<{
+      name: string;
+      width: number;
+      height: number;
+      objects: YoloObject[];
+    }>,
+    classNameOf: (obj: YoloObject) => string | undefined,
+    keypointNames: string[] = [],
+    assignee?: string | null
+  ): string {
+    const escape = vocFormat.escape;
+    const lines = [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      "<annotations>",
+      "  <version>1.1</version>",
+      "  <meta>",
+      "    <task>",
+      `      <name>${escape(name)}</name>`,
+      `      <size>${images.length}</size>`,
+      "      <mode>annotation</mode>",
+      "      <labels>",
+    ];
+
+    for (const cls of classes) {
+      lines.push(
+        "        <label>",
+        `          <name>${escape(cls.name)}</name>`,
+        `          <color>${escape(cls.color)}</color>`,
+        "          <attributes>"
+      );
+      for (const attribute of cls.attributes || []) {
+        lines.push(
+          "            <attribute>",
+          `              <name>${escape(attribute.name)}</name>`,
+          "              <mutable>False</mutable>",
+          `              <input_type>${
+            INPUT_TYPES[attribute.type]
+          }</input_type>`,
+          `              <values>${escape(
+            (attribute.options || []).join("\n")
+          )}</values>`,
+          "            </attribute>"
+        );
+      }
+      lines.push("          </attributes>", "        </label>");
+    }
+    lines.push("      </labels>");
+
+    if (assignee) {
+      lines.push(
+        "      <assignee>",
+        `        <username>${escape(assignee)}</username>`,
+        "      </assignee>"
+      );
+    }
+    lines.push(
+      "    </task>",
+      `    <dumped>${new Date().toISOString()}</dumped>`,
+      "  </meta>"
+    );
+
+    let groupId = 0;
+    images.forEach((image, index) => {
+      lines.push(
+        `  <image id="${index}" name="${escape(image.name)}" width="${
+          image.width
+        }" height="${image.height}">`
+      );
+
+      for (const obj of image.objects) {
+        const className = classNameOf(obj);
+        if (className === undefined) {
+          continue;
+        }
+
+        const label = escape(className);
+        const attributes = Object.entries(obj.attributes || {}).map(
+          ([attributeName, value]) =>
+            `      <attribute name="${escape(attributeName)}">${escape(
+              String(value)
+            )}</attribute>`
+        );
+        const keypoints =
+          keypointNames.length > 0 &&
+          !yoloFormat.isPolygon(obj) &&
+          !yoloFormat.isPolyline(obj) &&
+          obj.keypoints?.some(
+            (kp) => kp.visibility !== KeypointVisibility.NOT_LABELED
+          )
+            ? yoloFormat.keypoints(obj, keypointNames.length)
+            : null;
+        const group = keypoints ? ` group_id="${++groupId}"` : "";
+
+        let tag: string;
+        let geometry: string;
+        if (yoloFormat.isPolygon(obj) || yoloFormat.isPolyline(obj)) {
+          tag = yoloFormat.isPolygon(obj) ? "polygon" : "polyline";
+          geometry = `points="${formatPoints(
+            obj.points as NormalizedPoint[],
+            image.width,
+            image.height
+          )}"`;
+        } else {
+          // Rotated boxes keep their own size, turned around their center
+          const rotation = yoloFormat.isRotated(obj) ? obj.angle ?? 0 : 0;
+          const box = rotation ? obj : yoloFormat.axisAlignedBox(obj);
+          tag = "box";
+          geometry = [
+            `xtl="${round((box.x - box.width / 2) * image.width)}"`,
+            `ytl="${round((box.y - box.height / 2) * image.height)}"`,
+            `xbr="${round((box.x + box.width / 2) * image.width)}"`,
+            `ybr="${round((box.y + box.height / 2) * image.height)}"`,
+            ...(rotation ? [`rotation="${round(rotation)}"`] : []),
+          ].join(" ");
+        }
+
+        const element = [
+          `    <${tag} label="${label}" source="manual" occluded="0"`,
+          geometry,
+          `z_order="0"${group}`,
+        ].join(" ");
+        lines.push(
+          ...(attributes.length > 0
+            ? [`${element}>`, ...attributes, `    </${tag}>`]
+            : [`${element}/>`])
+        );
+
+        if (keypoints) {
+          lines.push(
+            `    <skeleton label="${label}" source="manual" z_order="0"${
+              group
+            }>`,
+            ...keypoints.map(
+              (kp, kpIndex) =>
+                `      <points label="${escape(
+                  keypointNames[kpIndex]
+                )}" source="manual" outside="${Number(
+                  kp.visibility === KeypointVisibility.NOT_LABELED
+                )}" occluded="${Number(
+                  kp.visibility === KeypointVisibility.OCCLUDED
+                )}" points="${formatPoints([kp], image.width, image.height)}"/>`
+            ),
+            "    </skeleton>"
+          );
+        }
+      }
+
+      lines.push("  </image>");
+    });
+
+    lines.push("</annotations>", "");
+    return lines.join("\n");
+  },
+
+  /**
+   * Read a CVAT for images XML. The keypoints of a skeleton go to the box
+   * of its group, or to a box around them. Returns an error message when
+   * the XML holds no images.
+   */
+  fromXml(xml: string):
+    | {
+        assignee?: string;
+        images: Array<{
+          name: string;
+          width?: number;
+          height?: number;
+          shapes: CvatShape[];
+          skipped: string[]; // Shapes that can't be imported
+        }>;
+      }
+    | { error: string } {
+    const imageMatches = Array.from(
+      xml.matchAll(/<image\b([^>]*?)(?:\/>|>([\s\S]*?)<\/image>)/g)
+    );
+    if (imageMatches.length === 0) {
+      return {
+        error: /<track\b/.test(xml)
+          ? "Tracks are not supported, export the task as CVAT for images"
+          : "Not a CVAT for images XML",
+      };
+    }
+
+    const assignee = xml.match(
+      /<meta>[\s\S]*?<assignee>[\s\S]*?<username>([\s\S]*?)<\/username>/
+    )?.[1];
+
+    const images = imageMatches.map(([, source, content = ""]) => {
+      const attributes = tagAttributes(source);
+      const dimension = (value?: string) => {
+        const size = Number(value);
+        return Number.isInteger(size) && size > 0 ? size : undefined;
+      };
+
+      const shapes: CvatShape[] = [];
+      const skipped: string[] = [];
+      const groupBoxes = new Map<string, CvatShape>();
+      const skeletons: Array<{ group?: string; shape: CvatShape }> = [];
+
+      for (const [, type, shapeSource, body = ""] of content.matchAll(
+        SHAPE_PATTERN
+      )) {
+        if (type === "tag") {
+          continue;
+        }
+
+        const shapeAttributes = tagAttributes(shapeSource);
+        const label = shapeAttributes.label || "";
+        const values: Record<string, string> = {};
+        for (const [, attributeSource, value] of body.matchAll(
+          /<attribute\b([^>]*)>([\s\S]*?)<\/attribute>/g
+        )) {
+          const attributeName = tagAttributes(attributeSource).name;
+          if (attributeName) {
+            values[attributeName] = vocFormat.unescape(value);
+          }
+        }
+
+        if (type === "box") {
+          const shape: CvatShape = {
+            type,
+            label,
+            box: {
+              xtl: Number(shapeAttributes.xtl),
+              ytl: Number(shapeAttributes.ytl),
+              xbr: Number(shapeAttributes.xbr),
+              ybr: Number(shapeAttributes.ybr),
+            },
+            rotation: Number(shapeAttributes.rotation) || 0,
+            attributes: values,
+          };
+          shapes.push(shape);
+          if (shapeAttributes.group_id) {
+            groupBoxes.set(`${label}\n${shapeAttributes.group_id}`, shape);
+          }
+        } else if (type === "polygon" || type === "polyline") {
+          shapes.push({
+            type,
+            label,
+            points: parsePoints(shapeAttributes.points),
+            attributes: values,
+          });
+        } else if (type === "skeleton") {
+          const keypoints = Array.from(
+            body.matchAll(/<points\b([^>]*?)(?:\/>|>[\s\S]*?<\/points>)/g),
+            ([, pointSource]) => {
+              const point = tagAttributes(pointSource);
+              const [position = { x: 0, y: 0 }] = parsePoints(point.points);
+              return {
+                label: point.label || "",
+                ...position,
+                occluded: point.occluded === "1",
+                outside: point.outside === "1",
+              };
+            }
+          );
+          skeletons.push({
+            group: shapeAttributes.group_id
+              ? `${label}\n${shapeAttributes.group_id}`
+              : undefined,
+            shape: { type: "box", label, keypoints, attributes: values },
+          });
+        } else {
+          skipped.push(`${label || type}: ${type} shapes are not supported`);
+        }
+      }
+
+      // Skeletons without a box of their group are boxed by their points
+      skeletons.forEach(({ group, shape }) => {
+        const box = group ? groupBoxes.get(group) : undefined;
+        if (box) {
+          box.keypoints = shape.keypoints;
+          return;
+        }
+
+        const shown = (shape.keypoints || []).filter((kp) => !kp.outside);
+        if (shown.length === 0) {
+          skipped.push(`${shape.label}: skeleton has no visible points`);
+          return;
+        }
+        const xs = shown.map((kp) => kp.x);
+        const ys = shown.map((kp) => kp.y);
+        shapes.push({
+          ...shape,
+          box: {
+            xtl: Math.min(...xs),
+            ytl: Math.min(...ys),
+            xbr: Math.max(...xs),
+            ybr: Math.max(...ys),
+          },
+        });
+      });
+
+      return {
+        name: attributes.name || "",
+        width: dimension(attributes.width),
+        height: dimension(attributes.height),
+        shapes,
+        skipped,
+      };
+    });
+
+    return {
+      ...(assignee && { assignee: vocFormat.unescape(assignee) }),
+      images,
+    };
+  },
+
+  /**
+   * Convert a shape to a normalized object. Keypoints are matched to the
+   * skeleton by name. Returns an error message for unreadable shapes.
+   */
+  fromShape(
+    shape: CvatShape,
+    imageWidth: number,
+    imageHeight: number,
+    keypointNames: string[] = []
+  ):
+    | { object: Omit<YoloObject, "classId" | "className"> }
+    | { error: string } {
+    const toNormalized = (point: { x: number; y: number }) => ({
+      x: Math.min(Math.max(point.x / imageWidth, 0), 1),
+      y: Math.min(Math.max(point.y / imageHeight, 0), 1),
+    });
+
+    let object: Omit<YoloObject, "classId" | "className">;
+    if (shape.type === "box") {
+      const box = shape.box;
+      if (
+        !box ||
+        ![box.xtl, box.ytl, box.xbr, box.ybr].every(Number.isFinite) ||
+        box.xbr <= box.xtl ||
+        box.ybr <= box.ytl
+      ) {
+        return { error: "Box has no area" };
+      }
+
+      if (shape.rotation) {
+        // Rotated boxes keep their size and may reach outside the image
+        const center = {
+          x: (box.xtl + box.xbr) / 2 / imageWidth,
+          y: (box.ytl + box.ybr) / 2 / imageHeight,
+          width: (box.xbr - box.xtl) / imageWidth,
+          height: (box.ybr - box.ytl) / imageHeight,
+        };
+        object = {
+          type: AnnotationObjectType.BOX,
+          ...center,
+          angle: shape.rotation,
+          points: yoloFormat.rotatedCorners(
+            center,
+            shape.rotation,
+            imageWidth,
+            imageHeight
+          ),
+        };
+      } else {
+        const topLeft = toNormalized({ x: box.xtl, y: box.ytl });
+        const bottomRight = toNormalized({ x: box.xbr, y: box.ybr });
+        object = {
+          type: AnnotationObjectType.BOX,
+          ...yoloFormat.boundingBox([topLeft, bottomRight]),
+        };
+      }
+    } else {
+      const points = (shape.points || []).map(toNormalized);
+      const minimum = shape.type === "polygon" ? 3 : 2;
+      if (
+        points.length < minimum ||
+        !points.every(
+          (point) => Number.isFinite(point.x) && Number.isFinite(point.y)
+        )
+      ) {
+        return { error: `A ${shape.type} needs at least ${minimum} points` };
+      }
+      object = {
+        type:
+          shape.type === "polygon"
+            ? AnnotationObjectType.POLYGON
+            : AnnotationObjectType.POLYLINE,
+        ...yoloFormat.boundingBox(points),
+        points,
+      };
+    }
+    // Straight polylines may be flat, they only need a length
+    if (object.type === AnnotationObjectType.POLYLINE) {
+      if (object.width <= 0 && object.height <= 0) {
+        return { error: "Polyline has no length inside the image" };
+      }
+    } else if (object.width <= 0 || object.height <= 0) {
+      return { error: "Shape lies outside the image" };
+    }
+
+    if (shape.keypoints && keypointNames.length > 0) {
+      object.keypoints = keypointNames.map((name): Keypoint => {
+        const kp = shape.keypoints?.find((point) => point.label === name);
+        return kp && !kp.outside && Number.isFinite(kp.x + kp.y)
+          ? {
+              ...toNormalized(kp),
+              visibility: kp.occluded
+                ? KeypointVisibility.OCCLUDED
+                : KeypointVisibility.VISIBLE,
+            }
+          : { x: 0, y: 0, visibility: KeypointVisibility.NOT_LABELED };
+      });
+    }
+
+    if (Object.keys(shape.attributes).length > 0) {
+      object.attributes = shape.attributes;
+    }
+
+    return { object };
+  },
+};
@@ -0,0 +1,132 @@
+// src/utils/dataset-diff.ts
+import type { NormalizedPoint, YoloObject } from "../types/index.js";
+import { yoloFormat } from "./yolo-format.js";
+
+/**
+ * Serialize a value with sorted object keys, so equal objects always give
+ * the same text
+ */
+const canonical = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonical).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonical(
+            (value as Record<string, unknown>)[key]
+          )}`
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/**
+ * Dataset version comparison utilities
+ */
+export const datasetDiff = {
+  /**
+   * Get the intersection over union of the axis-aligned boxes of two objects
+   */
+  overlap(a: YoloObject, b: YoloObject): number {
+    const boxOf = (obj: YoloObject) =>
+      obj.points && obj.points.length > 0
+        ? yoloFormat.boundingBox(obj.points as NormalizedPoint[])
+        : obj;
+    const boxA = boxOf(a);
+    const boxB = boxOf(b);
+
+    const width =
+      Math.min(boxA.x + boxA.width / 2, boxB.x + boxB.width / 2) -
+      Math.max(boxA.x - boxA.width / 2, boxB.x - boxB.width / 2);
+    const height =
+      Math.min(boxA.y + boxA.height / 2, boxB.y + boxB.height / 2) -
+      Math.max(boxA.y - boxA.height / 2, boxB.y - boxB.height / 2);
+    if (width <= 0 || height <= 0) {
+      return 0;
+    }
+
+    const intersection = width * height;
+    return (
+      intersection /
+      (boxA.width * boxA.height + boxB.width * boxB.height - intersection)
+    );
+  },
+
+  /**
+   * Compare the objects of one image between two versions. Identical objects
+   * match first. The rest are paired as changed when they share a track ID,
+   * or a class and overlapping boxes, and otherwise count as added or
+   * removed.
+   */
+  compareObjects(
+    before: YoloObject[],
+    after: YoloObject[]
+  ): { added: number; removed: number; changed: number } {
+    const unmatched = [...after];
+    const removed: YoloObject[] = [];
+
+    for (const obj of before) {
+      const key = canonical(obj);
+      const index = unmatched.findIndex((other) => canonical(other) === key);
+      if (index >= 0) {
+        unmatched.splice(index, 1);
+      } else {
+        removed.push(obj);
+      }
+    }
+
+    let changed = 0;
+    for (const obj of removed) {
+      let bestIndex = -1;
+      let bestOverlap = 0;
+
+      unmatched.forEach((other, index) => {
+        if (bestOverlap === Infinity) {
+          return;
+        }
+        if (obj.trackId !== undefined && obj.trackId === other.trackId) {
+          bestIndex = index;
+          bestOverlap = Infinity;
+          return;
+        }
+        const overlap =
+          obj.classId === other.classId ? datasetDiff.overlap(obj, other) : 0;
+        if (overlap > bestOverlap) {
+          bestIndex = index;
+          bestOverlap = overlap;
+        }
+      });
+
+      if (bestIndex >= 0) {
+        unmatched.splice(bestIndex, 1);
+        changed++;
+      }
+    }
+
+    return {
+      added: unmatched.length,
+      removed: removed.length - changed,
+      changed,
+    };
+  },
+
+  /**
+   * Check whether the image labels or mask of an image differ between two
+   * versions
+   */
+  sameImageData(
+    before: { imageLabels?: unknown; mask?: unknown },
+    after: { imageLabels?: unknown; mask?: unknown }
+  ): boolean {
+    return (
+      canonical(before.imageLabels || []) ===
+        canonical(after.imageLabels || []) &&
+      canonical(before.mask) === canonical(after.mask)
+    );
+  },
+};
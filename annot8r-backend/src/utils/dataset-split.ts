@@ -0,0 +1,242 @@
+// src/utils/dataset-split.ts
+import type { ExportSplit } from "../types/index.js";
+
+export type SplitName = "train" | "val" | "test";
+
+/**
+ * Remove the comment ending a YAML line, outside of quotes
+ */
+const stripYamlComment = (value: string) => {
+  let quote: string | null = null;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#" && (i === 0 || /\s/.test(value[i - 1]))) {
+      return value.slice(0, i).trim();
+    }
+  }
+  return value.trim();
+};
+
+/**
+ * Split the items of a YAML flow collection on commas outside of quotes
+ */
+const splitYamlFlow = (value: string) => {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let current = "";
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ",") {
+      items.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  items.push(current.trim());
+  return items.filter((item) => item !== "");
+};
+
+/**
+ * Read a YAML scalar, unquoting it when quoted
+ */
+const unquoteYaml = (value: string) => {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    try {
+      return JSON.parse(trimmed) as string;
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  if (trimmed.startsWith("'") && trimmed.endsWith("'")) {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
+  }
+  return trimmed;
+};
+
+/**
+ * Train/val/test dataset splitting utilities
+ */
+export const datasetSplit = {
+  /**
+   * Create a seeded pseudo-random generator (mulberry32) returning numbers
+   * in [0, 1), so the same seed always gives the same split
+   */
+  random(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  },
+
+  /**
+   * Shuffle items in place (Fisher-Yates)
+   */
+  shuffle<T>(items: T[], random: () => number): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  },
+
+  /**
+   * Assign items to splits, stratified by class. Each item is grouped under
+   * its rarest class across the dataset (items without classes form their
+   * own group), and every group is shuffled and divided by the ratios, so
+   * rare classes reach every split.
+   */
+  stratify(
+    items: Array<{ id: string; classIds: string[] }>,
+    split: ExportSplit
+  ): Map<string, SplitName> {
+    const classCounts = new Map<string, number>();
+    for (const item of items) {
+      for (const classId of new Set(item.classIds)) {
+        classCounts.set(classId, (classCounts.get(classId) || 0) + 1);
+      }
+    }
+
+    // Ties between equally rare classes go to the smallest class ID, so the
+    // grouping doesn't depend on object order
+    const groups = new Map<string, string[]>();
+    for (const item of items) {
+      const stratum = item.classIds.reduce<string | null>(
+        (rarest, classId) =>
+          rarest === null ||
+          classCounts.get(classId)! < classCounts.get(rarest)! ||
+          (classCounts.get(classId) === classCounts.get(rarest) &&
+            classId < rarest)
+            ? classId
+            : rarest,
+        null
+      );
+      const key = stratum ?? "";
+      groups.set(key, [...(groups.get(key) || []), item.id]);
+    }
+
+    const random = datasetSplit.random(split.seed);
+    const assignments = new Map<string, SplitName>();
+    const total = split.train + split.val + split.test;
+
+    [...groups.keys()].sort().forEach((key) => {
+      const ids = datasetSplit.shuffle([...groups.get(key)!].sort(), random);
+      const trainEnd = Math.round((ids.length * split.train) / total);
+      const valEnd = Math.round(
+        (ids.length * (split.train + split.val)) / total
+      );
+
+      ids.forEach((id, index) => {
+        assignments.set(
+          id,
+          index < trainEnd ? "train" : index < valEnd ? "val" : "test"
+        );
+      });
+    });
+
+    return assignments;
+  },
+
+  /**
+   * Create the Ultralytics dataset file. Without splits, training and
+   * validation both point at the flat images folder.
+   */
+  toDataYaml(
+    classNames: string[],
+    options: { split?: ExportSplit; keypointCount?: number }
+  ): string {
+    const quote = (value: string) => JSON.stringify(value);
+    const lines = ["path: ."];
+
+    if (options.split) {
+      lines.push("train: images/train", "val: images/val");
+      if (options.split.test > 0) {
+        lines.push("test: images/test");
+      }
+    } else {
+      lines.push("train: images", "val: images");
+    }
+
+    if (options.keypointCount) {
+      lines.push(`kpt_shape: [${options.keypointCount}, 3]`);
+    }
+
+    lines.push(
+      "",
+      `nc: ${classNames.length}`,
+      "names:",
+      ...classNames.map((name, index) => `  ${index}: ${quote(name)}`),
+      ""
+    );
+
+    return lines.join("\n");
+  },
+
+  /**
+   * Read the class names of an Ultralytics dataset file. Names may be a
+   * list or a map of class indices, in block or inline (flow) style.
+   * Returns null when the file has no names.
+   */
+  fromDataYaml(content: string): string[] | null {
+    const lines = content.split(/\r?\n/);
+    const start = lines.findIndex((line) => /^names\s*:/.test(line));
+    if (start === -1) {
+      return null;
+    }
+
+    const names: string[] = [];
+    const inline = lines[start].replace(/^names\s*:/, "").trim();
+
+    if (inline.startsWith("[") || inline.startsWith("{")) {
+      // Flow collections may span several lines
+      let flow = inline;
+      const close = inline.startsWith("[") ? "]" : "}";
+      for (
+        let i = start + 1;
+        i < lines.length && !stripYamlComment(flow).endsWith(close);
+        i++
+      ) {
+        flow += ` ${lines[i].trim()}`;
+      }
+      splitYamlFlow(stripYamlComment(flow).slice(1, -1)).forEach(
+        (item, index) => {
+          const entry = /^(\d+)\s*:\s*(.*)$/.exec(item);
+          if (entry) {
+            names[Number(entry[1])] = unquoteYaml(entry[2]);
+          } else {
+            names[index] = unquoteYaml(item);
+          }
+        }
+      );
+    } else {
+      for (const line of lines.slice(start + 1)) {
+        if (line.trim() === "" || line.trim().startsWith("#")) continue;
+        // The block ends at the next top-level key
+        if (!/^\s/.test(line)) break;
+
+        const item = line.trim();
+        const entry = /^(\d+)\s*:\s*(.*)$/.exec(item);
+        if (entry) {
+          names[Number(entry[1])] = unquoteYaml(stripYamlComment(entry[2]));
+        } else if (item.startsWith("-")) {
+          names.push(unquoteYaml(stripYamlComment(item.slice(1))));
+        }
+      }
+    }
+
+    // Indices missing from a map get a placeholder name
+    return Array.from(names, (name, index) => name ?? `class_${index}`);
+  },
+};
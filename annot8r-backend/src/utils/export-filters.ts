@@ -0,0 +1,71 @@
+// src/utils/export-filters.ts
+import {
+  type Annotation,
+  type ExportFilters,
+  type ProjectClass,
+  AnnotationSource,
+} from "../types/index.js";
+import { classTaxonomy } from "./class-taxonomy.js";
+
+/**
+ * Export subset utilities
+ */
+export const exportFilters = {
+  /**
+   * Check whether the latest annotation of an image matches the annotator,
+   * date window and source filters
+   */
+  matchesAnnotation(annotation: Annotation, filters: ExportFilters): boolean {
+    const annotatedAt = new Date(annotation.updatedAt).getTime();
+
+    if (
+      filters.annotatorIds?.length &&
+      !filters.annotatorIds.includes(annotation.userId.toString())
+    ) {
+      return false;
+    }
+    if (
+      filters.annotatedFrom &&
+      annotatedAt < new Date(filters.annotatedFrom).getTime()
+    ) {
+      return false;
+    }
+    if (
+      filters.annotatedTo &&
+      annotatedAt > new Date(filters.annotatedTo).getTime()
+    ) {
+      return false;
+    }
+    if (
+      filters.source &&
+      annotation.autoAnnotated !== (filters.source === AnnotationSource.AUTO)
+    ) {
+      return false;
+    }
+
+    return true;
+  },
+
+  /**
+   * Get the ids of the classes kept by a class filter: the selected classes
+   * and their descendants, or every class without a filter
+   */
+  keptClassIds(classes: ProjectClass[], filters?: ExportFilters): Set<string> {
+    const selected = filters?.classIds?.length
+      ? new Set(filters.classIds)
+      : null;
+
+    return new Set(
+      classes
+        .filter(
+          (cls) =>
+            !selected ||
+            selected.has(cls.id) ||
+            classTaxonomy
+              .ancestors(classes, cls.id)
+              .some((ancestorId) => selected.has(ancestorId))
+        )
+        .map((cls) => cls.id)
+    );
+  },
+};
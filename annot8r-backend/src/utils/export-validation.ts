@@ -0,0 +1,172 @@
+// src/utils/export-validation.ts
+import {
+  type AnnotationMask,
+  type ExportDroppedImage,
+  type ExportIssue,
+  type ExportValidationSummary,
+  type NormalizedPoint,
+  type YoloObject,
+  ExportIssueType,
+} from "../types/index.js";
+import { yoloFormat } from "./yolo-format.js";
+
+// Issue of an object, before it is tied to its image
+export type ObjectIssue = Omit<ExportIssue, "imageId" | "filename">;
+
+// Rounding error tolerated on normalized coordinates
+const EPSILON = 1e-6;
+
+const isOutOfRange = (value: number) => value < -EPSILON || value > 1 + EPSILON;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const clampPoints = <T extends NormalizedPoint>(points: T[]): T[] =>
+  points.map((point) => ({ ...point, x: clamp(point.x), y: clamp(point.y) }));
+
+/**
+ * Clamp the coordinates of an object to the image, reporting whether any
+ * were outside it
+ */
+const clampObject = (
+  obj: YoloObject
+): { obj: YoloObject; clamped: boolean } => {
+  let clamped = false;
+  let result: YoloObject = { ...obj };
+
+  if (Array.isArray(obj.points) && obj.points.length > 0) {
+    clamped = obj.points.some((p) => isOutOfRange(p.x) || isOutOfRange(p.y));
+    if (clamped) {
+      const points = clampPoints(obj.points);
+      // Rotated boxes keep their own size and angle, other shapes derive
+      // their box from their points
+      result = yoloFormat.isRotated(obj)
+        ? { ...result, points }
+        : { ...result, points, ...yoloFormat.boundingBox(points) };
+    }
+  } else {
+    const [topLeft, , bottomRight] = yoloFormat.corners(obj);
+    clamped = [topLeft.x, topLeft.y, bottomRight.x, bottomRight.y].some(
+      isOutOfRange
+    );
+    if (clamped) {
+      result = {
+        ...result,
+        ...yoloFormat.boundingBox(clampPoints([topLeft, bottomRight])),
+      };
+    }
+  }
+
+  if (obj.keypoints?.some((kp) => isOutOfRange(kp.x) || isOutOfRange(kp.y))) {
+    clamped = true;
+    result = { ...result, keypoints: clampPoints(obj.keypoints) };
+  }
+
+  return { obj: result, clamped };
+};
+
+/**
+ * Check whether an object has no area. Polylines only need a length.
+ */
+const hasNoSize = (obj: YoloObject): boolean => {
+  const box = yoloFormat.axisAlignedBox(obj);
+  return yoloFormat.isPolyline(obj)
+    ? box.width <= EPSILON && box.height <= EPSILON
+    : box.width <= EPSILON || box.height <= EPSILON;
+};
+
+/**
+ * Export label validation utilities
+ */
+export const exportValidation = {
+  /**
+   * Validate the objects of an image. Objects of unknown classes and
+   * objects without size are left out, coordinates outside the image are
+   * clamped to it.
+   */
+  checkObjects(
+    objects: YoloObject[],
+    isKnownClass: (classId: string) => boolean
+  ): { objects: YoloObject[]; issues: ObjectIssue[] } {
+    const valid: YoloObject[] = [];
+    const issues: ObjectIssue[] = [];
+
+    objects.forEach((original, objectIndex) => {
+      const details = {
+        objectIndex,
+        classId: original.classId,
+        className: original.className,
+      };
+
+      if (!isKnownClass(original.classId)) {
+        issues.push({
+          type: ExportIssueType.UNKNOWN_CLASS,
+          ...details,
+          message:
+            `Class "${original.className}" no longer exists, object left out`,
+        });
+        return;
+      }
+
+      const { obj, clamped } = clampObject(original);
+      if (hasNoSize(obj)) {
+        issues.push({
+          type: ExportIssueType.ZERO_SIZE,
+          ...details,
+          message: clamped
+            ? "Object lies outside the image, left out"
+            : "Object has no size, left out",
+        });
+        return;
+      }
+
+      if (clamped) {
+        issues.push({
+          type: ExportIssueType.OUT_OF_RANGE,
+          ...details,
+          message: "Coordinates outside the image clamped to its edges",
+        });
+      }
+      valid.push(obj);
+    });
+
+    return { objects: valid, issues };
+  },
+
+  /**
+   * Report the mask classes that no longer exist, whose pixels are written
+   * as background
+   */
+  checkMask(
+    mask: AnnotationMask,
+    isKnownClass: (classId: string) => boolean
+  ): ObjectIssue[] {
+    return mask.classes
+      .filter((maskClass) => !isKnownClass(maskClass.classId))
+      .map((maskClass) => ({
+        type: ExportIssueType.UNKNOWN_CLASS,
+        classId: maskClass.classId,
+        message:
+          "Mask pixels of a class that no longer exists left as background",
+      }));
+  },
+
+  /**
+   * Count the issues and dropped images of a report by type and reason
+   */
+  summarize(
+    issues: ExportIssue[],
+    droppedImages: ExportDroppedImage[]
+  ): ExportValidationSummary {
+    const summary: ExportValidationSummary = { issues: {}, droppedImages: {} };
+
+    issues.forEach((issue) => {
+      summary.issues[issue.type] = (summary.issues[issue.type] ?? 0) + 1;
+    });
+    droppedImages.forEach((image) => {
+      summary.droppedImages[image.reason] =
+        (summary.droppedImages[image.reason] ?? 0) + 1;
+    });
+
+    return summary;
+  },
+};
@@ -0,0 +1,241 @@
+// src/utils/image-augmentation.ts
+import type { Sharp } from "sharp";
+import {
+  KeypointVisibility,
+  type ExportAugmentation,
+  type NormalizedPoint,
+  type YoloObject,
+} from "../types/index.js";
+import { datasetSplit } from "./dataset-split.js";
+
+/**
+ * Interface for the transforms picked for one augmented copy
+ */
+export interface AugmentationTransform {
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  rotate: 0 | 90 | 180 | 270; // Clockwise, applied after the flips
+  brightness: number; // Multiplier, 1 keeps the image
+  contrast: number; // Multiplier around mid-grey, 1 keeps the image
+  resize?: ExportAugmentation["resize"];
+}
+
+// Padding colour of letterboxed images, the grey used by Ultralytics
+const LETTERBOX_GREY = 114;
+
+/**
+ * Hash a string into a 32-bit seed (FNV-1a)
+ */
+const hashSeed = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Get the size and offset of an image letterboxed into a target size
+ */
+const letterboxLayout = (
+  width: number,
+  height: number,
+  target: { width: number; height: number }
+) => {
+  const scale = Math.min(target.width / width, target.height / height);
+  const contentWidth = Math.max(1, Math.round(width * scale));
+  const contentHeight = Math.max(1, Math.round(height * scale));
+
+  return {
+    contentWidth,
+    contentHeight,
+    left: Math.floor((target.width - contentWidth) / 2),
+    top: Math.floor((target.height - contentHeight) / 2),
+  };
+};
+
+/**
+ * Image augmentation utilities. Geometric transforms are applied in the
+ * order sharp applies them: flips, then rotation, then resizing.
+ */
+export const imageAugmentation = {
+  /**
+   * Pick the transforms of one augmented copy. The same seed, image and
+   * copy always give the same transforms, whatever the export order.
+   */
+  transform(
+    options: ExportAugmentation,
+    key: string,
+    copy: number
+  ): AugmentationTransform {
+    const random = datasetSplit.random(
+      hashSeed(`${options.seed}:${key}:${copy}`)
+    );
+    const jitter = (amount: number) => 1 + (random() * 2 - 1) * amount;
+
+    // Every choice draws from the generator, so enabling one transform
+    // doesn't change the others
+    const flipHorizontal = random() < 0.5 && options.flipHorizontal;
+    const flipVertical = random() < 0.5 && options.flipVertical;
+    const quarterTurns = Math.floor(random() * 4);
+    const brightness = jitter(options.brightness);
+    const contrast = jitter(options.contrast);
+
+    return {
+      flipHorizontal,
+      flipVertical,
+      rotate: options.rotate90
+        ? ((quarterTurns * 90) as AugmentationTransform["rotate"])
+        : 0,
+      brightness,
+      contrast,
+      ...(options.resize && { resize: options.resize }),
+    };
+  },
+
+  /**
+   * Apply a transform to an image. Masks skip the colour changes and keep
+   * their values when resized.
+   */
+  apply(
+    image: Sharp,
+    width: number,
+    height: number,
+    transform: AugmentationTransform,
+    isMask = false
+  ): Sharp {
+    let result = image;
+    if (transform.flipHorizontal) result = result.flop();
+    if (transform.flipVertical) result = result.flip();
+    if (transform.rotate) result = result.rotate(transform.rotate);
+
+    if (transform.resize) {
+      const rotated = transform.rotate % 180 !== 0;
+      const layout = letterboxLayout(
+        rotated ? height : width,
+        rotated ? width : height,
+        transform.resize
+      );
+      const kernel = isMask ? "nearest" : "lanczos3";
+
+      result = transform.resize.letterbox
+        ? result
+            .resize(layout.contentWidth, layout.contentHeight, {
+              fit: "fill",
+              kernel,
+            })
+            .extend({
+              left: layout.left,
+              top: layout.top,
+              right:
+                transform.resize.width - layout.contentWidth - layout.left,
+              bottom:
+                transform.resize.height - layout.contentHeight - layout.top,
+              background: isMask
+                ? { r: 0, g: 0, b: 0 }
+                : { r: LETTERBOX_GREY, g: LETTERBOX_GREY, b: LETTERBOX_GREY },
+            })
+        : result.resize(transform.resize.width, transform.resize.height, {
+            fit: "fill",
+            kernel,
+          });
+    }
+
+    if (!isMask) {
+      if (transform.brightness !== 1) {
+        result = result.modulate({ brightness: transform.brightness });
+      }
+      if (transform.contrast !== 1) {
+        result = result.linear(
+          transform.contrast,
+          128 * (1 - transform.contrast)
+        );
+      }
+    }
+
+    return result;
+  },
+
+  /**
+   * Move objects with the image of a transform. Colour changes leave them
+   * unchanged.
+   */
+  transformObjects(
+    objects: YoloObject[],
+    width: number,
+    height: number,
+    transform: AugmentationTransform
+  ): YoloObject[] {
+    const rotated = transform.rotate % 180 !== 0;
+    const layout = transform.resize?.letterbox
+      ? letterboxLayout(
+          rotated ? height : width,
+          rotated ? width : height,
+          transform.resize
+        )
+      : null;
+
+    const movePoint = <T extends NormalizedPoint>(point: T): T => {
+      let { x, y } = point;
+      if (transform.flipHorizontal) x = 1 - x;
+      if (transform.flipVertical) y = 1 - y;
+      for (let turn = 0; turn < transform.rotate / 90; turn++) {
+        [x, y] = [1 - y, x];
+      }
+      if (layout && transform.resize) {
+        x = (x * layout.contentWidth + layout.left) / transform.resize.width;
+        y = (y * layout.contentHeight + layout.top) / transform.resize.height;
+      }
+      return { ...point, x, y };
+    };
+
+    // Share of the output sides covered by the letterboxed image
+    const outputWidth = rotated ? height : width;
+    const outputHeight = rotated ? width : height;
+    const sizeScaleX =
+      layout && transform.resize
+        ? layout.contentWidth / transform.resize.width
+        : 1;
+    const sizeScaleY =
+      layout && transform.resize
+        ? layout.contentHeight / transform.resize.height
+        : 1;
+    const flips =
+      Number(transform.flipHorizontal) + Number(transform.flipVertical);
+
+    return objects.map((obj) => {
+      const center = movePoint(obj);
+      // Sizes are relative to the image sides. Quarter turns swap the sides
+      // of axis-aligned boxes, rotated boxes keep theirs and turn instead.
+      const swapSides = rotated && !obj.angle;
+      const sideX = swapSides ? obj.height * height : obj.width * width;
+      const sideY = swapSides ? obj.width * width : obj.height * height;
+
+      return {
+        ...obj,
+        x: center.x,
+        y: center.y,
+        width: (sideX / outputWidth) * sizeScaleX,
+        height: (sideY / outputHeight) * sizeScaleY,
+        ...(obj.angle && {
+          angle:
+            ((flips % 2 === 1 ? -obj.angle : obj.angle) +
+              transform.rotate +
+              360) %
+            360,
+        }),
+        ...(obj.points && { points: obj.points.map(movePoint) }),
+        // Keypoints keep their order, mirrored left and right keypoints
+        // aren't swapped
+        ...(obj.keypoints && {
+          keypoints: obj.keypoints.map((kp) =>
+            kp.visibility === KeypointVisibility.NOT_LABELED
+              ? kp
+              : movePoint(kp)
+          ),
+        }),
+      };
+    });
+  },
+};
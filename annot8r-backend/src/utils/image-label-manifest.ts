@@ -0,0 +1,76 @@
+// src/utils/image-label-manifest.ts
+import type { ImageLabelSet, ImageLabelValue } from "../types/index.js";
+
+/**
+ * A row of the image label manifest
+ */
+export interface ImageLabelManifestRow {
+  image: string; // Exported file name stem (the image ID)
+  filename: string; // Original upload file name
+  imageLabels: ImageLabelValue[];
+}
+
+/**
+ * Quote a CSV field when it contains separators, quotes or line breaks
+ */
+const csvField = (value: string): string =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Image-level label manifest formatting utilities
+ */
+export const imageLabelManifest = {
+  /**
+   * Get the values picked for a label set, or none
+   */
+  valuesOf(imageLabels: ImageLabelValue[], setId: string): string[] {
+    return imageLabels.find((label) => label.setId === setId)?.values || [];
+  },
+
+  /**
+   * Format the manifest as CSV with one column per label set
+   * (multiple values of a multi-choice set are joined with ";")
+   */
+  toCsv(labelSets: ImageLabelSet[], rows: ImageLabelManifestRow[]): string {
+    const header = ["image", "filename", ...labelSets.map((set) => set.name)];
+
+    const lines = rows.map((row) => [
+      row.image,
+      row.filename,
+      ...labelSets.map((set) =>
+        imageLabelManifest.valuesOf(row.imageLabels, set.id).join(";")
+      ),
+    ]);
+
+    return [header, ...lines]
+      .map((line) => line.map(csvField).join(","))
+      .join("\n");
+  },
+
+  /**
+   * Format the manifest as JSON, keyed by label set name
+   */
+  toJson(labelSets: ImageLabelSet[], rows: ImageLabelManifestRow[]): string {
+    return JSON.stringify(
+      {
+        labelSets: labelSets.map(({ name, type, options }) => ({
+          name,
+          type,
+          options,
+        })),
+        images: rows.map((row) => ({
+          image: row.image,
+          filename: row.filename,
+          labels: Object.fromEntries(
+            labelSets.map((set) => [
+              set.name,
+              imageLabelManifest.valuesOf(row.imageLabels, set.id),
+            ])
+          ),
+        })),
+      },
+      null,
+      2
+    );
+  },
+};
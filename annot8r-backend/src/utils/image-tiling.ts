@@ -0,0 +1,321 @@
+// src/utils/image-tiling.ts
+import {
+  KeypointVisibility,
+  type NormalizedPoint,
+  type YoloObject,
+} from "../types/index.js";
+import { yoloFormat } from "./yolo-format.js";
+
+/**
+ * Interface for a tile of an image, in pixels
+ */
+export interface ImageTile {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Rounding error tolerated on normalized coordinates
+const EPSILON = 1e-9;
+
+/**
+ * Get the start of every tile along one side. The last tile is moved back
+ * to end on the edge, so every tile has the full size.
+ */
+const tileStarts = (length: number, size: number, overlap: number) => {
+  if (length <= size) {
+    return [0];
+  }
+
+  const step = Math.max(1, Math.round(size * (1 - overlap)));
+  const starts: number[] = [];
+  for (let start = 0; start + size < length; start += step) {
+    starts.push(start);
+  }
+  starts.push(length - size);
+
+  return starts;
+};
+
+/**
+ * Clip a polygon to the unit square (Sutherland-Hodgman)
+ */
+const clipPolygon = (points: NormalizedPoint[]): NormalizedPoint[] => {
+  const edges: Array<{
+    inside: (p: NormalizedPoint) => boolean;
+    cross: (a: NormalizedPoint, b: NormalizedPoint) => NormalizedPoint;
+  }> = [
+    {
+      inside: (p) => p.x >= 0,
+      cross: (a, b) => ({
+        x: 0,
+        y: a.y + ((b.y - a.y) * -a.x) / (b.x - a.x),
+      }),
+    },
+    {
+      inside: (p) => p.x <= 1,
+      cross: (a, b) => ({
+        x: 1,
+        y: a.y + ((b.y - a.y) * (1 - a.x)) / (b.x - a.x),
+      }),
+    },
+    {
+      inside: (p) => p.y >= 0,
+      cross: (a, b) => ({
+        x: a.x + ((b.x - a.x) * -a.y) / (b.y - a.y),
+        y: 0,
+      }),
+    },
+    {
+      inside: (p) => p.y <= 1,
+      cross: (a, b) => ({
+        x: a.x + ((b.x - a.x) * (1 - a.y)) / (b.y - a.y),
+        y: 1,
+      }),
+    },
+  ];
+
+  return edges.reduce((input, edge) => {
+    const output: NormalizedPoint[] = [];
+    input.forEach((current, index) => {
+      const previous = input[(index + input.length - 1) % input.length];
+      if (edge.inside(current)) {
+        if (!edge.inside(previous)) {
+          output.push(edge.cross(previous, current));
+        }
+        output.push(current);
+      } else if (edge.inside(previous)) {
+        output.push(edge.cross(previous, current));
+      }
+    });
+    return output;
+  }, points);
+};
+
+/**
+ * Clip a segment to the unit square (Liang-Barsky), or null when it lies
+ * outside
+ */
+const clipSegment = (
+  a: NormalizedPoint,
+  b: NormalizedPoint
+): [NormalizedPoint, NormalizedPoint] | null => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  let t0 = 0;
+  let t1 = 1;
+
+  const checks: Array<[number, number]> = [
+    [-dx, a.x],
+    [dx, 1 - a.x],
+    [-dy, a.y],
+    [dy, 1 - a.y],
+  ];
+  for (const [p, q] of checks) {
+    if (p === 0) {
+      if (q < 0) return null;
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) {
+      t0 = Math.max(t0, t);
+    } else {
+      t1 = Math.min(t1, t);
+    }
+    if (t0 > t1) return null;
+  }
+
+  return [
+    { x: a.x + t0 * dx, y: a.y + t0 * dy },
+    { x: a.x + t1 * dx, y: a.y + t1 * dy },
+  ];
+};
+
+const polygonArea = (points: NormalizedPoint[]) =>
+  Math.abs(
+    points.reduce((sum, p, index) => {
+      const next = points[(index + 1) % points.length];
+      return sum + p.x * next.y - next.x * p.y;
+    }, 0)
+  ) / 2;
+
+const distance = (a: NormalizedPoint, b: NormalizedPoint) =>
+  Math.hypot(b.x - a.x, b.y - a.y);
+
+const samePoint = (a: NormalizedPoint, b: NormalizedPoint) =>
+  Math.abs(a.x - b.x) < EPSILON && Math.abs(a.y - b.y) < EPSILON;
+
+/**
+ * Split a polyline into the runs that lie inside the unit square, with the
+ * share of its length they keep
+ */
+const clipPolyline = (points: NormalizedPoint[]) => {
+  const runs: NormalizedPoint[][] = [];
+  let total = 0;
+  let kept = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    total += distance(points[i - 1], points[i]);
+    const clipped = clipSegment(points[i - 1], points[i]);
+    if (!clipped) continue;
+
+    kept += distance(clipped[0], clipped[1]);
+    const run = runs[runs.length - 1];
+    if (run && samePoint(run[run.length - 1], clipped[0])) {
+      run.push(clipped[1]);
+    } else {
+      runs.push([...clipped]);
+    }
+  }
+
+  return { runs, visibility: total > 0 ? kept / total : 0 };
+};
+
+/**
+ * Image tiling utilities. Tiles are cut in pixels and objects are moved into
+ * the normalized coordinates of each tile.
+ */
+export const imageTiling = {
+  /**
+   * Cut an image into square tiles of `size` pixels, overlapping by a
+   * ratio of their size. Images smaller than a tile give a single tile.
+   */
+  tiles(
+    width: number,
+    height: number,
+    size: number,
+    overlap: number
+  ): ImageTile[] {
+    const tiles: ImageTile[] = [];
+
+    for (const top of tileStarts(height, size, overlap)) {
+      for (const left of tileStarts(width, size, overlap)) {
+        tiles.push({
+          left,
+          top,
+          width: Math.min(size, width),
+          height: Math.min(size, height),
+        });
+      }
+    }
+
+    return tiles;
+  },
+
+  /**
+   * Name of a tile, tracing it back to its image and position
+   */
+  tileName(imageId: string, tile: ImageTile): string {
+    return `${imageId}_${tile.left}_${tile.top}`;
+  },
+
+  /**
+   * Move objects into a tile, clipping them to its edges. Objects keeping
+   * less than `minVisibility` of their area (of their length for
+   * polylines) are left out, polylines crossing the tile several times are
+   * split. Rotated boxes cut by the edges become axis-aligned boxes.
+   */
+  cropObjects(
+    objects: YoloObject[],
+    tile: ImageTile,
+    imageWidth: number,
+    imageHeight: number,
+    minVisibility: number
+  ): YoloObject[] {
+    const scaleX = imageWidth / tile.width;
+    const scaleY = imageHeight / tile.height;
+    const offsetX = tile.left / tile.width;
+    const offsetY = tile.top / tile.height;
+    const toTile = <T extends NormalizedPoint>(p: T): T => ({
+      ...p,
+      x: p.x * scaleX - offsetX,
+      y: p.y * scaleY - offsetY,
+    });
+    const isVisible = (visibility: number) =>
+      visibility > EPSILON && visibility + EPSILON >= minVisibility;
+
+    return objects.flatMap((original): YoloObject[] => {
+      const center = toTile(original);
+      const obj: YoloObject = {
+        ...original,
+        ...center,
+        width: original.width * scaleX,
+        height: original.height * scaleY,
+        ...(original.points && { points: original.points.map(toTile) }),
+        ...(original.keypoints && {
+          keypoints: original.keypoints.map((kp) => {
+            const moved = toTile(kp);
+            return kp.visibility === KeypointVisibility.NOT_LABELED ||
+              moved.x < 0 ||
+              moved.x > 1 ||
+              moved.y < 0 ||
+              moved.y > 1
+              ? { x: 0, y: 0, visibility: KeypointVisibility.NOT_LABELED }
+              : moved;
+          }),
+        }),
+      };
+
+      if (yoloFormat.isPolyline(obj)) {
+        const { runs, visibility } = clipPolyline(
+          obj.points as NormalizedPoint[]
+        );
+        if (!isVisible(visibility)) return [];
+
+        return runs.map((points) => ({
+          ...obj,
+          points,
+          ...yoloFormat.boundingBox(points),
+        }));
+      }
+
+      if (yoloFormat.isPolygon(obj) || yoloFormat.isRotated(obj)) {
+        const outline = yoloFormat.outline(obj);
+        const area = polygonArea(outline);
+        const clipped = clipPolygon(outline);
+        const visibility = area > 0 ? polygonArea(clipped) / area : 0;
+        if (clipped.length < 3 || !isVisible(visibility)) return [];
+
+        if (yoloFormat.isPolygon(obj)) {
+          return [
+            { ...obj, points: clipped, ...yoloFormat.boundingBox(clipped) },
+          ];
+        }
+        if (visibility >= 1 - EPSILON) {
+          return [obj];
+        }
+        return [
+          {
+            ...obj,
+            angle: undefined,
+            points: undefined,
+            ...yoloFormat.boundingBox(clipped),
+          },
+        ];
+      }
+
+      const [topLeft, , bottomRight] = yoloFormat.corners(obj);
+      const left = Math.max(0, topLeft.x);
+      const top = Math.max(0, topLeft.y);
+      const right = Math.min(1, bottomRight.x);
+      const bottom = Math.min(1, bottomRight.y);
+      const area = obj.width * obj.height;
+      const visibility =
+        right > left && bottom > top && area > 0
+          ? ((right - left) * (bottom - top)) / area
+          : 0;
+      if (!isVisible(visibility)) return [];
+
+      return [
+        {
+          ...obj,
+          x: (left + right) / 2,
+          y: (top + bottom) / 2,
+          width: right - left,
+          height: bottom - top,
+        },
+      ];
+    });
+  },
+};
@@ -4,4 +4,22 @@ export * from './password.js';
 export { response } from './response.js';
 export { validation } from './validation.js';
 export { generateProxiedImageUrl } from './image-security.js';
-export { s3Operations } from './s3-operations.js';
\ No newline at end of file
+export { s3Operations } from './s3-operations.js';
+export { yoloFormat } from './yolo-format.js';
+export { imageLabelManifest } from './image-label-manifest.js';
+export { classAttributes } from './class-attributes.js';
+export { maskFormat } from './mask-format.js';
+export { classTaxonomy } from './class-taxonomy.js';
+export { motFormat } from './mot-format.js';
+export { cocoFormat } from './coco-format.js';
+export { vocFormat } from './voc-format.js';
+export { cvatFormat } from './cvat-format.js';
+export { labelStudioFormat } from './label-studio-format.js';
+export { datasetSplit } from './dataset-split.js';
+export { datasetDiff } from './dataset-diff.js';
+export { exportFilters } from './export-filters.js';
+export { cronSchedule } from './cron-schedule.js';
+export { exportValidation } from './export-validation.js';
+export { imageTiling } from './image-tiling.js';
+export { imageAugmentation } from './image-augmentation.js';
+export { objectTable } from './object-table.js';
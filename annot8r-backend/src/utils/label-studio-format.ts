@@ -0,0 +1,576 @@
+// src/utils/label-studio-format.ts
+import {
+  AnnotationObjectType,
+  AttributeType,
+  KeypointVisibility,
+  type Keypoint,
+  type ProjectClass,
+  type YoloObject,
+} from "../types/index.js";
+import { vocFormat } from "./voc-format.js";
+import { yoloFormat } from "./yolo-format.js";
+
+/**
+ * Interface for one result of a Label Studio annotation. Coordinates are
+ * percentages of the image sides.
+ */
+export interface LabelStudioResult {
+  id: string;
+  type: string;
+  from_name: string;
+  to_name: string;
+  original_width: number;
+  original_height: number;
+  image_rotation: 0;
+  parentID?: string; // Region a keypoint belongs to
+  value: Record<string, unknown>;
+}
+
+export interface LabelStudioTask {
+  id: number;
+  data: { image: string };
+  annotations: Array<{
+    id: number;
+    result: LabelStudioResult[];
+    was_cancelled: boolean;
+    ground_truth: boolean;
+    created_username?: string; // Annotator
+    created_at: string;
+    updated_at: string;
+    lead_time: number; // Seconds
+  }>;
+}
+
+/**
+ * Interface for a region read from a Label Studio annotation, with the
+ * per-region results that share its id and the keypoints placed on it
+ */
+export interface LabelStudioRegion {
+  id: string;
+  type: "rectangle" | "polygon";
+  label: string;
+  value: Record<string, unknown>;
+  attributes: Record<string, unknown>;
+  keypoints: Array<{
+    label: string;
+    x: number;
+    y: number;
+    occluded: boolean;
+  }>;
+}
+
+// Control names of the exported labeling config
+const IMAGE_NAME = "image";
+const RECTANGLE_NAME = "label";
+const POLYGON_NAME = "polygon";
+const KEYPOINT_NAME = "keypoint";
+const VISIBILITY_NAME = "keypoint_visibility"; // Per-keypoint choice
+
+// Result types that make a region, with or without their label
+const REGION_TYPES = [
+  "rectanglelabels",
+  "rectangle",
+  "polygonlabels",
+  "polygon",
+];
+
+// Size of exported keypoints, in percent of the image width
+const KEYPOINT_SIZE = 1;
+
+// Label Studio prefixes uploaded files with a random id
+const UPLOAD_PREFIX = /^[0-9a-f]{8}-/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const firstString = (value: unknown) =>
+  Array.isArray(value) && typeof value[0] === "string" ? value[0] : undefined;
+
+/**
+ * Label Studio JSON task formatting utilities
+ */
+export const labelStudioFormat = {
+  /**
+   * Create the labeling config matching exported tasks: rectangle, polygon
+   * and keypoint controls with a keypoint visibility choice, and a
+   * per-region control for each attribute.
+   * Attributes of the same name across classes share their control.
+   */
+  toLabelConfig(classes: ProjectClass[], keypointNames: string[] = []): string {
+    const escape = vocFormat.escape;
+    const labels = classes.map(
+      (cls) =>
+        `    <Label value="${escape(cls.name)}" background="${escape(
+          cls.color
+        )}"/>`
+    );
+    const lines = [
+      "<View>",
+      `  <Image name="${IMAGE_NAME}" value="$image"/>`,
+      `  <RectangleLabels name="${RECTANGLE_NAME}" toName="${IMAGE_NAME}">`,
+      ...labels,
+      "  </RectangleLabels>",
+      `  <PolygonLabels name="${POLYGON_NAME}" toName="${IMAGE_NAME}">`,
+      ...labels,
+      "  </PolygonLabels>",
+    ];
+
+    if (keypointNames.length > 0) {
+      lines.push(
+        `  <KeyPointLabels name="${KEYPOINT_NAME}" toName="${IMAGE_NAME}">`,
+        ...keypointNames.map((name) => `    <Label value="${escape(name)}"/>`),
+        "  </KeyPointLabels>",
+        `  <Choices name="${VISIBILITY_NAME}" toName="${IMAGE_NAME}" ` +
+          'perRegion="true" choice="single">',
+        '    <Choice value="occluded"/>',
+        "  </Choices>"
+      );
+    }
+
+    const attributes = new Map<
+      string,
+      { type: AttributeType; options: string[] }
+    >();
+    classes.forEach((cls) =>
+      (cls.attributes || []).forEach((attribute) => {
+        const existing = attributes.get(attribute.name);
+        if (!existing) {
+          attributes.set(attribute.name, {
+            type: attribute.type,
+            options:
+              attribute.type === AttributeType.BOOLEAN
+                ? ["true", "false"]
+                : [...(attribute.options || [])],
+          });
+        } else if (existing.type === AttributeType.ENUM) {
+          (attribute.options || [])
+            .filter((option) => !existing.options.includes(option))
+            .forEach((option) => existing.options.push(option));
+        }
+      })
+    );
+    attributes.forEach(({ type, options }, name) => {
+      const control = `name="${escape(
+        name
+      )}" toName="${IMAGE_NAME}" perRegion="true"`;
+      if (type === AttributeType.TEXT) {
+        lines.push(`  <TextArea ${control} maxSubmissions="1"/>`);
+      } else if (type === AttributeType.NUMBER) {
+        lines.push(`  <Number ${control}/>`);
+      } else {
+        lines.push(
+          `  <Choices ${control} choice="single">`,
+          ...options.map((option) => `    <Choice value="${escape(option)}"/>`),
+          "  </Choices>"
+        );
+      }
+    });
+
+    lines.push("</View>", "");
+    return lines.join("\n");
+  },
+
+  /**
+   * Build the task of one image with its annotation. Rotated boxes are
+   * turned around their top-left corner, keypoints are regions of their
+   * own pointing to their box, occluded ones with a visibility choice.
+   * Polylines and objects of unknown classes are
+   * left out.
+   */
+  toTask(
+    id: number,
+    image: { path: string; width: number; height: number },
+    objects: YoloObject[],
+    classOf: (obj: YoloObject) => ProjectClass | undefined,
+    annotation: {
+      annotator: string | null;
+      createdAt: Date;
+      updatedAt: Date;
+      timeSpent: number;
+    },
+    keypointNames: string[] = []
+  ): LabelStudioTask {
+    const result: LabelStudioResult[] = [];
+    const resultOf = (
+      resultId: string,
+      type: string,
+      fromName: string,
+      value: Record<string, unknown>
+    ): LabelStudioResult => ({
+      id: resultId,
+      type,
+      from_name: fromName,
+      to_name: IMAGE_NAME,
+      original_width: image.width,
+      original_height: image.height,
+      image_rotation: 0,
+      value,
+    });
+
+    yoloFormat.labelObjects(objects).forEach((obj, index) => {
+      const cls = classOf(obj);
+      if (!cls) {
+        return;
+      }
+      const regionId = `${id}_${index}`;
+
+      if (yoloFormat.isPolygon(obj)) {
+        result.push(
+          resultOf(regionId, "polygonlabels", POLYGON_NAME, {
+            points: (obj.points || []).map((point) => [
+              point.x * 100,
+              point.y * 100,
+            ]),
+            closed: true,
+            polygonlabels: [cls.name],
+          })
+        );
+      } else {
+        const rotation = yoloFormat.isRotated(obj) ? obj.angle ?? 0 : 0;
+        const [topLeft] = rotation
+          ? yoloFormat.rotatedCorners(obj, rotation, image.width, image.height)
+          : yoloFormat.corners(yoloFormat.axisAlignedBox(obj));
+        const box = rotation ? obj : yoloFormat.axisAlignedBox(obj);
+        result.push(
+          resultOf(regionId, "rectanglelabels", RECTANGLE_NAME, {
+            x: topLeft.x * 100,
+            y: topLeft.y * 100,
+            width: box.width * 100,
+            height: box.height * 100,
+            rotation,
+            rectanglelabels: [cls.name],
+          })
+        );
+
+        (obj.keypoints || []).slice(0, keypointNames.length).forEach(
+          (kp, kpIndex) => {
+            if (kp.visibility === KeypointVisibility.NOT_LABELED) {
+              return;
+            }
+            const keypointId = `${regionId}_${kpIndex}`;
+            result.push({
+              ...resultOf(
+                keypointId,
+                "keypointlabels",
+                KEYPOINT_NAME,
+                {
+                  x: kp.x * 100,
+                  y: kp.y * 100,
+                  width: KEYPOINT_SIZE,
+                  keypointlabels: [keypointNames[kpIndex]],
+                }
+              ),
+              parentID: regionId,
+            });
+            if (kp.visibility === KeypointVisibility.OCCLUDED) {
+              result.push(
+                resultOf(keypointId, "choices", VISIBILITY_NAME, {
+                  choices: ["occluded"],
+                })
+              );
+            }
+          }
+        );
+      }
+
+      Object.entries(obj.attributes || {}).forEach(([name, value]) => {
+        const attribute = cls.attributes?.find((attr) => attr.name === name);
+        if (attribute?.type === AttributeType.NUMBER) {
+          result.push(resultOf(regionId, "number", name, { number: value }));
+        } else if (attribute?.type === AttributeType.TEXT) {
+          result.push(
+            resultOf(regionId, "textarea", name, { text: [String(value)] })
+          );
+        } else {
+          result.push(
+            resultOf(regionId, "choices", name, { choices: [String(value)] })
+          );
+        }
+      });
+    });
+
+    return {
+      id,
+      data: { image: image.path },
+      annotations: [
+        {
+          id,
+          result,
+          was_cancelled: false,
+          ground_truth: false,
+          ...(annotation.annotator && {
+            created_username: annotation.annotator,
+          }),
+          created_at: annotation.createdAt.toISOString(),
+          updated_at: annotation.updatedAt.toISOString(),
+          lead_time: annotation.timeSpent,
+        },
+      ],
+    };
+  },
+
+  /**
+   * Read the latest completed annotation of an imported task. The image is
+   * named by the file of its reference, without the prefix Label Studio
+   * gives uploads. Regions are null when the task has no annotation.
+   * Returns an error message when the task has no image.
+   */
+  fromTask(task: Record<string, unknown>):
+    | {
+        image: string;
+        annotator?: string;
+        regions: LabelStudioRegion[] | null;
+        skipped: string[]; // Results that can't be imported
+      }
+    | { error: string } {
+    const data = isRecord(task.data) ? task.data : {};
+    const reference =
+      typeof data.image === "string"
+        ? data.image
+        : Object.values(data).find(
+            (value): value is string => typeof value === "string"
+          );
+    if (!reference) {
+      return { error: `Task ${task.id} has no image` };
+    }
+
+    let image = reference.split("?")[0].split("/").pop() || reference;
+    try {
+      image = decodeURIComponent(image);
+    } catch {
+      // Keep names that aren't URL encoded
+    }
+    if (reference.includes("/data/upload/")) {
+      image = image.replace(UPLOAD_PREFIX, "");
+    }
+
+    const annotation = (
+      Array.isArray(task.annotations) ? task.annotations : []
+    )
+      .filter(
+        (item): item is Record<string, unknown> =>
+          isRecord(item) && !item.was_cancelled && Array.isArray(item.result)
+      )
+      .sort(
+        (a, b) =>
+          (Date.parse(String(b.updated_at ?? b.created_at)) || 0) -
+          (Date.parse(String(a.updated_at ?? a.created_at)) || 0)
+      )[0];
+    if (!annotation) {
+      return { image, regions: null, skipped: [] };
+    }
+
+    // Exports name the annotator as "email, id", or as the user itself
+    const completedBy = annotation.completed_by;
+    const annotator =
+      typeof annotation.created_username === "string"
+        ? annotation.created_username.split(",")[0].trim()
+        : isRecord(completedBy)
+        ? String(completedBy.email ?? completedBy.username ?? "")
+        : typeof completedBy === "string"
+        ? completedBy
+        : "";
+
+    const results = (annotation.result as unknown[]).filter(isRecord);
+    const regions = new Map<string, LabelStudioRegion>();
+    const skipped: string[] = [];
+
+    results.forEach((item) => {
+      const value = isRecord(item.value) ? item.value : {};
+      const type = String(item.type);
+      if (!REGION_TYPES.includes(type)) {
+        return;
+      }
+      regions.set(String(item.id), {
+        id: String(item.id),
+        type: type.startsWith("rectangle") ? "rectangle" : "polygon",
+        label: firstString(value[type]) || "",
+        value,
+        attributes: {},
+        keypoints: [],
+      });
+    });
+
+    // Keypoints are marked occluded by a choice sharing their id
+    const occludedIds = new Set(
+      results
+        .filter(
+          (item) =>
+            item.from_name === VISIBILITY_NAME &&
+            isRecord(item.value) &&
+            firstString(item.value.choices) === "occluded"
+        )
+        .map((item) => String(item.id))
+    );
+
+    results.forEach((item) => {
+      const value = isRecord(item.value) ? item.value : {};
+      const type = String(item.type);
+      const region = regions.get(String(item.parentID ?? item.id));
+
+      if (REGION_TYPES.includes(type) || item.from_name === VISIBILITY_NAME) {
+        return;
+      }
+      if (!region) {
+        skipped.push(
+          type === "keypointlabels" || type === "keypoint"
+            ? `Keypoint ${item.id} is not placed on a box`
+            : `Result ${item.id}: ${type} results are only read on regions`
+        );
+        return;
+      }
+
+      if (type === "labels") {
+        region.label = firstString(value.labels) || region.label;
+      } else if (type === "keypointlabels" || type === "keypoint") {
+        region.keypoints.push({
+          label: firstString(value.keypointlabels) || "",
+          x: Number(value.x),
+          y: Number(value.y),
+          occluded: occludedIds.has(String(item.id)),
+        });
+      } else if (type === "choices") {
+        region.attributes[String(item.from_name)] = firstString(value.choices);
+      } else if (type === "textarea") {
+        region.attributes[String(item.from_name)] = firstString(value.text);
+      } else if (type === "number" || type === "rating") {
+        region.attributes[String(item.from_name)] = value[type];
+      } else {
+        skipped.push(`Region ${region.id}: ${type} results are not supported`);
+      }
+    });
+
+    return {
+      image,
+      ...(annotator && { annotator }),
+      regions: Array.from(regions.values()),
+      skipped,
+    };
+  },
+
+  /**
+   * Convert a region to a normalized object. Rotated rectangles turn
+   * around their top-left corner, in pixels. Keypoints are matched to the
+   * skeleton by name. Returns an error message for unreadable regions.
+   */
+  fromRegion(
+    region: LabelStudioRegion,
+    imageWidth: number,
+    imageHeight: number,
+    keypointNames: string[] = []
+  ):
+    | { object: Omit<YoloObject, "classId" | "className"> }
+    | { error: string } {
+    const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+    let object: Omit<YoloObject, "classId" | "className">;
+
+    if (region.type === "polygon") {
+      const points = (
+        Array.isArray(region.value.points) ? region.value.points : []
+      )
+        .filter(Array.isArray)
+        .map(([x, y]) => ({
+          x: clamp(Number(x) / 100),
+          y: clamp(Number(y) / 100),
+        }));
+      if (
+        points.length < 3 ||
+        !points.every((point) => Number.isFinite(point.x + point.y))
+      ) {
+        return { error: "A polygon needs at least 3 points" };
+      }
+      object = {
+        type: AnnotationObjectType.POLYGON,
+        ...yoloFormat.boundingBox(points),
+        points,
+      };
+    } else {
+      const [x, y, width, height] = ["x", "y", "width", "height"].map(
+        (key) => Number(region.value[key]) / 100
+      );
+      const rotation = Number(region.value.rotation) || 0;
+      if (
+        ![x, y, width, height].every(Number.isFinite) ||
+        width <= 0 ||
+        height <= 0
+      ) {
+        return { error: "Rectangle has no area" };
+      }
+
+      if (rotation) {
+        // The center is half the box away from the corner, turned with it
+        const radians = (rotation * Math.PI) / 180;
+        const halfWidth = (width * imageWidth) / 2;
+        const halfHeight = (height * imageHeight) / 2;
+        const center = {
+          x:
+            x +
+            (halfWidth * Math.cos(radians) - halfHeight * Math.sin(radians)) /
+              imageWidth,
+          y:
+            y +
+            (halfWidth * Math.sin(radians) + halfHeight * Math.cos(radians)) /
+              imageHeight,
+          width,
+          height,
+        };
+        object = {
+          type: AnnotationObjectType.BOX,
+          ...center,
+          angle: rotation,
+          points: yoloFormat.rotatedCorners(
+            center,
+            rotation,
+            imageWidth,
+            imageHeight
+          ),
+        };
+      } else {
+        const left = clamp(x);
+        const top = clamp(y);
+        const right = clamp(x + width);
+        const bottom = clamp(y + height);
+        object = {
+          type: AnnotationObjectType.BOX,
+          x: (left + right) / 2,
+          y: (top + bottom) / 2,
+          width: right - left,
+          height: bottom - top,
+        };
+      }
+    }
+    if (object.width <= 0 || object.height <= 0) {
+      return { error: "Region lies outside the image" };
+    }
+
+    if (
+      region.type === "rectangle" &&
+      region.keypoints.length > 0 &&
+      keypointNames.length > 0
+    ) {
+      object.keypoints = keypointNames.map((name): Keypoint => {
+        const kp = region.keypoints.find((point) => point.label === name);
+        return kp && Number.isFinite(kp.x + kp.y)
+          ? {
+              x: clamp(kp.x / 100),
+              y: clamp(kp.y / 100),
+              visibility: kp.occluded
+                ? KeypointVisibility.OCCLUDED
+                : KeypointVisibility.VISIBLE,
+            }
+          : { x: 0, y: 0, visibility: KeypointVisibility.NOT_LABELED };
+      });
+    }
+
+    const attributes = Object.fromEntries(
+      Object.entries(region.attributes).filter(
+        ([, value]) => value !== undefined
+      )
+    );
+    if (Object.keys(attributes).length > 0) {
+      object.attributes = attributes as YoloObject["attributes"];
+    }
+
+    return { object };
+  },
+};
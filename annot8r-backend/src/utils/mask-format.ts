@@ -0,0 +1,69 @@
+// src/utils/mask-format.ts
+import type { AnnotationMask } from "../types/index.js";
+
+/**
+ * Run-length encoded mask utilities
+ */
+export const maskFormat = {
+  /**
+   * Get the first problem of a mask's run-length encoding, if any
+   */
+  validate(mask: AnnotationMask): string | null {
+    const pixelCount = mask.width * mask.height;
+
+    for (const maskClass of mask.classes) {
+      const total = maskClass.counts.reduce((sum, count) => sum + count, 0);
+      if (total !== pixelCount) {
+        return `Mask runs of class ${maskClass.classId} cover ${total} pixels instead of ${pixelCount}`;
+      }
+    }
+
+    const classIds = mask.classes.map((maskClass) => maskClass.classId);
+    if (new Set(classIds).size !== classIds.length) {
+      return "Each class can only appear once in a mask";
+    }
+
+    return null;
+  },
+
+  /**
+   * Decode a mask into one byte per pixel holding the class value of the
+   * pixel, 0 being background. Where classes overlap, the later one wins.
+   */
+  toIndexMap(
+    mask: AnnotationMask,
+    classValueOf: (classId: string) => number
+  ): Uint8Array {
+    const indexMap = new Uint8Array(mask.width * mask.height);
+
+    for (const maskClass of mask.classes) {
+      const value = classValueOf(maskClass.classId);
+      if (value <= 0 || value > 255) {
+        continue;
+      }
+
+      let offset = 0;
+      maskClass.counts.forEach((count, run) => {
+        // Odd runs are painted
+        if (run % 2 === 1) {
+          indexMap.fill(value, offset, offset + count);
+        }
+        offset += count;
+      });
+    }
+
+    return indexMap;
+  },
+
+  /**
+   * Check if a mask has any painted pixels
+   */
+  hasPixels(mask: AnnotationMask | undefined): mask is AnnotationMask {
+    return (
+      !!mask &&
+      mask.classes.some((maskClass) =>
+        maskClass.counts.some((count, run) => run % 2 === 1 && count > 0)
+      )
+    );
+  },
+};
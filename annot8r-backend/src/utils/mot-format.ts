@@ -0,0 +1,83 @@
+// src/utils/mot-format.ts
+import type { YoloObject } from "../types/index.js";
+import { yoloFormat } from "./yolo-format.js";
+
+/**
+ * MOT (multiple object tracking) challenge formatting utilities
+ */
+export const motFormat = {
+  /**
+   * Get the file name of a frame image, MOT frames being numbered from 1
+   */
+  frameFilename(frameIndex: number, extension: string): string {
+    return `${String(frameIndex + 1).padStart(6, "0")}${extension}`;
+  },
+
+  /**
+   * Get the ground truth lines of one frame, as
+   * "frame,id,left,top,width,height,conf,class,visibility" in pixels.
+   * Objects without a track or a known class are skipped.
+   */
+  toGtLines(
+    frameIndex: number,
+    objects: YoloObject[],
+    imageWidth: number,
+    imageHeight: number,
+    classIndexOf: (obj: YoloObject) => number
+  ): string[] {
+    const lines: string[] = [];
+
+    for (const obj of objects) {
+      const classIndex = classIndexOf(obj);
+      if (obj.trackId === undefined || classIndex < 0) {
+        continue;
+      }
+
+      // Rotated boxes are tracked by the axis-aligned box around them
+      const box = yoloFormat.axisAlignedBox(obj);
+
+      const left = (box.x - box.width / 2) * imageWidth;
+      const top = (box.y - box.height / 2) * imageHeight;
+
+      lines.push(
+        [
+          frameIndex + 1,
+          obj.trackId,
+          left.toFixed(2),
+          top.toFixed(2),
+          (box.width * imageWidth).toFixed(2),
+          (box.height * imageHeight).toFixed(2),
+          1,
+          classIndex + 1,
+          1,
+        ].join(",")
+      );
+    }
+
+    return lines;
+  },
+
+  /**
+   * Create the seqinfo.ini describing a sequence
+   */
+  toSeqInfo(info: {
+    name: string;
+    seqLength: number;
+    imWidth: number;
+    imHeight: number;
+    imExt: string;
+    frameRate?: number;
+  }): string {
+    return [
+      "[Sequence]",
+      `name=${info.name}`,
+      "imDir=img1",
+      ...(info.frameRate !== undefined ? [`frameRate=${info.frameRate}`] : []),
+      `seqLength=${info.seqLength}`,
+      `imWidth=${info.imWidth}`,
+      `imHeight=${info.imHeight}`,
+      `imExt=${info.imExt}`,
+      "",
+    ].join("\n");
+  },
+};
@@ -0,0 +1,168 @@
+// src/utils/object-table.ts
+import { parquetWriteBuffer, type ColumnSource } from "hyparquet-writer";
+import {
+  AnnotationObjectType,
+  type Keypoint,
+  type NormalizedPoint,
+  type ReviewStatus,
+  type YoloObject,
+} from "../types/index.js";
+import { yoloFormat } from "./yolo-format.js";
+
+/**
+ * Interface for one object of an object table export. Boxes are axis-aligned
+ * and given from their top-left corner, in pixels and normalized to the
+ * image.
+ */
+export interface ObjectTableRow {
+  image_id: string;
+  filename: string;
+  image_width: number;
+  image_height: number;
+  object_index: number; // Position among the exported objects of the image
+  class_id: string;
+  class_name: string;
+  shape: AnnotationObjectType;
+  bbox_left: number;
+  bbox_top: number;
+  bbox_width: number;
+  bbox_height: number;
+  bbox_left_norm: number;
+  bbox_top_norm: number;
+  bbox_width_norm: number;
+  bbox_height_norm: number;
+  angle: number | null; // Rotation of rotated boxes, clockwise in degrees
+  points: NormalizedPoint[] | null;
+  keypoints: Keypoint[] | null;
+  attributes: YoloObject["attributes"] | null;
+  track_id: number | null;
+  annotator_id: string;
+  annotator: string | null; // Username
+  auto_annotated: boolean;
+  annotated_at: Date;
+  updated_at: Date;
+  review_status: ReviewStatus;
+  reviewer_id: string | null;
+  reviewer: string | null; // Username
+  reviewed_at: Date | null;
+}
+
+// Columns shared by the objects of an image
+export type ObjectTableImage = Omit<
+  ObjectTableRow,
+  | "object_index"
+  | "class_id"
+  | "class_name"
+  | "shape"
+  | `bbox_${string}`
+  | "angle"
+  | "points"
+  | "keypoints"
+  | "attributes"
+  | "track_id"
+>;
+
+// Parquet type of each column, in column order
+const COLUMN_TYPES: Record<keyof ObjectTableRow, ColumnSource["type"]> = {
+  image_id: "STRING",
+  filename: "STRING",
+  image_width: "INT32",
+  image_height: "INT32",
+  object_index: "INT32",
+  class_id: "STRING",
+  class_name: "STRING",
+  shape: "STRING",
+  bbox_left: "DOUBLE",
+  bbox_top: "DOUBLE",
+  bbox_width: "DOUBLE",
+  bbox_height: "DOUBLE",
+  bbox_left_norm: "DOUBLE",
+  bbox_top_norm: "DOUBLE",
+  bbox_width_norm: "DOUBLE",
+  bbox_height_norm: "DOUBLE",
+  angle: "DOUBLE",
+  points: "JSON",
+  keypoints: "JSON",
+  attributes: "JSON",
+  track_id: "INT32",
+  annotator_id: "STRING",
+  annotator: "STRING",
+  auto_annotated: "BOOLEAN",
+  annotated_at: "TIMESTAMP",
+  updated_at: "TIMESTAMP",
+  review_status: "STRING",
+  reviewer_id: "STRING",
+  reviewer: "STRING",
+  reviewed_at: "TIMESTAMP",
+};
+
+// Pixel coordinates are rounded to hundredths of a pixel
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Object table utilities, writing one row per object as JSON Lines and
+ * Parquet for data-lake ingestion
+ */
+export const objectTable = {
+  /**
+   * Build the rows of the objects of an image
+   */
+  toRows(
+    image: ObjectTableImage,
+    objects: YoloObject[],
+    classOf: (obj: YoloObject) => { id: string; name: string }
+  ): ObjectTableRow[] {
+    return objects.map((obj, index) => {
+      const box = yoloFormat.axisAlignedBox(obj);
+      const left = box.x - box.width / 2;
+      const top = box.y - box.height / 2;
+      const cls = classOf(obj);
+
+      return {
+        ...image,
+        object_index: index,
+        class_id: cls.id,
+        class_name: cls.name,
+        shape: obj.type ?? AnnotationObjectType.BOX,
+        bbox_left: round(left * image.image_width),
+        bbox_top: round(top * image.image_height),
+        bbox_width: round(box.width * image.image_width),
+        bbox_height: round(box.height * image.image_height),
+        bbox_left_norm: left,
+        bbox_top_norm: top,
+        bbox_width_norm: box.width,
+        bbox_height_norm: box.height,
+        angle: yoloFormat.isRotated(obj) ? obj.angle ?? null : null,
+        points: obj.points?.length ? obj.points : null,
+        keypoints: obj.keypoints?.length ? obj.keypoints : null,
+        attributes:
+          obj.attributes && Object.keys(obj.attributes).length > 0
+            ? obj.attributes
+            : null,
+        track_id: obj.trackId ?? null,
+      };
+    });
+  },
+
+  /**
+   * Write rows as JSON Lines, dates as ISO strings
+   */
+  toJsonl(rows: ObjectTableRow[]): string {
+    return rows.map((row) => JSON.stringify(row)).join("\n");
+  },
+
+  /**
+   * Write rows as a Parquet file, with a typed column per field
+   */
+  toParquet(rows: ObjectTableRow[]): Buffer {
+    const columnData = (
+      Object.keys(COLUMN_TYPES) as Array<keyof ObjectTableRow>
+    ).map((name) => ({
+      name,
+      data: rows.map((row) => row[name]),
+      type: COLUMN_TYPES[name],
+    }));
+
+    return Buffer.from(parquetWriteBuffer({ columnData }));
+  },
+};
@@ -3,10 +3,18 @@ import {
   PutObjectCommand,
   DeleteObjectCommand,
   HeadBucketCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  type CompletedPart,
 } from "@aws-sdk/client-s3";
 import { Readable } from "stream";
 import { s3 } from "../config/s3.js";
 
+// Size of the parts of multipart uploads (S3 requires at least 5MB)
+const MULTIPART_PART_SIZE = 8 * 1024 * 1024;
+
 /**
  * S3 operation utilities
  */
@@ -49,6 +57,94 @@ export const s3Operations = {
     }
   },
 
+  /**
+   * Upload a stream of unknown length to S3 as a multipart upload, holding
+   * a single part in memory at a time. The upload is aborted if the stream
+   * fails.
+   */
+  async uploadStream(
+    bucket: string,
+    key: string,
+    body: Readable,
+    contentType?: string
+  ): Promise<void> {
+    const client = s3.getClient();
+
+    const { UploadId } = await client.send(
+      new CreateMultipartUploadCommand({
+        Bucket: bucket,
+        Key: key,
+        ContentType: contentType,
+        CacheControl: "private, max-age=0, no-cache, no-store",
+      })
+    );
+    if (!UploadId) {
+      throw new Error("S3 upload failed: multipart upload was not started");
+    }
+
+    const parts: CompletedPart[] = [];
+    let chunks: Buffer[] = [];
+    let size = 0;
+
+    const uploadPart = async () => {
+      const PartNumber = parts.length + 1;
+      const { ETag } = await client.send(
+        new UploadPartCommand({
+          Bucket: bucket,
+          Key: key,
+          UploadId,
+          PartNumber,
+          Body: Buffer.concat(chunks, size),
+        })
+      );
+      parts.push({ ETag, PartNumber });
+      chunks = [];
+      size = 0;
+    };
+
+    try {
+      for await (const chunk of body) {
+        chunks.push(chunk);
+        size += chunk.length;
+        if (size >= MULTIPART_PART_SIZE) {
+          await uploadPart();
+        }
+      }
+
+      // The last part may be smaller, and an upload needs at least one
+      if (size > 0 || parts.length === 0) {
+        await uploadPart();
+      }
+
+      await client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: bucket,
+          Key: key,
+          UploadId,
+          MultipartUpload: { Parts: parts },
+        })
+      );
+    } catch (error) {
+      await client
+        .send(
+          new AbortMultipartUploadCommand({
+            Bucket: bucket,
+            Key: key,
+            UploadId,
+          })
+        )
+        .catch((abortError) =>
+          console.error("Error aborting multipart upload:", abortError)
+        );
+
+      throw new Error(
+        `S3 upload failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  },
+
   /**
    * Delete a file from S3
    */
@@ -0,0 +1,255 @@
+// src/utils/voc-format.ts
+import {
+  AnnotationObjectType,
+  type NormalizedPoint,
+  type YoloObject,
+} from "../types/index.js";
+import { yoloFormat } from "./yolo-format.js";
+
+/**
+ * Interface for an object read from an annotation XML, in 1-based pixels
+ */
+export interface VocObject {
+  name: string;
+  bndbox: { xmin: number; ymin: number; xmax: number; ymax: number };
+  attributes: Record<string, string>;
+}
+
+/**
+ * Get the blocks of an element within some XML, in document order
+ */
+const elements = (xml: string, tag: string): string[] =>
+  Array.from(
+    xml.matchAll(
+      new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "g")
+    ),
+    (match) => match[1]
+  );
+
+/**
+ * Get the text of the first element with a tag, or undefined
+ */
+const text = (xml: string, tag: string): string | undefined => {
+  const [content] = elements(xml, tag);
+  return content === undefined
+    ? undefined
+    : vocFormat
+        .unescape(content.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1"))
+        .trim();
+};
+
+/**
+ * Pascal VOC XML formatting utilities
+ */
+export const vocFormat = {
+  /**
+   * Escape text for use in XML content
+   */
+  escape(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&apos;");
+  },
+
+  /**
+   * Undo the escaping of XML text, including numeric character references
+   */
+  unescape(value: string): string {
+    return value
+      .replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+        String.fromCodePoint(parseInt(hex, 16))
+      )
+      .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, "&");
+  },
+
+  /**
+   * Get the 1-based pixel corners of the axis-aligned box of an object,
+   * clamped to the image. Polygons use their bounding box.
+   */
+  toBndBox(
+    obj: YoloObject,
+    imageWidth: number,
+    imageHeight: number
+  ): { xmin: number; ymin: number; xmax: number; ymax: number } {
+    const box = yoloFormat.isPolygon(obj)
+      ? yoloFormat.boundingBox(obj.points as NormalizedPoint[])
+      : yoloFormat.axisAlignedBox(obj);
+    const clamp = (value: number, max: number) =>
+      Math.min(Math.max(value, 1), max);
+    const left = Math.round((box.x - box.width / 2) * imageWidth);
+    const top = Math.round((box.y - box.height / 2) * imageHeight);
+    const right = Math.round((box.x + box.width / 2) * imageWidth);
+    const bottom = Math.round((box.y + box.height / 2) * imageHeight);
+
+    return {
+      xmin: clamp(left + 1, imageWidth),
+      ymin: clamp(top + 1, imageHeight),
+      xmax: clamp(right, imageWidth),
+      ymax: clamp(bottom, imageHeight),
+    };
+  },
+
+  /**
+   * Create the annotation XML of one image. Objects are written by their
+   * class name, with attributes in CVAT's VOC layout. Polylines and objects
+   * of unknown classes are left out.
+   */
+  toXml(
+    image: { filename: string; width: number; height: number; depth?: number },
+    objects: YoloObject[],
+    classNameOf: (obj: YoloObject) => string | undefined
+  ): string {
+    const lines = [
+      "<annotation>",
+      "  <folder>JPEGImages</folder>",
+      `  <filename>${vocFormat.escape(image.filename)}</filename>`,
+      "  <size>",
+      `    <width>${image.width}</width>`,
+      `    <height>${image.height}</height>`,
+      `    <depth>${image.depth ?? 3}</depth>`,
+      "  </size>",
+      "  <segmented>0</segmented>",
+    ];
+
+    for (const obj of yoloFormat.labelObjects(objects)) {
+      const className = classNameOf(obj);
+      if (className === undefined) {
+        continue;
+      }
+
+      const box = vocFormat.toBndBox(obj, image.width, image.height);
+
+      lines.push(
+        "  <object>",
+        `    <name>${vocFormat.escape(className)}</name>`,
+        "    <pose>Unspecified</pose>",
+        "    <truncated>0</truncated>",
+        "    <difficult>0</difficult>",
+        "    <bndbox>",
+        `      <xmin>${box.xmin}</xmin>`,
+        `      <ymin>${box.ymin}</ymin>`,
+        `      <xmax>${box.xmax}</xmax>`,
+        `      <ymax>${box.ymax}</ymax>`,
+        "    </bndbox>"
+      );
+
+      const attributes = Object.entries(obj.attributes || {});
+      if (attributes.length > 0) {
+        lines.push("    <attributes>");
+        for (const [name, value] of attributes) {
+          lines.push(
+            "      <attribute>",
+            `        <name>${vocFormat.escape(name)}</name>`,
+            `        <value>${vocFormat.escape(String(value))}</value>`,
+            "      </attribute>"
+          );
+        }
+        lines.push("    </attributes>");
+      }
+
+      lines.push("  </object>");
+    }
+
+    lines.push("</annotation>", "");
+    return lines.join("\n");
+  },
+
+  /**
+   * Read the annotation XML of one image. Attributes are read from CVAT's
+   * VOC layout. Returns an error message when the XML isn't an annotation.
+   */
+  fromXml(
+    xml: string
+  ):
+    | { filename: string; width?: number; height?: number; objects: VocObject[] }
+    | { error: string } {
+    const [annotation] = elements(xml, "annotation");
+    const filename = annotation !== undefined && text(annotation, "filename");
+    if (!filename) {
+      return { error: "Not an annotation with a filename" };
+    }
+
+    const [size] = elements(annotation, "size");
+    const dimension = (tag: string) => {
+      const value = Number(size !== undefined && text(size, tag));
+      return Number.isInteger(value) && value > 0 ? value : undefined;
+    };
+
+    const objects: VocObject[] = [];
+    for (const block of elements(annotation, "object")) {
+      // Attribute names would be read as the object name
+      const attributeBlock = elements(block, "attributes")[0] || "";
+      const body = block.replace(/<attributes>[\s\S]*?<\/attributes>/, "");
+      const [bndbox] = elements(body, "bndbox");
+
+      const attributes: Record<string, string> = {};
+      elements(attributeBlock, "attribute").forEach((attribute) => {
+        const name = text(attribute, "name");
+        if (name) {
+          attributes[name] = text(attribute, "value") ?? "";
+        }
+      });
+
+      objects.push({
+        name: text(body, "name") || "",
+        bndbox: {
+          xmin: Number(bndbox !== undefined && text(bndbox, "xmin")),
+          ymin: Number(bndbox !== undefined && text(bndbox, "ymin")),
+          xmax: Number(bndbox !== undefined && text(bndbox, "xmax")),
+          ymax: Number(bndbox !== undefined && text(bndbox, "ymax")),
+        },
+        attributes,
+      });
+    }
+
+    return {
+      filename,
+      width: dimension("width"),
+      height: dimension("height"),
+      objects,
+    };
+  },
+
+  /**
+   * Get the normalized box of 1-based pixel corners, the inverse of
+   * `toBndBox`. Returns an error message for boxes without area.
+   */
+  fromBndBox(
+    box: VocObject["bndbox"],
+    imageWidth: number,
+    imageHeight: number
+  ):
+    | { object: Omit<YoloObject, "classId" | "className"> }
+    | { error: string } {
+    if (![box.xmin, box.ymin, box.xmax, box.ymax].every(Number.isFinite)) {
+      return { error: "bndbox must have numeric corners" };
+    }
+
+    const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+    const left = clamp((box.xmin - 1) / imageWidth);
+    const top = clamp((box.ymin - 1) / imageHeight);
+    const right = clamp(box.xmax / imageWidth);
+    const bottom = clamp(box.ymax / imageHeight);
+    if (right <= left || bottom <= top) {
+      return { error: "bndbox has no area" };
+    }
+
+    return {
+      object: {
+        type: AnnotationObjectType.BOX,
+        x: (left + right) / 2,
+        y: (top + bottom) / 2,
+        width: right - left,
+        height: bottom - top,
+      },
+    };
+  },
+};
@@ -0,0 +1,332 @@
+// src/utils/yolo-format.ts
+import {
+  AnnotationObjectType,
+  KeypointVisibility,
+  type Keypoint,
+  type NormalizedPoint,
+  type YoloObject,
+} from "../types/index.js";
+
+// Rounding error tolerated on imported normalized coordinates
+const NORMALIZED_TOLERANCE = 1e-6;
+
+/**
+ * YOLO label formatting utilities
+ */
+export const yoloFormat = {
+  /**
+   * Check if an object is a polygon
+   */
+  isPolygon(obj: Pick<YoloObject, "type" | "points">): boolean {
+    return (
+      obj.type === AnnotationObjectType.POLYGON &&
+      Array.isArray(obj.points) &&
+      obj.points.length >= 3
+    );
+  },
+
+  /**
+   * Check if an object is an open polyline
+   */
+  isPolyline(obj: Pick<YoloObject, "type" | "points">): boolean {
+    return (
+      obj.type === AnnotationObjectType.POLYLINE &&
+      Array.isArray(obj.points) &&
+      obj.points.length >= 2
+    );
+  },
+
+  /**
+   * Get the objects that have a YOLO representation. Polylines are open
+   * shapes without one and are exported separately.
+   */
+  labelObjects(objects: YoloObject[]): YoloObject[] {
+    return objects.filter((obj) => !yoloFormat.isPolyline(obj));
+  },
+
+  /**
+   * Check if an object is a rotated box with its four corners
+   */
+  isRotated(obj: Pick<YoloObject, "type" | "angle" | "points">): boolean {
+    return (
+      obj.type !== AnnotationObjectType.POLYGON &&
+      obj.type !== AnnotationObjectType.POLYLINE &&
+      !!obj.angle &&
+      Array.isArray(obj.points) &&
+      obj.points.length === 4
+    );
+  },
+
+  /**
+   * Get the center-based bounding box enclosing a set of points
+   */
+  boundingBox(
+    points: NormalizedPoint[]
+  ): Pick<YoloObject, "x" | "y" | "width" | "height"> {
+    const xs = points.map((p) => p.x);
+    const ys = points.map((p) => p.y);
+    const minX = Math.min(...xs);
+    const maxX = Math.max(...xs);
+    const minY = Math.min(...ys);
+    const maxY = Math.max(...ys);
+
+    return {
+      x: (minX + maxX) / 2,
+      y: (minY + maxY) / 2,
+      width: maxX - minX,
+      height: maxY - minY,
+    };
+  },
+
+  /**
+   * Get the axis-aligned, center-based box of an object
+   */
+  axisAlignedBox(
+    obj: YoloObject
+  ): Pick<YoloObject, "x" | "y" | "width" | "height"> {
+    return yoloFormat.isRotated(obj)
+      ? yoloFormat.boundingBox(obj.points as NormalizedPoint[])
+      : obj;
+  },
+
+  /**
+   * Get the four corners of an axis-aligned, center-based box
+   */
+  corners(
+    box: Pick<YoloObject, "x" | "y" | "width" | "height">
+  ): NormalizedPoint[] {
+    const left = box.x - box.width / 2;
+    const right = box.x + box.width / 2;
+    const top = box.y - box.height / 2;
+    const bottom = box.y + box.height / 2;
+
+    return [
+      { x: left, y: top },
+      { x: right, y: top },
+      { x: right, y: bottom },
+      { x: left, y: bottom },
+    ];
+  },
+
+  /**
+   * Get the corners of a box turned clockwise by `angle` degrees around its
+   * center, starting from its unrotated top-left corner. The box is turned
+   * in pixels, as its sides are normalized to different image sides.
+   */
+  rotatedCorners(
+    box: Pick<YoloObject, "x" | "y" | "width" | "height">,
+    angle: number,
+    imageWidth: number,
+    imageHeight: number
+  ): NormalizedPoint[] {
+    const radians = (angle * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+
+    return yoloFormat
+      .corners({ x: 0, y: 0, width: box.width, height: box.height })
+      .map((corner) => {
+        const dx = corner.x * imageWidth;
+        const dy = corner.y * imageHeight;
+        return {
+          x: box.x + (dx * cos - dy * sin) / imageWidth,
+          y: box.y + (dx * sin + dy * cos) / imageHeight,
+        };
+      });
+  },
+
+  /**
+   * Get the outline of an object as points (box corners for boxes)
+   */
+  outline(obj: YoloObject): NormalizedPoint[] {
+    if (yoloFormat.isPolygon(obj) || yoloFormat.isRotated(obj)) {
+      return obj.points as NormalizedPoint[];
+    }
+
+    return yoloFormat.corners(obj);
+  },
+
+  /**
+   * Build YOLO-OBB label lines (class x1 y1 x2 y2 x3 y3 x4 y4).
+   * Polygons are written as their axis-aligned bounding box, polylines are
+   * left out.
+   */
+  toObbLines(
+    objects: YoloObject[],
+    classIndexOf: (obj: YoloObject) => number
+  ): string[] {
+    return yoloFormat.labelObjects(objects).map((obj) => {
+      const corners = yoloFormat.isPolygon(obj)
+        ? yoloFormat.corners(obj)
+        : yoloFormat.outline(obj);
+      const coords = corners.map((p) => `${p.x} ${p.y}`).join(" ");
+      return `${classIndexOf(obj)} ${coords}`;
+    });
+  },
+
+  /**
+   * Get exactly `count` keypoints for an object, padding unlabeled ones
+   */
+  keypoints(obj: YoloObject, count: number): Keypoint[] {
+    return Array.from({ length: count }, (_, index) => {
+      const keypoint = obj.keypoints?.[index];
+      return keypoint && keypoint.visibility !== KeypointVisibility.NOT_LABELED
+        ? keypoint
+        : { x: 0, y: 0, visibility: KeypointVisibility.NOT_LABELED };
+    });
+  },
+
+  /**
+   * Build label file lines for a set of objects.
+   * Plain boxes produce detection lines (class cx cy w h). As soon as one
+   * polygon is present the whole file is written in YOLO-seg format
+   * (class x1 y1 x2 y2 ...) with boxes converted to their four corners,
+   * since segmentation trainers expect every line to be a polygon.
+   * Projects with a skeleton write YOLO-pose lines
+   * (class cx cy w h px py v ...) once any object has keypoints.
+   * Polylines are left out.
+   */
+  toLabelLines(
+    allObjects: YoloObject[],
+    classIndexOf: (obj: YoloObject) => number,
+    keypointCount = 0
+  ): string[] {
+    const objects = yoloFormat.labelObjects(allObjects);
+    const pose =
+      keypointCount > 0 &&
+      objects.some((obj) => obj.keypoints && obj.keypoints.length > 0);
+    const segmentation =
+      !pose && objects.some((obj) => yoloFormat.isPolygon(obj));
+
+    return objects.map((obj) => {
+      const classIndex = classIndexOf(obj);
+      const box = yoloFormat.axisAlignedBox(obj);
+
+      if (pose) {
+        const coords = yoloFormat
+          .keypoints(obj, keypointCount)
+          .map((kp) => `${kp.x} ${kp.y} ${kp.visibility}`)
+          .join(" ");
+        return `${classIndex} ${box.x} ${box.y} ${box.width} ${box.height} ${coords}`;
+      }
+
+      if (!segmentation) {
+        return `${classIndex} ${box.x} ${box.y} ${box.width} ${box.height}`;
+      }
+
+      const coords = yoloFormat
+        .outline(obj)
+        .map((p) => `${p.x} ${p.y}`)
+        .join(" ");
+      return `${classIndex} ${coords}`;
+    });
+  },
+
+  /**
+   * Parse one line of a YOLO label file. Detection (class cx cy w h),
+   * YOLO-seg (class x1 y1 x2 y2 ...) and, for projects with a skeleton,
+   * YOLO-pose lines (class cx cy w h px py [v] ...) are read.
+   */
+  fromLabelLine(
+    line: string,
+    keypointCount = 0
+  ):
+    | { classIndex: number; object: Omit<YoloObject, "classId" | "className"> }
+    | { error: string } {
+    const [classToken, ...tokens] = line.trim().split(/\s+/);
+    const classIndex = Number(classToken);
+    const values = tokens.map(Number);
+
+    if (!Number.isInteger(classIndex) || classIndex < 0) {
+      return { error: `Invalid class index "${classToken}"` };
+    }
+    if (values.some((value) => !Number.isFinite(value))) {
+      return { error: "Coordinates must be numbers" };
+    }
+
+    const isNormalized = (value: number) =>
+      value >= -NORMALIZED_TOLERANCE && value <= 1 + NORMALIZED_TOLERANCE;
+
+    // Pose lines, with or without keypoint visibilities
+    const keypointSize =
+      keypointCount > 0
+        ? [3, 2].find((size) => values.length === 4 + keypointCount * size)
+        : undefined;
+    if (keypointSize) {
+      const [x, y, width, height] = values;
+      const keypoints: Keypoint[] = Array.from(
+        { length: keypointCount },
+        (_, index) => {
+          const [kx, ky, visibility] = values.slice(
+            4 + index * keypointSize,
+            4 + (index + 1) * keypointSize
+          );
+          // Unlabeled keypoints are written as zeros
+          const labeled =
+            keypointSize === 2 ? kx !== 0 || ky !== 0 : visibility > 0;
+          return labeled
+            ? {
+                x: kx,
+                y: ky,
+                visibility:
+                  visibility === KeypointVisibility.OCCLUDED
+                    ? KeypointVisibility.OCCLUDED
+                    : KeypointVisibility.VISIBLE,
+              }
+            : { x: 0, y: 0, visibility: KeypointVisibility.NOT_LABELED };
+        }
+      );
+
+      const coords = [
+        x,
+        y,
+        width,
+        height,
+        ...keypoints.flatMap((kp) => [kp.x, kp.y]),
+      ];
+      if (!coords.every(isNormalized)) {
+        return { error: "Coordinates must be normalized between 0 and 1" };
+      }
+      return {
+        classIndex,
+        object: {
+          type: AnnotationObjectType.BOX,
+          x,
+          y,
+          width,
+          height,
+          keypoints,
+        },
+      };
+    }
+
+    if (!values.every(isNormalized)) {
+      return { error: "Coordinates must be normalized between 0 and 1" };
+    }
+
+    if (values.length === 4) {
+      const [x, y, width, height] = values;
+      return {
+        classIndex,
+        object: { type: AnnotationObjectType.BOX, x, y, width, height },
+      };
+    }
+
+    if (values.length >= 6 && values.length % 2 === 0) {
+      const points = Array.from({ length: values.length / 2 }, (_, index) => ({
+        x: values[index * 2],
+        y: values[index * 2 + 1],
+      }));
+      return {
+        classIndex,
+        object: {
+          type: AnnotationObjectType.POLYGON,
+          ...yoloFormat.boundingBox(points),
+          points,
+        },
+      };
+    }
+
+    return { error: `Unexpected number of values (${tokens.length})` };
+  },
+};
@@ -27,6 +27,8 @@ import {
 import { ProjectOverview } from "@/components/admin/projects/project-detail/project-overview";
 import { ProjectMembers } from "@/components/admin/projects/project-detail/project-members";
 import { ProjectImages } from "@/components/admin/projects/project-detail/project-images";
+import { ProjectSequences } from "@/components/admin/projects/project-detail/project-sequences";
+import { ProjectImports } from "@/components/admin/projects/project-detail/project-imports";
 import { ProjectSettings } from "@/components/admin/projects/project-detail/project-settings";
 import { ProjectSubmissions } from "@/components/admin/projects/project-detail/project-submissions";
 import { ProjectExport } from "@/components/admin/projects/project-detail/project-export"; // Import the new component
@@ -342,7 +344,16 @@ export default function ProjectDetailPage() {
               {project && <ProjectMembers projectId={project.id} />}
             </TabsContent>
             <TabsContent value="images">
-              {project && <ProjectImages projectId={project.id} />}
+              {project && (
+                <div className="space-y-6">
+                  <ProjectImages
+                    projectId={project.id}
+                    imageLabelSets={project.imageLabelSets}
+                  />
+                  <ProjectSequences projectId={project.id} />
+                  <ProjectImports projectId={project.id} />
+                </div>
+              )}
             </TabsContent>
             <TabsContent value="submissions">
               {project && <ProjectSubmissions projectId={project.id} />}
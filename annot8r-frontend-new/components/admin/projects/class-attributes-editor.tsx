@@ -0,0 +1,161 @@
+// components/admin/projects/class-attributes-editor.tsx
+import { AttributeType, ClassAttribute } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { X, Plus } from "lucide-react";
+import { OptionsInput } from "@/components/admin/projects/options-input";
+
+export const ATTRIBUTE_TYPE_LABELS: Record<AttributeType, string> = {
+  [AttributeType.BOOLEAN]: "Yes / No",
+  [AttributeType.ENUM]: "Choice",
+  [AttributeType.TEXT]: "Text",
+  [AttributeType.NUMBER]: "Number",
+};
+
+interface ClassAttributesEditorProps {
+  attributes: ClassAttribute[];
+  onChange: (attributes: ClassAttribute[]) => void;
+}
+
+/**
+ * Returns the first validation problem of the class attributes, if any
+ */
+export function getClassAttributesError(
+  classes: Array<{ name: string; attributes?: ClassAttribute[] }>
+): string | null {
+  for (const cls of classes) {
+    const attributes = cls.attributes || [];
+
+    if (attributes.some((attr) => attr.name.trim() === "")) {
+      return `All attributes of "${cls.name}" need a name`;
+    }
+
+    const names = attributes.map((attr) => attr.name.trim());
+    if (new Set(names).size !== names.length) {
+      return `Attribute names of "${cls.name}" must be unique`;
+    }
+
+    const emptyEnum = attributes.find(
+      (attr) => attr.type === AttributeType.ENUM && !attr.options?.length
+    );
+    if (emptyEnum) {
+      return `Attribute "${emptyEnum.name}" of "${cls.name}" needs at least one option`;
+    }
+  }
+
+  return null;
+}
+
+export function ClassAttributesEditor({
+  attributes,
+  onChange,
+}: ClassAttributesEditorProps) {
+  const updateAttribute = (index: number, changes: Partial<ClassAttribute>) => {
+    const newAttributes = [...attributes];
+    newAttributes[index] = { ...newAttributes[index], ...changes };
+    onChange(newAttributes);
+  };
+
+  const handleTypeChange = (index: number, type: AttributeType) => {
+    // Only enum attributes keep a list of options
+    updateAttribute(index, {
+      type,
+      options:
+        type === AttributeType.ENUM
+          ? attributes[index].options || []
+          : undefined,
+    });
+  };
+
+  const handleAddAttribute = () => {
+    onChange([...attributes, { name: "", type: AttributeType.BOOLEAN }]);
+  };
+
+  const handleRemoveAttribute = (index: number) => {
+    onChange(attributes.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {attributes.map((attribute, index) => (
+        <div key={index} className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Input
+              value={attribute.name}
+              onChange={(e) => updateAttribute(index, { name: e.target.value })}
+              placeholder="Attribute name (e.g. occluded)"
+              className="flex-1"
+            />
+            <Select
+              value={attribute.type}
+              onValueChange={(value) =>
+                handleTypeChange(index, value as AttributeType)
+              }
+            >
+              <SelectTrigger className="w-[120px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(AttributeType).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {ATTRIBUTE_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-1.5">
+              <Checkbox
+                id={`attribute-required-${index}`}
+                checked={!!attribute.required}
+                onCheckedChange={(checked) =>
+                  updateAttribute(index, { required: checked === true })
+                }
+              />
+              <Label
+                htmlFor={`attribute-required-${index}`}
+                className="text-xs font-normal"
+              >
+                Required
+              </Label>
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => handleRemoveAttribute(index)}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {attribute.type === AttributeType.ENUM && (
+            <div className="pl-4">
+              <OptionsInput
+                options={attribute.options || []}
+                onChange={(options) => updateAttribute(index, { options })}
+              />
+            </div>
+          )}
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={handleAddAttribute}
+      >
+        <Plus className="h-4 w-4 mr-1" /> Add Attribute
+      </Button>
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
 import { useState } from "react";
 import { createProject } from "@/lib/api/projects";
-import { type CreateProjectRequest } from "@/lib/types";
+import {
+  type CreateProjectRequest,
+  type ImageLabelSet,
+  type ProjectSkeleton,
+} from "@/lib/types";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -25,42 +29,78 @@ import { Switch } from "@/components/ui/switch";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Loader2, X, Plus } from "lucide-react";
+import { Loader2, X, Plus, SlidersHorizontal } from "lucide-react";
 import { toast } from "sonner";
+import {
+  PoseSkeletonEditor,
+  getSkeletonError,
+} from "@/components/admin/projects/pose-skeleton-editor";
+import {
+  ImageLabelSetsEditor,
+  getImageLabelSetsError,
+} from "@/components/admin/projects/image-label-sets-editor";
+import {
+  ClassAttributesEditor,
+  getClassAttributesError,
+} from "@/components/admin/projects/class-attributes-editor";
 
 // Component for handling each project class input
+type ClassValue = CreateProjectRequest["classes"][number];
+
 interface ClassInputProps {
   index: number;
-  value: { name: string; color: string };
-  onChange: (index: number, value: { name: string; color: string }) => void;
+  value: ClassValue;
+  onChange: (index: number, value: ClassValue) => void;
   onRemove: (index: number) => void;
   isRemovable: boolean;
 }
 
 const ClassInput = ({ index, value, onChange, onRemove, isRemovable }: ClassInputProps) => {
+  const [showAttributes, setShowAttributes] = useState(false);
+
   return (
-    <div className="flex items-center gap-2">
-      <Input
-        placeholder="Class name"
-        value={value.name}
-        onChange={(e) => onChange(index, { ...value, name: e.target.value })}
-        className="flex-1"
-      />
-      <Input
-        type="color"
-        value={value.color}
-        onChange={(e) => onChange(index, { ...value, color: e.target.value })}
-        className="w-16 p-1 h-10"
-      />
-      {isRemovable && (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Input
+          placeholder="Class name"
+          value={value.name}
+          onChange={(e) => onChange(index, { ...value, name: e.target.value })}
+          className="flex-1"
+        />
+        <Input
+          type="color"
+          value={value.color}
+          onChange={(e) => onChange(index, { ...value, color: e.target.value })}
+          className="w-16 p-1 h-10"
+        />
         <Button
           type="button"
-          variant="ghost"
-          size="icon"
-          onClick={() => onRemove(index)}
+          variant={showAttributes ? "secondary" : "ghost"}
+          size="sm"
+          onClick={() => setShowAttributes(!showAttributes)}
+          title="Attributes"
         >
-          <X className="h-4 w-4" />
+          <SlidersHorizontal className="h-4 w-4 mr-1" />
+          {value.attributes?.length || 0}
         </Button>
+        {isRemovable && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onRemove(index)}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      {showAttributes && (
+        <div className="ml-4 rounded-md border p-3">
+          <ClassAttributesEditor
+            attributes={value.attributes || []}
+            onChange={(attributes) => onChange(index, { ...value, attributes })}
+          />
+        </div>
       )}
     </div>
   );
@@ -87,11 +127,13 @@ export function CreateProjectDialog({
 }: CreateProjectDialogProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [classes, setClasses] = useState<Array<{ name: string; color: string }>>([
+  const [classes, setClasses] = useState<ClassValue[]>([
     { name: "Person", color: "#FF0000" },
     { name: "Car", color: "#00FF00" },
     { name: "Bike", color: "#0000FF" },
   ]);
+  const [skeleton, setSkeleton] = useState<ProjectSkeleton | undefined>();
+  const [imageLabelSets, setImageLabelSets] = useState<ImageLabelSet[]>([]);
 
   const form = useForm<z.infer<typeof projectSchema>>({
     resolver: zodResolver(projectSchema),
@@ -111,7 +153,7 @@ export function CreateProjectDialog({
 
   const handleClassChange = (
     index: number,
-    value: { name: string; color: string }
+    value: ClassValue
   ) => {
     const newClasses = [...classes];
     newClasses[index] = value;
@@ -140,6 +182,24 @@ export function CreateProjectDialog({
       return;
     }
 
+    const attributesError = getClassAttributesError(validClasses);
+    if (attributesError) {
+      setError(attributesError);
+      return;
+    }
+
+    const skeletonError = getSkeletonError(skeleton);
+    if (skeletonError) {
+      setError(skeletonError);
+      return;
+    }
+
+    const imageLabelSetsError = getImageLabelSetsError(imageLabelSets);
+    if (imageLabelSetsError) {
+      setError(imageLabelSetsError);
+      return;
+    }
+
     setIsSubmitting(true);
     setError(null);
 
@@ -147,6 +207,13 @@ export function CreateProjectDialog({
       const projectData: CreateProjectRequest = {
         ...values,
         classes: validClasses,
+        skeleton,
+        // IDs are generated by the server
+        imageLabelSets: imageLabelSets.map(({ name, type, options }) => ({
+          name,
+          type,
+          options,
+        })),
       };
 
       const response = await createProject(projectData);
@@ -158,6 +225,8 @@ export function CreateProjectDialog({
           { name: "Car", color: "#00FF00" },
           { name: "Bike", color: "#0000FF" },
         ]);
+        setSkeleton(undefined);
+        setImageLabelSets([]);
         onProjectCreated();
       } else {
         setError(response.error || "Failed to create project");
@@ -267,7 +336,26 @@ export function CreateProjectDialog({
                 ))}
               </div>
               <FormDescription>
-                Define the object classes for this project. Each class needs a name and a color.
+                Define the object classes for this project. Each class needs a name and a color, and can declare attributes (e.g. occluded) filled in per object.
+              </FormDescription>
+            </div>
+
+            <div className="space-y-3">
+              <FormLabel>Pose Skeleton (optional)</FormLabel>
+              <PoseSkeletonEditor skeleton={skeleton} onChange={setSkeleton} />
+              <FormDescription>
+                Named keypoints and edges for pose annotation. Exported in YOLO-pose format.
+              </FormDescription>
+            </div>
+
+            <div className="space-y-3">
+              <FormLabel>Image Labels (optional)</FormLabel>
+              <ImageLabelSetsEditor
+                labelSets={imageLabelSets}
+                onChange={setImageLabelSets}
+              />
+              <FormDescription>
+                Single or multiple choice labels for whole images (e.g. weather, scene type).
               </FormDescription>
             </div>
 
@@ -0,0 +1,127 @@
+// components/admin/projects/image-label-sets-editor.tsx
+import { ImageLabelSet, ImageLabelSetType } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { X, Plus } from "lucide-react";
+import { OptionsInput } from "@/components/admin/projects/options-input";
+
+interface ImageLabelSetsEditorProps {
+  labelSets: ImageLabelSet[];
+  onChange: (labelSets: ImageLabelSet[]) => void;
+}
+
+/**
+ * Returns the first validation problem of the image label sets, if any
+ */
+export function getImageLabelSetsError(
+  labelSets: ImageLabelSet[]
+): string | null {
+  if (labelSets.some((set) => set.name.trim() === "")) {
+    return "All image label sets need a name";
+  }
+
+  const names = labelSets.map((set) => set.name.trim().toLowerCase());
+  if (new Set(names).size !== names.length) {
+    return "Image label set names must be unique";
+  }
+
+  const emptySet = labelSets.find((set) => set.options.length === 0);
+  if (emptySet) {
+    return `Image label set "${emptySet.name}" needs at least one option`;
+  }
+
+  return null;
+}
+
+export function ImageLabelSetsEditor({
+  labelSets,
+  onChange,
+}: ImageLabelSetsEditorProps) {
+  const updateSet = (index: number, changes: Partial<ImageLabelSet>) => {
+    const newLabelSets = [...labelSets];
+    newLabelSets[index] = { ...newLabelSets[index], ...changes };
+    onChange(newLabelSets);
+  };
+
+  const handleAddSet = () => {
+    onChange([
+      ...labelSets,
+      {
+        id: `temp-${Date.now()}`,
+        name: "",
+        type: ImageLabelSetType.SINGLE,
+        options: [],
+      },
+    ]);
+  };
+
+  const handleRemoveSet = (index: number) => {
+    onChange(labelSets.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      {labelSets.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No image label sets defined. Add one to tag whole images (e.g.
+          weather or scene type).
+        </p>
+      ) : (
+        labelSets.map((labelSet, index) => (
+          <div key={labelSet.id} className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center gap-2">
+              <Input
+                value={labelSet.name}
+                onChange={(e) => updateSet(index, { name: e.target.value })}
+                placeholder="Label set name (e.g. Weather)"
+                className="flex-1"
+              />
+              <Select
+                value={labelSet.type}
+                onValueChange={(value) =>
+                  updateSet(index, { type: value as ImageLabelSetType })
+                }
+              >
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ImageLabelSetType.SINGLE}>
+                    Single choice
+                  </SelectItem>
+                  <SelectItem value={ImageLabelSetType.MULTI}>
+                    Multiple choice
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => handleRemoveSet(index)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <OptionsInput
+              options={labelSet.options}
+              onChange={(options) => updateSet(index, { options })}
+            />
+          </div>
+        ))
+      )}
+
+      <Button type="button" variant="outline" size="sm" onClick={handleAddSet}>
+        <Plus className="h-4 w-4 mr-1" /> Add Label Set
+      </Button>
+    </div>
+  );
+}
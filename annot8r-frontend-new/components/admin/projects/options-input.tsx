@@ -0,0 +1,70 @@
+// components/admin/projects/options-input.tsx
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { X, Plus } from "lucide-react";
+
+interface OptionsInputProps {
+  options: string[];
+  onChange: (options: string[]) => void;
+  placeholder?: string;
+}
+
+/**
+ * Editable list of unique option names shown as removable badges
+ */
+export function OptionsInput({
+  options,
+  onChange,
+  placeholder = "New option (press Enter to add)",
+}: OptionsInputProps) {
+  const [draft, setDraft] = useState("");
+
+  const handleAdd = () => {
+    const option = draft.trim();
+    if (!option || options.includes(option)) return;
+
+    onChange([...options, option]);
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {options.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {options.map((option) => (
+            <Badge key={option} variant="secondary" className="gap-1">
+              {option}
+              <button
+                type="button"
+                onClick={() => onChange(options.filter((o) => o !== option))}
+                className="hover:text-destructive"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder={placeholder}
+          className="flex-1"
+        />
+        <Button type="button" variant="outline" size="sm" onClick={handleAdd}>
+          <Plus className="h-4 w-4 mr-1" /> Add Option
+        </Button>
+      </div>
+    </div>
+  );
+}
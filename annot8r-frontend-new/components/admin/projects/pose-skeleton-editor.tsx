@@ -0,0 +1,201 @@
+// components/admin/projects/pose-skeleton-editor.tsx
+import { ProjectSkeleton } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { X, Plus } from "lucide-react";
+
+interface PoseSkeletonEditorProps {
+  skeleton?: ProjectSkeleton;
+  onChange: (skeleton: ProjectSkeleton | undefined) => void;
+}
+
+/**
+ * Returns the first validation problem of a skeleton, if any
+ */
+export function getSkeletonError(skeleton?: ProjectSkeleton): string | null {
+  if (!skeleton) return null;
+
+  if (skeleton.keypoints.some((name) => name.trim() === "")) {
+    return "All keypoints need a name";
+  }
+
+  const names = skeleton.keypoints.map((name) => name.trim().toLowerCase());
+  if (new Set(names).size !== names.length) {
+    return "Keypoint names must be unique";
+  }
+
+  if (skeleton.edges.some(([from, to]) => from === to)) {
+    return "Skeleton edges must connect two different keypoints";
+  }
+
+  return null;
+}
+
+export function PoseSkeletonEditor({
+  skeleton,
+  onChange,
+}: PoseSkeletonEditorProps) {
+  const keypoints = skeleton?.keypoints || [];
+  const edges = skeleton?.edges || [];
+
+  const update = (
+    newKeypoints: string[],
+    newEdges: [number, number][]
+  ): void => {
+    // A skeleton without keypoints means the project has no pose annotation
+    onChange(
+      newKeypoints.length > 0
+        ? { keypoints: newKeypoints, edges: newEdges }
+        : undefined
+    );
+  };
+
+  const handleAddKeypoint = () => {
+    update([...keypoints, ""], edges);
+  };
+
+  const handleKeypointChange = (index: number, name: string) => {
+    const newKeypoints = [...keypoints];
+    newKeypoints[index] = name;
+    update(newKeypoints, edges);
+  };
+
+  const handleRemoveKeypoint = (index: number) => {
+    // Drop edges using this keypoint and shift the indices after it
+    const newEdges = edges
+      .filter(([from, to]) => from !== index && to !== index)
+      .map(
+        ([from, to]) =>
+          [from > index ? from - 1 : from, to > index ? to - 1 : to] as [
+            number,
+            number,
+          ]
+      );
+    update(
+      keypoints.filter((_, i) => i !== index),
+      newEdges
+    );
+  };
+
+  const handleAddEdge = () => {
+    update(keypoints, [...edges, [0, Math.min(1, keypoints.length - 1)]]);
+  };
+
+  const handleEdgeChange = (index: number, side: 0 | 1, value: number) => {
+    const newEdges = [...edges];
+    const edge: [number, number] = [...newEdges[index]];
+    edge[side] = value;
+    newEdges[index] = edge;
+    update(keypoints, newEdges);
+  };
+
+  const handleRemoveEdge = (index: number) => {
+    update(
+      keypoints,
+      edges.filter((_, i) => i !== index)
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <Label>Keypoints</Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleAddKeypoint}
+          >
+            <Plus className="h-4 w-4 mr-1" /> Add Keypoint
+          </Button>
+        </div>
+        {keypoints.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No skeleton defined. Add keypoints to enable pose annotation.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {keypoints.map((name, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="w-6 text-sm text-muted-foreground text-right">
+                  {index + 1}
+                </span>
+                <Input
+                  value={name}
+                  onChange={(e) => handleKeypointChange(index, e.target.value)}
+                  placeholder="Keypoint name (e.g. left_shoulder)"
+                  className="flex-1"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemoveKeypoint(index)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {keypoints.length > 1 && (
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <Label>Edges</Label>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleAddEdge}
+            >
+              <Plus className="h-4 w-4 mr-1" /> Add Edge
+            </Button>
+          </div>
+          {edges.map(([from, to], index) => (
+            <div key={index} className="flex items-center gap-2">
+              {([from, to] as const).map((value, side) => (
+                <Select
+                  key={side}
+                  value={value.toString()}
+                  onValueChange={(v) =>
+                    handleEdgeChange(index, side as 0 | 1, parseInt(v))
+                  }
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Keypoint" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {keypoints.map((name, kpIndex) => (
+                      <SelectItem key={kpIndex} value={kpIndex.toString()}>
+                        {name || `Keypoint ${kpIndex + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ))}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => handleRemoveEdge(index)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
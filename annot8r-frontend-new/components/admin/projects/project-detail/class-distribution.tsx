@@ -0,0 +1,136 @@
+// components/admin/projects/project-detail/class-distribution.tsx
+import { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ClassDistributionEntry, ProjectClass } from "@/lib/types";
+import { getClassDistribution } from "@/lib/api/projects";
+import { flattenClassTree } from "@/lib/utils/taxonomy";
+
+interface ClassDistributionProps {
+  projectId: string;
+  classes: ProjectClass[];
+}
+
+export function ClassDistribution({
+  projectId,
+  classes,
+}: ClassDistributionProps) {
+  const [distribution, setDistribution] = useState<ClassDistributionEntry[]>(
+    []
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [rollUp, setRollUp] = useState(true);
+
+  const fetchDistribution = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await getClassDistribution(projectId);
+      if (response.success && response.data) {
+        setDistribution(response.data.classes);
+      } else {
+        console.error("Failed to fetch class distribution:", response.error);
+      }
+    } catch (error) {
+      console.error("Error fetching class distribution:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchDistribution();
+  }, [fetchDistribution]);
+
+  const hasHierarchy = classes.some((cls) => cls.parentId);
+
+  const countOf = (classId: string): number => {
+    const entry = distribution.find((item) => item.classId === classId);
+    if (!entry) return 0;
+    return rollUp && hasHierarchy ? entry.total : entry.count;
+  };
+
+  // Bars are relative to the largest count shown
+  const maxCount = Math.max(1, ...classes.map((cls) => countOf(cls.id)));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Annotation Classes</CardTitle>
+            <CardDescription>
+              Classes defined for this project and their annotated objects
+            </CardDescription>
+          </div>
+          {hasHierarchy && (
+            <div className="flex items-center gap-2 shrink-0">
+              <Switch
+                id="roll-up-classes"
+                checked={rollUp}
+                onCheckedChange={setRollUp}
+              />
+              <Label htmlFor="roll-up-classes" className="text-sm">
+                Roll up
+              </Label>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {classes.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No classes defined</p>
+          ) : (
+            flattenClassTree(classes).map(({ cls, depth }) => (
+              <div
+                key={cls.id}
+                className="space-y-1"
+                style={{ paddingLeft: depth * 20 }}
+              >
+                <div className="flex items-center gap-2">
+                  <div
+                    className="w-4 h-4 rounded-full"
+                    style={{ backgroundColor: cls.color }}
+                  />
+                  <span className="flex-1">{cls.name}</span>
+                  {cls.isCustom && (
+                    <Badge variant="outline" className="text-xs">
+                      Custom
+                    </Badge>
+                  )}
+                  {isLoading ? (
+                    <Skeleton className="h-4 w-8" />
+                  ) : (
+                    <span className="text-sm font-medium tabular-nums">
+                      {countOf(cls.id)}
+                    </span>
+                  )}
+                </div>
+                {!isLoading && (
+                  <div className="h-1.5 rounded-full bg-muted/60 overflow-hidden">
+                    <div
+                      className="h-full rounded-full"
+                      style={{
+                        width: `${(countOf(cls.id) / maxCount) * 100}%`,
+                        backgroundColor: cls.color,
+                      }}
+                    />
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
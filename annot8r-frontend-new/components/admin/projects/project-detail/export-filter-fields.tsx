@@ -0,0 +1,241 @@
+// components/admin/projects/project-detail/export-filter-fields.tsx
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AnnotationSource,
+  ExportFilters,
+  ProjectClass,
+  ProjectMember,
+  ReviewStatus,
+} from "@/lib/types";
+import { flattenClassTree } from "@/lib/utils/taxonomy";
+
+// Filter form values, with dates as yyyy-MM-dd days
+export interface ExportFilterValues {
+  classIds: string[];
+  annotatorIds: string[];
+  annotatedFrom: string;
+  annotatedTo: string;
+  source?: AnnotationSource;
+  reviewStatuses: ReviewStatus[];
+}
+
+export const EMPTY_EXPORT_FILTER_VALUES: ExportFilterValues = {
+  classIds: [],
+  annotatorIds: [],
+  annotatedFrom: "",
+  annotatedTo: "",
+  reviewStatuses: [],
+};
+
+/**
+ * Convert filter form values to export filters. Dates are whole days in
+ * local time.
+ */
+export function toExportFilters(
+  values: ExportFilterValues,
+  withReviewStatuses: boolean
+): ExportFilters | undefined {
+  const filters: ExportFilters = {
+    ...(values.classIds.length > 0 && { classIds: values.classIds }),
+    ...(values.annotatorIds.length > 0 && {
+      annotatorIds: values.annotatorIds,
+    }),
+    ...(values.annotatedFrom && {
+      annotatedFrom: new Date(`${values.annotatedFrom}T00:00:00`).toISOString(),
+    }),
+    ...(values.annotatedTo && {
+      annotatedTo: new Date(`${values.annotatedTo}T23:59:59.999`).toISOString(),
+    }),
+    ...(values.source && { source: values.source }),
+    ...(withReviewStatuses &&
+      values.reviewStatuses.length > 0 && {
+        reviewStatuses: values.reviewStatuses,
+      }),
+  };
+
+  return Object.keys(filters).length > 0 ? filters : undefined;
+}
+
+interface ExportFilterFieldsProps {
+  idPrefix: string;
+  classes: ProjectClass[];
+  members: ProjectMember[];
+  values: ExportFilterValues;
+  onChange: (values: ExportFilterValues) => void;
+  showReviewStatuses: boolean;
+}
+
+const toggleValue = <T,>(values: T[], value: T, checked: boolean) =>
+  checked ? [...values, value] : values.filter((item) => item !== value);
+
+export function ExportFilterFields({
+  idPrefix,
+  classes,
+  members,
+  values,
+  onChange,
+  showReviewStatuses,
+}: ExportFilterFieldsProps) {
+  const update = (changes: Partial<ExportFilterValues>) =>
+    onChange({ ...values, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label className="text-xs">Classes</Label>
+        <div className="rounded-md border max-h-32 overflow-y-auto p-2 space-y-1">
+          {flattenClassTree(classes).map(({ cls, depth }) => (
+            <div
+              key={cls.id}
+              className="flex items-center space-x-2"
+              style={{ paddingLeft: depth * 12 }}
+            >
+              <Checkbox
+                id={`${idPrefix}-class-${cls.id}`}
+                checked={values.classIds.includes(cls.id)}
+                onCheckedChange={(checked) =>
+                  update({
+                    classIds: toggleValue(
+                      values.classIds,
+                      cls.id,
+                      checked === true
+                    ),
+                  })
+                }
+              />
+              <Label
+                htmlFor={`${idPrefix}-class-${cls.id}`}
+                className="text-sm font-normal"
+              >
+                {cls.name}
+              </Label>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          None checked keeps every class. Subclasses of a checked class are
+          kept too.
+        </p>
+      </div>
+      {members.length > 0 && (
+        <div className="space-y-1">
+          <Label className="text-xs">Annotators</Label>
+          <div className="rounded-md border max-h-32 overflow-y-auto p-2 space-y-1">
+            {members.map((member) => (
+              <div key={member.userId} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${idPrefix}-annotator-${member.userId}`}
+                  checked={values.annotatorIds.includes(member.userId)}
+                  onCheckedChange={(checked) =>
+                    update({
+                      annotatorIds: toggleValue(
+                        values.annotatorIds,
+                        member.userId,
+                        checked === true
+                      ),
+                    })
+                  }
+                />
+                <Label
+                  htmlFor={`${idPrefix}-annotator-${member.userId}`}
+                  className="text-sm font-normal"
+                >
+                  {member.firstName} {member.lastName} ({member.username})
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-from`} className="text-xs">
+            Annotated from
+          </Label>
+          <Input
+            id={`${idPrefix}-from`}
+            type="date"
+            value={values.annotatedFrom}
+            onChange={(e) => update({ annotatedFrom: e.target.value })}
+            className="h-8"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-to`} className="text-xs">
+            Annotated to
+          </Label>
+          <Input
+            id={`${idPrefix}-to`}
+            type="date"
+            value={values.annotatedTo}
+            onChange={(e) => update({ annotatedTo: e.target.value })}
+            className="h-8"
+          />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-source`} className="text-xs">
+          Annotated by
+        </Label>
+        <Select
+          value={values.source ?? "any"}
+          onValueChange={(value) =>
+            update({
+              source: value === "any" ? undefined : (value as AnnotationSource),
+            })
+          }
+        >
+          <SelectTrigger id={`${idPrefix}-source`} className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Anyone</SelectItem>
+            <SelectItem value={AnnotationSource.HUMAN}>Humans only</SelectItem>
+            <SelectItem value={AnnotationSource.AUTO}>
+              Auto-annotation only
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {showReviewStatuses && (
+        <div className="space-y-1">
+          <Label className="text-xs">Review states</Label>
+          <div className="grid grid-cols-2 gap-1">
+            {Object.values(ReviewStatus).map((status) => (
+              <div key={status} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${idPrefix}-review-${status}`}
+                  checked={values.reviewStatuses.includes(status)}
+                  onCheckedChange={(checked) =>
+                    update({
+                      reviewStatuses: toggleValue(
+                        values.reviewStatuses,
+                        status,
+                        checked === true
+                      ),
+                    })
+                  }
+                />
+                <Label
+                  htmlFor={`${idPrefix}-review-${status}`}
+                  className="text-sm font-normal capitalize"
+                >
+                  {status.replace(/_/g, " ").toLowerCase()}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
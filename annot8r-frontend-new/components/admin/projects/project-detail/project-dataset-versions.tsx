@@ -0,0 +1,338 @@
+// components/admin/projects/project-detail/project-dataset-versions.tsx
+import { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { GitCompare, Layers, Loader2, Plus } from "lucide-react";
+import {
+  DatasetDiffStatus,
+  DatasetVersion,
+  DatasetVersionDiff,
+} from "@/lib/types";
+import {
+  createDatasetVersion,
+  getDatasetVersionDiff,
+  getDatasetVersions,
+} from "@/lib/api/projects";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+interface ProjectDatasetVersionsProps {
+  projectId: string;
+}
+
+const DIFF_STATUS_STYLES: Record<DatasetDiffStatus, string> = {
+  [DatasetDiffStatus.ADDED]: "bg-green-100 text-green-800 border-green-300",
+  [DatasetDiffStatus.REMOVED]: "bg-red-100 text-red-800 border-red-300",
+  [DatasetDiffStatus.CHANGED]: "bg-blue-100 text-blue-800 border-blue-300",
+};
+
+export function ProjectDatasetVersions({
+  projectId,
+}: ProjectDatasetVersionsProps) {
+  const [versions, setVersions] = useState<DatasetVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  // State for comparing versions
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>("");
+  const [diff, setDiff] = useState<DatasetVersionDiff | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+
+  const fetchVersions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await getDatasetVersions(projectId);
+      if (response.success && response.data) {
+        setVersions(response.data.versions);
+      } else {
+        console.error("Failed to fetch versions:", response.error);
+      }
+    } catch (error) {
+      console.error("Error fetching versions:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  // Compare the two latest versions by default
+  useEffect(() => {
+    if (versions.length >= 2 && !fromId && !toId) {
+      setFromId(versions[1].id);
+      setToId(versions[0].id);
+    }
+  }, [versions, fromId, toId]);
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast.error("Please enter a version name");
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const response = await createDatasetVersion(projectId, {
+        name: name.trim(),
+        description: description.trim() || undefined,
+      });
+      if (response.success && response.data) {
+        toast.success("Version created", {
+          description: `${response.data.totalImages} approved images frozen`,
+        });
+        setIsDialogOpen(false);
+        setName("");
+        setDescription("");
+        fetchVersions();
+      } else {
+        toast.error("Failed to create version", {
+          description: response.error,
+        });
+      }
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCompare = async () => {
+    if (!fromId || !toId || fromId === toId) {
+      toast.error("Please pick two different versions");
+      return;
+    }
+
+    setIsComparing(true);
+    try {
+      const response = await getDatasetVersionDiff(projectId, fromId, toId);
+      if (response.success && response.data) {
+        setDiff(response.data);
+      } else {
+        toast.error("Failed to compare versions", {
+          description: response.error,
+        });
+      }
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const versionSelect = (
+    id: string,
+    value: string,
+    onChange: (value: string) => void
+  ) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} className="h-8">
+        <SelectValue placeholder="Select version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version.id} value={version.id}>
+            {version.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-lg">Dataset Versions</CardTitle>
+          <CardDescription>
+            Frozen snapshots of the approved images and their annotations
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setIsDialogOpen(true)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Create Version
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No versions yet
+          </p>
+        ) : (
+          <div className="divide-y">
+            {versions.map((version) => (
+              <div key={version.id} className="py-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Layers className="h-4 w-4 text-muted-foreground shrink-0" />
+                  <span className="font-medium truncate">{version.name}</span>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {version.totalImages} images · {version.totalObjects}{" "}
+                    objects ·{" "}
+                    {format(new Date(version.createdAt), "MMM d, yyyy HH:mm")}
+                  </span>
+                </div>
+                {version.description && (
+                  <p className="text-xs text-muted-foreground pl-6">
+                    {version.description}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {versions.length >= 2 && (
+          <div className="space-y-3 rounded-md border p-3">
+            <div className="grid grid-cols-[1fr_1fr_auto] items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="diff-from" className="text-xs">
+                  From
+                </Label>
+                {versionSelect("diff-from", fromId, setFromId)}
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="diff-to" className="text-xs">
+                  To
+                </Label>
+                {versionSelect("diff-to", toId, setToId)}
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleCompare}
+                disabled={isComparing}
+              >
+                {isComparing ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <GitCompare className="h-4 w-4 mr-1" />
+                )}
+                Compare
+              </Button>
+            </div>
+
+            {diff && (
+              <div className="space-y-2">
+                <div className="grid grid-cols-2 gap-2 text-xs">
+                  <div>
+                    <span className="font-medium">Images:</span>{" "}
+                    +{diff.summary.imagesAdded} added, −
+                    {diff.summary.imagesRemoved} removed,{" "}
+                    {diff.summary.imagesChanged} changed
+                  </div>
+                  <div>
+                    <span className="font-medium">Objects:</span>{" "}
+                    +{diff.summary.objectsAdded} added, −
+                    {diff.summary.objectsRemoved} removed,{" "}
+                    {diff.summary.objectsChanged} changed
+                  </div>
+                </div>
+                {diff.images.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-2">
+                    {diff.from.name} and {diff.to.name} are identical
+                  </p>
+                ) : (
+                  <div className="rounded-md border max-h-64 overflow-y-auto divide-y text-sm">
+                    {diff.images.map((image) => (
+                      <div
+                        key={image.imageId}
+                        className="flex items-center justify-between gap-2 px-2 py-1"
+                      >
+                        <span className="truncate">{image.filename}</span>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <span className="text-xs text-muted-foreground">
+                            +{image.objectsAdded} −{image.objectsRemoved} ~
+                            {image.objectsChanged}
+                          </span>
+                          <Badge
+                            variant="outline"
+                            className={DIFF_STATUS_STYLES[image.status]}
+                          >
+                            {image.status.toLowerCase()}
+                          </Badge>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create Version</DialogTitle>
+            <DialogDescription>
+              Every approved image and its current annotation is frozen into
+              the version. Later edits don&apos;t change it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="version-name">Name</Label>
+              <Input
+                id="version-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. v3"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="version-description">Description</Label>
+              <Textarea
+                id="version-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Optional notes about this version"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={isCreating}>
+              {isCreating && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,8 +1,9 @@
 // components/admin/projects/project-detail/project-export.tsx
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import {
   Dialog,
   DialogClose,
@@ -13,34 +14,233 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { toast } from "sonner";
 import { Download, Loader2 } from "lucide-react";
-import { Project, ExportStatus } from "@/lib/types";
+import {
+  Project,
+  ExportFormat,
+  ExportStatus,
+  ProjectExport as ProjectExportRecord,
+  DatasetVersion,
+  ExportFilters,
+  ProjectMember,
+} from "@/lib/types";
 import {
   createExport,
+  getExports,
+  getDatasetVersions,
+  getProjectMembers,
   getExportStatus,
   getExportDownload,
 } from "@/lib/api/projects";
+import { getMaxClassDepth } from "@/lib/utils/taxonomy";
+import {
+  EMPTY_EXPORT_FILTER_VALUES,
+  ExportFilterFields,
+  ExportFilterValues,
+  toExportFilters,
+} from "./export-filter-fields";
 
 interface ProjectExportProps {
   project: Project;
 }
 
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  [ExportFormat.YOLO]: "YOLO",
+  [ExportFormat.YOLO_OBB]: "YOLO OBB (oriented boxes)",
+  [ExportFormat.MOT]: "MOT (tracked sequences)",
+  [ExportFormat.COCO]: "COCO JSON",
+  [ExportFormat.VOC]: "Pascal VOC XML",
+  [ExportFormat.OBJECT_TABLE]: "Object table (JSONL + Parquet)",
+  [ExportFormat.LABEL_STUDIO]: "Label Studio JSON",
+  [ExportFormat.CVAT]: "CVAT for images XML",
+};
+
 export function ProjectExport({ project }: ProjectExportProps) {
   const [isExporting, setIsExporting] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>(ExportFormat.YOLO);
   const [includeImages, setIncludeImages] = useState(true);
   const [onlyReviewed, setOnlyReviewed] = useState(false);
+  const [taxonomyLevel, setTaxonomyLevel] = useState<number | undefined>();
+  const [useSplit, setUseSplit] = useState(false);
+  const [splitPercents, setSplitPercents] = useState({
+    train: 70,
+    val: 20,
+    test: 10,
+  });
+  const [splitSeed, setSplitSeed] = useState(42);
+  const [useTiling, setUseTiling] = useState(false);
+  const [tiling, setTiling] = useState({
+    size: 640,
+    overlapPercent: 20,
+    minVisibilityPercent: 30,
+  });
+  const [useAugmentation, setUseAugmentation] = useState(false);
+  const [augmentation, setAugmentation] = useState({
+    copies: 2,
+    flipHorizontal: true,
+    flipVertical: false,
+    rotate90: false,
+    brightnessPercent: 20,
+    contrastPercent: 20,
+    useResize: false,
+    width: 640,
+    height: 640,
+    letterbox: true,
+    seed: 42,
+  });
+  const [baseExportId, setBaseExportId] = useState<string | undefined>();
+  const [baseExports, setBaseExports] = useState<ProjectExportRecord[]>([]);
+  const [versionId, setVersionId] = useState<string | undefined>();
+  const [versions, setVersions] = useState<DatasetVersion[]>([]);
+  const [useFilters, setUseFilters] = useState(false);
+  const [filterValues, setFilterValues] = useState<ExportFilterValues>(
+    EMPTY_EXPORT_FILTER_VALUES
+  );
+  const [members, setMembers] = useState<ProjectMember[]>([]);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
 
+  // Completed exports that an incremental export can be based on
+  useEffect(() => {
+    if (!isDialogOpen) return;
+
+    getExports(project.id, 1, 20)
+      .then((response) => {
+        if (response.success && response.data) {
+          setBaseExports(
+            response.data.data.filter(
+              (exportItem) => exportItem.status === ExportStatus.COMPLETED
+            )
+          );
+        }
+      })
+      .catch((error) => console.error("Error fetching exports:", error));
+
+    getDatasetVersions(project.id)
+      .then((response) => {
+        if (response.success && response.data) {
+          setVersions(response.data.versions);
+        }
+      })
+      .catch((error) => console.error("Error fetching versions:", error));
+
+    getProjectMembers(project.id, 1, 100)
+      .then((response) => {
+        if (response.success && response.data) {
+          setMembers(response.data.data);
+        }
+      })
+      .catch((error) => console.error("Error fetching members:", error));
+  }, [isDialogOpen, project.id]);
+
+  const maxClassDepth = getMaxClassDepth(project.classes);
+  const formatBaseExports = baseExports.filter(
+    (exportItem) => exportItem.format === format
+  );
+  // Versions are exported in full, as frozen
+  const fromVersion = versions.some((version) => version.id === versionId);
+  const canExportIncrementally =
+    !fromVersion &&
+    format !== ExportFormat.MOT &&
+    formatBaseExports.length > 0;
+  // Incremental exports keep the class level and split of their base export
+  const isIncremental =
+    canExportIncrementally &&
+    formatBaseExports.some((exportItem) => exportItem.id === baseExportId);
+  const canSplit =
+    !isIncremental &&
+    (format === ExportFormat.YOLO || format === ExportFormat.YOLO_OBB);
+  const splitTotal =
+    splitPercents.train + splitPercents.val + splitPercents.test;
+  // Tiles and augmented copies are made from the images, so they must be
+  // exported
+  const canTile = canSplit && includeImages;
+  // Incremental exports keep the filters of their base export
+  const canFilter = !isIncremental;
+
+  const buildFilters = (): ExportFilters | undefined =>
+    canFilter && useFilters
+      ? toExportFilters(filterValues, !onlyReviewed && !fromVersion)
+      : undefined;
+
   const handleExport = async () => {
+    if (canSplit && useSplit) {
+      if (splitTotal !== 100) {
+        toast.error("Split percentages must add up to 100");
+        return;
+      }
+      if (splitPercents.train <= 0 || splitPercents.val <= 0) {
+        toast.error("Train and validation splits must not be empty");
+        return;
+      }
+    }
+
+    if (
+      canFilter &&
+      useFilters &&
+      filterValues.annotatedFrom &&
+      filterValues.annotatedTo &&
+      filterValues.annotatedFrom > filterValues.annotatedTo
+    ) {
+      toast.error("The date range must not end before it starts");
+      return;
+    }
+
     setIsExporting(true);
 
     try {
       // First, create the export
       const response = await createExport(project.id, {
-        format: "YOLO", // Currently only YOLO format is supported
+        format,
         includesImages: includeImages,
-        onlyReviewedAnnotations: onlyReviewed,
+        onlyReviewedAnnotations: fromVersion ? false : onlyReviewed,
+        versionId: fromVersion ? versionId : undefined,
+        taxonomyLevel: isIncremental ? undefined : taxonomyLevel,
+        baseExportId: isIncremental ? baseExportId : undefined,
+        filters: buildFilters(),
+        split:
+          canSplit && useSplit
+            ? {
+                train: splitPercents.train / 100,
+                val: splitPercents.val / 100,
+                test: splitPercents.test / 100,
+                seed: splitSeed,
+              }
+            : undefined,
+        tiling:
+          canTile && useTiling
+            ? {
+                size: tiling.size,
+                overlap: tiling.overlapPercent / 100,
+                minVisibility: tiling.minVisibilityPercent / 100,
+              }
+            : undefined,
+        augmentation:
+          canTile && useAugmentation
+            ? {
+                copies: augmentation.copies,
+                flipHorizontal: augmentation.flipHorizontal,
+                flipVertical: augmentation.flipVertical,
+                rotate90: augmentation.rotate90,
+                brightness: augmentation.brightnessPercent / 100,
+                contrast: augmentation.contrastPercent / 100,
+                resize: augmentation.useResize
+                  ? {
+                      width: augmentation.width,
+                      height: augmentation.height,
+                      letterbox: augmentation.letterbox,
+                    }
+                  : undefined,
+                seed: augmentation.seed,
+              }
+            : undefined,
       });
 
       if (!response.success || !response.data) {
@@ -123,10 +323,575 @@ export function ProjectExport({ project }: ProjectExportProps) {
         <DialogHeader>
           <DialogTitle>Export Project</DialogTitle>
           <DialogDescription>
-            Download the project data in YOLO format
+            Download the project data in the selected format
           </DialogDescription>
         </DialogHeader>
-        <div className="space-y-4 py-4">
+        <div className="space-y-4 py-4 max-h-[70vh] overflow-y-auto">
+          <div className="space-y-2">
+            <Label htmlFor="export-format">Format</Label>
+            <Select
+              value={format}
+              onValueChange={(value) => setFormat(value as ExportFormat)}
+            >
+              <SelectTrigger id="export-format">
+                <SelectValue placeholder="Select format" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(ExportFormat).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {EXPORT_FORMAT_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {format === ExportFormat.YOLO_OBB && (
+              <p className="text-sm text-muted-foreground">
+                Every object is written as four normalized corners. Polygons
+                are exported as their bounding box.
+              </p>
+            )}
+            {format === ExportFormat.MOT && (
+              <p className="text-sm text-muted-foreground">
+                Only frames of image sequences are exported, with one
+                ground-truth file per sequence. Objects without a track ID are
+                left out.
+              </p>
+            )}
+            {format === ExportFormat.COCO && (
+              <p className="text-sm text-muted-foreground">
+                A single annotations.json with boxes in pixels. Polygons and
+                oriented boxes also get a segmentation outline.
+              </p>
+            )}
+            {format === ExportFormat.VOC && (
+              <p className="text-sm text-muted-foreground">
+                One XML file per image in Annotations/, with every exported
+                image listed in ImageSets/Main/trainval.txt.
+              </p>
+            )}
+            {format === ExportFormat.OBJECT_TABLE && (
+              <p className="text-sm text-muted-foreground">
+                One row per object in objects.jsonl and objects.parquet, with
+                its image, class, box in pixels and normalized, annotator,
+                reviewer and timestamps.
+              </p>
+            )}
+            {format === ExportFormat.LABEL_STUDIO && (
+              <p className="text-sm text-muted-foreground">
+                One task per image in tasks.json, credited to its annotator,
+                with a label_config.xml to set up the Label Studio project.
+                Polylines are left out.
+              </p>
+            )}
+            {format === ExportFormat.CVAT && (
+              <p className="text-sm text-muted-foreground">
+                A single annotations.xml with the classes as labels. Objects
+                with keypoints also get a skeleton.
+              </p>
+            )}
+          </div>
+          {versions.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="export-version">Data</Label>
+              <Select
+                value={fromVersion && versionId ? versionId : "current"}
+                onValueChange={(value) =>
+                  setVersionId(value === "current" ? undefined : value)
+                }
+              >
+                <SelectTrigger id="export-version">
+                  <SelectValue placeholder="Select data" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="current">Current annotations</SelectItem>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={version.id}>
+                      Version {version.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {canExportIncrementally && (
+            <div className="space-y-2">
+              <Label htmlFor="export-base">Contents</Label>
+              <Select
+                value={isIncremental && baseExportId ? baseExportId : "full"}
+                onValueChange={(value) =>
+                  setBaseExportId(value === "full" ? undefined : value)
+                }
+              >
+                <SelectTrigger id="export-base">
+                  <SelectValue placeholder="Select contents" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="full">Full dataset</SelectItem>
+                  {formatBaseExports.map((exportItem) => (
+                    <SelectItem key={exportItem.id} value={exportItem.id}>
+                      Changes since{" "}
+                      {new Date(exportItem.exportedAt).toLocaleString()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {isIncremental && (
+                <p className="text-sm text-muted-foreground">
+                  Only added and changed images are exported, with removed
+                  ones listed in manifest.json. The class level and split of
+                  the earlier export are kept.
+                </p>
+              )}
+            </div>
+          )}
+          {maxClassDepth > 0 && !isIncremental && (
+            <div className="space-y-2">
+              <Label htmlFor="export-taxonomy-level">Class level</Label>
+              <Select
+                value={
+                  taxonomyLevel === undefined ? "all" : String(taxonomyLevel)
+                }
+                onValueChange={(value) =>
+                  setTaxonomyLevel(value === "all" ? undefined : Number(value))
+                }
+              >
+                <SelectTrigger id="export-taxonomy-level">
+                  <SelectValue placeholder="Select class level" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All classes</SelectItem>
+                  {Array.from({ length: maxClassDepth }, (_, level) => (
+                    <SelectItem key={level} value={String(level)}>
+                      {level === 0
+                        ? "Top-level classes only"
+                        : `Classes up to level ${level + 1}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {taxonomyLevel !== undefined && (
+                <p className="text-sm text-muted-foreground">
+                  Deeper classes are exported as their parent class at this
+                  level.
+                </p>
+              )}
+            </div>
+          )}
+          {canSplit && (
+            <div className="space-y-3">
+              <div className="flex items-start space-x-2">
+                <Checkbox
+                  id="use-split"
+                  checked={useSplit}
+                  onCheckedChange={(checked) => setUseSplit(checked as boolean)}
+                />
+                <div className="grid gap-1.5 leading-none">
+                  <Label htmlFor="use-split">Split into train/val/test</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Images are split per class so rare classes reach every
+                    split. The same seed always gives the same split.
+                  </p>
+                </div>
+              </div>
+              {useSplit && (
+                <div className="grid grid-cols-4 gap-2 pl-6">
+                  {(["train", "val", "test"] as const).map((name) => (
+                    <div key={name} className="space-y-1">
+                      <Label
+                        htmlFor={`split-${name}`}
+                        className="text-xs capitalize"
+                      >
+                        {name} %
+                      </Label>
+                      <Input
+                        id={`split-${name}`}
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={splitPercents[name]}
+                        onChange={(e) =>
+                          setSplitPercents((prev) => ({
+                            ...prev,
+                            [name]: Math.max(0, Number(e.target.value) || 0),
+                          }))
+                        }
+                        className="h-8"
+                      />
+                    </div>
+                  ))}
+                  <div className="space-y-1">
+                    <Label htmlFor="split-seed" className="text-xs">
+                      Seed
+                    </Label>
+                    <Input
+                      id="split-seed"
+                      type="number"
+                      min={0}
+                      value={splitSeed}
+                      onChange={(e) =>
+                        setSplitSeed(
+                          Math.max(0, Math.floor(Number(e.target.value) || 0))
+                        )
+                      }
+                      className="h-8"
+                    />
+                  </div>
+                  {splitTotal !== 100 && (
+                    <p className="col-span-4 text-xs text-red-600">
+                      Percentages add up to {splitTotal}, not 100
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          {canTile && (
+            <div className="space-y-3">
+              <div className="flex items-start space-x-2">
+                <Checkbox
+                  id="use-tiling"
+                  checked={useTiling}
+                  onCheckedChange={(checked) =>
+                    setUseTiling(checked as boolean)
+                  }
+                />
+                <div className="grid gap-1.5 leading-none">
+                  <Label htmlFor="use-tiling">Cut images into tiles</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Each image is sliced into overlapping square tiles named
+                    after the image and tile position. Objects are clipped to
+                    each tile.
+                  </p>
+                </div>
+              </div>
+              {useTiling && (
+                <div className="grid grid-cols-3 gap-2 pl-6">
+                  <div className="space-y-1">
+                    <Label htmlFor="tile-size" className="text-xs">
+                      Tile size (px)
+                    </Label>
+                    <Input
+                      id="tile-size"
+                      type="number"
+                      min={64}
+                      max={8192}
+                      value={tiling.size}
+                      onChange={(e) =>
+                        setTiling((prev) => ({
+                          ...prev,
+                          size: Math.min(
+                            8192,
+                            Math.max(
+                              64,
+                              Math.floor(Number(e.target.value)) || 64
+                            )
+                          ),
+                        }))
+                      }
+                      className="h-8"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="tile-overlap" className="text-xs">
+                      Overlap %
+                    </Label>
+                    <Input
+                      id="tile-overlap"
+                      type="number"
+                      min={0}
+                      max={90}
+                      value={tiling.overlapPercent}
+                      onChange={(e) =>
+                        setTiling((prev) => ({
+                          ...prev,
+                          overlapPercent: Math.min(
+                            90,
+                            Math.max(0, Number(e.target.value) || 0)
+                          ),
+                        }))
+                      }
+                      className="h-8"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="tile-visibility" className="text-xs">
+                      Min. visible %
+                    </Label>
+                    <Input
+                      id="tile-visibility"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={tiling.minVisibilityPercent}
+                      onChange={(e) =>
+                        setTiling((prev) => ({
+                          ...prev,
+                          minVisibilityPercent: Math.min(
+                            100,
+                            Math.max(0, Number(e.target.value) || 0)
+                          ),
+                        }))
+                      }
+                      className="h-8"
+                    />
+                  </div>
+                  <p className="col-span-3 text-xs text-muted-foreground">
+                    Objects with less of their area inside a tile are left
+                    out of it.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+          {canTile && (
+            <div className="space-y-3">
+              <div className="flex items-start space-x-2">
+                <Checkbox
+                  id="use-augmentation"
+                  checked={useAugmentation}
+                  onCheckedChange={(checked) =>
+                    setUseAugmentation(checked as boolean)
+                  }
+                />
+                <div className="grid gap-1.5 leading-none">
+                  <Label htmlFor="use-augmentation">
+                    Add augmented copies
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    Each image gets transformed copies with matching labels,
+                    listed in augmentations.json. With a split, only training
+                    images are augmented.
+                  </p>
+                </div>
+              </div>
+              {useAugmentation && (
+                <div className="space-y-3 pl-6">
+                  <div className="grid grid-cols-3 gap-2">
+                    <div className="space-y-1">
+                      <Label htmlFor="augment-copies" className="text-xs">
+                        Copies per image
+                      </Label>
+                      <Input
+                        id="augment-copies"
+                        type="number"
+                        min={1}
+                        max={10}
+                        value={augmentation.copies}
+                        onChange={(e) =>
+                          setAugmentation((prev) => ({
+                            ...prev,
+                            copies: Math.min(
+                              10,
+                              Math.max(
+                                1,
+                                Math.floor(Number(e.target.value)) || 1
+                              )
+                            ),
+                          }))
+                        }
+                        className="h-8"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="augment-brightness" className="text-xs">
+                        Brightness ± %
+                      </Label>
+                      <Input
+                        id="augment-brightness"
+                        type="number"
+                        min={0}
+                        max={90}
+                        value={augmentation.brightnessPercent}
+                        onChange={(e) =>
+                          setAugmentation((prev) => ({
+                            ...prev,
+                            brightnessPercent: Math.min(
+                              90,
+                              Math.max(0, Number(e.target.value) || 0)
+                            ),
+                          }))
+                        }
+                        className="h-8"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="augment-contrast" className="text-xs">
+                        Contrast ± %
+                      </Label>
+                      <Input
+                        id="augment-contrast"
+                        type="number"
+                        min={0}
+                        max={90}
+                        value={augmentation.contrastPercent}
+                        onChange={(e) =>
+                          setAugmentation((prev) => ({
+                            ...prev,
+                            contrastPercent: Math.min(
+                              90,
+                              Math.max(0, Number(e.target.value) || 0)
+                            ),
+                          }))
+                        }
+                        className="h-8"
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    {(
+                      [
+                        ["flipHorizontal", "Flip horizontally"],
+                        ["flipVertical", "Flip vertically"],
+                        ["rotate90", "Turn by 90°"],
+                      ] as const
+                    ).map(([key, label]) => (
+                      <div key={key} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`augment-${key}`}
+                          checked={augmentation[key]}
+                          onCheckedChange={(checked) =>
+                            setAugmentation((prev) => ({
+                              ...prev,
+                              [key]: checked === true,
+                            }))
+                          }
+                        />
+                        <Label
+                          htmlFor={`augment-${key}`}
+                          className="text-sm font-normal"
+                        >
+                          {label}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="augment-resize"
+                      checked={augmentation.useResize}
+                      onCheckedChange={(checked) =>
+                        setAugmentation((prev) => ({
+                          ...prev,
+                          useResize: checked === true,
+                        }))
+                      }
+                    />
+                    <Label
+                      htmlFor="augment-resize"
+                      className="text-sm font-normal"
+                    >
+                      Resize copies
+                    </Label>
+                  </div>
+                  {augmentation.useResize && (
+                    <div className="grid grid-cols-3 gap-2 items-end">
+                      {(["width", "height"] as const).map((side) => (
+                        <div key={side} className="space-y-1">
+                          <Label
+                            htmlFor={`augment-${side}`}
+                            className="text-xs capitalize"
+                          >
+                            {side} (px)
+                          </Label>
+                          <Input
+                            id={`augment-${side}`}
+                            type="number"
+                            min={32}
+                            max={8192}
+                            value={augmentation[side]}
+                            onChange={(e) =>
+                              setAugmentation((prev) => ({
+                                ...prev,
+                                [side]: Math.min(
+                                  8192,
+                                  Math.max(
+                                    32,
+                                    Math.floor(Number(e.target.value)) || 32
+                                  )
+                                ),
+                              }))
+                            }
+                            className="h-8"
+                          />
+                        </div>
+                      ))}
+                      <div className="flex items-center space-x-2 h-8">
+                        <Checkbox
+                          id="augment-letterbox"
+                          checked={augmentation.letterbox}
+                          onCheckedChange={(checked) =>
+                            setAugmentation((prev) => ({
+                              ...prev,
+                              letterbox: checked === true,
+                            }))
+                          }
+                        />
+                        <Label
+                          htmlFor="augment-letterbox"
+                          className="text-sm font-normal"
+                        >
+                          Letterbox
+                        </Label>
+                      </div>
+                    </div>
+                  )}
+                  <div className="space-y-1 w-1/3">
+                    <Label htmlFor="augment-seed" className="text-xs">
+                      Seed
+                    </Label>
+                    <Input
+                      id="augment-seed"
+                      type="number"
+                      min={0}
+                      value={augmentation.seed}
+                      onChange={(e) =>
+                        setAugmentation((prev) => ({
+                          ...prev,
+                          seed: Math.max(
+                            0,
+                            Math.floor(Number(e.target.value)) || 0
+                          ),
+                        }))
+                      }
+                      className="h-8"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+          {canFilter && (
+            <div className="space-y-3">
+              <div className="flex items-start space-x-2">
+                <Checkbox
+                  id="use-filters"
+                  checked={useFilters}
+                  onCheckedChange={(checked) =>
+                    setUseFilters(checked as boolean)
+                  }
+                />
+                <div className="grid gap-1.5 leading-none">
+                  <Label htmlFor="use-filters">Export a subset</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Filter images by their latest annotation. Kept classes are
+                    renumbered in project order.
+                  </p>
+                </div>
+              </div>
+              {useFilters && (
+                <div className="pl-6">
+                  <ExportFilterFields
+                    idPrefix="filter"
+                    classes={project.classes}
+                    members={members}
+                    values={filterValues}
+                    onChange={setFilterValues}
+                    showReviewStatuses={!onlyReviewed && !fromVersion}
+                  />
+                </div>
+              )}
+            </div>
+          )}
           <div className="flex items-start space-x-2">
             <Checkbox
               id="include-images"
@@ -142,21 +907,23 @@ export function ProjectExport({ project }: ProjectExportProps) {
               </p>
             </div>
           </div>
-          <div className="flex items-start space-x-2">
-            <Checkbox
-              id="only-reviewed"
-              checked={onlyReviewed}
-              onCheckedChange={(checked) => setOnlyReviewed(checked as boolean)}
-            />
-            <div className="grid gap-1.5 leading-none">
-              <Label htmlFor="only-reviewed">
-                Only export reviewed annotations
-              </Label>
-              <p className="text-sm text-muted-foreground">
-                Only include annotations that have been reviewed and approved
-              </p>
+          {!fromVersion && (
+            <div className="flex items-start space-x-2">
+              <Checkbox
+                id="only-reviewed"
+                checked={onlyReviewed}
+                onCheckedChange={(checked) => setOnlyReviewed(checked as boolean)}
+              />
+              <div className="grid gap-1.5 leading-none">
+                <Label htmlFor="only-reviewed">
+                  Only export reviewed annotations
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  Only include annotations that have been reviewed and approved
+                </p>
+              </div>
             </div>
-          </div>
+          )}
         </div>
         <DialogFooter>
           <DialogClose asChild>
@@ -4,20 +4,110 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Download, AlertCircle, RefreshCw, CheckCircle, Clock } from "lucide-react";
-import { ProjectExport, ExportStatus } from "@/lib/types";
-import { getExports, getExportDownload } from "@/lib/api/projects";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Download, AlertCircle, RefreshCw, CheckCircle, Clock, CalendarClock, Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  ProjectExport,
+  ExportStatus,
+  ExportFormat,
+  ExportSchedule,
+  ExportIssueType,
+  ExportDropReason,
+  ExportValidationSummary,
+  ProjectClass,
+  ProjectMember,
+} from "@/lib/types";
+import {
+  getExports,
+  getExportDownload,
+  getExportSchedules,
+  createExportSchedule,
+  updateExportSchedule,
+  deleteExportSchedule,
+  getProjectMembers,
+} from "@/lib/api/projects";
 import { format, formatDistanceToNow } from "date-fns";
 import { toast } from "sonner";
+import { EXPORT_FORMAT_LABELS } from "./project-export";
+import {
+  EMPTY_EXPORT_FILTER_VALUES,
+  ExportFilterFields,
+  ExportFilterValues,
+  toExportFilters,
+} from "./export-filter-fields";
 
 interface ProjectExportsPanelProps {
   projectId: string;
+  classes: ProjectClass[];
 }
 
-export function ProjectExportsPanel({ projectId }: ProjectExportsPanelProps) {
+const ISSUE_LABELS: Record<ExportIssueType, string> = {
+  [ExportIssueType.UNKNOWN_CLASS]: "Objects of deleted classes left out",
+  [ExportIssueType.OUT_OF_RANGE]: "Objects clamped to the image",
+  [ExportIssueType.ZERO_SIZE]: "Objects without size left out",
+  [ExportIssueType.MISSING_FILE]: "Image files missing from storage",
+  [ExportIssueType.SIZE_MISMATCH]: "Image files that couldn't be cut",
+};
+
+const DROP_REASON_LABELS: Record<ExportDropReason, string> = {
+  [ExportDropReason.NO_ANNOTATION]: "Images without annotations",
+  [ExportDropReason.FILTERED]: "Images filtered out",
+  [ExportDropReason.NOT_IN_SEQUENCE]: "Images outside sequences",
+  [ExportDropReason.IMAGE_DELETED]: "Images deleted since the version",
+};
+
+const countOf = (counts: Partial<Record<string, number>>) =>
+  Object.values(counts).reduce<number>((sum, count) => sum + (count ?? 0), 0);
+
+/**
+ * Short description of an export validation report
+ */
+const describeValidation = (validation: ExportValidationSummary) => {
+  const issueCount = countOf(validation.issues);
+  const droppedCount = countOf(validation.droppedImages);
+  if (issueCount === 0 && droppedCount === 0) {
+    return "No issues";
+  }
+  return [
+    issueCount > 0 && `${issueCount} issue${issueCount !== 1 ? "s" : ""}`,
+    droppedCount > 0 && `${droppedCount} image${droppedCount !== 1 ? "s" : ""} left out`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+};
+
+// Common schedules, as cron expressions in UTC
+const SCHEDULE_PRESETS = [
+  { label: "Every night at 02:00 UTC", cron: "0 2 * * *" },
+  { label: "Every hour", cron: "0 * * * *" },
+  { label: "Every Monday at 02:00 UTC", cron: "0 2 * * 1" },
+  { label: "First day of the month", cron: "0 2 1 * *" },
+];
+
+export function ProjectExportsPanel({ projectId, classes }: ProjectExportsPanelProps) {
   const [exports, setExports] = useState<ProjectExport[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isDownloading, setIsDownloading] = useState<string | null>(null);
+  const [openReportId, setOpenReportId] = useState<string | null>(null);
 
   const fetchExports = useCallback(async () => {
     setIsLoading(true);
@@ -125,6 +215,77 @@ export function ProjectExportsPanel({ projectId }: ProjectExportsPanelProps) {
                     <span>
                       {exportItem.includesImages ? "With images" : "Annotations only"}
                     </span>
+                    {exportItem.taxonomyLevel != null && (
+                      <>
+                        <span>•</span>
+                        <span>Classes up to level {exportItem.taxonomyLevel + 1}</span>
+                      </>
+                    )}
+                    {exportItem.tiling && (
+                      <>
+                        <span>•</span>
+                        <span>{exportItem.tiling.size}px tiles</span>
+                      </>
+                    )}
+                    {exportItem.augmentation && (
+                      <>
+                        <span>•</span>
+                        <span>
+                          {exportItem.augmentation.copies} augmented{" "}
+                          {exportItem.augmentation.copies === 1 ? "copy" : "copies"}
+                        </span>
+                      </>
+                    )}
+                    {exportItem.versionId && (
+                      <>
+                        <span>•</span>
+                        <span>Version {exportItem.versionName || "deleted"}</span>
+                      </>
+                    )}
+                    {exportItem.scheduleId && (
+                      <>
+                        <span>•</span>
+                        <span>Scheduled</span>
+                      </>
+                    )}
+                    {exportItem.filters && (
+                      <>
+                        <span>•</span>
+                        <span>Filtered</span>
+                      </>
+                    )}
+                    {exportItem.changes && (
+                      <>
+                        <span>•</span>
+                        <span>
+                          Changes +{exportItem.changes.added} ~{exportItem.changes.changed} -{exportItem.changes.removed}
+                        </span>
+                      </>
+                    )}
+                    {exportItem.split && (
+                      <>
+                        <span>•</span>
+                        <span>
+                          Split {Math.round(exportItem.split.train * 100)}/
+                          {Math.round(exportItem.split.val * 100)}/
+                          {Math.round(exportItem.split.test * 100)}
+                        </span>
+                      </>
+                    )}
+                    {exportItem.validation && (
+                      <>
+                        <span>•</span>
+                        <button
+                          type="button"
+                          className="underline-offset-2 hover:underline"
+                          onClick={() =>
+                            setOpenReportId(openReportId === exportItem.id ? null : exportItem.id)
+                          }
+                        >
+                          {describeValidation(exportItem.validation)}
+                        </button>
+                      </>
+                    )}
                     <span>•</span>
                     <span>
                       {exportItem.totalImages} image{exportItem.totalImages !== 1 ? 's' : ''}
@@ -134,6 +295,23 @@ export function ProjectExportsPanel({ projectId }: ProjectExportsPanelProps) {
                       {formatDistanceToNow(new Date(exportItem.exportedAt), { addSuffix: true })}
                     </span>
                   </div>
+                  {openReportId === exportItem.id && exportItem.validation && (
+                    <ul className="text-xs text-muted-foreground list-disc pl-4">
+                      {Object.entries(exportItem.validation.issues).map(([type, count]) => (
+                        <li key={type}>
+                          {ISSUE_LABELS[type as ExportIssueType] ?? type}: {count}
+                        </li>
+                      ))}
+                      {Object.entries(exportItem.validation.droppedImages).map(([reason, count]) => (
+                        <li key={reason}>
+                          {DROP_REASON_LABELS[reason as ExportDropReason] ?? reason}: {count}
+                        </li>
+                      ))}
+                      <li className="list-none -ml-4">
+                        Details are in report.json in the archive
+                      </li>
+                    </ul>
+                  )}
                 </div>
                 <div className="flex items-center space-x-2">
                   {getStatusBadge(exportItem.status)}
@@ -159,7 +337,395 @@ export function ProjectExportsPanel({ projectId }: ProjectExportsPanelProps) {
             ))}
           </div>
         )}
+
+        <Separator className="my-4" />
+        <ExportSchedules projectId={projectId} classes={classes} />
       </CardContent>
     </Card>
   );
+}
+
+interface ExportSchedulesProps {
+  projectId: string;
+  classes: ProjectClass[];
+}
+
+/**
+ * Recurring exports of a project, with a dialog to create them
+ */
+function ExportSchedules({ projectId, classes }: ExportSchedulesProps) {
+  const [schedules, setSchedules] = useState<ExportSchedule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+
+  // State for the new schedule
+  const [name, setName] = useState("");
+  const [cron, setCron] = useState(SCHEDULE_PRESETS[0].cron);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>(ExportFormat.YOLO);
+  const [includeImages, setIncludeImages] = useState(true);
+  const [onlyReviewed, setOnlyReviewed] = useState(true);
+  const [retention, setRetention] = useState(7);
+  const [useFilters, setUseFilters] = useState(false);
+  const [filterValues, setFilterValues] = useState<ExportFilterValues>(
+    EMPTY_EXPORT_FILTER_VALUES
+  );
+
+  const fetchSchedules = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await getExportSchedules(projectId);
+      if (response.success && response.data) {
+        setSchedules(response.data.schedules);
+      } else {
+        console.error("Failed to fetch export schedules:", response.error);
+      }
+    } catch (error) {
+      console.error("Error fetching export schedules:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  useEffect(() => {
+    if (!isDialogOpen) return;
+
+    getProjectMembers(projectId, 1, 100)
+      .then((response) => {
+        if (response.success && response.data) {
+          setMembers(response.data.data);
+        }
+      })
+      .catch((error) => console.error("Error fetching members:", error));
+  }, [isDialogOpen, projectId]);
+
+  const resetForm = () => {
+    setName("");
+    setCron(SCHEDULE_PRESETS[0].cron);
+    setExportFormat(ExportFormat.YOLO);
+    setIncludeImages(true);
+    setOnlyReviewed(true);
+    setRetention(7);
+    setUseFilters(false);
+    setFilterValues(EMPTY_EXPORT_FILTER_VALUES);
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast.error("Please enter a schedule name");
+      return;
+    }
+    if (cron.trim().split(/\s+/).length !== 5) {
+      toast.error("Schedules need 5 fields: minute hour day month weekday");
+      return;
+    }
+    if (
+      useFilters &&
+      filterValues.annotatedFrom &&
+      filterValues.annotatedTo &&
+      filterValues.annotatedFrom > filterValues.annotatedTo
+    ) {
+      toast.error("The date range must not end before it starts");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await createExportSchedule(projectId, {
+        name: name.trim(),
+        cron: cron.trim(),
+        format: exportFormat,
+        includesImages: includeImages,
+        onlyReviewedAnnotations: onlyReviewed,
+        retention,
+        filters: useFilters
+          ? toExportFilters(filterValues, !onlyReviewed)
+          : undefined,
+      });
+      if (response.success && response.data) {
+        toast.success("Export schedule created", {
+          description: `Next run ${format(new Date(response.data.nextRunAt), "MMM d, yyyy HH:mm")}`,
+        });
+        setIsDialogOpen(false);
+        resetForm();
+        fetchSchedules();
+      } else {
+        toast.error("Failed to create export schedule", {
+          description: response.error,
+        });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (schedule: ExportSchedule, enabled: boolean) => {
+    setUpdatingId(schedule.id);
+    try {
+      const response = await updateExportSchedule(projectId, schedule.id, {
+        enabled,
+      });
+      if (response.success && response.data) {
+        const updated = response.data;
+        setSchedules((prev) =>
+          prev.map((item) => (item.id === updated.id ? updated : item))
+        );
+      } else {
+        toast.error("Failed to update export schedule", {
+          description: response.error,
+        });
+      }
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleDelete = async (schedule: ExportSchedule) => {
+    setUpdatingId(schedule.id);
+    try {
+      const response = await deleteExportSchedule(projectId, schedule.id);
+      if (response.success) {
+        toast.success("Export schedule deleted", {
+          description: "Exports it created are kept",
+        });
+        setSchedules((prev) => prev.filter((item) => item.id !== schedule.id));
+      } else {
+        toast.error("Failed to delete export schedule", {
+          description: response.error,
+        });
+      }
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-sm font-medium">Schedules</h4>
+          <p className="text-xs text-muted-foreground">
+            Recurring exports, keeping the latest ones
+          </p>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => setIsDialogOpen(true)}>
+          <Plus className="h-4 w-4 mr-1" />
+          New Schedule
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-10 w-full" />
+      ) : schedules.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-2">
+          No export schedules
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {schedules.map((schedule) => (
+            <div
+              key={schedule.id}
+              className="flex items-center justify-between gap-2 p-2 bg-muted/40 rounded-md"
+            >
+              <div className="space-y-1 min-w-0">
+                <div className="flex items-center gap-2 font-medium text-sm">
+                  <CalendarClock className="h-4 w-4 text-muted-foreground shrink-0" />
+                  <span className="truncate">{schedule.name}</span>
+                  <code className="text-xs text-muted-foreground">{schedule.cron}</code>
+                </div>
+                <div className="flex flex-wrap items-center gap-x-2 text-xs text-muted-foreground">
+                  <span>{EXPORT_FORMAT_LABELS[schedule.format]}</span>
+                  <span>•</span>
+                  <span>Keeps {schedule.retention}</span>
+                  {schedule.filters && (
+                    <>
+                      <span>•</span>
+                      <span>Filtered</span>
+                    </>
+                  )}
+                  <span>•</span>
+                  <span>
+                    {schedule.enabled
+                      ? `Next run ${formatDistanceToNow(new Date(schedule.nextRunAt), { addSuffix: true })}`
+                      : "Paused"}
+                  </span>
+                </div>
+                {schedule.lastError && (
+                  <p className="text-xs text-red-600">
+                    Last run failed: {schedule.lastError}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center space-x-2 shrink-0">
+                <Switch
+                  checked={schedule.enabled}
+                  onCheckedChange={(checked) => handleToggle(schedule, checked)}
+                  disabled={updatingId === schedule.id}
+                  aria-label={schedule.enabled ? "Pause schedule" : "Resume schedule"}
+                />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8"
+                  onClick={() => handleDelete(schedule)}
+                  disabled={updatingId === schedule.id}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Export Schedule</DialogTitle>
+            <DialogDescription>
+              Export the project on a schedule. Older scheduled exports are
+              deleted beyond the number kept.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-name">Name</Label>
+              <Input
+                id="schedule-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Nightly training set"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-cron">Schedule</Label>
+              <Select
+                value={
+                  SCHEDULE_PRESETS.some((preset) => preset.cron === cron)
+                    ? cron
+                    : "custom"
+                }
+                onValueChange={(value) => {
+                  if (value !== "custom") setCron(value);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCHEDULE_PRESETS.map((preset) => (
+                    <SelectItem key={preset.cron} value={preset.cron}>
+                      {preset.label}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="custom">Custom</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                id="schedule-cron"
+                value={cron}
+                onChange={(e) => setCron(e.target.value)}
+                className="font-mono"
+              />
+              <p className="text-xs text-muted-foreground">
+                Cron expression in UTC: minute hour day-of-month month
+                day-of-week
+              </p>
+            </div>
+            <div className="grid grid-cols-[1fr_auto] gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-format">Format</Label>
+                <Select
+                  value={exportFormat}
+                  onValueChange={(value) => setExportFormat(value as ExportFormat)}
+                >
+                  <SelectTrigger id="schedule-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(ExportFormat).map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {EXPORT_FORMAT_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-retention">Keep last</Label>
+                <Input
+                  id="schedule-retention"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={retention}
+                  onChange={(e) =>
+                    setRetention(
+                      Math.min(100, Math.max(1, Math.floor(Number(e.target.value) || 1)))
+                    )
+                  }
+                  className="w-24"
+                />
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="schedule-include-images"
+                checked={includeImages}
+                onCheckedChange={(checked) => setIncludeImages(checked as boolean)}
+              />
+              <Label htmlFor="schedule-include-images">Include images</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="schedule-only-reviewed"
+                checked={onlyReviewed}
+                onCheckedChange={(checked) => setOnlyReviewed(checked as boolean)}
+              />
+              <Label htmlFor="schedule-only-reviewed">
+                Only export reviewed annotations
+              </Label>
+            </div>
+            <div className="space-y-3">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="schedule-use-filters"
+                  checked={useFilters}
+                  onCheckedChange={(checked) => setUseFilters(checked as boolean)}
+                />
+                <Label htmlFor="schedule-use-filters">Export a subset</Label>
+              </div>
+              {useFilters && (
+                <div className="pl-6">
+                  <ExportFilterFields
+                    idPrefix="schedule-filter"
+                    classes={classes}
+                    members={members}
+                    values={filterValues}
+                    onChange={setFilterValues}
+                    showReviewStatuses={!onlyReviewed}
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
 }
\ No newline at end of file
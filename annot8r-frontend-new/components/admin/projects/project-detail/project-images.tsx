@@ -29,7 +29,9 @@ import {
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
@@ -75,6 +77,7 @@ import {
   UserProgressMetric,
   AssignmentMetrics,
   ProjectMemberForAssignment,
+  ImageLabelSet,
 } from "@/lib/types";
 import { formatDistanceToNow } from "date-fns";
 import {
@@ -91,9 +94,13 @@ import { useRouter } from "next/navigation";
 
 interface ProjectImagesProps {
   projectId: string;
+  imageLabelSets?: ImageLabelSet[];
 }
 
-export function ProjectImages({ projectId }: ProjectImagesProps) {
+export function ProjectImages({
+  projectId,
+  imageLabelSets = [],
+}: ProjectImagesProps) {
   const router = useRouter();
   // State for images
   const [images, setImages] = useState<ProjectImage[]>([]);
@@ -103,6 +110,8 @@ export function ProjectImages({ projectId }: ProjectImagesProps) {
   const [totalPages, setTotalPages] = useState(1);
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  // Image label filter as "<setId>:<option>"
+  const [imageLabelFilter, setImageLabelFilter] = useState<string>("all");
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
 
   // State for upload
@@ -152,7 +161,7 @@ export function ProjectImages({ projectId }: ProjectImagesProps) {
     async (page = 1, filter: Record<string, string> = {}) => {
       setIsLoading(true);
       try {
-        const query: Record<string, string> = { ...filter };
+        const query: Record<string, string | string[]> = { ...filter };
         if (statusFilter !== "all") {
           if (statusFilter === "unassigned") {
             query.assignedTo = "";
@@ -164,6 +173,9 @@ export function ProjectImages({ projectId }: ProjectImagesProps) {
             query.reviewStatus = "APPROVED,FLAGGED";
           }
         }
+        if (imageLabelFilter !== "all") {
+          query.imageLabel = [imageLabelFilter];
+        }
         const response = await getProjectImages(
           projectId,
           page,
@@ -188,7 +200,7 @@ export function ProjectImages({ projectId }: ProjectImagesProps) {
         setIsLoading(false);
       }
     },
-    [projectId, statusFilter]
+    [projectId, statusFilter, imageLabelFilter]
   );
 
   // Fetch assignment metrics (new function)
@@ -244,7 +256,7 @@ export function ProjectImages({ projectId }: ProjectImagesProps) {
   // Initial data load
   useEffect(() => {
     fetchImages(currentPage);
-  }, [projectId, currentPage, statusFilter, fetchImages]);
+  }, [projectId, currentPage, statusFilter, imageLabelFilter, fetchImages]);
 
   // Load image URLs for visible items
   useEffect(() => {
@@ -1597,15 +1609,46 @@ export function ProjectImages({ projectId }: ProjectImagesProps) {
         </CardHeader>
         <CardContent>
           <div className="flex items-center justify-between mb-4">
-            <Tabs value={statusFilter} onValueChange={setStatusFilter}>
-              <TabsList>
-                <TabsTrigger value="all">All</TabsTrigger>
-                <TabsTrigger value="unassigned">Unassigned</TabsTrigger>
-                <TabsTrigger value="assigned">Assigned</TabsTrigger>
-                <TabsTrigger value="annotated">Annotated</TabsTrigger>
-                <TabsTrigger value="reviewed">Reviewed</TabsTrigger>
-              </TabsList>
-            </Tabs>
+            <div className="flex items-center gap-2">
+              <Tabs value={statusFilter} onValueChange={setStatusFilter}>
+                <TabsList>
+                  <TabsTrigger value="all">All</TabsTrigger>
+                  <TabsTrigger value="unassigned">Unassigned</TabsTrigger>
+                  <TabsTrigger value="assigned">Assigned</TabsTrigger>
+                  <TabsTrigger value="annotated">Annotated</TabsTrigger>
+                  <TabsTrigger value="reviewed">Reviewed</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              {imageLabelSets.length > 0 && (
+                <Select
+                  value={imageLabelFilter}
+                  onValueChange={(value) => {
+                    setImageLabelFilter(value);
+                    setCurrentPage(1);
+                  }}
+                >
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue placeholder="Image label" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All image labels</SelectItem>
+                    {imageLabelSets.map((labelSet) => (
+                      <SelectGroup key={labelSet.id}>
+                        <SelectLabel>{labelSet.name}</SelectLabel>
+                        {labelSet.options.map((option) => (
+                          <SelectItem
+                            key={option}
+                            value={`${labelSet.id}:${option}`}
+                          >
+                            {option}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
             <div className="flex items-center gap-2">
               <Button
                 variant={viewMode === "grid" ? "secondary" : "ghost"}
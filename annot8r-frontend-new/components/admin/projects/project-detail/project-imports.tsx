@@ -0,0 +1,376 @@
+// components/admin/projects/project-detail/project-imports.tsx
+import { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertCircle, FileArchive, Loader2, Upload } from "lucide-react";
+import {
+  DatasetImport,
+  DatasetImportFormat,
+  DatasetImportStatus,
+} from "@/lib/types";
+import {
+  getDatasetImportStatus,
+  getDatasetImports,
+  importDataset,
+} from "@/lib/api/projects";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+
+interface ProjectImportsProps {
+  projectId: string;
+}
+
+// Per-file errors listed before the rest are collapsed into a count
+const SHOWN_ERRORS = 20;
+
+// Upload picker filter and dialog help for each format
+const FORMAT_DETAILS: Record<
+  DatasetImportFormat,
+  { label: string; accept: string; description: string }
+> = {
+  [DatasetImportFormat.YOLO]: {
+    label: "YOLO",
+    accept: ".zip,application/zip",
+    description:
+      "A zip archive with images/, labels/ and classes.txt or data.yaml. Images become project images, annotated with their labels.",
+  },
+  [DatasetImportFormat.COCO]: {
+    label: "COCO JSON",
+    accept: ".json,.zip,application/json,application/zip",
+    description:
+      "A COCO annotation file, or a zip archive of them. Annotations are added to project images with the same filename.",
+  },
+  [DatasetImportFormat.VOC]: {
+    label: "Pascal VOC XML",
+    accept: ".xml,.zip,application/xml,text/xml,application/zip",
+    description:
+      "A VOC annotation file, or a zip archive of them. Annotations are added to project images with the same filename.",
+  },
+  [DatasetImportFormat.LABEL_STUDIO]: {
+    label: "Label Studio JSON",
+    accept: ".json,.zip,application/json,application/zip",
+    description:
+      "A Label Studio JSON export, or a zip archive of them. The latest annotation of each task is added to the project image with the same filename, credited to its annotator when they are a user here.",
+  },
+  [DatasetImportFormat.CVAT]: {
+    label: "CVAT for images XML",
+    accept: ".xml,.zip,application/xml,text/xml,application/zip",
+    description:
+      "A CVAT for images annotations.xml, or a zip archive of them. Annotations are added to project images with the same filename, credited to the task assignee when they are a user here.",
+  },
+};
+
+const isRunning = (datasetImport: DatasetImport) =>
+  datasetImport.status === DatasetImportStatus.PENDING ||
+  datasetImport.status === DatasetImportStatus.PROCESSING;
+
+export function ProjectImports({ projectId }: ProjectImportsProps) {
+  const [imports, setImports] = useState<DatasetImport[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [format, setFormat] = useState(DatasetImportFormat.YOLO);
+  const [file, setFile] = useState<File | null>(null);
+  const [createMissingClasses, setCreateMissingClasses] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const [openErrorsId, setOpenErrorsId] = useState<string | null>(null);
+
+  const fetchImports = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await getDatasetImports(projectId);
+      if (response.success && response.data) {
+        setImports(response.data.imports);
+      } else {
+        console.error("Failed to fetch imports:", response.error);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchImports();
+  }, [fetchImports]);
+
+  // Poll the running imports, announcing each one as it finishes
+  const runningIds = imports
+    .filter(isRunning)
+    .map((datasetImport) => datasetImport.id)
+    .join(",");
+
+  useEffect(() => {
+    if (!runningIds) return;
+
+    const interval = setInterval(async () => {
+      const responses = await Promise.all(
+        runningIds
+          .split(",")
+          .map((importId) => getDatasetImportStatus(projectId, importId))
+      );
+      const updated = responses.flatMap((response) =>
+        response.success && response.data ? [response.data] : []
+      );
+
+      updated
+        .filter((datasetImport) => !isRunning(datasetImport))
+        .forEach((datasetImport) => {
+          if (datasetImport.status === DatasetImportStatus.FAILED) {
+            toast.error("Import failed", {
+              description: datasetImport.error,
+            });
+          } else {
+            toast.success("Dataset imported", {
+              description: `${datasetImport.importedImages} images and ${datasetImport.importedObjects} objects imported${
+                datasetImport.errors.length > 0
+                  ? `, ${datasetImport.errors.length} problems`
+                  : ""
+              }`,
+            });
+          }
+        });
+
+      setImports((prev) =>
+        prev.map(
+          (datasetImport) =>
+            updated.find((update) => update.id === datasetImport.id) ||
+            datasetImport
+        )
+      );
+    }, 2000);
+
+    return () => clearInterval(interval);
+  }, [runningIds, projectId]);
+
+  const handleImport = async () => {
+    if (!file) {
+      toast.error("Please choose a file to import");
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const response = await importDataset(
+        projectId,
+        format,
+        file,
+        createMissingClasses
+      );
+      if (response.success && response.data) {
+        const datasetImport = response.data;
+        setImports((prev) => [datasetImport, ...prev]);
+        setIsDialogOpen(false);
+        setFile(null);
+      } else {
+        toast.error("Failed to import dataset", {
+          description: response.error,
+        });
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-lg">Dataset Imports</CardTitle>
+          <CardDescription>
+            Labeled images imported from other tools, ready for review
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setIsDialogOpen(true)}>
+          <Upload className="h-4 w-4 mr-1" />
+          Import Dataset
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : imports.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No imports yet
+          </p>
+        ) : (
+          <div className="divide-y">
+            {imports.map((datasetImport) => (
+              <div key={datasetImport.id} className="py-2 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <FileArchive className="h-4 w-4 text-muted-foreground shrink-0" />
+                    <span className="font-medium truncate">
+                      {datasetImport.filename}
+                    </span>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {datasetImport.format} ·{" "}
+                      {formatDistanceToNow(new Date(datasetImport.createdAt), {
+                        addSuffix: true,
+                      })}
+                    </span>
+                  </div>
+                  {isRunning(datasetImport) && (
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                  )}
+                </div>
+                {isRunning(datasetImport) ? (
+                  <Progress value={datasetImport.progress} className="h-2" />
+                ) : datasetImport.status === DatasetImportStatus.FAILED ? (
+                  <p className="flex items-center gap-1 text-xs text-red-600">
+                    <AlertCircle className="h-3 w-3 shrink-0" />
+                    {datasetImport.error || "Import failed"}
+                  </p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    {datasetImport.importedImages} images,{" "}
+                    {datasetImport.importedObjects} objects
+                    {datasetImport.createdClasses.length > 0 &&
+                      ` · Created classes: ${datasetImport.createdClasses.join(", ")}`}
+                    {datasetImport.errors.length > 0 && (
+                      <>
+                        {" · "}
+                        <button
+                          type="button"
+                          className="text-amber-600 underline-offset-2 hover:underline"
+                          onClick={() =>
+                            setOpenErrorsId((prev) =>
+                              prev === datasetImport.id
+                                ? null
+                                : datasetImport.id
+                            )
+                          }
+                        >
+                          {datasetImport.errors.length} files or lines
+                          skipped
+                        </button>
+                      </>
+                    )}
+                  </p>
+                )}
+                {openErrorsId === datasetImport.id && (
+                  <ul className="rounded-md border bg-muted/40 p-2 text-xs space-y-1 max-h-48 overflow-y-auto">
+                    {datasetImport.errors
+                      .slice(0, SHOWN_ERRORS)
+                      .map((error, index) => (
+                        <li key={index}>
+                          <span className="font-mono">
+                            {error.file}
+                            {error.line !== undefined && `:${error.line}`}
+                          </span>{" "}
+                          — {error.message}
+                        </li>
+                      ))}
+                    {datasetImport.errors.length > SHOWN_ERRORS && (
+                      <li className="text-muted-foreground">
+                        and {datasetImport.errors.length - SHOWN_ERRORS} more
+                      </li>
+                    )}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Import Dataset</DialogTitle>
+            <DialogDescription>
+              {FORMAT_DETAILS[format].description}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select
+                value={format}
+                onValueChange={(value) => {
+                  setFormat(value as DatasetImportFormat);
+                  setFile(null);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(DatasetImportFormat).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {FORMAT_DETAILS[value].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dataset-file">File</Label>
+              <Input
+                key={format}
+                id="dataset-file"
+                type="file"
+                accept={FORMAT_DETAILS[format].accept}
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+              />
+            </div>
+            <div className="flex items-start space-x-2">
+              <Checkbox
+                id="create-missing-classes"
+                checked={createMissingClasses}
+                onCheckedChange={(checked) =>
+                  setCreateMissingClasses(checked === true)
+                }
+              />
+              <div className="grid gap-1.5 leading-none">
+                <Label htmlFor="create-missing-classes">
+                  Create missing classes
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  Classes are matched to project classes by name. Otherwise,
+                  objects of unknown classes are skipped.
+                </p>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleImport} disabled={isImporting || !file}>
+              {isImporting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Import
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,5 +1,5 @@
 // components/admin/projects/project-detail/project-overview.tsx
-import { Project, ProjectClass } from "@/lib/types";
+import { Project } from "@/lib/types";
 import {
   Card,
   CardContent,
@@ -8,9 +8,10 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { Badge } from "@/components/ui/badge";
 import { format } from "date-fns";
 import { ProjectExportsPanel } from "./project-exports-panel";
+import { ProjectDatasetVersions } from "./project-dataset-versions";
+import { ClassDistribution } from "./class-distribution";
 
 interface ProjectOverviewProps {
   project: Project;
@@ -168,41 +169,20 @@ export function ProjectOverview({ project }: ProjectOverviewProps) {
           </CardContent>
         </Card>
 
-        <Card>
-          <CardHeader>
-            <CardTitle>Annotation Classes</CardTitle>
-            <CardDescription>Classes defined for this project</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-3">
-              {project.classes.length === 0 ? (
-                <p className="text-muted-foreground text-sm">
-                  No classes defined
-                </p>
-              ) : (
-                project.classes.map((cls: ProjectClass) => (
-                  <div key={cls.id} className="flex items-center gap-2">
-                    <div
-                      className="w-4 h-4 rounded-full"
-                      style={{ backgroundColor: cls.color }}
-                    />
-                    <span className="flex-1">{cls.name}</span>
-                    {cls.isCustom && (
-                      <Badge variant="outline" className="text-xs">
-                        Custom
-                      </Badge>
-                    )}
-                  </div>
-                ))
-              )}
-            </div>
-          </CardContent>
-        </Card>
+        <ClassDistribution projectId={project.id} classes={project.classes} />
       </div>
 
       {/* Project Exports Section */}
       {project.totalImages > 0 && (
-        <ProjectExportsPanel projectId={project.id} />
+        <ProjectExportsPanel
+          projectId={project.id}
+          classes={project.classes}
+        />
+      )}
+
+      {/* Dataset Versions Section */}
+      {project.totalImages > 0 && (
+        <ProjectDatasetVersions projectId={project.id} />
       )}
     </div>
   );
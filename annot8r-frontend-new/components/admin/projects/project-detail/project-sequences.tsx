@@ -0,0 +1,500 @@
+// components/admin/projects/project-detail/project-sequences.tsx
+import { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertCircle, Film, Loader2, Plus, Trash, Video } from "lucide-react";
+import {
+  FrameSamplingMode,
+  ImageSequence,
+  ProjectImage,
+  VideoImport,
+  VideoImportStatus,
+} from "@/lib/types";
+import {
+  createSequence,
+  deleteSequence,
+  getProjectImages,
+  getSequences,
+  getVideoImports,
+  uploadVideo,
+} from "@/lib/api/projects";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+
+interface ProjectSequencesProps {
+  projectId: string;
+}
+
+export function ProjectSequences({ projectId }: ProjectSequencesProps) {
+  const [sequences, setSequences] = useState<ImageSequence[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [images, setImages] = useState<ProjectImage[]>([]);
+  const [name, setName] = useState("");
+  const [filter, setFilter] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  // State for video upload
+  const [videoImports, setVideoImports] = useState<VideoImport[]>([]);
+  const [isVideoDialogOpen, setIsVideoDialogOpen] = useState(false);
+  const [videoFile, setVideoFile] = useState<File | null>(null);
+  const [samplingMode, setSamplingMode] = useState<FrameSamplingMode>(
+    FrameSamplingMode.FPS
+  );
+  const [samplingValue, setSamplingValue] = useState("1");
+  const [isUploadingVideo, setIsUploadingVideo] = useState(false);
+
+  const fetchSequences = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await getSequences(projectId);
+      if (response.success && response.data) {
+        setSequences(response.data.sequences);
+      } else {
+        console.error("Failed to fetch sequences:", response.error);
+      }
+    } catch (error) {
+      console.error("Error fetching sequences:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  const fetchVideoImports = useCallback(async () => {
+    const response = await getVideoImports(projectId);
+    if (response.success && response.data) {
+      setVideoImports(response.data.videos);
+    }
+    return response.data?.videos || [];
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchSequences();
+    fetchVideoImports();
+  }, [fetchSequences, fetchVideoImports]);
+
+  // Poll while frames are being extracted, refreshing the sequences once
+  // every video is done
+  const activeImports = videoImports.filter(
+    (video) =>
+      video.status !== VideoImportStatus.COMPLETED &&
+      video.status !== VideoImportStatus.FAILED
+  );
+  const hasActiveImports = activeImports.length > 0;
+
+  useEffect(() => {
+    if (!hasActiveImports) return;
+
+    const interval = setInterval(async () => {
+      const videos = await fetchVideoImports();
+      const stillActive = videos.some(
+        (video) =>
+          video.status !== VideoImportStatus.COMPLETED &&
+          video.status !== VideoImportStatus.FAILED
+      );
+      if (!stillActive) {
+        fetchSequences();
+      }
+    }, 2000);
+
+    return () => clearInterval(interval);
+  }, [hasActiveImports, fetchVideoImports, fetchSequences]);
+
+  // Imports worth showing: running ones, and recent failures and videos
+  // cut short by the frame limit
+  const shownImports = videoImports.filter((video) =>
+    video.status === VideoImportStatus.FAILED ||
+    (video.status === VideoImportStatus.COMPLETED && video.truncated)
+      ? Date.now() - new Date(video.createdAt).getTime() < 24 * 60 * 60 * 1000
+      : video.status !== VideoImportStatus.COMPLETED
+  );
+
+  const handleVideoUpload = async () => {
+    if (!videoFile) {
+      toast.error("Please choose a video");
+      return;
+    }
+
+    const value = Number(samplingValue);
+    if (
+      !(value > 0) ||
+      (samplingMode === FrameSamplingMode.EVERY_NTH_FRAME &&
+        !Number.isInteger(value))
+    ) {
+      toast.error(
+        samplingMode === FrameSamplingMode.FPS
+          ? "Please enter a positive frame rate"
+          : "Please enter a whole number of frames"
+      );
+      return;
+    }
+
+    setIsUploadingVideo(true);
+    try {
+      const response = await uploadVideo(projectId, videoFile, {
+        samplingMode,
+        samplingValue: value,
+      });
+      if (response.success && response.data) {
+        toast.success("Video uploaded", {
+          description: "Frames are being extracted into a new sequence",
+        });
+        setVideoImports((prev) => [response.data!, ...prev]);
+        setIsVideoDialogOpen(false);
+        setVideoFile(null);
+      } else {
+        toast.error("Failed to upload video", {
+          description: response.error,
+        });
+      }
+    } finally {
+      setIsUploadingVideo(false);
+    }
+  };
+
+  const openDialog = async () => {
+    setName("");
+    setFilter("");
+    setIsDialogOpen(true);
+
+    const response = await getProjectImages(projectId, 1, 1000);
+    if (response.success && response.data) {
+      setImages(response.data.data);
+    } else {
+      toast.error("Failed to load images", { description: response.error });
+    }
+  };
+
+  // Frames are the matching images outside any sequence, in filename order
+  const frames = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return images
+      .filter(
+        (image) =>
+          !image.sequenceId && image.filename.toLowerCase().includes(query)
+      )
+      .sort((a, b) =>
+        a.filename.localeCompare(b.filename, undefined, { numeric: true })
+      );
+  }, [images, filter]);
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast.error("Please enter a sequence name");
+      return;
+    }
+    if (frames.length < 2) {
+      toast.error("A sequence needs at least 2 frames");
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const response = await createSequence(projectId, {
+        name: name.trim(),
+        imageIds: frames.map((image) => image.id),
+      });
+      if (response.success) {
+        toast.success("Sequence created");
+        setIsDialogOpen(false);
+        fetchSequences();
+      } else {
+        toast.error("Failed to create sequence", {
+          description: response.error,
+        });
+      }
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDelete = async (sequenceId: string) => {
+    setDeletingId(sequenceId);
+    try {
+      const response = await deleteSequence(projectId, sequenceId);
+      if (response.success) {
+        setSequences((prev) => prev.filter((seq) => seq.id !== sequenceId));
+        toast.success("Sequence deleted");
+      } else {
+        toast.error("Failed to delete sequence", {
+          description: response.error,
+        });
+      }
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-lg">Sequences</CardTitle>
+          <CardDescription>
+            Ordered video frames whose objects can be tracked across frames
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setIsVideoDialogOpen(true)}
+          >
+            <Video className="h-4 w-4 mr-1" />
+            Upload Video
+          </Button>
+          <Button size="sm" onClick={openDialog}>
+            <Plus className="h-4 w-4 mr-1" />
+            Create Sequence
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {shownImports.length > 0 && (
+          <div className="space-y-3 mb-4">
+            {shownImports.map((video) => (
+              <div key={video.id} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium truncate">{video.filename}</span>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {video.status === VideoImportStatus.UPLOADING
+                      ? `Uploading ${video.uploadedFrames} / ${video.extractedFrames} frames`
+                      : video.status === VideoImportStatus.FAILED
+                      ? "Failed"
+                      : video.status === VideoImportStatus.COMPLETED
+                      ? `${video.extractedFrames} frames`
+                      : "Extracting frames"}
+                  </span>
+                </div>
+                {video.status === VideoImportStatus.FAILED ? (
+                  <p className="flex items-center gap-1 text-xs text-red-600">
+                    <AlertCircle className="h-3 w-3 shrink-0" />
+                    {video.error || "Frame extraction failed"}
+                  </p>
+                ) : (
+                  video.status !== VideoImportStatus.COMPLETED && (
+                    <Progress value={video.progress} className="h-2" />
+                  )
+                )}
+                {video.truncated && (
+                  <p className="flex items-center gap-1 text-xs text-amber-600">
+                    <AlertCircle className="h-3 w-3 shrink-0" />
+                    Frame limit reached, only the first{" "}
+                    {video.extractedFrames} frames were kept
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : sequences.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No sequences yet
+          </p>
+        ) : (
+          <div className="divide-y">
+            {sequences.map((sequence) => (
+              <div
+                key={sequence.id}
+                className="flex items-center justify-between py-2"
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <Film className="h-4 w-4 text-muted-foreground shrink-0" />
+                  <span className="font-medium truncate">{sequence.name}</span>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {sequence.frameCount} frames ·{" "}
+                    {formatDistanceToNow(new Date(sequence.createdAt), {
+                      addSuffix: true,
+                    })}
+                  </span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(sequence.id)}
+                  disabled={deletingId === sequence.id}
+                  title="Delete sequence (frames are kept)"
+                >
+                  {deletingId === sequence.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isVideoDialogOpen} onOpenChange={setIsVideoDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Upload Video</DialogTitle>
+            <DialogDescription>
+              Sampled frames become project images, grouped into a sequence
+              named after the video.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="video-file">Video</Label>
+              <Input
+                id="video-file"
+                type="file"
+                accept="video/*"
+                onChange={(e) => setVideoFile(e.target.files?.[0] || null)}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Sampling</Label>
+                <Select
+                  value={samplingMode}
+                  onValueChange={(value) =>
+                    setSamplingMode(value as FrameSamplingMode)
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={FrameSamplingMode.FPS}>
+                      Frames per second
+                    </SelectItem>
+                    <SelectItem value={FrameSamplingMode.EVERY_NTH_FRAME}>
+                      Every Nth frame
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sampling-value">
+                  {samplingMode === FrameSamplingMode.FPS
+                    ? "Frames per second"
+                    : "N"}
+                </Label>
+                <Input
+                  id="sampling-value"
+                  type="number"
+                  min={samplingMode === FrameSamplingMode.FPS ? 0.1 : 1}
+                  step={samplingMode === FrameSamplingMode.FPS ? 0.1 : 1}
+                  value={samplingValue}
+                  onChange={(e) => setSamplingValue(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsVideoDialogOpen(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleVideoUpload}
+              disabled={isUploadingVideo || !videoFile}
+            >
+              {isUploadingVideo && (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              )}
+              Upload
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create Sequence</DialogTitle>
+            <DialogDescription>
+              Images outside other sequences that match the filter become
+              frames, ordered by filename.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sequence-name">Name</Label>
+              <Input
+                id="sequence-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Camera 1, morning"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sequence-filter">Filename filter</Label>
+              <Input
+                id="sequence-filter"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="e.g. cam1_"
+              />
+            </div>
+            <div className="rounded-md border max-h-48 overflow-y-auto p-2 text-sm">
+              {frames.length === 0 ? (
+                <p className="text-muted-foreground text-center py-2">
+                  No matching images
+                </p>
+              ) : (
+                frames.map((image, index) => (
+                  <div key={image.id} className="flex gap-2">
+                    <span className="w-10 text-right text-muted-foreground">
+                      {index + 1}
+                    </span>
+                    <span className="truncate">{image.filename}</span>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreate}
+              disabled={isCreating || frames.length < 2}
+            >
+              {isCreating && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Create ({frames.length} frames)
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,8 +1,11 @@
 // components/admin/projects/project-detail/project-settings.tsx
 import { useState } from "react";
 import {
+  ClassAttribute,
+  ImageLabelSet,
   Project,
   ProjectClass,
+  ProjectSkeleton,
   ProjectStatus,
 } from "@/lib/types";
 import { updateProject, deleteProject } from "@/lib/api/projects";
@@ -39,7 +42,20 @@ import {
 } from "@/components/ui/select";
 import { toast } from "sonner";
 import { useRouter } from "next/navigation";
-import { X, Plus, Trash2, RefreshCw } from "lucide-react";
+import { X, Plus, Trash2, RefreshCw, SlidersHorizontal } from "lucide-react";
+import {
+  PoseSkeletonEditor,
+  getSkeletonError,
+} from "@/components/admin/projects/pose-skeleton-editor";
+import {
+  ImageLabelSetsEditor,
+  getImageLabelSetsError,
+} from "@/components/admin/projects/image-label-sets-editor";
+import {
+  ClassAttributesEditor,
+  getClassAttributesError,
+} from "@/components/admin/projects/class-attributes-editor";
+import { getClassPath, getDescendantIds } from "@/lib/utils/taxonomy";
 
 interface ProjectSettingsProps {
   project: Project;
@@ -54,6 +70,13 @@ export function ProjectSettings({ project, onUpdate }: ProjectSettingsProps) {
   );
   const [status, setStatus] = useState(project.status);
   const [classes, setClasses] = useState<ProjectClass[]>(project.classes);
+  const [expandedClassId, setExpandedClassId] = useState<string | null>(null);
+  const [skeleton, setSkeleton] = useState<ProjectSkeleton | undefined>(
+    project.skeleton
+  );
+  const [imageLabelSets, setImageLabelSets] = useState<ImageLabelSet[]>(
+    project.imageLabelSets || []
+  );
   const [isUpdating, setIsUpdating] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -75,8 +98,15 @@ export function ProjectSettings({ project, onUpdate }: ProjectSettingsProps) {
   };
 
   const handleRemoveClass = (index: number) => {
-    const newClasses = [...classes];
-    newClasses.splice(index, 1);
+    const removed = classes[index];
+    // Move the children of the removed class up to its parent
+    const newClasses = classes
+      .filter((_, i) => i !== index)
+      .map((cls) =>
+        cls.parentId === removed.id
+          ? { ...cls, parentId: removed.parentId }
+          : cls
+      );
     setClasses(newClasses);
   };
 
@@ -93,6 +123,21 @@ export function ProjectSettings({ project, onUpdate }: ProjectSettingsProps) {
     setClasses(newClasses);
   };
 
+  const handleClassParentChange = (index: number, parentId?: string) => {
+    const newClasses = [...classes];
+    newClasses[index] = { ...newClasses[index], parentId };
+    setClasses(newClasses);
+  };
+
+  const handleClassAttributesChange = (
+    index: number,
+    attributes: ClassAttribute[]
+  ) => {
+    const newClasses = [...classes];
+    newClasses[index] = { ...newClasses[index], attributes };
+    setClasses(newClasses);
+  };
+
   const handleProjectUpdate = async () => {
     // Validate that we have at least one class with a name
     if (
@@ -109,6 +154,24 @@ export function ProjectSettings({ project, onUpdate }: ProjectSettingsProps) {
       return;
     }
 
+    const attributesError = getClassAttributesError(classes);
+    if (attributesError) {
+      toast.error(attributesError);
+      return;
+    }
+
+    const skeletonError = getSkeletonError(skeleton);
+    if (skeletonError) {
+      toast.error(skeletonError);
+      return;
+    }
+
+    const imageLabelSetsError = getImageLabelSetsError(imageLabelSets);
+    if (imageLabelSetsError) {
+      toast.error(imageLabelSetsError);
+      return;
+    }
+
     setIsUpdating(true);
     try {
       const updateData = {
@@ -116,6 +179,8 @@ export function ProjectSettings({ project, onUpdate }: ProjectSettingsProps) {
         allowCustomClasses,
         status,
         classes,
+        skeleton,
+        imageLabelSets,
       };
 
       const response = await updateProject(project.id, updateData);
@@ -253,6 +318,7 @@ export function ProjectSettings({ project, onUpdate }: ProjectSettingsProps) {
               setAllowCustomClasses(project.allowCustomClasses);
               setStatus(project.status);
               setClasses(project.classes);
+              setSkeleton(project.skeleton);
             }}
           >
             Reset
@@ -275,7 +341,9 @@ export function ProjectSettings({ project, onUpdate }: ProjectSettingsProps) {
         <CardHeader>
           <CardTitle>Annotation Classes</CardTitle>
           <CardDescription>
-            Define the object classes for this project
+            Define the object classes for this project, their parent classes
+            (e.g. vehicle → car → sedan) and the attributes (e.g. occluded,
+            color) annotators fill in for each object
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -287,32 +355,91 @@ export function ProjectSettings({ project, onUpdate }: ProjectSettingsProps) {
             ) : (
               <div className="space-y-3">
                 {classes.map((cls, index) => (
-                  <div key={cls.id} className="flex gap-3">
-                    <Input
-                      value={cls.color}
-                      onChange={(e) =>
-                        handleClassChange(index, "color", e.target.value)
-                      }
-                      type="color"
-                      className="w-16 p-1 h-10"
-                    />
-                    <Input
-                      value={cls.name}
-                      onChange={(e) =>
-                        handleClassChange(index, "name", e.target.value)
-                      }
-                      placeholder="Class name"
-                      className="flex-1"
-                    />
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => handleRemoveClass(index)}
-                      disabled={classes.length <= 1}
-                    >
-                      <X className="h-4 w-4" />
-                    </Button>
+                  <div key={cls.id} className="space-y-3">
+                    <div className="flex gap-3">
+                      <Input
+                        value={cls.color}
+                        onChange={(e) =>
+                          handleClassChange(index, "color", e.target.value)
+                        }
+                        type="color"
+                        className="w-16 p-1 h-10"
+                      />
+                      <Input
+                        value={cls.name}
+                        onChange={(e) =>
+                          handleClassChange(index, "name", e.target.value)
+                        }
+                        placeholder="Class name"
+                        className="flex-1"
+                      />
+                      <Select
+                        value={cls.parentId || "none"}
+                        onValueChange={(value) =>
+                          handleClassParentChange(
+                            index,
+                            value === "none" ? undefined : value
+                          )
+                        }
+                      >
+                        <SelectTrigger className="w-44" title="Parent class">
+                          <SelectValue placeholder="Parent class" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">No parent</SelectItem>
+                          {classes
+                            .filter(
+                              (other) =>
+                                other.id !== cls.id &&
+                                !getDescendantIds(classes, cls.id).includes(
+                                  other.id
+                                )
+                            )
+                            .map((other) => (
+                              <SelectItem key={other.id} value={other.id}>
+                                {getClassPath(classes, other.id)
+                                  .map((name) => name || "Unnamed class")
+                                  .join(" › ")}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        type="button"
+                        variant={
+                          expandedClassId === cls.id ? "secondary" : "ghost"
+                        }
+                        size="sm"
+                        onClick={() =>
+                          setExpandedClassId(
+                            expandedClassId === cls.id ? null : cls.id
+                          )
+                        }
+                        title="Attributes"
+                      >
+                        <SlidersHorizontal className="h-4 w-4 mr-1" />
+                        {cls.attributes?.length || 0}
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRemoveClass(index)}
+                        disabled={classes.length <= 1}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    {expandedClassId === cls.id && (
+                      <div className="ml-4 rounded-md border p-3">
+                        <ClassAttributesEditor
+                          attributes={cls.attributes || []}
+                          onChange={(attributes) =>
+                            handleClassAttributesChange(index, attributes)
+                          }
+                        />
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -350,6 +477,77 @@ export function ProjectSettings({ project, onUpdate }: ProjectSettingsProps) {
         </CardFooter>
       </Card>
 
+      {/* Pose Skeleton Settings */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Pose Skeleton</CardTitle>
+          <CardDescription>
+            Define named keypoints and the edges between them for pose
+            annotation. Keypoints are exported in this order, so avoid
+            reordering them once annotation has started.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PoseSkeletonEditor skeleton={skeleton} onChange={setSkeleton} />
+        </CardContent>
+        <CardFooter className="flex justify-between">
+          <Button
+            variant="outline"
+            disabled={isUpdating}
+            onClick={() => setSkeleton(project.skeleton)}
+          >
+            Reset
+          </Button>
+          <Button onClick={handleProjectUpdate} disabled={isUpdating}>
+            {isUpdating ? (
+              <>
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                Updating...
+              </>
+            ) : (
+              "Save Changes"
+            )}
+          </Button>
+        </CardFooter>
+      </Card>
+
+      {/* Image Label Settings */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Image Labels</CardTitle>
+          <CardDescription>
+            Define label sets that apply to a whole image rather than a single
+            object. Annotators pick them in the editor and they are exported as
+            an image_labels.csv/json manifest.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ImageLabelSetsEditor
+            labelSets={imageLabelSets}
+            onChange={setImageLabelSets}
+          />
+        </CardContent>
+        <CardFooter className="flex justify-between">
+          <Button
+            variant="outline"
+            disabled={isUpdating}
+            onClick={() => setImageLabelSets(project.imageLabelSets || [])}
+          >
+            Reset
+          </Button>
+          <Button onClick={handleProjectUpdate} disabled={isUpdating}>
+            {isUpdating ? (
+              <>
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                Updating...
+              </>
+            ) : (
+              "Save Changes"
+            )}
+          </Button>
+        </CardFooter>
+      </Card>
+
       {/* Danger Zone */}
       <Card className="border-destructive">
         <CardHeader className="text-destructive">
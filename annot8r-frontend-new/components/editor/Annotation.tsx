@@ -1,5 +1,8 @@
 import React from "react";
 
+// Distance in image pixels between the top edge of a box and its rotation handle
+export const ROTATION_HANDLE_OFFSET = 40;
+
 interface AnnotationProps {
   annotation: {
     id: string;
@@ -8,6 +11,7 @@ interface AnnotationProps {
     width: number;
     height: number;
     class: string;
+    angle?: number;
   };
   isSelected: boolean;
   isDrawing?: boolean;
@@ -45,6 +49,10 @@ export default function Annotation({
         width: `${annotation.width}px`,
         height: `${annotation.height}px`,
         borderColor: borderColor,
+        transform: annotation.angle
+          ? `rotate(${annotation.angle}deg)`
+          : undefined,
+        transformOrigin: "center",
       }}
     >
       {isSelected && (
@@ -60,6 +68,16 @@ export default function Annotation({
           <div className="absolute w-6 h-6 bg-white border-4 border-blue-500 rounded-full shadow-lg top-1/2 -translate-y-1/2 -right-3 cursor-e-resize" />
           <div className="absolute w-6 h-6 bg-white border-4 border-blue-500 rounded-full shadow-lg -top-3 left-1/2 -translate-x-1/2 cursor-n-resize" />
           <div className="absolute w-6 h-6 bg-white border-4 border-blue-500 rounded-full shadow-lg -bottom-3 left-1/2 -translate-x-1/2 cursor-s-resize" />
+
+          {/* Rotation handle */}
+          <div
+            className="absolute w-1 bg-blue-500 left-1/2 -translate-x-1/2"
+            style={{ top: -ROTATION_HANDLE_OFFSET, height: ROTATION_HANDLE_OFFSET }}
+          />
+          <div
+            className="absolute w-6 h-6 bg-blue-500 border-4 border-white rounded-full shadow-lg left-1/2 -translate-x-1/2 cursor-grab"
+            style={{ top: -ROTATION_HANDLE_OFFSET - 12 }}
+          />
         </>
       )}
 
@@ -1,6 +1,7 @@
 import React from "react";
-import { Save, Trash2, BoxSelectIcon, AlertCircle, Zap, RefreshCw } from "lucide-react";
+import { Save, Trash2, BoxSelectIcon, AlertCircle, Zap, RefreshCw, Pentagon, Spline, PersonStanding, Brush, Eraser } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { DrawingTool } from "@/lib/types/editor";
 import {
   Tooltip,
   TooltipContent,
@@ -10,11 +11,17 @@ import {
 
 interface AnnotationToolbarProps {
   onBoundingBoxCreateMode: () => void;
+  onPolygonCreateMode: () => void;
+  onPolylineCreateMode: () => void;
+  onKeypointMode?: () => void;
+  onBrushMode?: () => void;
+  onEraserMode?: () => void;
   onDeleteAll: () => void;
   onSave: () => void;
   onAutoAnnotate?: () => void;
   onRequestChanges?: () => void;
   isDrawing: boolean;
+  drawingTool: DrawingTool;
   isAdmin?: boolean;
   isOfficeUser?: boolean;
   isSaving?: boolean;
@@ -22,11 +29,17 @@ interface AnnotationToolbarProps {
 
 export default function AnnotationToolbar({
   onBoundingBoxCreateMode,
+  onPolygonCreateMode,
+  onPolylineCreateMode,
+  onKeypointMode,
+  onBrushMode,
+  onEraserMode,
   onDeleteAll,
   onSave,
   onAutoAnnotate,
   onRequestChanges,
   isDrawing,
+  drawingTool,
   isAdmin = false,
   isOfficeUser = false,
   isSaving = false
@@ -43,7 +56,9 @@ export default function AnnotationToolbar({
               variant="ghost"
               size="icon"
               className={`w-10 h-10 rounded-full transition-all hover:bg-gray-100 ${
-                isDrawing ? "bg-gray-900 text-white hover:bg-gray-800" : ""
+                isDrawing && drawingTool === "box"
+                  ? "bg-gray-900 text-white hover:bg-gray-800"
+                  : ""
               }`}
             >
               <BoxSelectIcon className="w-5 h-5" />
@@ -52,6 +67,104 @@ export default function AnnotationToolbar({
           <TooltipContent>Draw Bounding Box (B)</TooltipContent>
         </Tooltip>
 
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              onClick={onPolygonCreateMode}
+              variant="ghost"
+              size="icon"
+              className={`w-10 h-10 rounded-full transition-all hover:bg-gray-100 ${
+                isDrawing && drawingTool === "polygon"
+                  ? "bg-gray-900 text-white hover:bg-gray-800"
+                  : ""
+              }`}
+            >
+              <Pentagon className="w-5 h-5" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>Draw Polygon (P)</TooltipContent>
+        </Tooltip>
+
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              onClick={onPolylineCreateMode}
+              variant="ghost"
+              size="icon"
+              className={`w-10 h-10 rounded-full transition-all hover:bg-gray-100 ${
+                isDrawing && drawingTool === "polyline"
+                  ? "bg-gray-900 text-white hover:bg-gray-800"
+                  : ""
+              }`}
+            >
+              <Spline className="w-5 h-5" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>Draw Polyline (I)</TooltipContent>
+        </Tooltip>
+
+        {/* Keypoint Button - Only for projects with a skeleton */}
+        {onKeypointMode && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                onClick={onKeypointMode}
+                variant="ghost"
+                size="icon"
+                className={`w-10 h-10 rounded-full transition-all hover:bg-gray-100 ${
+                  isDrawing && drawingTool === "keypoint"
+                    ? "bg-gray-900 text-white hover:bg-gray-800"
+                    : ""
+                }`}
+              >
+                <PersonStanding className="w-5 h-5" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Place Keypoints (K)</TooltipContent>
+          </Tooltip>
+        )}
+
+        {/* Mask Brush and Eraser Buttons */}
+        {onBrushMode && onEraserMode && (
+          <>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  onClick={onBrushMode}
+                  variant="ghost"
+                  size="icon"
+                  className={`w-10 h-10 rounded-full transition-all hover:bg-gray-100 ${
+                    isDrawing && drawingTool === "brush"
+                      ? "bg-gray-900 text-white hover:bg-gray-800"
+                      : ""
+                  }`}
+                >
+                  <Brush className="w-5 h-5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Mask Brush (M)</TooltipContent>
+            </Tooltip>
+
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  onClick={onEraserMode}
+                  variant="ghost"
+                  size="icon"
+                  className={`w-10 h-10 rounded-full transition-all hover:bg-gray-100 ${
+                    isDrawing && drawingTool === "eraser"
+                      ? "bg-gray-900 text-white hover:bg-gray-800"
+                      : ""
+                  }`}
+                >
+                  <Eraser className="w-5 h-5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Mask Eraser (E)</TooltipContent>
+            </Tooltip>
+          </>
+        )}
+
         <div className="w-px h-6 bg-gray-200" />
 
         {/* Auto-Annotate Button - Only for Office Users */}
@@ -0,0 +1,126 @@
+import React from "react";
+import { SlidersHorizontal } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { AttributeType, AttributeValue, ClassAttribute } from "@/lib/types";
+
+interface AttributePanelProps {
+  annotation: {
+    id: string;
+    class: string;
+    attributes?: Record<string, AttributeValue>;
+  };
+  attributes: ClassAttribute[];
+  onChange: (values: Record<string, AttributeValue>) => void;
+}
+
+export default function AttributePanel({
+  annotation,
+  attributes,
+  onChange,
+}: AttributePanelProps) {
+  const values = annotation.attributes || {};
+
+  // Unset values are removed rather than stored empty
+  const setValue = (name: string, value: AttributeValue | undefined) => {
+    const newValues = { ...values };
+    if (value === undefined) {
+      delete newValues[name];
+    } else {
+      newValues[name] = value;
+    }
+    onChange(newValues);
+  };
+
+  const renderEditor = (attribute: ClassAttribute) => {
+    const value = values[attribute.name];
+
+    switch (attribute.type) {
+      case AttributeType.BOOLEAN:
+        return (
+          <Switch
+            checked={value === true}
+            onCheckedChange={(checked) => setValue(attribute.name, checked)}
+          />
+        );
+      case AttributeType.ENUM:
+        return (
+          <div className="flex flex-wrap gap-1.5">
+            {(attribute.options || []).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() =>
+                  setValue(
+                    attribute.name,
+                    value === option ? undefined : option
+                  )
+                }
+                className={`px-2.5 py-1 rounded-full text-xs border transition-colors ${
+                  value === option
+                    ? "bg-blue-500 border-blue-500 text-white"
+                    : "bg-white border-gray-200 hover:bg-gray-50"
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        );
+      case AttributeType.NUMBER:
+        return (
+          <Input
+            type="number"
+            className="h-8"
+            value={typeof value === "number" ? value : ""}
+            onChange={(e) =>
+              setValue(
+                attribute.name,
+                e.target.value === "" ? undefined : Number(e.target.value)
+              )
+            }
+          />
+        );
+      case AttributeType.TEXT:
+        return (
+          <Input
+            className="h-8"
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) =>
+              setValue(
+                attribute.name,
+                e.target.value === "" ? undefined : e.target.value
+              )
+            }
+          />
+        );
+    }
+  };
+
+  return (
+    <div
+      className="fixed right-4 top-20 z-50 w-[280px]
+                 bg-white/90 backdrop-blur-md border border-gray-200/50
+                 rounded-xl shadow-lg overflow-hidden flex flex-col"
+    >
+      {/* Header */}
+      <div className="px-4 py-3 flex items-center gap-2 text-sm font-medium border-b border-gray-200/50 shrink-0">
+        <SlidersHorizontal className="w-4 h-4" />
+        {annotation.class} attributes
+      </div>
+
+      {/* Attribute editors */}
+      <div className="px-4 py-3 space-y-3 overflow-y-auto max-h-[calc(50vh-8rem)]">
+        {attributes.map((attribute) => (
+          <div key={attribute.name} className="space-y-1.5">
+            <div className="text-xs text-gray-500">
+              {attribute.name}
+              {attribute.required && <span className="text-red-500"> *</span>}
+            </div>
+            {renderEditor(attribute)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
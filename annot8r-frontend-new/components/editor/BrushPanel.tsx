@@ -0,0 +1,95 @@
+import React from "react";
+import { Brush, Eraser, Trash2 } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import { ProjectClass } from "@/lib/types";
+
+interface BrushPanelProps {
+  isEraser: boolean;
+  classes: ProjectClass[];
+  getClassColor: (cls: ProjectClass) => string;
+  selectedClassId: string | null;
+  onClassChange: (classId: string) => void;
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+  onClear: () => void;
+}
+
+export const MIN_BRUSH_SIZE = 1;
+export const MAX_BRUSH_SIZE = 200;
+
+export default function BrushPanel({
+  isEraser,
+  classes,
+  getClassColor,
+  selectedClassId,
+  onClassChange,
+  brushSize,
+  onBrushSizeChange,
+  onClear,
+}: BrushPanelProps) {
+  return (
+    <div
+      className="fixed bottom-24 left-1/2 transform -translate-x-1/2 z-50 w-[360px]
+                 bg-white/90 backdrop-blur-md border border-gray-200/50
+                 rounded-xl shadow-lg px-4 py-3 space-y-3"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between text-sm font-medium">
+        <div className="flex items-center gap-2">
+          {isEraser ? (
+            <Eraser className="w-4 h-4" />
+          ) : (
+            <Brush className="w-4 h-4" />
+          )}
+          {isEraser ? "Eraser" : "Mask brush"}
+        </div>
+        <button
+          type="button"
+          onClick={onClear}
+          className="flex items-center gap-1 text-xs text-gray-500 hover:text-red-500"
+        >
+          <Trash2 className="w-3.5 h-3.5" /> Clear mask
+        </button>
+      </div>
+
+      {/* Class picker */}
+      {!isEraser && (
+        <div className="flex flex-wrap gap-1.5">
+          {classes.map((cls) => (
+            <button
+              key={cls.id}
+              type="button"
+              onClick={() => onClassChange(cls.id)}
+              className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs border transition-colors ${
+                selectedClassId === cls.id
+                  ? "border-gray-900 bg-gray-900 text-white"
+                  : "bg-white border-gray-200 hover:bg-gray-50"
+              }`}
+            >
+              <span
+                className="w-2.5 h-2.5 rounded-full"
+                style={{ backgroundColor: getClassColor(cls) }}
+              />
+              {cls.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Brush size */}
+      <div className="flex items-center gap-3">
+        <span className="text-xs text-gray-500 shrink-0">Size</span>
+        <Slider
+          min={MIN_BRUSH_SIZE}
+          max={MAX_BRUSH_SIZE}
+          step={1}
+          value={[brushSize]}
+          onValueChange={([size]) => onBrushSizeChange(size)}
+        />
+        <span className="text-xs text-gray-500 w-10 text-right shrink-0">
+          {brushSize}px
+        </span>
+      </div>
+    </div>
+  );
+}
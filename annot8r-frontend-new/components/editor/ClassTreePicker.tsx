@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from "react";
+import { ChevronDown, Search } from "lucide-react";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Input } from "@/components/ui/input";
+import { ProjectClass } from "@/lib/types";
+import { flattenClassTree, getClassPath } from "@/lib/utils/taxonomy";
+
+interface ClassTreePickerProps {
+  classes: ProjectClass[];
+  value: string; // Class name
+  onSelect: (className: string) => void;
+}
+
+export default function ClassTreePicker({
+  classes,
+  value,
+  onSelect,
+}: ClassTreePickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState("");
+
+  const tree = useMemo(() => flattenClassTree(classes), [classes]);
+  const selectedClass = classes.find((cls) => cls.name === value);
+
+  // While searching, list matches flat with their full path instead
+  const query = search.trim().toLowerCase();
+  const rows = query
+    ? tree
+        .filter(({ cls }) => cls.name.toLowerCase().includes(query))
+        .map(({ cls }) => ({
+          cls,
+          depth: 0,
+          label: getClassPath(classes, cls.id).join(" › "),
+        }))
+    : tree.map(({ cls, depth }) => ({ cls, depth, label: cls.name }));
+
+  const handleSelect = (className: string) => {
+    onSelect(className);
+    setIsOpen(false);
+    setSearch("");
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="flex items-center justify-between gap-2 h-8 min-w-[120px] max-w-[180px]
+                     px-3 rounded-md border border-input bg-transparent text-sm shadow-sm"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {selectedClass ? (
+            <div className="flex items-center gap-2 min-w-0">
+              <div
+                className="w-3 h-3 rounded-full shrink-0"
+                style={{ backgroundColor: selectedClass.color }}
+              />
+              <span className="truncate">{selectedClass.name}</span>
+            </div>
+          ) : (
+            <span className="text-muted-foreground">Select class</span>
+          )}
+          <ChevronDown className="w-4 h-4 opacity-50 shrink-0" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-64 p-0"
+        align="start"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-3 border-b">
+          <Search className="w-4 h-4 text-gray-400 shrink-0" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => {
+              // Keep editor shortcuts from firing while typing
+              e.stopPropagation();
+              if (e.key === "Enter" && query && rows.length > 0) {
+                handleSelect(rows[0].cls.name);
+              }
+            }}
+            placeholder="Search classes..."
+            className="h-9 border-0 shadow-none px-0 focus-visible:ring-0"
+            autoFocus
+          />
+        </div>
+        <div className="max-h-64 overflow-y-auto p-1">
+          {rows.length === 0 ? (
+            <p className="px-2 py-3 text-sm text-center text-gray-500">
+              No classes found
+            </p>
+          ) : (
+            rows.map(({ cls, depth, label }) => (
+              <button
+                key={cls.id}
+                type="button"
+                onClick={() => handleSelect(cls.name)}
+                className={`flex w-full items-center gap-2 rounded-sm py-1.5 pr-2 text-sm text-left hover:bg-gray-100 ${
+                  cls.name === value ? "bg-gray-100 font-medium" : ""
+                }`}
+                style={{ paddingLeft: 8 + depth * 16 }}
+              >
+                <div
+                  className="w-3 h-3 rounded-full shrink-0"
+                  style={{ backgroundColor: cls.color }}
+                />
+                <span className="truncate">{label}</span>
+              </button>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
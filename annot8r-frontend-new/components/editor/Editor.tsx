@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { toast } from "sonner";
 import { PhotoViewer } from "./PhotoViewer";
 import {
@@ -11,9 +11,23 @@ import {
   autoAnnotate,
   updateImageFeedback,
   getSubmission,
+  getSequenceTracks,
 } from "@/lib/api/projects";
-import { ProjectClass } from "@/lib/types";
+import {
+  AnnotationMask,
+  AnnotationObjectType,
+  AttributeValue,
+  ImageLabelSet,
+  ImageLabelValue,
+  Keypoint,
+  NormalizedPoint,
+  ProjectClass,
+  ProjectSkeleton,
+  SequenceFrameTracks,
+} from "@/lib/types";
 import { AutosaveStatus } from "./AutoSaveIndicator";
+import { fitRotatedBox, getRotatedCorners } from "@/lib/utils/geometry";
+import { getNextTrackId, interpolateTracks } from "@/lib/utils/tracks";
 
 // Define types for annotation objects
 interface AnnotationObject {
@@ -23,6 +37,13 @@ interface AnnotationObject {
   width: number;
   height: number;
   class: string;
+  type?: AnnotationObjectType;
+  angle?: number;
+  points?: NormalizedPoint[];
+  keypoints?: Keypoint[];
+  attributes?: Record<string, AttributeValue>;
+  trackId?: number;
+  keyframe?: boolean;
 }
 
 interface EditorProps {
@@ -48,8 +69,30 @@ interface YoloObjectFromBackend {
   height: number;
   className: string;
   classId: string;
+  type?: AnnotationObjectType;
+  angle?: number;
+  points?: NormalizedPoint[];
+  keypoints?: Keypoint[];
+  attributes?: Record<string, AttributeValue>;
+  trackId?: number;
+  keyframe?: boolean;
 }
 
+// Keep only the attribute values declared by the object's current class, so
+// class changes and renamed attributes don't leave stale values behind
+const getClassAttributeValues = (
+  attributes: AnnotationObject["attributes"],
+  projectClass?: ProjectClass
+): AnnotationObject["attributes"] => {
+  if (!attributes || !projectClass?.attributes) return undefined;
+
+  return Object.fromEntries(
+    Object.entries(attributes).filter(([name]) =>
+      projectClass.attributes!.some((attr) => attr.name === name)
+    )
+  );
+};
+
 // Using AutosaveStatus type from AutoSaveIndicator component
 
 export function Editor({
@@ -70,7 +113,18 @@ export function Editor({
   // Core state
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [classes, setClasses] = useState<ProjectClass[]>([]);
+  const [skeleton, setSkeleton] = useState<ProjectSkeleton | undefined>();
   const [annotations, setAnnotations] = useState<AnnotationObject[]>([]);
+  const [imageLabelSets, setImageLabelSets] = useState<ImageLabelSet[]>([]);
+  const [imageLabels, setImageLabels] = useState<ImageLabelValue[]>([]);
+  const [mask, setMask] = useState<AnnotationMask | null>(null);
+  const [sequence, setSequence] = useState<{
+    id: string;
+    frameIndex: number;
+  } | null>(null);
+  const [sequenceFrames, setSequenceFrames] = useState<SequenceFrameTracks[]>(
+    []
+  );
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [saveStatus, setSaveStatus] = useState<AutosaveStatus>("not_available");
@@ -89,6 +143,10 @@ export function Editor({
   const isMountedRef = useRef<boolean>(true);
   const isInitialLoadCompletedRef = useRef<boolean>(false);
   const currentAnnotationsDigestRef = useRef<string>("[]");
+  const currentImageLabelsDigestRef = useRef<string>("[]");
+  const currentMaskDigestRef = useRef<string>("null");
+  const lastSavedImageLabelsRef = useRef<string>("[]");
+  const lastSavedMaskRef = useRef<string>("null");
 
   // Constants
   const MAX_RETRY_COUNT = 3;
@@ -130,6 +188,26 @@ export function Editor({
         width: width * imgWidth,
         height: height * imgHeight,
         class: yoloObject.className,
+        type: yoloObject.type,
+        angle: yoloObject.angle,
+        // Rotated box corners are derived from the angle, only polygons and
+        // polylines keep points
+        points:
+          yoloObject.type === AnnotationObjectType.POLYGON ||
+          yoloObject.type === AnnotationObjectType.POLYLINE
+            ? yoloObject.points?.map((point) => ({
+                x: point.x * imgWidth,
+                y: point.y * imgHeight,
+              }))
+            : undefined,
+        keypoints: yoloObject.keypoints?.map((keypoint) => ({
+          ...keypoint,
+          x: keypoint.x * imgWidth,
+          y: keypoint.y * imgHeight,
+        })),
+        attributes: yoloObject.attributes,
+        trackId: yoloObject.trackId,
+        keyframe: yoloObject.keyframe,
       };
     },
     [imageId]
@@ -139,15 +217,51 @@ export function Editor({
     (annotation: AnnotationObject): AnnotationObject => {
       if (imageSize.width === 0 || imageSize.height === 0) return annotation;
 
+      // Rotated boxes are moved, or shrunk, as a whole into the image and
+      // also send their corners, computed here where the real image size
+      // is known
+      const angle =
+        annotation.type !== AnnotationObjectType.POLYGON
+          ? annotation.angle
+          : undefined;
+      const box = angle
+        ? fitRotatedBox(annotation, angle, imageSize)
+        : annotation;
+      const points = angle ? getRotatedCorners(box, angle) : annotation.points;
+
+      // Keypoints move, and shrink, with their box
+      const scale = annotation.width > 0 ? box.width / annotation.width : 1;
+      const withBox = (point: { x: number; y: number }) => ({
+        x:
+          box.x +
+          box.width / 2 +
+          (point.x - annotation.x - annotation.width / 2) * scale,
+        y:
+          box.y +
+          box.height / 2 +
+          (point.y - annotation.y - annotation.height / 2) * scale,
+      });
+
+      // Clamping only trims rounding errors off fitted corners
+      const toNormalized = (point: { x: number; y: number }) => ({
+        x: Math.max(0, Math.min(point.x / imageSize.width, 1)),
+        y: Math.max(0, Math.min(point.y / imageSize.height, 1)),
+      });
+
       return {
         ...annotation,
-        x: annotation.x / imageSize.width,
-        y: annotation.y / imageSize.height,
-        width: annotation.width / imageSize.width,
-        height: annotation.height / imageSize.height,
+        x: box.x / imageSize.width,
+        y: box.y / imageSize.height,
+        width: box.width / imageSize.width,
+        height: box.height / imageSize.height,
+        points: points?.map(toNormalized),
+        keypoints: annotation.keypoints?.map((keypoint) => ({
+          ...keypoint,
+          ...toNormalized(withBox(keypoint)),
+        })),
       };
     },
-    [imageSize.width, imageSize.height]
+    [imageSize]
   );
 
   // Load annotations from server
@@ -168,6 +282,15 @@ export function Editor({
 
         if (annotationsResponse.success && annotationsResponse.data) {
           const objects = annotationsResponse.data.objects || [];
+          const savedImageLabels = annotationsResponse.data.imageLabels || [];
+
+          const savedMask = annotationsResponse.data.mask || null;
+
+          setSequence(annotationsResponse.data.sequence ?? null);
+          setImageLabels(savedImageLabels);
+          lastSavedImageLabelsRef.current = JSON.stringify(savedImageLabels);
+          setMask(savedMask);
+          lastSavedMaskRef.current = JSON.stringify(savedMask);
 
           if (Array.isArray(objects) && objects.length > 0) {
             const convertedAnnotations = objects.map((obj, index) =>
@@ -195,8 +318,13 @@ export function Editor({
           }
         } else {
           setAnnotations([]);
+          setSequence(null);
+          setImageLabels([]);
+          setMask(null);
           lastSavedAnnotationsRef.current = "[]";
           currentAnnotationsDigestRef.current = "[]";
+          lastSavedImageLabelsRef.current = "[]";
+          lastSavedMaskRef.current = "null";
           setSaveStatus("not_available");
         }
       } catch (err) {
@@ -208,8 +336,13 @@ export function Editor({
         });
 
         setAnnotations([]);
+        setSequence(null);
+        setImageLabels([]);
+        setMask(null);
         lastSavedAnnotationsRef.current = "[]";
         currentAnnotationsDigestRef.current = "[]";
+        lastSavedImageLabelsRef.current = "[]";
+        lastSavedMaskRef.current = "null";
         setSaveStatus("not_available");
       }
     },
@@ -221,11 +354,17 @@ export function Editor({
     if (isAutoSavingRef.current || !isMountedRef.current) return;
 
     const currentAnnotationsStr = JSON.stringify(annotations);
+    const currentImageLabelsStr = JSON.stringify(imageLabels);
+    const currentMaskStr = JSON.stringify(mask);
     currentAnnotationsDigestRef.current = currentAnnotationsStr;
+    currentImageLabelsDigestRef.current = currentImageLabelsStr;
+    currentMaskDigestRef.current = currentMaskStr;
 
     // Skip if nothing changed or some annotations don't have classes assigned
     if (
-      currentAnnotationsStr === lastSavedAnnotationsRef.current ||
+      (currentAnnotationsStr === lastSavedAnnotationsRef.current &&
+        currentImageLabelsStr === lastSavedImageLabelsRef.current &&
+        currentMaskStr === lastSavedMaskRef.current) ||
       annotations.some((ann) => !ann.class)
     ) {
       return;
@@ -248,31 +387,53 @@ export function Editor({
           height: ann.height,
           classId: classId,
           className: ann.class,
+          type: ann.type,
+          angle: ann.angle,
+          points: ann.points,
+          keypoints: ann.keypoints,
+          attributes: getClassAttributeValues(ann.attributes, classObj),
+          trackId: ann.trackId,
+          keyframe: ann.keyframe,
         };
       });
 
       const response = await autoSaveAnnotation(projectId, imageId, {
         objects: yoloObjects.map((obj) => ({
+          type: obj.type,
+          angle: obj.angle,
           x: obj.x,
           y: obj.y,
           width: obj.width,
           height: obj.height,
+          points: obj.points,
+          keypoints: obj.keypoints,
+          attributes: obj.attributes,
+          trackId: obj.trackId,
+          keyframe: obj.keyframe,
         })),
         classIds: yoloObjects.map((obj) => obj.classId),
         classNames: yoloObjects.map((obj) => obj.className),
         timeSpent: timeSpent,
+        imageLabels,
+        mask: mask ?? undefined,
       });
 
       if (!isMountedRef.current) return;
 
       if (response.success) {
         // Update the last saved state only if this is still the current state
-        if (currentAnnotationsStr === currentAnnotationsDigestRef.current) {
+        if (
+          currentAnnotationsStr === currentAnnotationsDigestRef.current &&
+          currentImageLabelsStr === currentImageLabelsDigestRef.current &&
+          currentMaskStr === currentMaskDigestRef.current
+        ) {
           lastSavedAnnotationsRef.current = currentAnnotationsStr;
+          lastSavedImageLabelsRef.current = currentImageLabelsStr;
+          lastSavedMaskRef.current = currentMaskStr;
           setSaveStatus("saved");
           saveRetryCountRef.current = 0;
         } else {
-          // If annotations changed during save, mark as unsaved to trigger another save
+          // If anything changed during save, mark as unsaved to trigger another save
           setSaveStatus("unsaved");
         }
       } else {
@@ -304,6 +465,8 @@ export function Editor({
     }
   }, [
     annotations,
+    imageLabels,
+    mask,
     classes,
     normalizeCoordinates,
     projectId,
@@ -317,8 +480,14 @@ export function Editor({
 
     const currentAnnotationsStr = JSON.stringify(annotations);
     currentAnnotationsDigestRef.current = currentAnnotationsStr;
+    currentImageLabelsDigestRef.current = JSON.stringify(imageLabels);
+    currentMaskDigestRef.current = JSON.stringify(mask);
 
-    if (currentAnnotationsStr !== lastSavedAnnotationsRef.current) {
+    if (
+      currentAnnotationsStr !== lastSavedAnnotationsRef.current ||
+      currentImageLabelsDigestRef.current !== lastSavedImageLabelsRef.current ||
+      currentMaskDigestRef.current !== lastSavedMaskRef.current
+    ) {
       setSaveStatus("unsaved");
       // Call performAutoSave immediately instead of using a timeout
       performAutoSave();
@@ -331,7 +500,7 @@ export function Editor({
         autoSaveTimeoutRef.current = null;
       }
     };
-  }, [annotations, performAutoSave]);
+  }, [annotations, imageLabels, mask, performAutoSave]);
 
   // Initial data loading
   useEffect(() => {
@@ -364,6 +533,8 @@ export function Editor({
           console.warn("No class information found in project response");
           setClasses([]);
         }
+        setSkeleton(projectResponse.data.skeleton);
+        setImageLabelSets(projectResponse.data.imageLabelSets || []);
 
         // If we're in review mode, fetch submission data to get image feedback
         if (isReviewMode && submissionId) {
@@ -475,14 +646,90 @@ export function Editor({
     submissionId,
   ]);
 
+  // Load the tracks of the other frames when the image is a sequence frame
+  const sequenceId = sequence?.id;
+  useEffect(() => {
+    if (!sequenceId) {
+      setSequenceFrames([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    getSequenceTracks(projectId, sequenceId).then((response) => {
+      if (cancelled) return;
+
+      if (response.success && response.data) {
+        setSequenceFrames(response.data.frames);
+      } else {
+        setSequenceFrames([]);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, sequenceId, imageId]);
+
   // Handle annotations changes
   const handleAnnotationsChange = useCallback(
     (newAnnotations: AnnotationObject[]) => {
-      setAnnotations(newAnnotations);
+      // Moving or resizing an interpolated box makes it a keyframe
+      setAnnotations((prev) =>
+        newAnnotations.map((ann) => {
+          if (ann.trackId === undefined || ann.keyframe) return ann;
+
+          const old = prev.find((p) => p.id === ann.id);
+          const moved =
+            old &&
+            (old.x !== ann.x ||
+              old.y !== ann.y ||
+              old.width !== ann.width ||
+              old.height !== ann.height);
+
+          return moved ? { ...ann, keyframe: true } : ann;
+        })
+      );
     },
     []
   );
 
+  // Boxes of tracks with keyframes on both sides of this frame that aren't
+  // on it yet
+  const interpolatedTracks = useMemo(() => {
+    if (!sequence) return [];
+
+    return interpolateTracks(sequenceFrames, sequence.frameIndex).filter(
+      (box) => !annotations.some((ann) => ann.trackId === box.trackId)
+    );
+  }, [sequence, sequenceFrames, annotations]);
+
+  const handleInterpolateTracks = useCallback(() => {
+    if (interpolatedTracks.length === 0) return;
+
+    setAnnotations((prev) => [
+      ...prev,
+      ...interpolatedTracks.map((box, i) =>
+        convertYoloToScreen(
+          box,
+          imageSize.width,
+          imageSize.height,
+          prev.length + i
+        )
+      ),
+    ]);
+    toast.success(
+      `Interpolated ${interpolatedTracks.length} track${
+        interpolatedTracks.length === 1 ? "" : "s"
+      }`
+    );
+  }, [
+    interpolatedTracks,
+    convertYoloToScreen,
+    imageSize.width,
+    imageSize.height,
+  ]);
+
   // Manual save handler
   const handleSave = useCallback(async (): Promise<boolean> => {
     // Check if all annotations have classes assigned
@@ -492,6 +739,21 @@ export function Editor({
       return false;
     }
 
+    // Check that required attributes are filled in
+    const missingAttributes = annotations.find((ann) =>
+      classes
+        .find((c) => c.name === ann.class)
+        ?.attributes?.some(
+          (attr) => attr.required && ann.attributes?.[attr.name] === undefined
+        )
+    );
+    if (missingAttributes) {
+      toast.error(
+        `Please fill in the required attributes of every ${missingAttributes.class}`
+      );
+      return false;
+    }
+
     setIsSaving(true);
     setSaveStatus("saving");
 
@@ -508,20 +770,36 @@ export function Editor({
           height: ann.height,
           classId: classId,
           className: ann.class,
+          type: ann.type,
+          angle: ann.angle,
+          points: ann.points,
+          keypoints: ann.keypoints,
+          attributes: getClassAttributeValues(ann.attributes, classObj),
+          trackId: ann.trackId,
+          keyframe: ann.keyframe,
         };
       });
 
       const saveResponse = await saveAnnotation(projectId, imageId, {
         objects: yoloObjects.map((obj) => ({
+          type: obj.type,
+          angle: obj.angle,
           x: obj.x,
           y: obj.y,
           width: obj.width,
           height: obj.height,
+          points: obj.points,
+          keypoints: obj.keypoints,
+          attributes: obj.attributes,
+          trackId: obj.trackId,
+          keyframe: obj.keyframe,
         })),
         classIds: yoloObjects.map((obj) => obj.classId),
         classNames: yoloObjects.map((obj) => obj.className),
         timeSpent: timeSpent,
         autoAnnotated: false,
+        imageLabels,
+        mask: mask ?? undefined,
       });
 
       if (!saveResponse.success) {
@@ -532,6 +810,8 @@ export function Editor({
       await loadAnnotations(imageSize.width, imageSize.height, true);
 
       lastSavedAnnotationsRef.current = JSON.stringify(annotations);
+      lastSavedImageLabelsRef.current = JSON.stringify(imageLabels);
+      lastSavedMaskRef.current = JSON.stringify(mask);
       setSaveStatus("saved");
       saveRetryCountRef.current = 0;
 
@@ -548,6 +828,8 @@ export function Editor({
     }
   }, [
     annotations,
+    imageLabels,
+    mask,
     normalizeCoordinates,
     projectId,
     imageId,
@@ -619,7 +901,11 @@ export function Editor({
       try {
         // First ensure annotations are saved
         const currentAnnotationsStr = JSON.stringify(annotations);
-        if (currentAnnotationsStr !== lastSavedAnnotationsRef.current) {
+        if (
+          currentAnnotationsStr !== lastSavedAnnotationsRef.current ||
+          JSON.stringify(imageLabels) !== lastSavedImageLabelsRef.current ||
+          JSON.stringify(mask) !== lastSavedMaskRef.current
+        ) {
           await handleSave();
         }
 
@@ -654,6 +940,8 @@ export function Editor({
       isReviewMode,
       submissionId,
       annotations,
+      imageLabels,
+      mask,
       lastSavedAnnotationsRef,
       handleSave,
       imageId,
@@ -743,6 +1031,26 @@ export function Editor({
         onImageLoad={handleImageSizeChange}
         minAnnotationSize={MIN_ANNOTATION_SIZE}
         imageFeedback={imageFeedback}
+        skeleton={skeleton}
+        imageLabelSets={imageLabelSets}
+        imageLabels={imageLabels}
+        onImageLabelsChange={setImageLabels}
+        mask={mask}
+        onMaskChange={setMask}
+        sequenceFrame={
+          sequence
+            ? {
+                frameIndex: sequence.frameIndex,
+                frameCount: sequenceFrames.length,
+              }
+            : null
+        }
+        nextTrackId={getNextTrackId(
+          sequenceFrames,
+          annotations.map((ann) => ann.trackId)
+        )}
+        interpolatableTracks={interpolatedTracks.length}
+        onInterpolateTracks={handleInterpolateTracks}
       />
     </div>
   );
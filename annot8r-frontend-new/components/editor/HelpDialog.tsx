@@ -19,6 +19,14 @@ export function HelpDialog() {
     { action: "Copy Annotation", shortcut: isMac ? "⌘ + C" : "Ctrl + C" },
     { action: "Paste Annotation", shortcut: isMac ? "⌘ + V" : "Ctrl + V" },
     { action: "Delete Annotation", shortcut: "Delete/Backspace" },
+    { action: "Bounding Box Tool", shortcut: "B" },
+    { action: "Polygon Tool", shortcut: "P" },
+    { action: "Polyline Tool", shortcut: "I" },
+    { action: "Close Polygon / Finish Polyline", shortcut: "Enter" },
+    { action: "Keypoint Tool", shortcut: "K" },
+    { action: "Mask Brush", shortcut: "M" },
+    { action: "Mask Eraser", shortcut: "E" },
+    { action: "Shrink/Grow Brush", shortcut: "[ / ]" },
     { action: "Cancel Current Action", shortcut: "Escape" },
     { action: "Previous Image", shortcut: "←" },
     { action: "Next Image", shortcut: "→" },
@@ -30,6 +38,15 @@ export function HelpDialog() {
     "Hold spacebar and drag to pan",
     "Click annotation to select",
     "Drag corners/edges to resize",
+    "Drag the handle above a box to rotate it (Shift snaps to 15°)",
+    "Click to place polygon points, click the first point to close",
+    "Drag polygon points to move them, Shift+click to remove one",
+    "Drag a polygon edge midpoint to insert a new point",
+    "With the polyline tool, click to place points and double-click or press Enter to finish the line",
+    "Polyline points are edited like polygon points",
+    "With the keypoint tool, click inside the selected box to place the next keypoint (Shift+click for occluded)",
+    "Alt+click a keypoint to toggle visible/occluded, Shift+click to remove it",
+    "With the mask brush or eraser, click and drag to paint or erase pixels of the picked class",
   ];
 
   return (
@@ -0,0 +1,113 @@
+import React, { useState } from "react";
+import { ChevronUp, Tags } from "lucide-react";
+import {
+  ImageLabelSet,
+  ImageLabelSetType,
+  ImageLabelValue,
+} from "@/lib/types";
+
+interface ImageLabelPanelProps {
+  labelSets: ImageLabelSet[];
+  imageLabels: ImageLabelValue[];
+  onChange: (imageLabels: ImageLabelValue[]) => void;
+}
+
+export default function ImageLabelPanel({
+  labelSets,
+  imageLabels,
+  onChange,
+}: ImageLabelPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  const getValues = (setId: string): string[] =>
+    imageLabels.find((label) => label.setId === setId)?.values || [];
+
+  const handleToggle = (labelSet: ImageLabelSet, option: string) => {
+    const values = getValues(labelSet.id);
+    const isPicked = values.includes(option);
+
+    // Single choice sets replace their value, picking it again clears it
+    const newValues =
+      labelSet.type === ImageLabelSetType.SINGLE
+        ? isPicked
+          ? []
+          : [option]
+        : isPicked
+          ? values.filter((value) => value !== option)
+          : [...values, option];
+
+    onChange([
+      ...imageLabels.filter((label) => label.setId !== labelSet.id),
+      ...(newValues.length > 0
+        ? [{ setId: labelSet.id, values: newValues }]
+        : []),
+    ]);
+  };
+
+  if (labelSets.length === 0) return null;
+
+  const pickedCount = labelSets.filter(
+    (set) => getValues(set.id).length > 0
+  ).length;
+
+  return (
+    <div
+      className="fixed left-4 top-20 z-50 w-[320px]
+                 bg-white/90 backdrop-blur-md border border-gray-200/50
+                 rounded-xl shadow-lg overflow-hidden flex flex-col"
+    >
+      {/* Header */}
+      <div
+        className="px-4 py-3 flex items-center justify-between cursor-pointer shrink-0"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Tags className="w-4 h-4" />
+          Image labels
+          <span className="px-2 py-0.5 bg-gray-100 rounded-full text-xs">
+            {pickedCount}/{labelSets.length}
+          </span>
+        </div>
+        <ChevronUp
+          className="w-4 h-4 transition-transform duration-300"
+          style={{ transform: isExpanded ? "rotate(0deg)" : "rotate(180deg)" }}
+        />
+      </div>
+
+      {/* Label sets */}
+      {isExpanded && (
+        <div className="px-4 pb-3 space-y-3 overflow-y-auto max-h-[12rem] border-t border-gray-200/50 pt-3">
+          {labelSets.map((labelSet) => {
+            const values = getValues(labelSet.id);
+
+            return (
+              <div key={labelSet.id} className="space-y-1.5">
+                <div className="text-xs text-gray-500">
+                  {labelSet.name}
+                  {labelSet.type === ImageLabelSetType.MULTI &&
+                    " (any number)"}
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                  {labelSet.options.map((option) => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => handleToggle(labelSet, option)}
+                      className={`px-2.5 py-1 rounded-full text-xs border transition-colors ${
+                        values.includes(option)
+                          ? "bg-blue-500 border-blue-500 text-white"
+                          : "bg-white border-gray-200 hover:bg-gray-50"
+                      }`}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
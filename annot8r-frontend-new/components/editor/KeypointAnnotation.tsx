@@ -0,0 +1,92 @@
+import React from "react";
+import { KeypointVisibility, ProjectSkeleton } from "@/lib/types";
+
+interface KeypointAnnotationProps {
+  annotation: {
+    id: string;
+    keypoints?: Array<{ x: number; y: number; visibility: KeypointVisibility }>;
+  };
+  skeleton: ProjectSkeleton;
+  imageSize: { width: number; height: number };
+  isSelected: boolean;
+  getColor: (id: string) => string;
+}
+
+export default function KeypointAnnotation({
+  annotation,
+  skeleton,
+  imageSize,
+  isSelected,
+  getColor,
+}: KeypointAnnotationProps) {
+  const keypoints = annotation.keypoints || [];
+  const isLabeled = (index: number): boolean =>
+    !!keypoints[index] &&
+    keypoints[index].visibility !== KeypointVisibility.NOT_LABELED;
+
+  if (!keypoints.some((_, index) => isLabeled(index))) return null;
+
+  const color = isSelected ? "#3B82F6" : getColor(annotation.id);
+
+  return (
+    <svg
+      className="absolute top-0 left-0 pointer-events-none overflow-visible"
+      width={imageSize.width}
+      height={imageSize.height}
+    >
+      {/* Skeleton edges between labeled keypoints */}
+      {skeleton.edges.map(([from, to], index) =>
+        isLabeled(from) && isLabeled(to) ? (
+          <line
+            key={`edge-${index}`}
+            x1={keypoints[from].x}
+            y1={keypoints[from].y}
+            x2={keypoints[to].x}
+            y2={keypoints[to].y}
+            stroke={color}
+            strokeWidth={4}
+            strokeDasharray={
+              keypoints[from].visibility === KeypointVisibility.OCCLUDED ||
+              keypoints[to].visibility === KeypointVisibility.OCCLUDED
+                ? "10 6"
+                : undefined
+            }
+          />
+        ) : null
+      )}
+
+      {/* Keypoints, hollow when occluded */}
+      {keypoints.map((keypoint, index) =>
+        isLabeled(index) ? (
+          <g key={`keypoint-${index}`}>
+            <circle
+              cx={keypoint.x}
+              cy={keypoint.y}
+              r={isSelected ? 9 : 7}
+              fill={
+                keypoint.visibility === KeypointVisibility.VISIBLE
+                  ? color
+                  : "white"
+              }
+              stroke={color}
+              strokeWidth={3}
+            />
+            {isSelected && (
+              <text
+                x={keypoint.x + 12}
+                y={keypoint.y - 12}
+                fontSize={18}
+                fontWeight={600}
+                fill="white"
+                stroke="black"
+                strokeWidth={0.75}
+              >
+                {skeleton.keypoints[index]}
+              </text>
+            )}
+          </g>
+        ) : null
+      )}
+    </svg>
+  );
+}
@@ -1,15 +1,9 @@
 import React, { useState, useEffect } from "react";
 import { Trash2, ChevronLeft } from "lucide-react";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { ProjectClass } from "@/lib/types";
+import ClassTreePicker from "./ClassTreePicker";
 
 interface AnnotationListProps {
   annotations: Array<{
@@ -144,29 +138,11 @@ export default function AnnotationListPanel({
                         "opacity 0.3s ease-out, transform 0.3s ease-out",
                     }}
                   >
-                    <Select
+                    <ClassTreePicker
+                      classes={availableClasses}
                       value={annotation.class}
-                      onValueChange={(value) =>
-                        onClassChange(annotation.id, value)
-                      }
-                    >
-                      <SelectTrigger className="h-8 min-w-[120px]">
-                        <SelectValue placeholder="Select class" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {availableClasses.map((classObj) => (
-                          <SelectItem key={classObj.id} value={classObj.name}>
-                            <div className="flex items-center gap-2">
-                              <div
-                                className="w-3 h-3 rounded-full"
-                                style={{ backgroundColor: classObj.color }}
-                              />
-                              <span>{classObj.name}</span>
-                            </div>
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                      onSelect={(value) => onClassChange(annotation.id, value)}
+                    />
                     <Button
                       variant="ghost"
                       size="icon"
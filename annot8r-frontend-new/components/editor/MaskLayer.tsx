@@ -0,0 +1,208 @@
+import React, {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+} from "react";
+import { Point } from "@/lib/types/editor";
+import { AnnotationMask } from "@/lib/types";
+import { decodeMask, encodeMask } from "@/lib/utils/mask";
+
+export interface MaskLayerHandle {
+  // Paint (or erase, when classId is null) a round brush stroke segment
+  paint: (
+    from: Point,
+    to: Point,
+    classId: string | null,
+    radius: number
+  ) => void;
+  // Emit the mask once a stroke is finished
+  endStroke: () => void;
+  clear: () => void;
+}
+
+interface MaskLayerProps {
+  width: number;
+  height: number;
+  mask?: AnnotationMask | null;
+  classIds: string[];
+  colors: string[]; // One per class id
+  onChange: (mask: AnnotationMask) => void;
+}
+
+// Resolve any CSS color to its RGB channels
+const toRgb = (color: string): [number, number, number] => {
+  const ctx = document.createElement("canvas").getContext("2d");
+  if (!ctx) return [255, 0, 0];
+
+  ctx.fillStyle = color;
+  const hex = String(ctx.fillStyle);
+  if (!/^#[0-9a-f]{6}$/i.test(hex)) return [255, 0, 0];
+
+  return [
+    parseInt(hex.slice(1, 3), 16),
+    parseInt(hex.slice(3, 5), 16),
+    parseInt(hex.slice(5, 7), 16),
+  ];
+};
+
+const MaskLayer = forwardRef<MaskLayerHandle, MaskLayerProps>(
+  function MaskLayer({ width, height, mask, classIds, colors, onChange }, ref) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const labelMapRef = useRef<Uint8Array>(new Uint8Array(0));
+    const imageDataRef = useRef<ImageData | null>(null);
+    const decodedRef = useRef<{
+      mask: AnnotationMask | null | undefined;
+      classIds: string[];
+    } | null>(null);
+    const drawnPaletteRef = useRef<Array<[number, number, number]> | null>(
+      null
+    );
+    const isDirtyRef = useRef(false);
+
+    const palette = useMemo(() => colors.map(toRgb), [colors]);
+
+    // Copy a rectangle of the label map onto the canvas
+    const redraw = useCallback(
+      (x0: number, y0: number, x1: number, y1: number): void => {
+        const ctx = canvasRef.current?.getContext("2d");
+        const imageData = imageDataRef.current;
+        if (!ctx || !imageData) return;
+
+        const labelMap = labelMapRef.current;
+        const data = imageData.data;
+
+        for (let y = y0; y <= y1; y++) {
+          for (let x = x0; x <= x1; x++) {
+            const i = y * width + x;
+            const rgb = labelMap[i] > 0 ? palette[labelMap[i] - 1] : undefined;
+
+            data[i * 4] = rgb ? rgb[0] : 0;
+            data[i * 4 + 1] = rgb ? rgb[1] : 0;
+            data[i * 4 + 2] = rgb ? rgb[2] : 0;
+            data[i * 4 + 3] = rgb ? 255 : 0;
+          }
+        }
+
+        ctx.putImageData(imageData, 0, 0, x0, y0, x1 - x0 + 1, y1 - y0 + 1);
+      },
+      [width, palette]
+    );
+
+    // Load the mask from props, unless it is the one this layer emitted
+    useEffect(() => {
+      const ctx = canvasRef.current?.getContext("2d");
+      if (!ctx || width === 0 || height === 0) return;
+
+      const decoded = decodedRef.current;
+      if (
+        !decoded ||
+        decoded.mask !== mask ||
+        decoded.classIds !== classIds ||
+        labelMapRef.current.length !== width * height
+      ) {
+        labelMapRef.current =
+          mask && mask.width === width && mask.height === height
+            ? decodeMask(mask, classIds)
+            : new Uint8Array(width * height);
+        decodedRef.current = { mask, classIds };
+      } else if (imageDataRef.current && drawnPaletteRef.current === palette) {
+        // Already on the canvas
+        return;
+      }
+
+      if (
+        !imageDataRef.current ||
+        imageDataRef.current.width !== width ||
+        imageDataRef.current.height !== height
+      ) {
+        imageDataRef.current = ctx.createImageData(width, height);
+      }
+
+      drawnPaletteRef.current = palette;
+      redraw(0, 0, width - 1, height - 1);
+    }, [mask, width, height, classIds, palette, redraw]);
+
+    const emit = useCallback((): void => {
+      const encoded = encodeMask(labelMapRef.current, width, height, classIds);
+      decodedRef.current = { mask: encoded, classIds };
+      onChange(encoded);
+    }, [width, height, classIds, onChange]);
+
+    useImperativeHandle(
+      ref,
+      () => ({
+        paint: (from, to, classId, radius) => {
+          const labelMap = labelMapRef.current;
+          if (labelMap.length !== width * height) return;
+
+          const value = classId === null ? 0 : classIds.indexOf(classId) + 1;
+          if (classId !== null && value === 0) return;
+
+          // Only visit the pixels around the segment
+          const x0 = Math.max(0, Math.floor(Math.min(from.x, to.x) - radius));
+          const y0 = Math.max(0, Math.floor(Math.min(from.y, to.y) - radius));
+          const x1 = Math.min(
+            width - 1,
+            Math.ceil(Math.max(from.x, to.x) + radius)
+          );
+          const y1 = Math.min(
+            height - 1,
+            Math.ceil(Math.max(from.y, to.y) + radius)
+          );
+          if (x0 > x1 || y0 > y1) return;
+
+          const dx = to.x - from.x;
+          const dy = to.y - from.y;
+          const lengthSq = dx * dx + dy * dy;
+          const radiusSq = radius * radius;
+
+          for (let y = y0; y <= y1; y++) {
+            for (let x = x0; x <= x1; x++) {
+              // Distance from the pixel center to the segment
+              const px = x + 0.5;
+              const py = y + 0.5;
+              const projection =
+                ((px - from.x) * dx + (py - from.y) * dy) / lengthSq;
+              const t = lengthSq > 0 ? Math.max(0, Math.min(1, projection)) : 0;
+              const ex = from.x + t * dx - px;
+              const ey = from.y + t * dy - py;
+
+              if (ex * ex + ey * ey <= radiusSq) {
+                labelMap[y * width + x] = value;
+              }
+            }
+          }
+
+          isDirtyRef.current = true;
+          redraw(x0, y0, x1, y1);
+        },
+        endStroke: () => {
+          if (!isDirtyRef.current) return;
+          isDirtyRef.current = false;
+          emit();
+        },
+        clear: () => {
+          labelMapRef.current = new Uint8Array(width * height);
+          redraw(0, 0, width - 1, height - 1);
+          emit();
+        },
+      }),
+      [width, height, classIds, redraw, emit]
+    );
+
+    return (
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        className="absolute top-0 left-0 pointer-events-none rounded-xl"
+        style={{ width, height, opacity: 0.5, imageRendering: "pixelated" }}
+      />
+    );
+  }
+);
+
+export default MaskLayer;
@@ -1,21 +1,44 @@
-import React, { useState, useEffect, useRef, useCallback } from "react";
+import React, {
+  useState,
+  useEffect,
+  useRef,
+  useCallback,
+  useMemo,
+} from "react";
 import NextImage from "next/image";
 import { ArrowLeft, Clipboard, Redo, Trash, Undo } from "lucide-react";
 import { toast } from "sonner";
 import AutosaveIndicator, { AutosaveStatus } from "./AutoSaveIndicator";
 import AnnotationToolbar from "./AnnotationToolbar";
 import ImageMover from "./ImageMover";
-import Annotation from "./Annotation";
+import Annotation, { ROTATION_HANDLE_OFFSET } from "./Annotation";
+import PolygonAnnotation from "./PolygonAnnotation";
+import KeypointAnnotation from "./KeypointAnnotation";
 import { NavigationControls } from "./PaginationTool";
 import { StatusInfo } from "./StatusInfo";
 import { HelpDialog } from "./HelpDialog";
 import AnnotationListPanel from "./LabelSidebar";
+import ImageLabelPanel from "./ImageLabelPanel";
+import AttributePanel from "./AttributePanel";
+import MaskLayer, { MaskLayerHandle } from "./MaskLayer";
+import BrushPanel, { MAX_BRUSH_SIZE, MIN_BRUSH_SIZE } from "./BrushPanel";
+import SequencePanel from "./SequencePanel";
 import {
+  DrawingTool,
   Point,
   ResizeHandle,
   isCornerHandle,
   isSideHandle,
 } from "@/lib/types/editor";
+import {
+  distanceBetween,
+  distanceToPolyline,
+  fitRotatedBox,
+  getEdgeMidpoints,
+  getPointsBounds,
+  isPointInPolygon,
+  rotatePoint,
+} from "@/lib/utils/geometry";
 import {
   Dialog,
   DialogContent,
@@ -25,7 +48,16 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { ProjectClass } from "@/lib/types";
+import {
+  AnnotationMask,
+  AnnotationObjectType,
+  AttributeValue,
+  ImageLabelSet,
+  ImageLabelValue,
+  KeypointVisibility,
+  ProjectClass,
+  ProjectSkeleton,
+} from "@/lib/types";
 
 // Use the AutosaveStatus type from the AutoSaveIndicator component
 
@@ -36,8 +68,83 @@ interface AnnotationObject {
   width: number;
   height: number;
   class: string;
+  type?: AnnotationObjectType;
+  angle?: number; // Box rotation in degrees, clockwise around the center
+  points?: Point[]; // Polygon vertices in image pixels
+  keypoints?: EditorKeypoint[]; // One entry per skeleton keypoint
+  attributes?: Record<string, AttributeValue>; // Keyed by class attribute name
+  trackId?: number; // Identity of the object across sequence frames
+  keyframe?: boolean; // Placed by hand rather than interpolated
 }
 
+interface EditorKeypoint extends Point {
+  visibility: KeypointVisibility;
+}
+
+// Distance in image pixels within which a polygon vertex can be grabbed
+const VERTEX_HIT_RADIUS = 12;
+
+// Fallback colors for classes without their own color
+const CLASS_COLORS = [
+  "#FF0000",
+  "#00FF00",
+  "#0000FF",
+  "#FFFF00",
+  "#FF00FF",
+  "#00FFFF",
+  "#FF8000",
+  "#8000FF",
+  "#0080FF",
+  "#FF0080",
+  "#80FF00",
+  "#00FF80",
+];
+
+const isMaskTool = (tool: DrawingTool): boolean =>
+  tool === "brush" || tool === "eraser";
+
+const isPolygon = (ann: AnnotationObject): boolean =>
+  ann.type === AnnotationObjectType.POLYGON && !!ann.points?.length;
+
+const isPolyline = (ann: AnnotationObject): boolean =>
+  ann.type === AnnotationObjectType.POLYLINE && !!ann.points?.length;
+
+// Polygons and polylines are edited through their vertices
+const hasVertices = (ann: AnnotationObject): boolean =>
+  isPolygon(ann) || isPolyline(ann);
+
+// Fewest vertices a polygon or polyline can have
+const getMinVertices = (isOpen: boolean): number => (isOpen ? 2 : 3);
+
+const isKeypointLabeled = (keypoint?: EditorKeypoint): boolean =>
+  !!keypoint && keypoint.visibility !== KeypointVisibility.NOT_LABELED;
+
+const getBoxCenter = (ann: AnnotationObject): Point => ({
+  x: ann.x + ann.width / 2,
+  y: ann.y + ann.height / 2,
+});
+
+// Map a point into the unrotated frame of a box
+const toBoxFrame = (point: Point, ann: AnnotationObject): Point =>
+  ann.angle ? rotatePoint(point, getBoxCenter(ann), -ann.angle) : point;
+
+// Keep the labeled keypoints of an unrotated box inside it
+const clampKeypointsToBox = (ann: AnnotationObject): AnnotationObject =>
+  ann.keypoints && !ann.angle
+    ? {
+        ...ann,
+        keypoints: ann.keypoints.map((kp) =>
+          isKeypointLabeled(kp)
+            ? {
+                ...kp,
+                x: Math.max(ann.x, Math.min(kp.x, ann.x + ann.width)),
+                y: Math.max(ann.y, Math.min(kp.y, ann.y + ann.height)),
+              }
+            : kp
+        ),
+      }
+    : ann;
+
 // Updated PhotoViewer props interface
 interface PhotoViewerProps {
   currentImageId: string;
@@ -64,6 +171,17 @@ interface PhotoViewerProps {
   onImageLoad?: (width: number, height: number) => void;
   minAnnotationSize?: number;
   imageFeedback?: string; // Added this property
+  skeleton?: ProjectSkeleton;
+  imageLabelSets?: ImageLabelSet[];
+  imageLabels?: ImageLabelValue[];
+  onImageLabelsChange?: (imageLabels: ImageLabelValue[]) => void;
+  mask?: AnnotationMask | null;
+  onMaskChange?: (mask: AnnotationMask) => void;
+  // Position of the image in its sequence, if it is a frame of one
+  sequenceFrame?: { frameIndex: number; frameCount: number } | null;
+  nextTrackId?: number;
+  interpolatableTracks?: number;
+  onInterpolateTracks?: () => void;
 }
 
 export function PhotoViewer({
@@ -91,6 +209,16 @@ export function PhotoViewer({
   onImageLoad,
   minAnnotationSize = 20,
   imageFeedback,
+  skeleton,
+  imageLabelSets = [],
+  imageLabels = [],
+  onImageLabelsChange,
+  mask,
+  onMaskChange,
+  sequenceFrame,
+  nextTrackId = 1,
+  interpolatableTracks = 0,
+  onInterpolateTracks,
 }: PhotoViewerProps): React.ReactElement {
   const containerRef = useRef<HTMLDivElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
@@ -121,23 +249,42 @@ export function PhotoViewer({
     dragStart: Point;
     dragOffset: Point;
     resizingSide: ResizeHandle;
+    draggingVertex: number | null;
+    draggingKeypoint: number | null;
+    isRotating: boolean;
   }>({
     isDragging: false,
     isDraggingAnnotation: false,
     dragStart: { x: 0, y: 0 },
     dragOffset: { x: 0, y: 0 },
     resizingSide: null,
+    draggingVertex: null,
+    draggingKeypoint: null,
+    isRotating: false,
   });
 
   // State for editor mode
   const [editorState, setEditorState] = useState<{
     isLocked: boolean;
     isDrawing: boolean;
+    drawingTool: DrawingTool;
   }>({
     isLocked: false,
     isDrawing: false,
+    drawingTool: "box",
   });
 
+  // State for the polygon currently being drawn
+  const [draftPolygon, setDraftPolygon] = useState<Point[]>([]);
+  const [hoverPoint, setHoverPoint] = useState<Point | null>(null);
+
+  // State for the mask brush, sized in image pixels
+  const [brushSize, setBrushSize] = useState(20);
+  const [brushClassId, setBrushClassId] = useState<string | null>(null);
+  const [brushPoint, setBrushPoint] = useState<Point | null>(null);
+  const maskLayerRef = useRef<MaskLayerHandle>(null);
+  const lastBrushPointRef = useRef<Point | null>(null);
+
   // State for edit history
   const [history, setHistory] = useState<{
     annotations: AnnotationObject[][];
@@ -184,6 +331,7 @@ export function PhotoViewer({
   // Clear selection when image changes
   useEffect(() => {
     setSelectedAnnotation(null);
+    setDraftPolygon([]);
   }, [currentImageId]);
 
   // Update drag state
@@ -459,7 +607,7 @@ export function PhotoViewer({
     (point: Point, annotation: AnnotationObject): ResizeHandle => {
       // Increase handle size for better usability
       const handleSize = 12;
-      const { x, y } = point;
+      const { x, y } = toBoxFrame(point, annotation);
 
       // Explicitly calculate edge coordinates
       const left = annotation.x;
@@ -514,14 +662,241 @@ export function PhotoViewer({
     []
   );
 
+  // Keep a point inside the image
+  const clampToImage = useCallback(
+    (point: Point): Point => ({
+      x: Math.max(0, Math.min(point.x, imageState.width)),
+      y: Math.max(0, Math.min(point.y, imageState.height)),
+    }),
+    [imageState.width, imageState.height]
+  );
+
+  // Determine which polygon or polyline vertex the mouse is over
+  const getVertexIndex = useCallback(
+    (point: Point, annotation: AnnotationObject): number => {
+      if (!hasVertices(annotation)) return -1;
+
+      return annotation.points!.findIndex(
+        (vertex) => distanceBetween(vertex, point) <= VERTEX_HIT_RADIUS
+      );
+    },
+    []
+  );
+
+  // Check if a point is inside an annotation
+  const containsPoint = useCallback(
+    (annotation: AnnotationObject, point: Point): boolean => {
+      if (isPolygon(annotation)) {
+        return isPointInPolygon(point, annotation.points!);
+      }
+
+      // Polylines have no inside, they are hit near their line
+      if (isPolyline(annotation)) {
+        return (
+          distanceToPolyline(point, annotation.points!) <= VERTEX_HIT_RADIUS
+        );
+      }
+
+      const { x, y } = toBoxFrame(point, annotation);
+      return (
+        x >= annotation.x &&
+        x <= annotation.x + annotation.width &&
+        y >= annotation.y &&
+        y <= annotation.y + annotation.height
+      );
+    },
+    []
+  );
+
+  // Check if the mouse is over the rotation handle of a box
+  const isOnRotationHandle = useCallback(
+    (point: Point, annotation: AnnotationObject): boolean => {
+      if (hasVertices(annotation)) return false;
+
+      const handle = {
+        x: annotation.x + annotation.width / 2,
+        y: annotation.y - ROTATION_HANDLE_OFFSET,
+      };
+      return (
+        distanceBetween(toBoxFrame(point, annotation), handle) <=
+        VERTEX_HIT_RADIUS + 2
+      );
+    },
+    []
+  );
+
+  // Resize a rotated box in its own frame, keeping the opposite side in place
+  const resizeRotatedAnnotation = useCallback(
+    (
+      annotation: AnnotationObject,
+      handle: ResizeHandle,
+      point: Point
+    ): AnnotationObject => {
+      const angle = annotation.angle || 0;
+      const center = getBoxCenter(annotation);
+      const bounds = { width: imageState.width, height: imageState.height };
+      const resized = resizeAnnotation(
+        annotation,
+        handle,
+        rotatePoint(point, center, -angle),
+        bounds
+      );
+
+      // The resized box moved its center in the unrotated frame
+      const newCenter = rotatePoint(getBoxCenter(resized), center, angle);
+      const moved = {
+        ...resized,
+        x: newCenter.x - resized.width / 2,
+        y: newCenter.y - resized.height / 2,
+      };
+
+      // Keep the last size when the turned corners would leave the image
+      const fitted = fitRotatedBox(moved, angle, bounds);
+      return fitted.x === moved.x &&
+        fitted.y === moved.y &&
+        fitted.width === moved.width
+        ? moved
+        : annotation;
+    },
+    [resizeAnnotation, imageState.width, imageState.height]
+  );
+
+  // Replace the vertices of a polygon and refresh its bounding box
+  const withPolygonPoints = useCallback(
+    (annotation: AnnotationObject, points: Point[]): AnnotationObject => ({
+      ...annotation,
+      ...getPointsBounds(points),
+      points,
+    }),
+    []
+  );
+
+  // Determine which labeled keypoint of a box the mouse is over
+  const getKeypointIndex = useCallback(
+    (point: Point, annotation: AnnotationObject): number => {
+      if (!annotation.keypoints) return -1;
+
+      return annotation.keypoints.findIndex(
+        (kp) =>
+          isKeypointLabeled(kp) &&
+          distanceBetween(kp, point) <= VERTEX_HIT_RADIUS
+      );
+    },
+    []
+  );
+
+  // Replace one keypoint of a box, filling the rest as unlabeled
+  const withKeypoint = useCallback(
+    (
+      annotation: AnnotationObject,
+      index: number,
+      keypoint: EditorKeypoint
+    ): AnnotationObject => {
+      const count = skeleton?.keypoints.length || 0;
+      const keypoints = Array.from(
+        { length: count },
+        (_, i) =>
+          annotation.keypoints?.[i] || {
+            x: 0,
+            y: 0,
+            visibility: KeypointVisibility.NOT_LABELED,
+          }
+      );
+      keypoints[index] = keypoint;
+
+      return { ...annotation, keypoints };
+    },
+    [skeleton]
+  );
+
+  // Get the next skeleton keypoint that has not been placed on a box
+  const getNextKeypointIndex = useCallback(
+    (annotation: AnnotationObject | null): number => {
+      if (!skeleton || !annotation || hasVertices(annotation)) return -1;
+
+      return skeleton.keypoints.findIndex(
+        (_, i) => !isKeypointLabeled(annotation.keypoints?.[i])
+      );
+    },
+    [skeleton]
+  );
+
+  // Finish the polygon or polyline currently being drawn
+  const finishPolygon = useCallback((): void => {
+    const isOpen = editorState.drawingTool === "polyline";
+    if (draftPolygon.length < getMinVertices(isOpen)) {
+      toast.error(
+        isOpen
+          ? "A polyline needs at least 2 points"
+          : "A polygon needs at least 3 points"
+      );
+      return;
+    }
+
+    const newAnnotation = withPolygonPoints(
+      {
+        id: `${currentImageId}-${Date.now()}-${Math.random()
+          .toString(36)
+          .substring(2, 9)}`,
+        x: 0,
+        y: 0,
+        width: 0,
+        height: 0,
+        class: "",
+        type: isOpen
+          ? AnnotationObjectType.POLYLINE
+          : AnnotationObjectType.POLYGON,
+      },
+      draftPolygon
+    );
+
+    const newAnnotations = [...annotations, newAnnotation];
+    updateAnnotations(newAnnotations, true); // Add to history
+
+    // Set this as the selected annotation for immediate class assignment
+    setSelectedAnnotation(newAnnotation);
+    setDraftPolygon([]);
+    setHoverPoint(null);
+  }, [
+    editorState.drawingTool,
+    draftPolygon,
+    withPolygonPoints,
+    currentImageId,
+    annotations,
+    updateAnnotations,
+  ]);
+
   // Handle mouse down event
   const handleMouseDown = useCallback(
     (e: React.MouseEvent<HTMLDivElement>): void => {
       if (editorState.isLocked) return;
       e.preventDefault();
 
+      // Paint or erase mask pixels while a mask tool is active
+      if (editorState.isDrawing && isMaskTool(editorState.drawingTool)) {
+        const isBrush = editorState.drawingTool === "brush";
+        if (isBrush && !brushClassId) {
+          toast.error("Pick a class to paint with");
+          return;
+        }
+
+        const point = getMousePosition(e);
+        maskLayerRef.current?.paint(
+          point,
+          point,
+          isBrush ? brushClassId : null,
+          brushSize / 2
+        );
+        lastBrushPointRef.current = point;
+        return;
+      }
+
       const hasUnassignedClasses = annotations.some((ann) => !ann.class);
-      if (editorState.isDrawing && hasUnassignedClasses) {
+      if (
+        editorState.isDrawing &&
+        editorState.drawingTool !== "keypoint" &&
+        hasUnassignedClasses
+      ) {
         toast.error(
           "Please assign classes to all existing boxes before creating new ones"
         );
@@ -530,8 +905,160 @@ export function PhotoViewer({
 
       const point = getMousePosition(e);
 
-      // First check if we're on a resize handle of the selected annotation
-      if (selectedAnnotation) {
+      // Place vertices while the polygon or polyline tool is active
+      if (
+        editorState.isDrawing &&
+        (editorState.drawingTool === "polygon" ||
+          editorState.drawingTool === "polyline")
+      ) {
+        const vertex = clampToImage(point);
+
+        // Clicking the first point closes a polygon
+        if (
+          editorState.drawingTool === "polygon" &&
+          draftPolygon.length >= 3 &&
+          distanceBetween(vertex, draftPolygon[0]) <= VERTEX_HIT_RADIUS
+        ) {
+          finishPolygon();
+          return;
+        }
+
+        const last = draftPolygon[draftPolygon.length - 1];
+        if (!last || distanceBetween(vertex, last) > 3) {
+          setSelectedAnnotation(null);
+          setDraftPolygon([...draftPolygon, vertex]);
+        }
+        return;
+      }
+
+      // Edit the keypoints of the selected box
+      if (selectedAnnotation && !hasVertices(selectedAnnotation)) {
+        const keypointIndex = getKeypointIndex(point, selectedAnnotation);
+
+        if (keypointIndex >= 0) {
+          const keypoint = selectedAnnotation.keypoints![keypointIndex];
+
+          if (e.shiftKey || e.altKey) {
+            // Shift removes the keypoint, Alt toggles visible/occluded
+            const updated = withKeypoint(selectedAnnotation, keypointIndex, {
+              ...keypoint,
+              visibility: e.shiftKey
+                ? KeypointVisibility.NOT_LABELED
+                : keypoint.visibility === KeypointVisibility.VISIBLE
+                  ? KeypointVisibility.OCCLUDED
+                  : KeypointVisibility.VISIBLE,
+            });
+            setSelectedAnnotation(updated);
+            updateAnnotations(
+              annotations.map((ann) =>
+                ann.id === updated.id ? updated : ann
+              ),
+              true
+            );
+            return;
+          }
+
+          updateDragState({ draggingKeypoint: keypointIndex });
+          return;
+        }
+      }
+
+      // Place the next keypoint inside the selected box
+      if (editorState.isDrawing && editorState.drawingTool === "keypoint") {
+        if (selectedAnnotation && containsPoint(selectedAnnotation, point)) {
+          const nextIndex = getNextKeypointIndex(selectedAnnotation);
+
+          if (nextIndex < 0) {
+            toast.error("All keypoints of this box are already placed");
+            return;
+          }
+
+          const updated = withKeypoint(selectedAnnotation, nextIndex, {
+            x: point.x,
+            y: point.y,
+            visibility: e.shiftKey
+              ? KeypointVisibility.OCCLUDED
+              : KeypointVisibility.VISIBLE,
+          });
+          setSelectedAnnotation(updated);
+          updateAnnotations(
+            annotations.map((ann) => (ann.id === updated.id ? updated : ann)),
+            true
+          );
+          return;
+        }
+
+        // Pick the box to place keypoints in
+        const clickedBox = annotations.find(
+          (ann) => !hasVertices(ann) && containsPoint(ann, point)
+        );
+        setSelectedAnnotation(clickedBox || null);
+        if (!clickedBox) {
+          toast.error("Select a box to place keypoints in");
+        }
+        return;
+      }
+
+      // Edit the vertices of the selected polygon or polyline
+      if (selectedAnnotation && hasVertices(selectedAnnotation)) {
+        const points = selectedAnnotation.points!;
+        const isOpen = isPolyline(selectedAnnotation);
+        const vertexIndex = getVertexIndex(point, selectedAnnotation);
+
+        if (vertexIndex >= 0) {
+          if (e.shiftKey) {
+            if (points.length <= getMinVertices(isOpen)) {
+              toast.error(
+                isOpen
+                  ? "A polyline needs at least 2 points"
+                  : "A polygon needs at least 3 points"
+              );
+              return;
+            }
+
+            const updated = withPolygonPoints(
+              selectedAnnotation,
+              points.filter((_, i) => i !== vertexIndex)
+            );
+            setSelectedAnnotation(updated);
+            updateAnnotations(
+              annotations.map((ann) =>
+                ann.id === updated.id ? updated : ann
+              ),
+              true
+            );
+            return;
+          }
+
+          updateDragState({ draggingVertex: vertexIndex });
+          return;
+        }
+
+        const midpointIndex = getEdgeMidpoints(points, !isOpen).findIndex(
+          (midpoint) => distanceBetween(midpoint, point) <= VERTEX_HIT_RADIUS
+        );
+
+        if (midpointIndex >= 0) {
+          const newPoints = [...points];
+          newPoints.splice(midpointIndex + 1, 0, clampToImage(point));
+
+          const updated = withPolygonPoints(selectedAnnotation, newPoints);
+          setSelectedAnnotation(updated);
+          onAnnotationsChange(
+            annotations.map((ann) => (ann.id === updated.id ? updated : ann))
+          );
+          updateDragState({ draggingVertex: midpointIndex + 1 });
+          return;
+        }
+      }
+
+      // First check if we're on a rotation or resize handle of the selected annotation
+      if (selectedAnnotation && !hasVertices(selectedAnnotation)) {
+        if (isOnRotationHandle(point, selectedAnnotation)) {
+          updateDragState({ isRotating: true });
+          return;
+        }
+
         const handle = getResizeHandle(point, selectedAnnotation);
         if (handle) {
           updateDragState({
@@ -542,12 +1069,8 @@ export function PhotoViewer({
       }
 
       // Then check if clicked on any annotation
-      const clickedAnnotation = annotations.find(
-        (ann) =>
-          point.x >= ann.x &&
-          point.x <= ann.x + ann.width &&
-          point.y >= ann.y &&
-          point.y <= ann.y + ann.height
+      const clickedAnnotation = annotations.find((ann) =>
+        containsPoint(ann, point)
       );
 
       if (clickedAnnotation) {
@@ -555,7 +1078,9 @@ export function PhotoViewer({
         setSelectedAnnotation(clickedAnnotation);
 
         // Check if this is a resize operation
-        const handle = getResizeHandle(point, clickedAnnotation);
+        const handle = hasVertices(clickedAnnotation)
+          ? null
+          : getResizeHandle(point, clickedAnnotation);
         if (handle) {
           updateDragState({
             resizingSide: handle,
@@ -602,9 +1127,24 @@ export function PhotoViewer({
     [
       editorState.isLocked,
       editorState.isDrawing,
+      editorState.drawingTool,
+      brushClassId,
+      brushSize,
       getMousePosition,
+      clampToImage,
+      draftPolygon,
+      finishPolygon,
       annotations,
       selectedAnnotation,
+      getKeypointIndex,
+      withKeypoint,
+      getNextKeypointIndex,
+      getVertexIndex,
+      withPolygonPoints,
+      updateAnnotations,
+      onAnnotationsChange,
+      containsPoint,
+      isOnRotationHandle,
       getResizeHandle,
       updateDragState,
       currentImageId,
@@ -621,13 +1161,113 @@ export function PhotoViewer({
 
       const point = getMousePosition(e);
 
-      if (selectedAnnotation && dragState.resizingSide) {
+      // Continue the current brush stroke
+      if (editorState.isDrawing && isMaskTool(editorState.drawingTool)) {
+        setBrushPoint(point);
+
+        if (lastBrushPointRef.current) {
+          maskLayerRef.current?.paint(
+            lastBrushPointRef.current,
+            point,
+            editorState.drawingTool === "brush" ? brushClassId : null,
+            brushSize / 2
+          );
+          lastBrushPointRef.current = point;
+        }
+        return;
+      }
+
+      if (selectedAnnotation && dragState.draggingKeypoint !== null) {
+        // Move a single keypoint, keeping it inside its box
+        const keypoint = selectedAnnotation.keypoints![dragState.draggingKeypoint];
+        const updated = clampKeypointsToBox(
+          withKeypoint(selectedAnnotation, dragState.draggingKeypoint, {
+            ...keypoint,
+            x: point.x,
+            y: point.y,
+          })
+        );
+
+        setSelectedAnnotation(updated);
+        onAnnotationsChange(
+          annotations.map((ann) => (ann.id === updated.id ? updated : ann))
+        );
+        setSaveStatus("unsaved");
+      } else if (
+        selectedAnnotation &&
+        hasVertices(selectedAnnotation) &&
+        dragState.draggingVertex !== null
+      ) {
+        // Move a single polygon or polyline vertex
+        const newPoints = selectedAnnotation.points!.map((vertex, i) =>
+          i === dragState.draggingVertex ? clampToImage(point) : vertex
+        );
+        const updated = withPolygonPoints(selectedAnnotation, newPoints);
+
+        setSelectedAnnotation(updated);
+        onAnnotationsChange(
+          annotations.map((ann) => (ann.id === updated.id ? updated : ann))
+        );
+        setSaveStatus("unsaved");
+      } else if (selectedAnnotation && dragState.isRotating) {
+        // Rotate a box around its center, snapping to 15 degrees with Shift
+        const center = getBoxCenter(selectedAnnotation);
+        let angle =
+          (Math.atan2(point.y - center.y, point.x - center.x) * 180) / Math.PI +
+          90;
+        if (e.shiftKey) {
+          angle = Math.round(angle / 15) * 15;
+        }
+        angle = Math.round((((angle + 540) % 360) - 180) * 10) / 10;
+
+        // Push the box back inside the image when its corners leave it,
+        // keeping the last angle when it is too large to turn that far
+        const fitted = fitRotatedBox(selectedAnnotation, angle, imageState);
+        if (fitted.width < selectedAnnotation.width) {
+          return;
+        }
+
+        const delta = angle - (selectedAnnotation.angle || 0);
+        const rotatedAnnotation: AnnotationObject = {
+          ...fitted,
+          angle,
+          keypoints: selectedAnnotation.keypoints?.map((kp) => {
+            if (!isKeypointLabeled(kp)) {
+              return kp;
+            }
+            const rotated = rotatePoint(kp, center, delta);
+            return {
+              ...kp,
+              ...clampToImage({
+                x: rotated.x + fitted.x - selectedAnnotation.x,
+                y: rotated.y + fitted.y - selectedAnnotation.y,
+              }),
+            };
+          }),
+        };
+
+        setSelectedAnnotation(rotatedAnnotation);
+        onAnnotationsChange(
+          annotations.map((ann) =>
+            ann.id === selectedAnnotation.id ? rotatedAnnotation : ann
+          )
+        );
+        setSaveStatus("unsaved");
+      } else if (selectedAnnotation && dragState.resizingSide) {
         // Resize an existing annotation
-        const resizedAnnotation = resizeAnnotation(
-          selectedAnnotation,
-          dragState.resizingSide,
-          point,
-          { width: imageState.width, height: imageState.height }
+        const resizedAnnotation = clampKeypointsToBox(
+          selectedAnnotation.angle
+            ? resizeRotatedAnnotation(
+                selectedAnnotation,
+                dragState.resizingSide,
+                point
+              )
+            : resizeAnnotation(
+                selectedAnnotation,
+                dragState.resizingSide,
+                point,
+                { width: imageState.width, height: imageState.height }
+              )
         );
 
         // Create a new copy of the annotations array with the updated annotation
@@ -648,18 +1288,48 @@ export function PhotoViewer({
         const newX = point.x - dragState.dragOffset.x;
         const newY = point.y - dragState.dragOffset.y;
 
-        const clampedAnnotation: AnnotationObject = {
-          ...selectedAnnotation,
-          x: Math.max(
+        // Rotated boxes stop where their turned corners reach the edge
+        const fitted = selectedAnnotation.angle
+          ? fitRotatedBox(
+              { ...selectedAnnotation, x: newX, y: newY },
+              selectedAnnotation.angle,
+              imageState
+            )
+          : null;
+        const clampedX =
+          fitted?.x ??
+          Math.max(
             0,
             Math.min(newX, imageState.width - selectedAnnotation.width)
-          ),
-          y: Math.max(
+          );
+        const clampedY =
+          fitted?.y ??
+          Math.max(
             0,
             Math.min(newY, imageState.height - selectedAnnotation.height)
-          ),
+          );
+
+        const clampedAnnotation: AnnotationObject = {
+          ...selectedAnnotation,
+          x: clampedX,
+          y: clampedY,
         };
 
+        // Vertices and keypoints move with the bounding box
+        const dx = clampedX - selectedAnnotation.x;
+        const dy = clampedY - selectedAnnotation.y;
+        if (hasVertices(selectedAnnotation)) {
+          clampedAnnotation.points = selectedAnnotation.points!.map(
+            (vertex) => ({ x: vertex.x + dx, y: vertex.y + dy })
+          );
+        }
+        if (selectedAnnotation.keypoints) {
+          clampedAnnotation.keypoints = selectedAnnotation.keypoints.map(
+            (kp) =>
+              isKeypointLabeled(kp) ? { ...kp, x: kp.x + dx, y: kp.y + dy } : kp
+          );
+        }
+
         // Update the selected annotation first
         setSelectedAnnotation(clampedAnnotation);
 
@@ -670,6 +1340,13 @@ export function PhotoViewer({
 
         onAnnotationsChange(newAnnotations);
         setSaveStatus("unsaved");
+      } else if (
+        editorState.isDrawing &&
+        (editorState.drawingTool === "polygon" ||
+          editorState.drawingTool === "polyline")
+      ) {
+        // Preview the next polygon or polyline edge
+        setHoverPoint(draftPolygon.length > 0 ? clampToImage(point) : null);
       } else if (editorState.isDrawing && currentAnnotation) {
         // Draw a new annotation
         const width = Math.min(
@@ -694,10 +1371,27 @@ export function PhotoViewer({
             y: e.clientY - dragState.dragStart.y,
           },
         });
+      } else if (
+        selectedAnnotation &&
+        (hasVertices(selectedAnnotation) ||
+          getKeypointIndex(point, selectedAnnotation) >= 0)
+      ) {
+        // Show move cursor when hovering over polygon vertices or keypoints
+        if (containerRef.current) {
+          containerRef.current.style.cursor =
+            getVertexIndex(point, selectedAnnotation) >= 0 ||
+            getKeypointIndex(point, selectedAnnotation) >= 0
+              ? "move"
+              : "grab";
+        }
       } else if (selectedAnnotation) {
         // Show resize cursor when hovering over handles of selected annotation
         const handle = getResizeHandle(point, selectedAnnotation);
-        if (handle) {
+        if (isOnRotationHandle(point, selectedAnnotation)) {
+          if (containerRef.current) {
+            containerRef.current.style.cursor = "crosshair";
+          }
+        } else if (handle) {
           // Set appropriate cursor based on the handle
           let cursor = "default";
           switch (handle) {
@@ -730,18 +1424,28 @@ export function PhotoViewer({
     [
       editorState.isLocked,
       editorState.isDrawing,
+      editorState.drawingTool,
+      brushClassId,
+      brushSize,
       dragState,
       selectedAnnotation,
       currentAnnotation,
-      imageState.width,
-      imageState.height,
+      draftPolygon.length,
+      imageState,
       getMousePosition,
+      clampToImage,
+      withPolygonPoints,
+      withKeypoint,
+      getVertexIndex,
+      getKeypointIndex,
       resizeAnnotation,
+      resizeRotatedAnnotation,
       updateImageState,
       annotations,
       onAnnotationsChange,
       setSaveStatus,
       getResizeHandle,
+      isOnRotationHandle,
     ]
   );
 
@@ -751,16 +1455,30 @@ export function PhotoViewer({
       if (editorState.isLocked) return;
       e.preventDefault();
 
+      // Finish the current brush stroke
+      if (e.type === "mouseleave") {
+        setBrushPoint(null);
+      }
+      if (lastBrushPointRef.current) {
+        lastBrushPointRef.current = null;
+        maskLayerRef.current?.endStroke();
+        return;
+      }
+
       // Reset cursor to default
       if (containerRef.current) {
         containerRef.current.style.cursor = "grab";
       }
 
       if (
-        (dragState.isDraggingAnnotation || dragState.resizingSide) &&
+        (dragState.isDraggingAnnotation ||
+          dragState.resizingSide ||
+          dragState.draggingVertex !== null ||
+          dragState.draggingKeypoint !== null ||
+          dragState.isRotating) &&
         selectedAnnotation
       ) {
-        // Finalize annotation drag or resize
+        // Finalize annotation drag, resize or vertex move
         setHistory((prev) => ({
           annotations: [
             ...prev.annotations.slice(0, prev.currentIndex + 1),
@@ -817,6 +1535,9 @@ export function PhotoViewer({
         isDragging: false,
         isDraggingAnnotation: false,
         resizingSide: null,
+        draggingVertex: null,
+        draggingKeypoint: null,
+        isRotating: false,
       });
     },
     [
@@ -824,6 +1545,9 @@ export function PhotoViewer({
       editorState.isDrawing,
       dragState.isDraggingAnnotation,
       dragState.resizingSide,
+      dragState.draggingVertex,
+      dragState.draggingKeypoint,
+      dragState.isRotating,
       selectedAnnotation,
       currentAnnotation,
       updateDragState,
@@ -903,24 +1627,127 @@ export function PhotoViewer({
     [annotations, updateAnnotations, setSaveStatus]
   );
 
-  // Handle bounding box drawing mode toggle
-  const handleBoundingBoxMode = useCallback((): void => {
-    const hasUnassignedClasses = annotations.some((ann) => !ann.class);
+  const handleAttributesChange = useCallback(
+    (annotationId: string, attributes: Record<string, AttributeValue>) => {
+      const newAnnotations = annotations.map((ann) =>
+        ann.id === annotationId ? { ...ann, attributes } : ann
+      );
 
-    if (hasUnassignedClasses) {
-      toast.error(
-        "Please assign classes to all existing boxes before creating new ones"
+      updateAnnotations(newAnnotations, true);
+      setSaveStatus("unsaved");
+    },
+    [annotations, updateAnnotations, setSaveStatus]
+  );
+
+  const handleTrackChange = useCallback(
+    (annotationId: string, trackId: number | undefined, keyframe: boolean) => {
+      const newAnnotations = annotations.map((ann) =>
+        ann.id === annotationId
+          ? {
+              ...ann,
+              trackId,
+              keyframe: trackId === undefined ? undefined : keyframe,
+            }
+          : ann
       );
-      return;
-    }
 
-    updateEditorState((prev) => ({
-      ...prev,
-      isDrawing: !prev.isDrawing,
-    }));
+      updateAnnotations(newAnnotations, true);
+      setSaveStatus("unsaved");
+    },
+    [annotations, updateAnnotations, setSaveStatus]
+  );
+
+  // Handle drawing mode toggle for a tool
+  const handleDrawingMode = useCallback(
+    (tool: DrawingTool): void => {
+      if (tool === "keypoint" && !skeleton) {
+        toast.error("This project has no keypoint skeleton defined");
+        return;
+      }
 
-    setSelectedAnnotation(null);
-  }, [updateEditorState, annotations]);
+      if (isMaskTool(tool) && !onMaskChange) {
+        return;
+      }
+
+      // Masks do not create objects, so only the object tools need classes
+      // assigned first
+      const hasUnassignedClasses = annotations.some((ann) => !ann.class);
+
+      if (hasUnassignedClasses && !isMaskTool(tool)) {
+        toast.error(
+          "Please assign classes to all existing boxes before creating new ones"
+        );
+        return;
+      }
+
+      // Selecting the active tool again leaves drawing mode
+      updateEditorState((prev) => ({
+        ...prev,
+        isDrawing: !(prev.isDrawing && prev.drawingTool === tool),
+        drawingTool: tool,
+      }));
+
+      // Keypoints are placed in the selected box, so keep it selected
+      if (tool !== "keypoint") {
+        setSelectedAnnotation(null);
+      }
+      if (tool === "brush" && !brushClassId && availableClasses.length > 0) {
+        setBrushClassId(availableClasses[0].id);
+      }
+      setCurrentAnnotation(null);
+      setDraftPolygon([]);
+      setHoverPoint(null);
+      setBrushPoint(null);
+    },
+    [
+      updateEditorState,
+      annotations,
+      skeleton,
+      onMaskChange,
+      brushClassId,
+      availableClasses,
+    ]
+  );
+
+  const handleBoundingBoxMode = useCallback(
+    (): void => handleDrawingMode("box"),
+    [handleDrawingMode]
+  );
+
+  const handlePolygonMode = useCallback(
+    (): void => handleDrawingMode("polygon"),
+    [handleDrawingMode]
+  );
+
+  const handlePolylineMode = useCallback(
+    (): void => handleDrawingMode("polyline"),
+    [handleDrawingMode]
+  );
+
+  const handleKeypointMode = useCallback(
+    (): void => handleDrawingMode("keypoint"),
+    [handleDrawingMode]
+  );
+
+  const handleBrushMode = useCallback(
+    (): void => handleDrawingMode("brush"),
+    [handleDrawingMode]
+  );
+
+  const handleEraserMode = useCallback(
+    (): void => handleDrawingMode("eraser"),
+    [handleDrawingMode]
+  );
+
+  // Mask edits are saved like annotation edits, but are not part of undo history
+  const handleMaskChange = useCallback(
+    (newMask: AnnotationMask): void => {
+      userActedRef.current = true;
+      onMaskChange?.(newMask);
+      setSaveStatus("unsaved");
+    },
+    [onMaskChange, setSaveStatus]
+  );
 
   // Handle save operation
   const handleSave = useCallback(async (): Promise<void> => {
@@ -1084,6 +1911,17 @@ export function PhotoViewer({
   // Handle keyboard shortcuts
   const handleKeyDown = useCallback(
     (e: KeyboardEvent): void => {
+      // Leave typing in form fields (e.g. attribute editors) alone
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.tagName === "INPUT" ||
+          target.tagName === "TEXTAREA" ||
+          target.isContentEditable)
+      ) {
+        return;
+      }
+
       const isMac = /Mac|iPod|iPhone|iPad/.test(navigator.platform);
       const ctrlKey = isMac ? e.metaKey : e.ctrlKey;
 
@@ -1176,18 +2014,46 @@ export function PhotoViewer({
           }
         }
       } else if (e.key === "Escape") {
-        if (editorState.isDrawing) {
+        if (draftPolygon.length > 0) {
+          setDraftPolygon([]);
+          setHoverPoint(null);
+        } else if (editorState.isDrawing) {
           updateEditorState({ isDrawing: false });
           setCurrentAnnotation(null);
         } else if (!isReviewDialogOpen) {
           onBack();
         }
+      } else if (e.key === "Enter") {
+        if (draftPolygon.length > 0) {
+          e.preventDefault();
+          finishPolygon();
+        }
       } else if (e.key === "Delete" || e.key === "Backspace") {
-        if (selectedAnnotation) {
+        if (draftPolygon.length > 0) {
+          // Remove the last placed polygon point
+          setDraftPolygon(draftPolygon.slice(0, -1));
+        } else if (selectedAnnotation) {
           handleDeleteAnnotation(selectedAnnotation.id);
         }
       } else if (e.key === "b" || e.key === "B") {
         handleBoundingBoxMode();
+      } else if (e.key === "p" || e.key === "P") {
+        handlePolygonMode();
+      } else if (e.key === "i" || e.key === "I") {
+        handlePolylineMode();
+      } else if (e.key === "k" || e.key === "K") {
+        handleKeypointMode();
+      } else if (e.key === "m" || e.key === "M") {
+        handleBrushMode();
+      } else if (e.key === "e" || e.key === "E") {
+        handleEraserMode();
+      } else if (e.key === "[" || e.key === "]") {
+        setBrushSize((size) =>
+          Math.max(
+            MIN_BRUSH_SIZE,
+            Math.min(size + (e.key === "]" ? 5 : -5), MAX_BRUSH_SIZE)
+          )
+        );
       } else if (e.key === "r" || e.key === "R") {
         handleReset();
       } else if (e.key === "l" || e.key === "L") {
@@ -1209,10 +2075,17 @@ export function PhotoViewer({
       handleDeleteAnnotation,
       handleSave,
       editorState.isDrawing,
+      draftPolygon,
+      finishPolygon,
       isReviewDialogOpen,
       updateEditorState,
       onBack,
       handleBoundingBoxMode,
+      handlePolygonMode,
+      handlePolylineMode,
+      handleKeypointMode,
+      handleBrushMode,
+      handleEraserMode,
       handleReset,
     ]
   );
@@ -1249,6 +2122,54 @@ export function PhotoViewer({
     userActedRef.current = false;
   }, [imageUrl, updateImageState, centerImage, onImageLoad]);
 
+  // Tell the annotator which keypoint is placed next
+  const nextKeypointIndex = getNextKeypointIndex(selectedAnnotation);
+  const nextKeypointHint = !selectedAnnotation
+    ? "Select a box"
+    : nextKeypointIndex >= 0 && skeleton
+      ? `Place: ${skeleton.keypoints[nextKeypointIndex]}`
+      : "All keypoints placed";
+
+  // Latest state of the selected object, when its class declares attributes
+  const selectedClassAttributes =
+    availableClasses.find(
+      (cls) =>
+        cls.name ===
+        annotations.find((ann) => ann.id === selectedAnnotation?.id)?.class
+    )?.attributes || [];
+  const selectedWithAttributes =
+    selectedClassAttributes.length > 0
+      ? annotations.find((ann) => ann.id === selectedAnnotation?.id)
+      : undefined;
+
+  // Only boxes can be tracked across the frames of a sequence
+  const selectedTrackable = annotations.find(
+    (ann) =>
+      ann.id === selectedAnnotation?.id &&
+      (ann.type === undefined || ann.type === AnnotationObjectType.BOX)
+  );
+
+  // Color of a class, as used for its mask pixels
+  const getClassColor = useCallback(
+    (cls: ProjectClass): string =>
+      cls.color ||
+      CLASS_COLORS[
+        Math.max(0, availableClasses.indexOf(cls)) % CLASS_COLORS.length
+      ],
+    [availableClasses]
+  );
+
+  const maskClassIds = useMemo(
+    () => availableClasses.map((cls) => cls.id),
+    [availableClasses]
+  );
+  const maskColors = useMemo(
+    () => availableClasses.map(getClassColor),
+    [availableClasses, getClassColor]
+  );
+  const isMaskToolActive =
+    editorState.isDrawing && isMaskTool(editorState.drawingTool);
+
   // Color utility for annotations
   const getAnnotationColor = (id: string): string => {
     const annotation = annotations.find((a) => a.id === id);
@@ -1268,23 +2189,8 @@ export function PhotoViewer({
       const className = annotation.class;
       const classIndex = classNames.indexOf(className);
 
-      const classColors = [
-        "#FF0000",
-        "#00FF00",
-        "#0000FF",
-        "#FFFF00",
-        "#FF00FF",
-        "#00FFFF",
-        "#FF8000",
-        "#8000FF",
-        "#0080FF",
-        "#FF0080",
-        "#80FF00",
-        "#00FF80",
-      ];
-
       if (classIndex >= 0) {
-        return classColors[classIndex % classColors.length];
+        return CLASS_COLORS[classIndex % CLASS_COLORS.length];
       }
     }
 
@@ -1326,7 +2232,11 @@ export function PhotoViewer({
         ref={containerRef}
         className="relative w-full h-full overflow-hidden"
         style={{
-          cursor: dragState.isDragging ? "grabbing" : "grab",
+          cursor: isMaskToolActive
+            ? "crosshair"
+            : dragState.isDragging
+              ? "grabbing"
+              : "grab",
           backgroundImage:
             "radial-gradient(circle at 10px 10px, #f0f0f0 2px, transparent 0)",
           backgroundSize: "20px 20px",
@@ -1335,6 +2245,14 @@ export function PhotoViewer({
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
         onMouseLeave={handleMouseUp}
+        onDoubleClick={() => {
+          if (
+            draftPolygon.length >=
+            getMinVertices(editorState.drawingTool === "polyline")
+          ) {
+            finishPolygon();
+          }
+        }}
         onWheel={handleWheel}
       >
         <div
@@ -1359,17 +2277,94 @@ export function PhotoViewer({
             onContextMenu={(e) => e.preventDefault()}
           />
 
+          {/* Render the segmentation mask */}
+          {imageState.width > 0 && imageState.height > 0 && (
+            <MaskLayer
+              key={currentImageId}
+              ref={maskLayerRef}
+              width={imageState.width}
+              height={imageState.height}
+              mask={mask}
+              classIds={maskClassIds}
+              colors={maskColors}
+              onChange={handleMaskChange}
+            />
+          )}
+
           {/* Render all annotations */}
-          {annotations.map((annotation, index) => (
-            <Annotation
-              key={`annotation-${annotation.id}`}
-              annotation={annotation}
-              isSelected={selectedAnnotation?.id === annotation.id}
-              hasClass={!!annotation.class}
-              index={index}
+          {annotations.map((annotation, index) =>
+            hasVertices(annotation) ? (
+              <PolygonAnnotation
+                key={`annotation-${annotation.id}`}
+                annotation={annotation}
+                isOpen={isPolyline(annotation)}
+                imageSize={{
+                  width: imageState.width,
+                  height: imageState.height,
+                }}
+                isSelected={selectedAnnotation?.id === annotation.id}
+                hasClass={!!annotation.class}
+                index={index}
+                getColor={getAnnotationColor}
+              />
+            ) : (
+              <Annotation
+                key={`annotation-${annotation.id}`}
+                annotation={annotation}
+                isSelected={selectedAnnotation?.id === annotation.id}
+                hasClass={!!annotation.class}
+                index={index}
+                getColor={getAnnotationColor}
+              />
+            )
+          )}
+
+          {/* Render keypoints of pose annotations */}
+          {skeleton &&
+            annotations.map((annotation) => (
+              <KeypointAnnotation
+                key={`keypoints-${annotation.id}`}
+                annotation={annotation}
+                skeleton={skeleton}
+                imageSize={{
+                  width: imageState.width,
+                  height: imageState.height,
+                }}
+                isSelected={selectedAnnotation?.id === annotation.id}
+                getColor={getAnnotationColor}
+              />
+            ))}
+
+          {/* Render the polygon currently being drawn */}
+          {draftPolygon.length > 0 && (
+            <PolygonAnnotation
+              annotation={{ id: "draft", points: draftPolygon, class: "" }}
+              imageSize={{
+                width: imageState.width,
+                height: imageState.height,
+              }}
+              isSelected={false}
+              isDrawing={true}
+              index={annotations.length}
               getColor={getAnnotationColor}
+              previewPoint={hoverPoint}
+              isOpen={editorState.drawingTool === "polyline"}
             />
-          ))}
+          )}
+
+          {/* Render the brush outline */}
+          {isMaskToolActive && brushPoint && (
+            <div
+              className="absolute rounded-full border-gray-900 pointer-events-none"
+              style={{
+                left: brushPoint.x - brushSize / 2,
+                top: brushPoint.y - brushSize / 2,
+                width: brushSize,
+                height: brushSize,
+                borderWidth: 1 / imageState.scale,
+              }}
+            />
+          )}
 
           {/* Render the annotation currently being drawn */}
           {currentAnnotation && (
@@ -1406,6 +2401,11 @@ export function PhotoViewer({
       {/* Annotation toolbar */}
       <AnnotationToolbar
         onBoundingBoxCreateMode={handleBoundingBoxMode}
+        onPolygonCreateMode={handlePolygonMode}
+        onPolylineCreateMode={handlePolylineMode}
+        onKeypointMode={skeleton ? handleKeypointMode : undefined}
+        onBrushMode={onMaskChange ? handleBrushMode : undefined}
+        onEraserMode={onMaskChange ? handleEraserMode : undefined}
         onDeleteAll={handleDeleteAll}
         onSave={handleSave}
         onAutoAnnotate={isOfficeUser ? handleAutoAnnotate : undefined}
@@ -1413,14 +2413,34 @@ export function PhotoViewer({
           isAdmin && isReviewMode ? handleRequestChanges : undefined
         }
         isDrawing={editorState.isDrawing}
+        drawingTool={editorState.drawingTool}
         isAdmin={isAdmin}
         isOfficeUser={isOfficeUser}
         isSaving={isSaving}
       />
 
+      {/* Mask brush options */}
+      {isMaskToolActive && (
+        <BrushPanel
+          isEraser={editorState.drawingTool === "eraser"}
+          classes={availableClasses}
+          getClassColor={getClassColor}
+          selectedClassId={brushClassId}
+          onClassChange={setBrushClassId}
+          brushSize={brushSize}
+          onBrushSizeChange={setBrushSize}
+          onClear={() => maskLayerRef.current?.clear()}
+        />
+      )}
+
       {/* Status indicators */}
       <StatusInfo
         isDrawing={editorState.isDrawing}
+        drawingHint={
+          editorState.isDrawing && editorState.drawingTool === "keypoint"
+            ? nextKeypointHint
+            : undefined
+        }
         isLocked={editorState.isLocked}
         imageFeedback={imageFeedback}
         isReviewMode={isReviewMode}
@@ -1439,6 +2459,42 @@ export function PhotoViewer({
         }}
       />
 
+      {/* Attributes of the selected object */}
+      {selectedWithAttributes && (
+        <AttributePanel
+          annotation={selectedWithAttributes}
+          attributes={selectedClassAttributes}
+          onChange={(values) =>
+            handleAttributesChange(selectedWithAttributes.id, values)
+          }
+        />
+      )}
+
+      {/* Track controls for sequence frames */}
+      {sequenceFrame && onInterpolateTracks && (
+        <SequencePanel
+          frameIndex={sequenceFrame.frameIndex}
+          frameCount={sequenceFrame.frameCount}
+          annotation={selectedTrackable}
+          nextTrackId={nextTrackId}
+          onTrackChange={(trackId, keyframe) =>
+            selectedTrackable &&
+            handleTrackChange(selectedTrackable.id, trackId, keyframe)
+          }
+          interpolatableTracks={interpolatableTracks}
+          onInterpolate={onInterpolateTracks}
+        />
+      )}
+
+      {/* Image-level labels panel */}
+      {onImageLabelsChange && (
+        <ImageLabelPanel
+          labelSets={imageLabelSets}
+          imageLabels={imageLabels}
+          onChange={onImageLabelsChange}
+        />
+      )}
+
       {/* Review feedback dialog */}
       <Dialog open={isReviewDialogOpen} onOpenChange={setIsReviewDialogOpen}>
         <DialogContent>
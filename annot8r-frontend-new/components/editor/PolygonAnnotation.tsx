@@ -0,0 +1,136 @@
+import React from "react";
+import { Point } from "@/lib/types/editor";
+import { getEdgeMidpoints } from "@/lib/utils/geometry";
+
+interface PolygonAnnotationProps {
+  annotation: {
+    id: string;
+    points?: Point[];
+    class: string;
+  };
+  imageSize: { width: number; height: number };
+  isSelected: boolean;
+  isDrawing?: boolean;
+  hasClass?: boolean;
+  index: number;
+  getColor: (id: string) => string;
+  previewPoint?: Point | null; // Cursor position while drawing
+  isOpen?: boolean; // Polylines are drawn without a closing edge or fill
+}
+
+export default function PolygonAnnotation({
+  annotation,
+  imageSize,
+  isSelected,
+  isDrawing = false,
+  hasClass = false,
+  index,
+  getColor,
+  previewPoint = null,
+  isOpen = false,
+}: PolygonAnnotationProps) {
+  const points = annotation.points || [];
+  if (points.length === 0) return null;
+
+  const color = getColor(annotation.id);
+  const strokeColor = isSelected
+    ? "#3B82F6"
+    : isDrawing
+      ? "#3B82F6"
+      : !hasClass
+        ? "#FF4444" // Red for no class assigned
+        : color;
+
+  const outline = previewPoint ? [...points, previewPoint] : points;
+  const pointsAttr = outline.map((p) => `${p.x},${p.y}`).join(" ");
+
+  return (
+    <>
+      <svg
+        className="absolute top-0 left-0 pointer-events-none overflow-visible"
+        width={imageSize.width}
+        height={imageSize.height}
+      >
+        {isDrawing ? (
+          <polyline
+            points={pointsAttr}
+            fill="none"
+            stroke={strokeColor}
+            strokeWidth={4}
+            strokeDasharray="12 6"
+          />
+        ) : isOpen ? (
+          <polyline
+            points={pointsAttr}
+            fill="none"
+            stroke={strokeColor}
+            strokeWidth={isSelected ? 6 : 4}
+            strokeDasharray={!hasClass ? "12 6" : undefined}
+            strokeLinejoin="round"
+            strokeLinecap="round"
+          />
+        ) : (
+          <polygon
+            points={pointsAttr}
+            fill={strokeColor}
+            fillOpacity={isSelected ? 0.25 : 0.15}
+            stroke={strokeColor}
+            strokeWidth={isSelected ? 6 : 4}
+            strokeDasharray={!hasClass ? "12 6" : undefined}
+            strokeLinejoin="round"
+          />
+        )}
+
+        {/* Midpoint handles to insert new vertices */}
+        {isSelected &&
+          getEdgeMidpoints(points, !isOpen).map((p, i) => (
+            <circle
+              key={`mid-${i}`}
+              cx={p.x}
+              cy={p.y}
+              r={7}
+              fill="#3B82F6"
+              fillOpacity={0.5}
+              stroke="white"
+              strokeWidth={2}
+            />
+          ))}
+
+        {/* Vertex handles */}
+        {(isSelected || isDrawing) &&
+          points.map((p, i) => (
+            <circle
+              key={`vertex-${i}`}
+              cx={p.x}
+              cy={p.y}
+              r={isDrawing && i === 0 && !isOpen ? 12 : 10}
+              fill="white"
+              stroke="#3B82F6"
+              strokeWidth={4}
+            />
+          ))}
+      </svg>
+
+      {/* Number indicator */}
+      {!isDrawing && (
+        <div
+          className="absolute flex items-center justify-center w-8 h-8
+                      rounded-full text-base font-semibold border-2 shadow-lg pointer-events-none"
+          style={{
+            left: points[0].x - 16,
+            top: points[0].y - 16,
+            backgroundColor: isSelected
+              ? "#3B82F6"
+              : !hasClass
+                ? "#FF4444" // Red for no class assigned
+                : color,
+            borderColor: isSelected ? "#3B82F6" : !hasClass ? "#FF4444" : color,
+            color: "white",
+          }}
+        >
+          {index + 1}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,97 @@
+import React from "react";
+import { Film, Wand2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+
+interface SequencePanelProps {
+  frameIndex: number;
+  frameCount: number;
+  // Selected object, if any
+  annotation?: {
+    id: string;
+    trackId?: number;
+    keyframe?: boolean;
+  };
+  nextTrackId: number;
+  onTrackChange: (trackId: number | undefined, keyframe: boolean) => void;
+  interpolatableTracks: number;
+  onInterpolate: () => void;
+}
+
+export default function SequencePanel({
+  frameIndex,
+  frameCount,
+  annotation,
+  nextTrackId,
+  onTrackChange,
+  interpolatableTracks,
+  onInterpolate,
+}: SequencePanelProps) {
+  return (
+    <div
+      className="fixed top-4 left-1/2 transform -translate-x-1/2 z-50
+                 bg-white/90 backdrop-blur-md border border-gray-200/50
+                 rounded-xl shadow-lg px-4 py-2 flex items-center gap-4 text-sm"
+    >
+      {/* Position in the sequence */}
+      <div className="flex items-center gap-2 font-medium whitespace-nowrap">
+        <Film className="w-4 h-4" />
+        Frame {frameIndex + 1} / {frameCount}
+      </div>
+
+      {/* Track of the selected object */}
+      {annotation && (
+        <div className="flex items-center gap-2 border-l border-gray-200 pl-4">
+          <span className="text-gray-500">Track</span>
+          <Input
+            type="number"
+            min={1}
+            value={annotation.trackId ?? ""}
+            onChange={(e) => {
+              const value = parseInt(e.target.value, 10);
+              onTrackChange(
+                Number.isNaN(value) || value < 1 ? undefined : value,
+                annotation.keyframe ?? true
+              );
+            }}
+            onKeyDown={(e) => e.stopPropagation()}
+            placeholder="None"
+            className="h-7 w-20"
+          />
+          {annotation.trackId === undefined ? (
+            <button
+              type="button"
+              onClick={() => onTrackChange(nextTrackId, true)}
+              className="px-2 py-1 rounded-md text-xs border border-gray-200 bg-white hover:bg-gray-50"
+            >
+              New track
+            </button>
+          ) : (
+            <label className="flex items-center gap-1.5 text-xs text-gray-600">
+              <Switch
+                checked={annotation.keyframe === true}
+                onCheckedChange={(checked) =>
+                  onTrackChange(annotation.trackId, checked)
+                }
+              />
+              Keyframe
+            </label>
+          )}
+        </div>
+      )}
+
+      {/* Fill in boxes between keyframes of other frames */}
+      <button
+        type="button"
+        onClick={onInterpolate}
+        disabled={interpolatableTracks === 0}
+        className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs border border-gray-200 bg-white
+                   hover:bg-gray-50 disabled:opacity-50 disabled:pointer-events-none"
+        title="Interpolate tracks with keyframes before and after this frame"
+      >
+        <Wand2 className="w-3.5 h-3.5" />
+        Interpolate ({interpolatableTracks})
+      </button>
+    </div>
+  );
+}
@@ -11,12 +11,13 @@ import {
 
 interface StatusProps {
   isDrawing: boolean;
+  drawingHint?: string;
   isLocked: boolean;
   imageFeedback?: string;
   isReviewMode?: boolean;
 }
 
-export function StatusInfo({ isDrawing, isLocked, imageFeedback, isReviewMode }: StatusProps) {
+export function StatusInfo({ isDrawing, drawingHint, isLocked, imageFeedback, isReviewMode }: StatusProps) {
   const [showFeedbackDialog, setShowFeedbackDialog] = useState(false);
 
   return (
@@ -28,6 +29,12 @@ export function StatusInfo({ isDrawing, isLocked, imageFeedback, isReviewMode }:
           </span>
         )}
 
+        {isDrawing && drawingHint && (
+          <span className="px-3 py-1.5 rounded-full bg-white text-gray-900 border border-gray-200/50 text-sm font-medium shadow-md">
+            {drawingHint}
+          </span>
+        )}
+
         {isLocked && (
           <span className="px-3 py-1.5 rounded-full bg-red-500 text-white border border-red-200/50 text-sm font-medium shadow-md">
             Locked
@@ -9,7 +9,16 @@ import type {
   AddProjectMemberRequest,
   ProjectMember,
   ProjectClass,
+  ClassDistributionEntry,
   ProjectImage,
+  ImageSequence,
+  SequenceFrameTracks,
+  VideoImport,
+  DatasetImport,
+  DatasetImportFormat,
+  FrameSamplingMode,
+  DatasetVersion,
+  DatasetVersionDiff,
   ManualAssignmentRequest,
   Assignment,
   Submission,
@@ -18,9 +27,20 @@ import type {
   Annotation,
   CreateExportRequest,
   ProjectExport,
+  ExportSchedule,
+  CreateExportScheduleRequest,
+  UpdateExportScheduleRequest,
   ExportStatus,
   ProjectMemberForAssignment,
   AssignmentMetrics,
+  AnnotationObjectType,
+  NormalizedPoint,
+  Keypoint,
+  ProjectSkeleton,
+  ImageLabelSet,
+  ImageLabelValue,
+  AnnotationMask,
+  AttributeValue,
 } from "@/lib/types";
 
 // Project operations
@@ -322,11 +342,18 @@ export async function removeProjectMember(
 export async function getProjectClasses(
   projectId: string
 ): Promise<
-  ApiResponse<{ classes: ProjectClass[]; allowCustomClasses: boolean }>
+  ApiResponse<{
+    classes: ProjectClass[];
+    skeleton?: ProjectSkeleton;
+    imageLabelSets?: ImageLabelSet[];
+    allowCustomClasses: boolean;
+  }>
 > {
   try {
     const response = await clientApi.get<{
       classes: ProjectClass[];
+      skeleton?: ProjectSkeleton;
+      imageLabelSets?: ImageLabelSet[];
       allowCustomClasses: boolean;
     }>(`/user/projects/${projectId}/classes`);
     if ("success" in response) {
@@ -347,23 +374,51 @@ export async function getProjectClasses(
   }
 }
 
+export async function getClassDistribution(
+  projectId: string
+): Promise<ApiResponse<{ classes: ClassDistributionEntry[] }>> {
+  try {
+    const response = await clientApi.get<{
+      classes: ClassDistributionEntry[];
+    }>(`/projects/${projectId}/class-distribution`);
+    if ("success" in response) {
+      return response;
+    }
+    return {
+      success: true,
+      data: response,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch class distribution",
+    };
+  }
+}
+
 // Project image operations
 export async function getProjectImages(
   projectId: string,
   page = 1,
   limit = 20,
-  filters: Record<string, string> = {}
+  filters: Record<string, string | string[]> = {}
 ): Promise<ApiResponse<PaginatedResponse<ProjectImage>>> {
   try {
     const queryParams = new URLSearchParams();
     queryParams.append("page", page.toString());
     queryParams.append("limit", limit.toString());
 
-    // Add filters to query parameters
+    // Add filters to query parameters (arrays become repeated parameters)
     Object.entries(filters).forEach(([key, value]) => {
-      if (value) {
-        queryParams.append(key, value);
-      }
+      const values = Array.isArray(value) ? value : [value];
+      values.forEach((item) => {
+        if (item) {
+          queryParams.append(key, item);
+        }
+      });
     });
 
     const response = await clientApi.get<
@@ -606,15 +661,24 @@ export async function saveAnnotation(
   imageId: string,
   annotationData: {
     objects: Array<{
+      type?: AnnotationObjectType;
       x: number;
       y: number;
       width: number;
       height: number;
+      angle?: number;
+      points?: NormalizedPoint[];
+      keypoints?: Keypoint[];
+      attributes?: Record<string, AttributeValue>;
+      trackId?: number;
+      keyframe?: boolean;
     }>;
     classIds: string[];
     classNames: string[];
     timeSpent: number;
     autoAnnotated: boolean;
+    imageLabels?: ImageLabelValue[];
+    mask?: AnnotationMask;
   }
 ): Promise<ApiResponse<Annotation>> {
   try {
@@ -650,14 +714,23 @@ export async function autoSaveAnnotation(
   imageId: string,
   annotationData: {
     objects: Array<{
+      type?: AnnotationObjectType;
       x: number;
       y: number;
       width: number;
       height: number;
+      angle?: number;
+      points?: NormalizedPoint[];
+      keypoints?: Keypoint[];
+      attributes?: Record<string, AttributeValue>;
+      trackId?: number;
+      keyframe?: boolean;
     }>;
     classIds: string[];
     classNames: string[];
     timeSpent: number;
+    imageLabels?: ImageLabelValue[];
+    mask?: AnnotationMask;
   }
 ): Promise<ApiResponse<null>> {
   try {
@@ -877,6 +950,179 @@ export async function updateImageFeedback(
   }
 }
 
+// Sequence operations
+export async function getSequences(
+  projectId: string
+): Promise<ApiResponse<{ sequences: ImageSequence[] }>> {
+  try {
+    const response = await clientApi.get<{ sequences: ImageSequence[] }>(
+      `/projects/${projectId}/sequences`
+    );
+    if ("success" in response) {
+      return response;
+    }
+    return {
+      success: true,
+      data: response,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to fetch sequences",
+    };
+  }
+}
+
+export async function createSequence(
+  projectId: string,
+  sequenceData: { name: string; imageIds: string[] }
+): Promise<ApiResponse<ImageSequence>> {
+  try {
+    const response = await clientApi.post<ImageSequence>(
+      `/projects/${projectId}/sequences`,
+      sequenceData
+    );
+    if ("success" in response) {
+      return response;
+    }
+    return {
+      success: true,
+      data: response,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to create sequence",
+    };
+  }
+}
+
+export async function deleteSequence(
+  projectId: string,
+  sequenceId: string
+): Promise<ApiResponse<null>> {
+  try {
+    const response = await clientApi.delete<null>(
+      `/projects/${projectId}/sequences/${sequenceId}`
+    );
+    if ("success" in response) {
+      return response;
+    }
+    return {
+      success: true,
+      data: response,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to delete sequence",
+    };
+  }
+}
+
+export async function getSequenceTracks(
+  projectId: string,
+  sequenceId: string
+): Promise<ApiResponse<{ frames: SequenceFrameTracks[] }>> {
+  try {
+    const response = await clientApi.get<{ frames: SequenceFrameTracks[] }>(
+      `/projects/${projectId}/sequences/${sequenceId}/tracks`
+    );
+    if ("success" in response) {
+      return response;
+    }
+    return {
+      success: true,
+      data: response,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch sequence tracks",
+    };
+  }
+}
+
+// Dataset version operations
+export async function getDatasetVersions(
+  projectId: string
+): Promise<ApiResponse<{ versions: DatasetVersion[] }>> {
+  try {
+    const response = await clientApi.get<{ versions: DatasetVersion[] }>(
+      `/projects/${projectId}/versions`
+    );
+    if ("success" in response) {
+      return response;
+    }
+    return {
+      success: true,
+      data: response,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to fetch versions",
+    };
+  }
+}
+
+export async function createDatasetVersion(
+  projectId: string,
+  versionData: { name: string; description?: string }
+): Promise<ApiResponse<DatasetVersion>> {
+  try {
+    const response = await clientApi.post<DatasetVersion>(
+      `/projects/${projectId}/versions`,
+      versionData
+    );
+    if ("success" in response) {
+      return response;
+    }
+    return {
+      success: true,
+      data: response,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to create version",
+    };
+  }
+}
+
+export async function getDatasetVersionDiff(
+  projectId: string,
+  fromVersionId: string,
+  toVersionId: string
+): Promise<ApiResponse<DatasetVersionDiff>> {
+  try {
+    const response = await clientApi.get<DatasetVersionDiff>(
+      `/projects/${projectId}/versions/diff?from=${fromVersionId}&to=${toVersionId}`
+    );
+    if ("success" in response) {
+      return response;
+    }
+    return {
+      success: true,
+      data: response,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to compare versions",
+    };
+  }
+}
+
 // Export operations
 export async function createExport(
   projectId: string,
@@ -1011,6 +1257,112 @@ export async function getExportStatus(
   }
 }
 
+export async function getExportSchedules(
+  projectId: string
+): Promise<ApiResponse<{ schedules: ExportSchedule[] }>> {
+  try {
+    const response = await clientApi.get<{ schedules: ExportSchedule[] }>(
+      `/projects/${projectId}/exports/schedules`
+    );
+    if ("success" in response) {
+      return response;
+    }
+    return {
+      success: true,
+      data: response,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch export schedules",
+    };
+  }
+}
+
+export async function createExportSchedule(
+  projectId: string,
+  scheduleData: CreateExportScheduleRequest
+): Promise<ApiResponse<ExportSchedule>> {
+  try {
+    const response = await clientApi.post<ExportSchedule>(
+      `/projects/${projectId}/exports/schedules`,
+      scheduleData
+    );
+    if ("success" in response) {
+      return response;
+    }
+    return {
+      success: true,
+      data: response,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to create export schedule",
+    };
+  }
+}
+
+export async function updateExportSchedule(
+  projectId: string,
+  scheduleId: string,
+  scheduleData: UpdateExportScheduleRequest
+): Promise<ApiResponse<ExportSchedule>> {
+  try {
+    const response = await clientApi.patch<ExportSchedule>(
+      `/projects/${projectId}/exports/schedules/${scheduleId}`,
+      scheduleData
+    );
+    if ("success" in response) {
+      return response;
+    }
+    return {
+      success: true,
+      data: response,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to update export schedule",
+    };
+  }
+}
+
+export async function deleteExportSchedule(
+  projectId: string,
+  scheduleId: string
+): Promise<ApiResponse<null>> {
+  try {
+    const response = await clientApi.delete<null>(
+      `/projects/${projectId}/exports/schedules/${scheduleId}`
+    );
+    if ("success" in response) {
+      return response;
+    }
+    return {
+      success: true,
+      data: response,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to delete export schedule",
+    };
+  }
+}
+
 export async function getProxiedImageUrl(
   projectId: string,
   imageId: string
@@ -1366,3 +1718,206 @@ export async function getSubmissionStats(projectId: string): Promise<
     };
   }
 }
+
+// Video operations
+export async function uploadVideo(
+  projectId: string,
+  file: File,
+  sampling: { samplingMode: FrameSamplingMode; samplingValue: number }
+): Promise<ApiResponse<VideoImport>> {
+  try {
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("samplingMode", sampling.samplingMode);
+    formData.append("samplingValue", sampling.samplingValue.toString());
+
+    const token = localStorage.getItem("auth_token") || "";
+    const apiUrl =
+      process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001/api/v1";
+
+    const response = await fetch(
+      `${apiUrl}/projects/${projectId}/videos/upload`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+        body: formData,
+      }
+    );
+
+    if (!response.ok) {
+      let errorMessage = `Server returned ${response.status}: ${response.statusText}`;
+      try {
+        const errorData = await response.json();
+        errorMessage = errorData.error || errorData.message || errorMessage;
+      } catch {
+        // If not JSON
+      }
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+
+    const data = await response.json();
+    return {
+      success: true,
+      data: data.data || data,
+    };
+  } catch (error) {
+    console.error("Video upload error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to upload video",
+    };
+  }
+}
+
+export async function getVideoImports(
+  projectId: string
+): Promise<ApiResponse<{ videos: VideoImport[] }>> {
+  try {
+    const response = await clientApi.get<{ videos: VideoImport[] }>(
+      `/projects/${projectId}/videos`
+    );
+    if ("success" in response) {
+      return response;
+    }
+    return {
+      success: true,
+      data: response,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to fetch videos",
+    };
+  }
+}
+
+export async function getVideoImportStatus(
+  projectId: string,
+  videoId: string
+): Promise<ApiResponse<VideoImport>> {
+  try {
+    const response = await clientApi.get<VideoImport>(
+      `/projects/${projectId}/videos/${videoId}/status`
+    );
+    if ("success" in response) {
+      return response;
+    }
+    return {
+      success: true,
+      data: response,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to fetch video status",
+    };
+  }
+}
+
+export async function importDataset(
+  projectId: string,
+  format: DatasetImportFormat,
+  file: File,
+  createMissingClasses: boolean
+): Promise<ApiResponse<DatasetImport>> {
+  try {
+    const formData = new FormData();
+    formData.append("format", format);
+    formData.append("file", file);
+    formData.append("createMissingClasses", String(createMissingClasses));
+
+    const token = localStorage.getItem("auth_token") || "";
+    const apiUrl =
+      process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001/api/v1";
+
+    const response = await fetch(`${apiUrl}/projects/${projectId}/imports`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+      body: formData,
+    });
+
+    if (!response.ok) {
+      let errorMessage = `Server returned ${response.status}: ${response.statusText}`;
+      try {
+        const errorData = await response.json();
+        errorMessage = errorData.error || errorData.message || errorMessage;
+      } catch {
+        // If not JSON
+      }
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+
+    const data = await response.json();
+    return {
+      success: true,
+      data: data.data || data,
+    };
+  } catch (error) {
+    console.error("Dataset import error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to import dataset",
+    };
+  }
+}
+
+export async function getDatasetImports(
+  projectId: string
+): Promise<ApiResponse<{ imports: DatasetImport[] }>> {
+  try {
+    const response = await clientApi.get<{ imports: DatasetImport[] }>(
+      `/projects/${projectId}/imports`
+    );
+    if ("success" in response) {
+      return response;
+    }
+    return {
+      success: true,
+      data: response,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to fetch imports",
+    };
+  }
+}
+
+export async function getDatasetImportStatus(
+  projectId: string,
+  importId: string
+): Promise<ApiResponse<DatasetImport>> {
+  try {
+    const response = await clientApi.get<DatasetImport>(
+      `/projects/${projectId}/imports/${importId}/status`
+    );
+    if ("success" in response) {
+      return response;
+    }
+    return {
+      success: true,
+      data: response,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to fetch import status",
+    };
+  }
+}
@@ -30,8 +30,17 @@ export interface DragState {
 export interface EditorState {
   isLocked: boolean;
   isDrawing: boolean;
+  drawingTool: DrawingTool;
 }
 
+export type DrawingTool =
+  | "box"
+  | "polygon"
+  | "polyline"
+  | "keypoint"
+  | "brush"
+  | "eraser";
+
 export type AutosaveStatus = "saved" | "saving" | "unsaved" | "not_available";
 
 export type ResizeHandle =
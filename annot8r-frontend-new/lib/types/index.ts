@@ -54,6 +54,35 @@ export enum SubmissionStatus {
   APPROVED = "APPROVED",
 }
 
+export enum AnnotationObjectType {
+  BOX = "BOX",
+  POLYGON = "POLYGON",
+  POLYLINE = "POLYLINE",
+}
+
+export enum AttributeType {
+  BOOLEAN = "BOOLEAN",
+  ENUM = "ENUM",
+  TEXT = "TEXT",
+  NUMBER = "NUMBER",
+}
+
+export enum ImageLabelSetType {
+  SINGLE = "SINGLE",
+  MULTI = "MULTI",
+}
+
+export enum ExportFormat {
+  YOLO = "YOLO",
+  YOLO_OBB = "YOLO_OBB",
+  MOT = "MOT",
+  COCO = "COCO",
+  VOC = "VOC",
+  OBJECT_TABLE = "OBJECT_TABLE",
+  LABEL_STUDIO = "LABEL_STUDIO",
+  CVAT = "CVAT",
+}
+
 export enum ExportStatus {
   PENDING = "PENDING",
   PROCESSING = "PROCESSING",
@@ -61,6 +90,60 @@ export enum ExportStatus {
   FAILED = "FAILED",
 }
 
+export enum VideoImportStatus {
+  PENDING = "PENDING",
+  EXTRACTING = "EXTRACTING",
+  UPLOADING = "UPLOADING",
+  COMPLETED = "COMPLETED",
+  FAILED = "FAILED",
+}
+
+export enum DatasetImportFormat {
+  YOLO = "YOLO",
+  COCO = "COCO",
+  VOC = "VOC",
+  LABEL_STUDIO = "LABEL_STUDIO",
+  CVAT = "CVAT",
+}
+
+export enum DatasetImportStatus {
+  PENDING = "PENDING",
+  PROCESSING = "PROCESSING",
+  COMPLETED = "COMPLETED",
+  FAILED = "FAILED",
+}
+
+export enum FrameSamplingMode {
+  EVERY_NTH_FRAME = "EVERY_NTH_FRAME",
+  FPS = "FPS",
+}
+
+export enum AnnotationSource {
+  AUTO = "AUTO",
+  HUMAN = "HUMAN",
+}
+
+export enum DatasetDiffStatus {
+  ADDED = "ADDED",
+  REMOVED = "REMOVED",
+  CHANGED = "CHANGED",
+}
+
+export enum ExportIssueType {
+  UNKNOWN_CLASS = "UNKNOWN_CLASS",
+  OUT_OF_RANGE = "OUT_OF_RANGE",
+  ZERO_SIZE = "ZERO_SIZE",
+  MISSING_FILE = "MISSING_FILE",
+  SIZE_MISMATCH = "SIZE_MISMATCH",
+}
+
+export enum ExportDropReason {
+  NO_ANNOTATION = "NO_ANNOTATION",
+  FILTERED = "FILTERED",
+  NOT_IN_SEQUENCE = "NOT_IN_SEQUENCE",
+  IMAGE_DELETED = "IMAGE_DELETED",
+}
+
 // User-related interfaces
 export interface UserProfile {
   id: string;
@@ -86,11 +169,47 @@ export interface AuthUser {
 }
 
 // Project-related interfaces
+export interface ClassAttribute {
+  name: string;
+  type: AttributeType;
+  options?: string[]; // Allowed values of ENUM attributes
+  required?: boolean; // Must be set before a final save
+}
+
+export type AttributeValue = string | number | boolean;
+
 export interface ProjectClass {
   id: string;
   name: string;
   color: string;
   isCustom: boolean;
+  attributes?: ClassAttribute[];
+  parentId?: string; // Parent class in the taxonomy, top-level when unset
+}
+
+export interface ClassDistributionEntry {
+  classId: string;
+  className: string;
+  parentId?: string;
+  count: number; // Objects of the class itself
+  total: number; // Objects of the class and all of its descendants
+}
+
+export interface ProjectSkeleton {
+  keypoints: string[]; // Keypoint names, in export order
+  edges: [number, number][]; // Pairs of keypoint indices to connect
+}
+
+export interface ImageLabelSet {
+  id: string;
+  name: string;
+  type: ImageLabelSetType;
+  options: string[];
+}
+
+export interface ImageLabelValue {
+  setId: string;
+  values: string[];
 }
 
 export interface Project {
@@ -99,6 +218,8 @@ export interface Project {
   description: string;
   annotationFormat: string;
   classes: ProjectClass[];
+  skeleton?: ProjectSkeleton;
+  imageLabelSets?: ImageLabelSet[];
   allowCustomClasses: boolean;
   status: ProjectStatus;
   totalImages: number;
@@ -140,6 +261,109 @@ export interface ProjectImage {
   autoAnnotated: boolean;
   timeSpent: number;
   reviewFeedback?: string;
+  sequenceId?: string; // Set on frames of an image sequence
+  frameIndex?: number; // Position in the sequence, starting at 0
+  sourceTimestamp?: number; // Seconds into the video the frame was taken from
+}
+
+export interface ImageSequence {
+  id: string;
+  name: string;
+  frameCount: number;
+  createdAt: string;
+}
+
+// Frame extraction of an uploaded video into a sequence
+export interface VideoImport {
+  id: string;
+  filename: string;
+  samplingMode: FrameSamplingMode;
+  samplingValue: number;
+  status: VideoImportStatus;
+  progress: number; // Percentage, 0-100
+  extractedFrames: number;
+  uploadedFrames: number;
+  truncated: boolean; // Frames past the extraction limit were left out
+  duration: number | null; // Seconds
+  sequenceId: string | null;
+  error: string | null;
+  createdAt: string;
+}
+
+// Problem with one file of an imported dataset, which was skipped
+export interface DatasetImportError {
+  file: string; // Uploaded file or path in the archive
+  line?: number; // Line of label files, starting at 1
+  message: string;
+}
+
+// Import of a labeled dataset archive into a project
+export interface DatasetImport {
+  id: string;
+  format: DatasetImportFormat;
+  filename: string;
+  createMissingClasses: boolean;
+  status: DatasetImportStatus;
+  progress: number; // Percentage, 0-100
+  importedImages: number; // Images created, or annotated for other formats
+  importedObjects: number;
+  createdClasses: string[];
+  errors: DatasetImportError[];
+  error: string | null;
+  createdAt: string;
+}
+
+// Frozen set of approved images and their annotations
+export interface DatasetVersion {
+  id: string;
+  name: string;
+  description?: string;
+  totalImages: number;
+  totalObjects: number;
+  createdAt: string;
+}
+
+// Differences of one image between two dataset versions
+export interface DatasetDiffImage {
+  imageId: string;
+  filename: string;
+  status: DatasetDiffStatus;
+  objectsAdded: number;
+  objectsRemoved: number;
+  objectsChanged: number;
+}
+
+export interface DatasetVersionDiff {
+  from: { id: string; name: string };
+  to: { id: string; name: string };
+  summary: {
+    imagesAdded: number;
+    imagesRemoved: number;
+    imagesChanged: number;
+    objectsAdded: number;
+    objectsRemoved: number;
+    objectsChanged: number;
+  };
+  images: DatasetDiffImage[];
+}
+
+// Tracked objects on one frame of a sequence
+export interface SequenceFrameTracks {
+  imageId: string;
+  frameIndex: number;
+  objects: Array<
+    Pick<
+      YoloObject,
+      | "classId"
+      | "className"
+      | "x"
+      | "y"
+      | "width"
+      | "height"
+      | "trackId"
+      | "keyframe"
+    >
+  >;
 }
 
 export interface ProxiedImageUrl {
@@ -149,19 +373,59 @@ export interface ProxiedImageUrl {
 }
 
 // Annotation-related interfaces
+export interface NormalizedPoint {
+  x: number; // Normalized 0-1
+  y: number; // Normalized 0-1
+}
+
+export enum KeypointVisibility {
+  NOT_LABELED = 0,
+  OCCLUDED = 1,
+  VISIBLE = 2,
+}
+
+export interface Keypoint {
+  x: number; // Normalized 0-1
+  y: number; // Normalized 0-1
+  visibility: KeypointVisibility;
+}
+
 export interface YoloObject {
+  type?: AnnotationObjectType; // Missing on older annotations, which are boxes
   classId: string;
   className: string;
   x: number; // Center x (normalized 0-1)
   y: number; // Center y (normalized 0-1)
   width: number; // Width (normalized 0-1)
   height: number; // Height (normalized 0-1)
+  angle?: number; // Box rotation in degrees, clockwise around the center
+  points?: NormalizedPoint[]; // Polygon/polyline vertices or rotated box corners
+  keypoints?: Keypoint[]; // One entry per skeleton keypoint
+  attributes?: Record<string, AttributeValue>; // Keyed by class attribute name
+  trackId?: number; // Identity of the object across the frames of a sequence
+  keyframe?: boolean; // Placed by hand rather than interpolated
+}
+
+// Painted pixels of one class, run-length encoded over the row-major pixels
+// of the image. Runs alternate between unpainted and painted, starting unpainted.
+export interface MaskClassRle {
+  classId: string;
+  counts: number[];
+}
+
+export interface AnnotationMask {
+  width: number; // Image width in pixels
+  height: number; // Image height in pixels
+  classes: MaskClassRle[];
 }
 
 export interface Annotation {
   id: string;
   version: number;
   objects: YoloObject[];
+  imageLabels?: ImageLabelValue[];
+  mask?: AnnotationMask | null;
+  sequence?: { id: string; frameIndex: number } | null;
   timeSpent: number;
   autoAnnotated: boolean;
   updatedAt: string;
@@ -236,10 +500,21 @@ export interface ImageFeedback {
 // Export-related interfaces
 export interface ProjectExport {
   id: string;
-  format: string;
+  format: ExportFormat;
   status: ExportStatus;
   includesImages: boolean;
   onlyReviewedAnnotations: boolean;
+  taxonomyLevel?: number;
+  split?: ExportSplit;
+  tiling?: ExportTiling;
+  augmentation?: ExportAugmentation;
+  baseExportId?: string;
+  changes?: ExportChanges;
+  validation?: ExportValidationSummary;
+  versionId?: string;
+  versionName?: string;
+  filters?: ExportFilters;
+  scheduleId?: string;
   totalImages: number;
   totalAnnotations: number;
   exportedAt: string;
@@ -302,13 +577,18 @@ export interface CreateProjectRequest {
   classes: Array<{
     name: string;
     color: string;
+    attributes?: ClassAttribute[];
   }>;
+  skeleton?: ProjectSkeleton;
+  imageLabelSets?: Array<Omit<ImageLabelSet, "id">>;
   allowCustomClasses: boolean;
 }
 
 export interface UpdateProjectRequest {
   description?: string;
   classes?: ProjectClass[];
+  skeleton?: ProjectSkeleton;
+  imageLabelSets?: ImageLabelSet[];
   allowCustomClasses?: boolean;
   status?: ProjectStatus;
 }
@@ -327,15 +607,22 @@ export interface ManualAssignmentRequest {
 
 export interface SaveAnnotationRequest {
   objects: Array<{
+    type?: AnnotationObjectType;
     x: number;
     y: number;
     width: number;
     height: number;
+    angle?: number;
+    points?: NormalizedPoint[];
+    keypoints?: Keypoint[];
+    attributes?: Record<string, AttributeValue>;
   }>;
   classIds: string[];
   classNames: string[];
   timeSpent: number;
   autoAnnotated: boolean;
+  imageLabels?: ImageLabelValue[];
+  mask?: AnnotationMask;
 }
 
 export interface SubmitForReviewRequest {
@@ -357,9 +644,98 @@ export interface ReviewSubmissionRequest {
 }
 
 export interface CreateExportRequest {
-  format: string;
+  format: ExportFormat;
+  includesImages: boolean;
+  onlyReviewedAnnotations: boolean;
+  taxonomyLevel?: number;
+  split?: ExportSplit;
+  tiling?: ExportTiling;
+  augmentation?: ExportAugmentation;
+  baseExportId?: string; // Only export changes since this export
+  versionId?: string; // Export a dataset version instead of current data
+  filters?: ExportFilters;
+}
+
+// Recurring export of a project, on a cron expression in UTC
+export interface ExportSchedule {
+  id: string;
+  name: string;
+  cron: string;
+  format: ExportFormat;
   includesImages: boolean;
   onlyReviewedAnnotations: boolean;
+  taxonomyLevel?: number;
+  split?: ExportSplit;
+  tiling?: ExportTiling;
+  augmentation?: ExportAugmentation;
+  filters?: ExportFilters;
+  retention: number; // Scheduled exports kept, newest first
+  enabled: boolean;
+  nextRunAt: string;
+  lastRunAt?: string;
+  lastExportId?: string;
+  lastError?: string;
+  createdAt: string;
+}
+
+export interface CreateExportScheduleRequest
+  extends Omit<CreateExportRequest, "baseExportId" | "versionId"> {
+  name: string;
+  cron: string;
+  retention: number;
+  enabled?: boolean;
+}
+
+export type UpdateExportScheduleRequest = Partial<CreateExportScheduleRequest>;
+
+// Subset of a dataset to export, matched on the latest annotation of images
+export interface ExportFilters {
+  classIds?: string[]; // Classes to keep, with their subclasses
+  annotatorIds?: string[];
+  annotatedFrom?: string; // ISO date
+  annotatedTo?: string; // ISO date
+  source?: AnnotationSource;
+  reviewStatuses?: ReviewStatus[];
+}
+
+// Counts of the validation report bundled with an export as report.json
+export interface ExportValidationSummary {
+  issues: Partial<Record<ExportIssueType, number>>;
+  droppedImages: Partial<Record<ExportDropReason, number>>;
+}
+
+// Image counts of an incremental export against its base export
+export interface ExportChanges {
+  added: number;
+  changed: number;
+  removed: number;
+}
+
+// Square tiles that the images of a YOLO export are cut into
+export interface ExportTiling {
+  size: number; // Tile side in pixels
+  overlap: number; // Ratio of the tile size shared with the next tile
+  minVisibility: number; // Ratio of an object inside a tile to keep it
+}
+
+// Augmented copies added to a YOLO export, transforms picked from a seed
+export interface ExportAugmentation {
+  copies: number; // Augmented copies of each image
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  rotate90: boolean; // Turn by a multiple of 90 degrees
+  brightness: number; // Largest brightness change, as a ratio
+  contrast: number; // Largest contrast change, as a ratio
+  resize?: { width: number; height: number; letterbox: boolean };
+  seed: number;
+}
+
+// Train/val/test ratios of a YOLO export, adding up to 1
+export interface ExportSplit {
+  train: number;
+  val: number;
+  test: number;
+  seed: number;
 }
 
 // Dashboard-related interfaces
@@ -0,0 +1,158 @@
+/**
+ * Geometry helpers for the annotation editor
+ */
+
+import { Point } from "@/lib/types/editor";
+
+/**
+ * Get the axis-aligned bounding box (top-left based) of a set of points
+ */
+export function getPointsBounds(points: Point[]): {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+} {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY,
+  };
+}
+
+/**
+ * Check whether a point lies inside a polygon (ray casting)
+ */
+export function isPointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+
+    const intersects =
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x;
+
+    if (intersects) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Distance between two points
+ */
+export function distanceBetween(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Get the midpoints of every edge of a polygon, or of an open polyline
+ * (which has no closing edge)
+ */
+export function getEdgeMidpoints(polygon: Point[], closed = true): Point[] {
+  const edges = closed ? polygon : polygon.slice(0, -1);
+  return edges.map((point, index) => {
+    const next = polygon[(index + 1) % polygon.length];
+    return { x: (point.x + next.x) / 2, y: (point.y + next.y) / 2 };
+  });
+}
+
+/**
+ * Shortest distance from a point to an open polyline
+ */
+export function distanceToPolyline(point: Point, polyline: Point[]): number {
+  let closest = Infinity;
+
+  for (let i = 0; i < polyline.length - 1; i++) {
+    const a = polyline[i];
+    const b = polyline[i + 1];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const projection =
+      ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq;
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, projection)) : 0;
+
+    closest = Math.min(
+      closest,
+      distanceBetween(point, { x: a.x + t * dx, y: a.y + t * dy })
+    );
+  }
+
+  return closest;
+}
+
+/**
+ * Rotate a point around a center by an angle in degrees (clockwise on screen)
+ */
+export function rotatePoint(point: Point, center: Point, angle: number): Point {
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+
+  return {
+    x: center.x + dx * cos - dy * sin,
+    y: center.y + dx * sin + dy * cos,
+  };
+}
+
+/**
+ * Get the corners of a top-left based box rotated around its center
+ */
+export function getRotatedCorners(
+  box: { x: number; y: number; width: number; height: number },
+  angle: number
+): Point[] {
+  const center = { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+
+  return [
+    { x: box.x, y: box.y },
+    { x: box.x + box.width, y: box.y },
+    { x: box.x + box.width, y: box.y + box.height },
+    { x: box.x, y: box.y + box.height },
+  ].map((corner) => rotatePoint(corner, center, angle));
+}
+
+/**
+ * Move a top-left based box rotated around its center until its corners lie
+ * inside the bounds, shrinking it around its center when it can't fit at
+ * its size
+ */
+export function fitRotatedBox<
+  T extends { x: number; y: number; width: number; height: number }
+>(box: T, angle: number, bounds: { width: number; height: number }): T {
+  const extent = getPointsBounds(getRotatedCorners(box, angle));
+  const scale = Math.min(
+    1,
+    bounds.width / extent.width,
+    bounds.height / extent.height
+  );
+  const halfX = (extent.width * scale) / 2;
+  const halfY = (extent.height * scale) / 2;
+  const center = {
+    x: Math.max(halfX, Math.min(box.x + box.width / 2, bounds.width - halfX)),
+    y: Math.max(halfY, Math.min(box.y + box.height / 2, bounds.height - halfY)),
+  };
+  const width = box.width * scale;
+  const height = box.height * scale;
+
+  return {
+    ...box,
+    x: center.x - width / 2,
+    y: center.y - height / 2,
+    width,
+    height,
+  };
+}
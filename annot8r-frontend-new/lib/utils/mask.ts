@@ -0,0 +1,68 @@
+/**
+ * Run-length encoding helpers for segmentation masks
+ */
+
+import { AnnotationMask } from "@/lib/types";
+
+/**
+ * Encode a label map (one byte per pixel, 0 for background and i + 1 for
+ * classIds[i]) into per-class runs, leaving out classes without painted pixels.
+ */
+export function encodeMask(
+  labelMap: Uint8Array,
+  width: number,
+  height: number,
+  classIds: string[]
+): AnnotationMask {
+  const classes: AnnotationMask["classes"] = [];
+
+  classIds.forEach((classId, index) => {
+    const value = index + 1;
+    const counts: number[] = [];
+    let painted = false;
+    let run = 0;
+
+    for (let i = 0; i < labelMap.length; i++) {
+      if ((labelMap[i] === value) !== painted) {
+        counts.push(run);
+        painted = !painted;
+        run = 0;
+      }
+      run++;
+    }
+    counts.push(run);
+
+    if (counts.length > 1) {
+      classes.push({ classId, counts });
+    }
+  });
+
+  return { width, height, classes };
+}
+
+/**
+ * Decode per-class runs into a label map, see encodeMask. Runs of classes
+ * that are not in classIds are skipped.
+ */
+export function decodeMask(
+  mask: AnnotationMask,
+  classIds: string[]
+): Uint8Array {
+  const labelMap = new Uint8Array(mask.width * mask.height);
+
+  for (const maskClass of mask.classes) {
+    const value = classIds.indexOf(maskClass.classId) + 1;
+    if (value === 0) continue;
+
+    let offset = 0;
+    maskClass.counts.forEach((count, run) => {
+      // Odd runs are painted
+      if (run % 2 === 1) {
+        labelMap.fill(value, offset, offset + count);
+      }
+      offset += count;
+    });
+  }
+
+  return labelMap;
+}
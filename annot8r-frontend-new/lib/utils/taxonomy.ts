@@ -0,0 +1,91 @@
+/**
+ * Helpers for the class taxonomy (parent/child classes)
+ */
+
+import { ProjectClass } from "@/lib/types";
+
+type TaxonomyNode = Pick<ProjectClass, "id" | "name" | "parentId">;
+
+/**
+ * Order classes depth-first, children following their parent in project
+ * order. Classes whose parent is missing are treated as top-level.
+ */
+export function flattenClassTree<T extends TaxonomyNode>(
+  classes: T[]
+): Array<{ cls: T; depth: number }> {
+  const ids = new Set(classes.map((cls) => cls.id));
+  const visited = new Set<string>();
+  const result: Array<{ cls: T; depth: number }> = [];
+
+  const visit = (cls: T, depth: number) => {
+    if (visited.has(cls.id)) return;
+    visited.add(cls.id);
+    result.push({ cls, depth });
+
+    classes
+      .filter((child) => child.parentId === cls.id)
+      .forEach((child) => visit(child, depth + 1));
+  };
+
+  classes
+    .filter((cls) => !cls.parentId || !ids.has(cls.parentId))
+    .forEach((cls) => visit(cls, 0));
+
+  return result;
+}
+
+/**
+ * Get the names from the top-level ancestor down to a class
+ */
+export function getClassPath(
+  classes: TaxonomyNode[],
+  classId: string
+): string[] {
+  const path: string[] = [];
+  const seen = new Set<string>();
+  let current = classes.find((cls) => cls.id === classId);
+
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current.name);
+    const parentId = current.parentId;
+    current = classes.find((cls) => cls.id === parentId);
+  }
+
+  return path;
+}
+
+/**
+ * Get the ids of all descendants of a class
+ */
+export function getDescendantIds(
+  classes: TaxonomyNode[],
+  classId: string
+): string[] {
+  const descendants: string[] = [];
+  const queue = [classId];
+
+  while (queue.length > 0) {
+    const parentId = queue.shift();
+    classes
+      .filter(
+        (cls) => cls.parentId === parentId && !descendants.includes(cls.id)
+      )
+      .forEach((cls) => {
+        descendants.push(cls.id);
+        queue.push(cls.id);
+      });
+  }
+
+  return descendants;
+}
+
+/**
+ * Get the depth of the deepest class, top-level classes being at depth 0
+ */
+export function getMaxClassDepth(classes: TaxonomyNode[]): number {
+  return flattenClassTree(classes).reduce(
+    (max, { depth }) => Math.max(max, depth),
+    0
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * Helpers for object tracks across the frames of an image sequence
+ */
+
+import { SequenceFrameTracks } from "@/lib/types";
+
+type TrackBox = SequenceFrameTracks["objects"][number];
+
+/**
+ * Linearly interpolate the box of every track with keyframes on both sides
+ * of a frame, between the nearest keyframe before and after it. Boxes are
+ * normalized and center-based, like saved objects.
+ */
+export function interpolateTracks(
+  frames: SequenceFrameTracks[],
+  frameIndex: number
+): TrackBox[] {
+  const before = new Map<number, { frameIndex: number; box: TrackBox }>();
+  const after = new Map<number, { frameIndex: number; box: TrackBox }>();
+
+  for (const frame of frames) {
+    if (frame.frameIndex === frameIndex) continue;
+
+    for (const box of frame.objects) {
+      if (!box.keyframe || box.trackId === undefined) continue;
+
+      if (frame.frameIndex < frameIndex) {
+        const nearest = before.get(box.trackId);
+        if (!nearest || nearest.frameIndex < frame.frameIndex) {
+          before.set(box.trackId, { frameIndex: frame.frameIndex, box });
+        }
+      } else {
+        const nearest = after.get(box.trackId);
+        if (!nearest || nearest.frameIndex > frame.frameIndex) {
+          after.set(box.trackId, { frameIndex: frame.frameIndex, box });
+        }
+      }
+    }
+  }
+
+  const boxes: TrackBox[] = [];
+
+  before.forEach((start, trackId) => {
+    const end = after.get(trackId);
+    if (!end) return;
+
+    const t =
+      (frameIndex - start.frameIndex) / (end.frameIndex - start.frameIndex);
+    const lerp = (a: number, b: number) => a + (b - a) * t;
+
+    boxes.push({
+      classId: start.box.classId,
+      className: start.box.className,
+      x: lerp(start.box.x, end.box.x),
+      y: lerp(start.box.y, end.box.y),
+      width: lerp(start.box.width, end.box.width),
+      height: lerp(start.box.height, end.box.height),
+      trackId,
+      keyframe: false,
+    });
+  });
+
+  return boxes.sort((a, b) => a.trackId! - b.trackId!);
+}
+
+/**
+ * Get an unused track ID, one above the highest in the sequence
+ */
+export function getNextTrackId(
+  frames: SequenceFrameTracks[],
+  trackIds: Array<number | undefined>
+): number {
+  const used = [
+    ...frames.flatMap((frame) => frame.objects.map((obj) => obj.trackId)),
+    ...trackIds,
+  ].filter((trackId): trackId is number => trackId !== undefined);
+
+  return used.length > 0 ? Math.max(...used) + 1 : 1;
+}